@@ -1,7 +1,6 @@
 
-import React, { useState, useRef } from 'react';
-import { MOCK_PATIENT } from './constants';
-import { VisualizationLayers, ViewMode } from './types';
+import React, { useEffect, useState, useRef } from 'react';
+import { Annotation, PatientCase, VisualizationLayers, ViewMode, CTVolume, DicomSeriesGroup, DicomSlice, LungAnalysisResult, LungMetrics, Measurement, QCReport, ScanSeriesRef, TimePoint, Vec3 } from './types';
 import LungVisualizer from './components/LungVisualizer';
 import HandGestureController from './components/HandGestureController';
 import LandingPage from './components/LandingPage';
@@ -9,62 +8,566 @@ import GeminiAnalysisDisplay from './components/GeminiAnalysisDisplay';
 import AnalysisScreen from './components/AnalysisScreen';
 import LearningGuide from './components/LearningGuide';
 import AIChatHub from './components/AIChatHub';
+import SeriesPicker from './components/SeriesPicker';
+import MetricsPanel from './components/MetricsPanel';
+import SliceViewer from './components/SliceViewer';
+import AnnotationPanel from './components/AnnotationPanel';
+import CaseRegistry from './components/CaseRegistry';
+import StoredScans from './components/StoredScans';
 import { analyzeLungProgression } from './services/geminiService';
+import { parseDicomFile } from './services/dicomParser';
+import { buildVolumeFromSeries, groupDicomSeries } from './services/dicomSeries';
+import { isNiftiFileName, parseNiftiFile } from './services/niftiParser';
+import { AnalysisStage, runExpiratoryAnalysis, runLongitudinalAnalysis, runLungAnalysis } from './services/analysisPipeline';
+import { createEmptyMetrics } from './services/lungMetrics';
+import { QualityGateError } from './services/qualityControl';
+import { carryAnnotations, createAnnotation, EMPTY_ANNOTATION_FILTER, filterAnnotations } from './services/annotations';
+import { mapFixedToMoving, mapMovingToFixed } from './services/registration';
+import { mergeCase, removeTimePoint, upsertTimePoint } from './services/caseRegistry';
+import { caseBundleFileName, CaseBundleOptions, exportCaseBundle, ImportedCase, ImportResolution, storeImportedCase } from './services/caseBundle';
+import { buildFhirBundle, fhirFileName, validateFhirBundle } from './services/fhirExport';
+import { formatSchemaError } from './services/jsonSchema';
+import { dicomFileName, exportDicomArchive } from './services/dicomExport';
+import {
+  evictTimePointData, listStoredBinaries, loadAiAnalysis, loadCases, loadVolume, requestPersistentStorage, saveAiAnalysis,
+  saveCase, saveMeshes, saveVolume, storageEstimate, StoredBinary
+} from './services/caseStore';
 import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
 import {
   Upload, FileText, Activity, Maximize, Minimize,
-  Layers, Wind, Boxes, ScanFace, HeartPulse, CheckCircle, AlertTriangle, Box, MessageSquare
+  Layers, Wind, Boxes, ScanFace, HeartPulse, CheckCircle, AlertTriangle, Box, MessageSquare, FolderOpen, ArrowLeft, Scan, Users
 } from 'lucide-react';
 
+// DICOM DA "YYYYMMDD" -> ISO date; falls back to today for NIfTI or missing dates
+const scanDate = (volume: CTVolume) => {
+  const da = volume.metadata.study?.studyDate ?? '';
+  return /^\d{8}$/.test(da)
+    ? `${da.slice(0, 4)}-${da.slice(4, 6)}-${da.slice(6, 8)}`
+    : new Date().toISOString().slice(0, 10);
+};
+
+const seriesRef = (volume: CTVolume): ScanSeriesRef => ({
+  description: volume.metadata.study?.seriesDescription || volume.metadata.description,
+  seriesInstanceUID: volume.metadata.study?.seriesInstanceUID,
+});
+
+// Placeholder timepoint for a scan whose analysis is starting
+const pendingTimePoint = (volume: CTVolume): TimePoint => ({
+  id: `tp-${Date.now()}`,
+  date: scanDate(volume),
+  label: volume.metadata.study?.studyDescription || volume.metadata.description || 'New Scan',
+  scanImage: '',
+  metrics: createEmptyMetrics(),
+  analysisStatus: 'processing',
+  series: { inspiratory: seriesRef(volume) },
+});
+
+// Timepoint of the case already holding this series, so analysing the scan again updates it in place
+const existingTimePoint = (patientCase: PatientCase, volume: CTVolume) => {
+  const uid = volume.metadata.study?.seriesInstanceUID;
+  return uid ? patientCase.timeline.find(tp => tp.series?.inspiratory.seriesInstanceUID === uid) : undefined;
+};
+
+// Saves a generated file through the browser's download prompt
+const downloadFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Non-standard attributes that let the file input pick a whole folder
+const FOLDER_INPUT_PROPS = { webkitdirectory: '', directory: '' } as React.InputHTMLAttributes<HTMLInputElement>;
+
 const App: React.FC = () => {
   // Workflow State
   const [showLanding, setShowLanding] = useState(true);
-  const [appState, setAppState] = useState<'upload' | 'analyzing' | 'results'>('upload');
+  const [appState, setAppState] = useState<'cases' | 'upload' | 'analyzing' | 'results'>('cases');
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [isLearningMode, setIsLearningMode] = useState(false);
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [aiAnalysis, setAiAnalysis] = useState<string>('');
+  const [summaryPending, setSummaryPending] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  // Quality report of a scan the pipeline refused, shown with the upload error
+  const [rejectedQc, setRejectedQc] = useState<QCReport | null>(null);
+  const [readProgress, setReadProgress] = useState<{ done: number; total: number } | null>(null);
+  const [seriesOptions, setSeriesOptions] = useState<DicomSeriesGroup[] | null>(null);
+  const [skippedFiles, setSkippedFiles] = useState(0);
+  const [analysisResult, setAnalysisResult] = useState<LungAnalysisResult | null>(null);
+  // Case registry; the open case and timepoint are referenced by ID so every panel reads the registry.
+  // It starts empty: every case in it is a real one, created here, imported or loaded from storage.
+  const [cases, setCases] = useState<PatientCase[]>([]);
+  const [activeCaseId, setActiveCaseId] = useState<string | null>(null);
+  const [timePointId, setTimePointId] = useState<string | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<{ stage: AnalysisStage | null; partial: Partial<LungAnalysisResult> }>({ stage: null, partial: {} });
+  const [summaryTab, setSummaryTab] = useState<'ai' | 'metrics'>('ai');
+  // Which scan of the timepoint the upload screen is collecting
+  const [uploadPhase, setUploadPhase] = useState<'inspiratory' | 'expiratory' | 'baseline'>('inspiratory');
+  const [baselinePointId, setBaselinePointId] = useState<string | null>(null);
+  // Local persistence: cases load once, then every changed case is written back
+  const [storageReady, setStorageReady] = useState(false);
+  const [storageWarning, setStorageWarning] = useState<string | null>(null);
+  const [storedBinaries, setStoredBinaries] = useState<StoredBinary[]>([]);
+  const [storageUsage, setStorageUsage] = useState<{ usage: number; quota: number } | null>(null);
+  const savedCasesRef = useRef(new Map<string, PatientCase>());
+  // Summaries arrive after the results screen opens; only the open timepoint's is shown
+  const timePointIdRef = useRef<string | null>(null);
+  useEffect(() => { timePointIdRef.current = timePointId; }, [timePointId]);
+  // Right-hand preview: the 3D model or the source slices around a shared cursor (LPS mm)
+  const [previewMode, setPreviewMode] = useState<'3d' | 'slices'>('3d');
+  const [sliceCursor, setSliceCursor] = useState<Vec3 | null>(null);
+  const [annotationFilter, setAnnotationFilter] = useState(EMPTY_ANNOTATION_FILTER);
+  const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null);
+  const [noteAuthor, setNoteAuthor] = useState('');
+  const [placingPin, setPlacingPin] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
 
   // 3D Controls Refs (One for each visualizer instance to avoid conflicts)
   const normalControlsRef = useRef<OrbitControls | null>(null);
   const fullScreenControlsRef = useRef<OrbitControls | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
 
   // Visual Layer State
   const [layers, setLayers] = useState<VisualizationLayers>({
     leftLung: true, rightLung: true, lobes: false, bronchi: true,
     bronchioles: false, alveoli: true, vasculature: true, pleura: true,
-    airflow: true, fibrosisMap: false, motion: true
+    airflow: true, fibrosisMap: false, volumeChange: false, motion: true, slicePlanes: false
   });
 
+  const reportStorageError = (err: unknown) => {
+    console.error("Storage Error:", err);
+    setStorageWarning(err instanceof Error ? err.message : 'Saving to local storage failed.');
+  };
+
+  const refreshStoredData = () => {
+    listStoredBinaries().then(setStoredBinaries).catch(reportStorageError);
+    storageEstimate().then(setStorageUsage).catch(reportStorageError);
+  };
+
+  useEffect(() => {
+    requestPersistentStorage().catch(() => false);
+    loadCases()
+      .then(stored => {
+        if (stored.length === 0) return;
+        stored.forEach(c => savedCasesRef.current.set(c.id, c));
+        // Cases created or imported while loading are newer than their stored copies
+        setCases(prev => [...stored.filter(c => !prev.some(p => p.id === c.id)), ...prev]);
+      })
+      .catch(reportStorageError)
+      .finally(() => setStorageReady(true));
+    refreshStoredData();
+  }, []);
+
+  // Registry updates are immutable, so a changed case is a new object
+  useEffect(() => {
+    if (!storageReady) return;
+    for (const c of cases) {
+      if (savedCasesRef.current.get(c.id) === c) continue;
+      savedCasesRef.current.set(c.id, c);
+      saveCase(c).catch(reportStorageError);
+    }
+  }, [cases, storageReady]);
+
+  // Scan data is written in the background; a failure only costs the ability to reopen the scan later
+  const storeScanData = (writes: Promise<void>[]) => {
+    Promise.all(writes).then(refreshStoredData, err => { reportStorageError(err); refreshStoredData(); });
+  };
+
+  // Bundled cases join the registry; their summaries, meshes and volumes go to local storage
+  const importCases = (imported: ImportedCase[], resolutions: Record<string, ImportResolution>) => {
+    const accepted = imported.filter(item => resolutions[item.patientCase.id] !== 'skip');
+    setCases(prev => accepted.reduce((next, { patientCase }) => {
+      const existing = next.find(c => c.id === patientCase.id);
+      if (!existing) return [...next, patientCase];
+      const updated = resolutions[patientCase.id] === 'replace' ? patientCase : mergeCase(existing, patientCase);
+      return next.map(c => (c.id === patientCase.id ? updated : c));
+    }, prev));
+    // A case new to this device has nothing stored, so merging its data writes all of it
+    storeScanData(accepted.map(item => storeImportedCase(item, resolutions[item.patientCase.id] ?? 'merge')));
+  };
+
+  // Generates and stores a timepoint's AI summary in the background. Until a new one
+  // arrives the current one stays; a timepoint with none generated simply has no summary.
+  const summarize = (caseId: string, tpId: string, metrics: LungMetrics, baseline: LungMetrics | null) => {
+    setSummaryPending(true);
+    analyzeLungProgression(metrics, baseline, ViewMode.DOCTOR)
+      .then(text => {
+        storeScanData([saveAiAnalysis(caseId, tpId, text)]);
+        if (timePointIdRef.current === tpId) setAiAnalysis(text);
+      })
+      .catch(err => console.error("AI Summary Error:", err))
+      .finally(() => { if (timePointIdRef.current === tpId) setSummaryPending(false); });
+  };
+
+  // Metrics of the case's first other completed scan, which a summary compares against
+  const earlierMetrics = (patientCase: PatientCase, tpId: string) =>
+    patientCase.timeline.find(tp => tp.id !== tpId && tp.analysisStatus === 'completed')?.metrics ?? null;
+
+  const exportCases = async (ids: string[], options: CaseBundleOptions) => {
+    const chosen = cases.filter(c => ids.includes(c.id));
+    downloadFile(await exportCaseBundle(chosen, options), caseBundleFileName(chosen));
+  };
+
+  // FHIR transaction Bundle of the open timepoint, checked against the bundled schema before it is offered
+  const exportFhir = async () => {
+    if (!activeCase || !timePoint) return;
+    setExportError(null);
+    let summary: string | null;
+    try {
+      summary = await loadAiAnalysis(activeCase.id, timePoint.id);
+    } catch (err) {
+      console.error("FHIR Export Error:", err);
+      setExportError('The AI summary of this scan could not be read from local storage.');
+      return;
+    }
+    const bundle = buildFhirBundle({
+      patientCase: activeCase,
+      timePoint,
+      // The stored summary is the one generated for this timepoint; with none, the report has no conclusion
+      summary,
+      dicomPatient: analysisResult?.volume.metadata.patient,
+    });
+    const problems = validateFhirBundle(bundle);
+    if (problems.length > 0) {
+      console.error("FHIR Export Error:", problems);
+      setExportError(`FHIR export failed schema validation: ${problems.slice(0, 3).map(formatSchemaError).join('; ')}`);
+      return;
+    }
+    downloadFile(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json' }), fhirFileName(activeCase, timePoint));
+  };
+
+  // Segmentation (SEG) and measurement report (SR) joining the source study, for PACS
+  const exportDicom = async () => {
+    if (!activeCase || !timePoint || !analysisResult) return;
+    setExportError(null);
+    try {
+      downloadFile(await exportDicomArchive(analysisResult), dicomFileName(activeCase, timePoint));
+    } catch (err) {
+      console.error("DICOM Export Error:", err);
+      setExportError(err instanceof Error ? err.message : 'DICOM export failed.');
+    }
+  };
+
   const toggleLayer = (key: keyof VisualizationLayers) => {
     setLayers(prev => ({ ...prev, [key]: !prev[key] }));
   };
 
-  const handleUpload = () => {
+  const activeCase = cases.find(c => c.id === activeCaseId) ?? null;
+  const timePoint = activeCase?.timeline.find(tp => tp.id === timePointId) ?? null;
+  const baselinePoint = activeCase?.timeline.find(tp => tp.id === baselinePointId) ?? null;
+  // Registered baseline if there is one, otherwise the case's earliest other completed scan
+  const comparisonPoint = baselinePoint ?? activeCase?.timeline.find(tp => tp.id !== timePointId && tp.analysisStatus === 'completed') ?? null;
+
+  const updateCase = (id: string, update: (patientCase: PatientCase) => PatientCase) =>
+    setCases(prev => prev.map(c => (c.id === id ? update(c) : c)));
+
+  const saveTimePoint = (caseId: string, tp: TimePoint) => updateCase(caseId, c => upsertTimePoint(c, tp));
+
+  // Applies an update to the open timepoint in the registry
+  const updateTimePoint = (update: (tp: TimePoint) => TimePoint) => {
+    if (!activeCaseId || !timePointId) return;
+    updateCase(activeCaseId, c => ({ ...c, timeline: c.timeline.map(tp => (tp.id === timePointId ? update(tp) : tp)) }));
+  };
+
+  const showAnalysisError = (err: unknown, fallback: string) => {
+    setUploadError(err instanceof Error ? err.message : fallback);
+    setRejectedQc(err instanceof QualityGateError ? err.report : null);
+  };
+
+  // Measurements are kept with the timepoint they were taken on
+  const handleMeasurementsChange = (measurements: Measurement[]) =>
+    updateTimePoint(tp => ({ ...tp, measurements }));
+
+  const handleAnnotationsChange = (annotations: Annotation[]) =>
+    updateTimePoint(tp => ({ ...tp, annotations }));
+
+  const handlePinPlaced = (position: Vec3) => {
+    const annotation = createAnnotation(position, '', noteAuthor);
+    updateTimePoint(tp => ({ ...tp, annotations: [...(tp.annotations ?? []), annotation] }));
+    setSelectedAnnotationId(annotation.id);
+    setPlacingPin(false);
+  };
+
+  const visibleAnnotations = filterAnnotations(timePoint?.annotations ?? [], annotationFilter);
+
+  // Adds the scan to the open case as a new timepoint (or re-analyses the timepoint holding it)
+  const handleUpload = async (volume: CTVolume) => {
+    if (!activeCase) return;
+    const caseId = activeCase.id;
+    const previous = existingTimePoint(activeCase, volume);
+    setAnalysisProgress({ stage: null, partial: { volume } });
     setAppState('analyzing');
+    const pending: TimePoint = previous ? { ...previous, analysisStatus: 'processing' } : pendingTimePoint(volume);
+    saveTimePoint(caseId, pending);
+    setTimePointId(pending.id);
+    setBaselinePointId(null);
+    setSliceCursor(null);
+    setSelectedAnnotationId(null);
+    setPlacingPin(false);
 
-    // Simulate AI Processing Delay (No API Call)
-    setTimeout(() => {
-      const hardcodedAnalysis = `* **Restrictive Physiology and Volume Loss:** Total lung volume decreased by 13.1% (550 mL) over the 24-month period, with a concurrent decline in the expansion ratio from 0.85 to 0.58, indicating significant loss of parenchymal compliance and progressive lobar volume contraction.
+    try {
+      const result = await runLungAnalysis(volume, (stage, partial) => setAnalysisProgress({ stage, partial }));
 
-* **Interstitial Stiffness Progression:** The stiffness index increased more than threefold (2.1 to 6.8), suggesting accelerated fibrotic progression and increased mechanical impedance of the pulmonary interstitium.
+      setAnalysisResult(result);
+      saveTimePoint(caseId, { ...pending, metrics: result.metrics, analysisStatus: 'completed' });
+      setAiAnalysis('');
+      summarize(caseId, pending.id, result.metrics, earlierMetrics(activeCase, pending.id));
+      storeScanData([
+        saveVolume(caseId, pending.id, 'inspiratory', volume),
+        saveMeshes(caseId, pending.id, result.meshes),
+      ]);
+      setAppState('results');
+    } catch (err) {
+      console.error("Analysis Error:", err);
+      showAnalysisError(err, 'Analysis failed for this scan.');
+      updateCase(caseId, c => (previous ? upsertTimePoint(c, previous) : removeTimePoint(c, pending.id)));
+      setTimePointId(null);
+      setAnalysisResult(null);
+      setAppState('upload');
+    }
+  };
 
-* **Small Airway and Architectural Distortion:** Air trapping escalated from 5% to 18%, reflecting significant distal airway`;
+  // Pairs an expiratory scan with the analysed inspiratory one of the current timepoint
+  const handleExpiratoryUpload = async (volume: CTVolume) => {
+    if (!analysisResult || !activeCase || !timePoint?.series) return;
+    setAnalysisProgress({ stage: null, partial: { volume } });
+    setAppState('analyzing');
 
-      setAiAnalysis(hardcodedAnalysis);
+    try {
+      const result = await runExpiratoryAnalysis(analysisResult, volume, (stage, partial) => setAnalysisProgress({ stage, partial }));
+      setAnalysisResult(result);
+      saveTimePoint(activeCase.id, {
+        ...timePoint,
+        metrics: result.metrics,
+        series: { ...timePoint.series, expiratory: seriesRef(volume) },
+      });
+      storeScanData([saveVolume(activeCase.id, timePoint.id, 'expiratory', volume)]);
+      summarize(activeCase.id, timePoint.id, result.metrics, comparisonPoint?.metrics ?? null);
+      setUploadPhase('inspiratory');
+      setSummaryTab('metrics');
       setAppState('results');
-    }, 8000);
+    } catch (err) {
+      console.error("Expiratory Analysis Error:", err);
+      showAnalysisError(err, 'Analysis failed for the expiratory scan.');
+      setAppState('upload');
+    }
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      handleUpload();
+  // Registers an earlier scan of the patient onto the current one for regional change
+  const handleBaselineUpload = async (volume: CTVolume) => {
+    if (!analysisResult || !activeCase || !timePoint) return;
+    setAnalysisProgress({ stage: null, partial: { volume } });
+    setAppState('analyzing');
+
+    try {
+      const result = await runLongitudinalAnalysis(analysisResult, volume, (stage, partial) => setAnalysisProgress({ stage, partial }));
+      setAnalysisResult(result);
+      // Pins follow the registration both ways: the current scan is fixed, the baseline moving
+      const { registration } = result.longitudinal!;
+      // An earlier timepoint of the case holding this scan keeps its ID, label and pins
+      const previous = existingTimePoint(activeCase, volume);
+      const baseline: TimePoint = {
+        ...(previous ?? { ...pendingTimePoint(volume), label: 'Baseline' }),
+        metrics: result.longitudinal!.baseline.metrics,
+        analysisStatus: 'completed',
+      };
+      saveTimePoint(activeCase.id, { ...baseline, annotations: carryAnnotations(timePoint, baseline, p => mapFixedToMoving(registration, p)) });
+      saveTimePoint(activeCase.id, { ...timePoint, annotations: carryAnnotations(baseline, timePoint, p => mapMovingToFixed(registration, p)) });
+      setBaselinePointId(baseline.id);
+      summarize(activeCase.id, timePoint.id, result.metrics, baseline.metrics);
+      storeScanData([
+        saveVolume(activeCase.id, baseline.id, 'inspiratory', volume),
+        saveMeshes(activeCase.id, baseline.id, result.longitudinal!.baseline.meshes),
+      ]);
+      setUploadPhase('inspiratory');
+      setSummaryTab('metrics');
+      setAppState('results');
+    } catch (err) {
+      console.error("Baseline Analysis Error:", err);
+      showAnalysisError(err, 'Analysis failed for the baseline scan.');
+      setAppState('upload');
     }
   };
 
+  // Re-runs the analysis of a timepoint from its stored scan(s), e.g. after a reload
+  const reopenTimePoint = async (tp: TimePoint) => {
+    if (!activeCase) return;
+    const caseId = activeCase.id;
+    setUploadError(null);
+    setRejectedQc(null);
+    try {
+      const volume = await loadVolume(caseId, tp.id, 'inspiratory');
+      if (!volume) throw new Error('The stored scan of this timepoint is no longer on this device.');
+      const onStage = (stage: AnalysisStage, partial: Partial<LungAnalysisResult>) => setAnalysisProgress({ stage, partial });
+      setAnalysisProgress({ stage: null, partial: { volume } });
+      setAppState('analyzing');
+      setBaselinePointId(null);
+      setSliceCursor(null);
+      setSelectedAnnotationId(null);
+      setPlacingPin(false);
+
+      let result = await runLungAnalysis(volume, onStage);
+      const expiratory = tp.series?.expiratory ? await loadVolume(caseId, tp.id, 'expiratory') : null;
+      if (expiratory) result = await runExpiratoryAnalysis(result, expiratory, onStage);
+
+      setAnalysisResult(result);
+      setTimePointId(tp.id);
+      saveTimePoint(caseId, { ...tp, metrics: result.metrics, analysisStatus: 'completed' });
+      const summary = await loadAiAnalysis(caseId, tp.id);
+      setAiAnalysis(summary ?? '');
+      setSummaryPending(false);
+      if (summary === null) summarize(caseId, tp.id, result.metrics, earlierMetrics(activeCase, tp.id));
+      setAppState('results');
+      refreshStoredData();
+    } catch (err) {
+      console.error("Reopen Error:", err);
+      showAnalysisError(err, 'Unable to reopen the stored scan.');
+      setAppState('upload');
+    }
+  };
+
+  const evictScan = (tp: TimePoint) => {
+    if (!activeCase) return;
+    evictTimePointData(activeCase.id, tp.id).then(refreshStoredData, reportStorageError);
+  };
+
+  const analyzeVolume = (volume: CTVolume) =>
+    uploadPhase === 'expiratory' ? handleExpiratoryUpload(volume)
+      : uploadPhase === 'baseline' ? handleBaselineUpload(volume)
+        : handleUpload(volume);
+
+  const startSeries = (series: DicomSeriesGroup) => {
+    setSeriesOptions(null);
+    try {
+      analyzeVolume(buildVolumeFromSeries(series));
+    } catch (err) {
+      console.error("Volume Assembly Error:", err);
+      setUploadError(err instanceof Error ? err.message : 'Unable to assemble the selected series.');
+    }
+  };
+
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    setUploadError(null);
+    setRejectedQc(null);
+    setSeriesOptions(null);
+
+    // Research volumes: a single NIfTI file goes straight to the pipeline
+    const niftiFiles = files.filter(f => isNiftiFileName(f.name));
+    if (niftiFiles.length > 0) {
+      if (niftiFiles.length > 1 || files.length > 1) {
+        setUploadError('Select one NIfTI volume at a time, without other files.');
+        return;
+      }
+      setReadProgress({ done: 0, total: 1 });
+      try {
+        analyzeVolume(await parseNiftiFile(niftiFiles[0]));
+      } catch (err) {
+        console.error("NIfTI Parse Error:", err);
+        setUploadError(err instanceof Error ? err.message : 'Unable to read the NIfTI file.');
+      } finally {
+        setReadProgress(null);
+      }
+      return;
+    }
+
+    const slices: DicomSlice[] = [];
+    const failures: string[] = [];
+    try {
+      for (let i = 0; i < files.length; i++) {
+        setReadProgress({ done: i, total: files.length });
+        try {
+          slices.push(await parseDicomFile(files[i]));
+        } catch (err) {
+          failures.push(err instanceof Error ? err.message : String(err));
+        }
+      }
+    } finally {
+      setReadProgress(null);
+    }
+
+    if (slices.length === 0) {
+      console.error("DICOM Parse Error:", failures);
+      setUploadError(files.length === 1
+        ? failures[0]
+        : `None of the ${files.length} files could be read as DICOM images. First error: ${failures[0]}`);
+      return;
+    }
+
+    const groups = groupDicomSeries(slices);
+    setSkippedFiles(failures.length);
+    if (groups.length > 1) {
+      setSeriesOptions(groups);
+    } else {
+      startSeries(groups[0]);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files ?? []);
+    // Reset so picking the same files again still fires onChange
+    e.target.value = '';
+    handleFiles(files);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    handleFiles(Array.from<File>(e.dataTransfer.files));
+  };
+
   const triggerFileUpload = () => {
-    fileInputRef.current?.click();
+    if (!readProgress) fileInputRef.current?.click();
+  };
+
+  const triggerFolderUpload = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!readProgress) folderInputRef.current?.click();
+  };
+
+  // Upload of another scan for the open case; its results stay loaded until that analysis succeeds
+  const startNewScan = () => {
+    setUploadError(null);
+    setRejectedQc(null);
+    setSeriesOptions(null);
+    setUploadPhase('inspiratory');
+    setAppState('upload');
+  };
+
+  // Opening the case whose results are loaded returns to them; any other case starts a new scan upload
+  const openCase = (id: string) => {
+    if (id === activeCaseId && analysisResult) {
+      setAppState('results');
+      return;
+    }
+    setActiveCaseId(id);
+    setAnalysisResult(null);
+    setTimePointId(null);
+    setBaselinePointId(null);
+    setAiAnalysis('');
+    setSliceCursor(null);
+    setSelectedAnnotationId(null);
+    setPlacingPin(false);
+    startNewScan();
+  };
+
+  const startPairedUpload = (phase: 'expiratory' | 'baseline') => {
+    setUploadError(null);
+    setRejectedQc(null);
+    setUploadPhase(phase);
+    setAppState('upload');
+  };
+
+  const cancelPairedUpload = () => {
+    setUploadError(null);
+    setRejectedQc(null);
+    setSeriesOptions(null);
+    setUploadPhase('inspiratory');
+    setAppState('results');
   };
 
   // Reusable Layer Toggle Component
@@ -74,11 +577,14 @@ const App: React.FC = () => {
         { label: 'Left Lung', key: 'leftLung', icon: <Boxes size={14} />, color: 'bg-rose-200' },
         { label: 'Right Lung', key: 'rightLung', icon: <Boxes size={14} />, color: 'bg-rose-200' },
         { label: 'Airways', key: 'bronchi', icon: <Wind size={14} />, color: 'bg-slate-100' },
+        { label: 'Bronchioles', key: 'bronchioles', icon: <Wind size={14} />, color: 'bg-sky-100' },
         { label: 'Alveoli', key: 'alveoli', icon: <ScanFace size={14} />, color: 'bg-rose-300' },
         { label: 'Vessels', key: 'vasculature', icon: <HeartPulse size={14} />, color: 'bg-red-500' },
         { label: 'Pleura', key: 'pleura', icon: <Activity size={14} />, color: 'bg-slate-500' },
         { label: 'Fibrosis', key: 'fibrosisMap', icon: <AlertTriangle size={14} />, color: 'bg-amber-500' },
+        { label: 'Volume Change', key: 'volumeChange', icon: <Activity size={14} />, color: 'bg-sky-400' },
         { label: 'Airflow', key: 'airflow', icon: <Wind size={14} />, color: 'bg-cyan-200' },
+        { label: 'CT Slice Planes', key: 'slicePlanes', icon: <Scan size={14} />, color: 'bg-yellow-400' },
       ].map((item) => (
         <div key={item.key} className="flex items-center justify-between py-2 px-3 hover:bg-white/5 rounded-lg transition-colors group cursor-pointer" onClick={() => toggleLayer(item.key as keyof VisualizationLayers)}>
           <div className="flex items-center gap-3 text-slate-300 group-hover:text-white">
@@ -98,38 +604,128 @@ const App: React.FC = () => {
     return <LandingPage onBegin={() => setShowLanding(false)} />;
   }
 
+  // --- SCREEN 0: CASE REGISTRY ---
+  if (appState === 'cases' || !activeCase) {
+    return (
+      <CaseRegistry
+        cases={cases}
+        activeCaseId={analysisResult ? activeCaseId : null}
+        onCreate={patientCase => setCases(prev => [...prev, patientCase])}
+        onOpen={openCase}
+        onImport={importCases}
+        onExport={exportCases}
+      />
+    );
+  }
+
   // --- SCREEN 1: UPLOAD ---
   if (appState === 'upload') {
     return (
-      <div className="flex h-screen bg-slate-950 items-center justify-center p-6">
+      <div className="flex flex-col gap-4 h-screen bg-slate-950 items-center justify-center p-6">
         <input
           type="file"
           ref={fileInputRef}
           className="hidden"
-          accept="image/*,.dcm"
+          accept=".dcm,application/dicom,.nii,.nii.gz,.gz"
+          multiple
           onChange={handleFileChange}
         />
-        <div
-          onClick={triggerFileUpload}
-          className="w-full max-w-2xl aspect-[16/9] border-2 border-dashed border-slate-700 rounded-3xl bg-slate-900/50 hover:bg-slate-900 hover:border-cyan-500/50 transition-all cursor-pointer flex flex-col items-center justify-center group relative overflow-hidden"
-        >
-          <div className="absolute inset-0 bg-gradient-to-br from-cyan-500/5 to-purple-500/5 opacity-0 group-hover:opacity-100 transition-opacity"></div>
-          <div className="w-20 h-20 bg-slate-800 rounded-2xl flex items-center justify-center mb-6 shadow-xl group-hover:scale-110 transition-transform">
-            <Upload className="text-cyan-400" size={40} />
+        <input
+          type="file"
+          ref={folderInputRef}
+          className="hidden"
+          onChange={handleFileChange}
+          {...FOLDER_INPUT_PROPS}
+        />
+        {seriesOptions ? (
+          <SeriesPicker
+            series={seriesOptions}
+            skippedFiles={skippedFiles}
+            onSelect={startSeries}
+            onCancel={() => setSeriesOptions(null)}
+          />
+        ) : (
+          <div
+            onClick={triggerFileUpload}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={handleDrop}
+            className="w-full max-w-2xl aspect-[16/9] border-2 border-dashed border-slate-700 rounded-3xl bg-slate-900/50 hover:bg-slate-900 hover:border-cyan-500/50 transition-all cursor-pointer flex flex-col items-center justify-center group relative overflow-hidden"
+          >
+            <div className="absolute inset-0 bg-gradient-to-br from-cyan-500/5 to-purple-500/5 opacity-0 group-hover:opacity-100 transition-opacity"></div>
+            <div className="w-20 h-20 bg-slate-800 rounded-2xl flex items-center justify-center mb-6 shadow-xl group-hover:scale-110 transition-transform">
+              <Upload className="text-cyan-400" size={40} />
+            </div>
+            <h2 className="text-2xl font-bold text-white mb-2">
+              {uploadPhase === 'expiratory' ? 'Upload Expiratory CT Scan' : uploadPhase === 'baseline' ? 'Upload Baseline CT Scan' : 'Upload CT Scan'}
+            </h2>
+            <p className="text-slate-400">
+              {readProgress
+                ? `Reading files... ${readProgress.done} / ${readProgress.total}`
+                : uploadPhase === 'expiratory'
+                  ? 'Select the end-expiration series acquired with the inspiratory scan of this timepoint'
+                  : uploadPhase === 'baseline'
+                    ? 'Select an earlier inspiratory scan of the same patient to map regional change'
+                    : 'Click to select the DICOM files of a CT series or a NIfTI volume, or drag & drop them here'}
+            </p>
+            <button
+              onClick={triggerFolderUpload}
+              className="mt-6 relative z-10 flex items-center gap-2 px-4 py-2 rounded-full border border-slate-700 text-slate-300 text-sm hover:border-cyan-500/50 hover:text-white transition-colors"
+            >
+              <FolderOpen size={16} /> Select Folder
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); if (uploadPhase !== 'inspiratory') cancelPairedUpload(); else setAppState('cases'); }}
+              className="absolute top-6 left-6 z-10 flex items-center gap-2 text-slate-400 text-sm hover:text-white transition-colors"
+            >
+              <ArrowLeft size={16} /> {uploadPhase !== 'inspiratory' ? 'Back to results' : 'Back to cases'}
+            </button>
+            <p className="absolute top-6 right-6 z-10 text-slate-500 text-sm">
+              {activeCase.name} <span className="font-mono">{activeCase.id}</span>
+            </p>
+            {uploadError && (
+              <div className="absolute bottom-6 left-6 right-6 bg-rose-950/80 border border-rose-800 text-rose-200 text-sm px-4 py-3 rounded-xl flex items-start gap-2">
+                <AlertTriangle size={16} className="mt-0.5 flex-shrink-0 text-rose-400" />
+                {rejectedQc ? (
+                  <div>
+                    <p className="font-medium mb-1">Scan failed quality control; no metrics were produced.</p>
+                    <ul className="space-y-0.5 text-xs">
+                      {rejectedQc.checks.filter(c => c.severity !== 'pass').map(c => (
+                        <li key={`${c.scan}-${c.key}`} className={c.severity === 'fail' ? 'text-rose-200' : 'text-amber-200/80'}>
+                          <span className="font-semibold">{c.label}{c.severity === 'fail' ? '' : ' (warning)'}:</span> {c.detail}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : (
+                  <span>{uploadError}</span>
+                )}
+              </div>
+            )}
           </div>
-          <h2 className="text-2xl font-bold text-white mb-2">Upload CT Scan</h2>
-          <p className="text-slate-400">Click to select a CT image or drag & drop DICOM files</p>
-        </div>
+        )}
+        {!seriesOptions && uploadPhase === 'inspiratory' && (activeCase.timeline.length > 0 || storageWarning) && (
+          <StoredScans
+            timeline={activeCase.timeline}
+            binaries={storedBinaries.filter(b => b.caseId === activeCase.id)}
+            estimate={storageUsage}
+            warning={storageWarning}
+            onReopen={reopenTimePoint}
+            onEvict={evictScan}
+          />
+        )}
       </div>
     );
   }
 
   // --- SCREEN 2: ANALYZING ---
   if (appState === 'analyzing') {
-    return <AnalysisScreen />;
+    return <AnalysisScreen stage={analysisProgress.stage} partial={analysisProgress.partial} />;
   }
 
   // --- SCREEN 3: RESULTS (Main) ---
+  const metrics = timePoint?.metrics ?? createEmptyMetrics();
+  const patientId = analysisResult?.volume.metadata.patient?.patientId || activeCase.id;
+
   return (
     <div className={`flex h-screen bg-slate-950 overflow-hidden relative transition-all duration-500 ${isFullscreen ? 'p-0' : 'p-6 lg:p-10'}`}>
 
@@ -151,15 +747,96 @@ const App: React.FC = () => {
               <Activity size={12} /> AI Analysis Complete
             </div>
             <h1 className="text-4xl font-bold text-white mb-2">Structural Assessment</h1>
-            <p className="text-slate-400">Patient ID: {MOCK_PATIENT.id}</p>
+            <p className="text-slate-400">
+              {activeCase.name} · {activeCase.age} y · {activeCase.condition} · Patient ID: {patientId}
+              {timePoint && <span className="text-slate-500"> · {timePoint.label} ({timePoint.date})</span>}
+            </p>
+            {storageWarning && <p className="text-amber-300/80 text-xs mt-1">{storageWarning}</p>}
+            {exportError && <p className="text-rose-300/80 text-xs mt-1">{exportError}</p>}
+            <div className="mt-3 flex flex-wrap items-center gap-3">
+              <button
+                onClick={() => setAppState('cases')}
+                className="flex items-center gap-2 px-3 py-1 rounded-full border border-slate-700 text-slate-300 text-xs hover:border-cyan-500/50 hover:text-white transition-colors"
+              >
+                <Users size={12} /> Cases
+              </button>
+              <button
+                onClick={startNewScan}
+                className="flex items-center gap-2 px-3 py-1 rounded-full border border-slate-700 text-slate-300 text-xs hover:border-cyan-500/50 hover:text-white transition-colors"
+              >
+                <Upload size={12} /> New Scan for This Case
+              </button>
+              {timePoint?.analysisStatus === 'completed' && (
+                <button
+                  onClick={exportFhir}
+                  className="flex items-center gap-2 px-3 py-1 rounded-full border border-slate-700 text-slate-300 text-xs hover:border-cyan-500/50 hover:text-white transition-colors"
+                  title="Download metrics, QC checks and the AI summary as a FHIR R4 transaction Bundle"
+                >
+                  <FileText size={12} /> Export FHIR
+                </button>
+              )}
+              {timePoint?.analysisStatus === 'completed' && analysisResult?.volume.metadata.source === 'dicom' && (
+                <button
+                  onClick={exportDicom}
+                  className="flex items-center gap-2 px-3 py-1 rounded-full border border-slate-700 text-slate-300 text-xs hover:border-cyan-500/50 hover:text-white transition-colors"
+                  title="Download the lung, lobe and bulla masks as DICOM SEG and the measurements as a DICOM SR, in the source study"
+                >
+                  <Layers size={12} /> Export DICOM
+                </button>
+              )}
+            </div>
+            {analysisResult && (
+              <div className="mt-3 flex flex-wrap items-center gap-3">
+                {analysisResult.expiratory ? (
+                  <p className="text-slate-500 text-xs">
+                    Paired expiratory scan: {timePoint?.series?.expiratory?.description || 'unnamed series'} · lung overlap after registration {(analysisResult.expiratory.registration.dice * 100).toFixed(0)}%
+                  </p>
+                ) : (
+                  <button
+                    onClick={() => startPairedUpload('expiratory')}
+                    className="flex items-center gap-2 px-3 py-1 rounded-full border border-slate-700 text-slate-300 text-xs hover:border-cyan-500/50 hover:text-white transition-colors"
+                  >
+                    <Upload size={12} /> Add Expiratory Scan
+                  </button>
+                )}
+                {analysisResult.longitudinal ? (
+                  <p className="text-slate-500 text-xs">
+                    Baseline {baselinePoint?.date ?? ''} registered · lung overlap {(analysisResult.longitudinal.registration.dice * 100).toFixed(0)}%
+                  </p>
+                ) : (
+                  <button
+                    onClick={() => startPairedUpload('baseline')}
+                    className="flex items-center gap-2 px-3 py-1 rounded-full border border-slate-700 text-slate-300 text-xs hover:border-cyan-500/50 hover:text-white transition-colors"
+                  >
+                    <Upload size={12} /> Compare with Baseline Scan
+                  </button>
+                )}
+              </div>
+            )}
           </div>
 
           <div className="bg-slate-900/80 border border-slate-800 rounded-2xl p-6 shadow-2xl backdrop-blur-sm relative overflow-hidden group">
             <div className="absolute top-0 left-0 w-1 h-full bg-cyan-500"></div>
 
+            <div className="flex gap-2 mb-4 relative z-10">
+              {([['ai', 'AI Summary'], ['metrics', 'Measured Metrics']] as const).map(([tab, label]) => (
+                <button
+                  key={tab}
+                  onClick={() => setSummaryTab(tab)}
+                  className={`px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wider transition-colors ${summaryTab === tab ? 'bg-cyan-500 text-black' : 'text-slate-400 hover:text-white'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
             {/* New Graphic Display */}
             <div className="h-[420px] relative z-10">
-              <GeminiAnalysisDisplay analysis={aiAnalysis} />
+              {summaryTab === 'ai' || !timePoint ? (
+                <GeminiAnalysisDisplay analysis={aiAnalysis} pending={summaryPending} />
+              ) : (
+                <MetricsPanel currentPoint={timePoint} timeline={activeCase.timeline.filter(tp => tp.analysisStatus === 'completed')} baselinePoint={comparisonPoint} viewMode={ViewMode.DOCTOR} />
+              )}
             </div>
 
             {/* Background shimmer effect for premium feel */}
@@ -167,18 +844,18 @@ const App: React.FC = () => {
           </div>
         </div>
 
-        {/* RIGHT COLUMN: CONFIDENCE + 3D PREVIEW */}
+        {/* RIGHT COLUMN: CASE + 3D PREVIEW */}
         <div className="flex-1 flex flex-col gap-6 animate-in slide-in-from-right-10 duration-700 delay-100">
 
-          {/* CONFIDENCE CARD */}
+          {/* CASE CARD: the condition as recorded for the case, not a model prediction */}
           <div className="bg-slate-900/80 border border-slate-800 p-5 rounded-2xl flex items-center justify-between shadow-lg">
             <div>
-              <p className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-1">Diagnosis Confidence</p>
-              <h3 className="text-xl font-bold text-white">IPF Pattern Match</h3>
+              <p className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-1">Recorded Condition</p>
+              <h3 className="text-xl font-bold text-white">{activeCase.condition || 'Not recorded'}</h3>
             </div>
             <div className="text-right">
-              <div className="text-3xl font-bold text-cyan-400">94%</div>
-              <p className="text-emerald-500 text-xs font-medium">High Confidence</p>
+              <div className="text-3xl font-bold text-cyan-400">{activeCase.timeline.filter(tp => tp.analysisStatus === 'completed').length}</div>
+              <p className="text-slate-400 text-xs font-medium">Analysed scans</p>
             </div>
           </div>
 
@@ -186,22 +863,53 @@ const App: React.FC = () => {
           <div className="flex-1 relative group">
             {/* Render Container */}
             <div className="absolute inset-0 bg-gradient-to-b from-slate-900 to-black rounded-3xl border border-slate-800 overflow-hidden shadow-2xl transition-all duration-300 group-hover:border-cyan-500/30">
-              <LungVisualizer
-                metrics={MOCK_PATIENT.timeline[2].metrics}
-                layers={layers}
-                showOverlay={false} // Hide complex overlay in small view
-                externalControlsRef={normalControlsRef} // Pass Unique Ref
-              />
+              {previewMode === 'slices' && analysisResult ? (
+                <div className="absolute inset-0 pt-10">
+                  <SliceViewer analysis={analysisResult} cursor={sliceCursor} onCursorChange={setSliceCursor} />
+                </div>
+              ) : (
+                <>
+                  <LungVisualizer
+                    metrics={metrics}
+                    analysis={analysisResult}
+                    baselineMetrics={comparisonPoint?.metrics}
+                    layers={layers}
+                    showOverlay={false} // Hide complex overlay in small view
+                    externalControlsRef={normalControlsRef} // Pass Unique Ref
+                    sliceCursor={sliceCursor}
+                    onSliceCursorChange={setSliceCursor}
+                    measurements={timePoint?.measurements}
+                    annotations={visibleAnnotations}
+                    selectedAnnotationId={selectedAnnotationId}
+                    onAnnotationSelect={setSelectedAnnotationId}
+                  />
 
-              {/* EXPAND BUTTON OVERLAY */}
-              <div className="absolute bottom-0 left-0 w-full p-4 bg-gradient-to-t from-black/90 to-transparent flex justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-300">
-                <button
-                  onClick={() => setIsFullscreen(true)}
-                  className="bg-white text-black px-6 py-2 rounded-full font-bold text-sm flex items-center gap-2 hover:scale-105 transition-transform shadow-[0_0_20px_rgba(255,255,255,0.3)]"
-                >
-                  <Maximize size={16} /> Expand 3D View
-                </button>
-              </div>
+                  {/* EXPAND BUTTON OVERLAY */}
+                  <div className="absolute bottom-0 left-0 w-full p-4 bg-gradient-to-t from-black/90 to-transparent flex justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+                    <button
+                      onClick={() => setIsFullscreen(true)}
+                      className="bg-white text-black px-6 py-2 rounded-full font-bold text-sm flex items-center gap-2 hover:scale-105 transition-transform shadow-[0_0_20px_rgba(255,255,255,0.3)]"
+                    >
+                      <Maximize size={16} /> Expand 3D View
+                    </button>
+                  </div>
+                </>
+              )}
+
+              {/* 3D model / source slices switch */}
+              {analysisResult && (
+                <div className="absolute top-2 left-2 flex gap-1 bg-slate-900/80 border border-slate-700/60 rounded-full p-1 backdrop-blur-md">
+                  {([['3d', '3D Model'], ['slices', 'CT Slices']] as const).map(([mode, label]) => (
+                    <button
+                      key={mode}
+                      onClick={() => setPreviewMode(mode)}
+                      className={`px-3 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider transition-colors ${previewMode === mode ? 'bg-cyan-500 text-black' : 'text-slate-400 hover:text-white'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
 
@@ -222,28 +930,64 @@ const App: React.FC = () => {
         {/* MAIN VISUALIZER */}
         <div className="w-full h-full cursor-move">
           <LungVisualizer
-            metrics={MOCK_PATIENT.timeline[2].metrics}
+            metrics={metrics}
+            analysis={analysisResult}
+            baselineMetrics={comparisonPoint?.metrics}
             layers={layers}
             showOverlay={true}
             externalControlsRef={fullScreenControlsRef} // Pass Unique Ref
+            sliceCursor={sliceCursor}
+            onSliceCursorChange={setSliceCursor}
+            measurements={timePoint?.measurements}
+            onMeasurementsChange={handleMeasurementsChange}
+            annotations={visibleAnnotations}
+            selectedAnnotationId={selectedAnnotationId}
+            onAnnotationSelect={setSelectedAnnotationId}
+            placingPin={placingPin}
+            onPinPlaced={handlePinPlaced}
           />
         </div>
 
+        {/* 2D views following the slice planes in the scene */}
+        {layers.slicePlanes && analysisResult && (
+          <div className="absolute top-24 left-6 w-[26rem] h-[26rem] bg-slate-900/80 backdrop-blur-xl border border-slate-700 rounded-2xl shadow-2xl overflow-hidden">
+            <SliceViewer analysis={analysisResult} cursor={sliceCursor} onCursorChange={setSliceCursor} />
+          </div>
+        )}
+
         {/* RIGHT SIDE TOGGLES (As requested) */}
         {!isLearningMode && (
-          <div className="absolute top-6 right-6 w-64 bg-slate-900/80 backdrop-blur-xl border border-slate-700 rounded-2xl p-5 shadow-2xl animate-in slide-in-from-right-20 duration-700 delay-300">
-            <div className="flex items-center gap-2 mb-4 text-slate-400 pb-2 border-b border-slate-700/50">
-              <Layers size={18} />
-              <span className="text-xs font-bold uppercase tracking-widest">Active Layers</span>
+          <div className="absolute top-6 right-6 w-64 flex flex-col gap-3">
+            <div className="bg-slate-900/80 backdrop-blur-xl border border-slate-700 rounded-2xl p-5 shadow-2xl animate-in slide-in-from-right-20 duration-700 delay-300">
+              <div className="flex items-center gap-2 mb-4 text-slate-400 pb-2 border-b border-slate-700/50">
+                <Layers size={18} />
+                <span className="text-xs font-bold uppercase tracking-widest">Active Layers</span>
+              </div>
+              <LayerToggles />
+
+              <button
+                onClick={() => setIsLearningMode(true)}
+                className="w-full mt-4 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-bold py-3 rounded-xl shadow-lg transition-transform hover:scale-105 flex items-center justify-center gap-2"
+              >
+                <Box size={18} /> Start Learning Mode
+              </button>
             </div>
-            <LayerToggles />
 
-            <button
-              onClick={() => setIsLearningMode(true)}
-              className="w-full mt-4 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-bold py-3 rounded-xl shadow-lg transition-transform hover:scale-105 flex items-center justify-center gap-2"
-            >
-              <Box size={18} /> Start Learning Mode
-            </button>
+            {/* Clinician pins on the current scan */}
+            {analysisResult && timePoint && (
+              <AnnotationPanel
+                annotations={timePoint.annotations ?? []}
+                onChange={handleAnnotationsChange}
+                filter={annotationFilter}
+                onFilterChange={setAnnotationFilter}
+                selectedId={selectedAnnotationId}
+                onSelect={setSelectedAnnotationId}
+                author={noteAuthor}
+                onAuthorChange={setNoteAuthor}
+                placingPin={placingPin}
+                onPlacingPinChange={setPlacingPin}
+              />
+            )}
           </div>
         )}
 
@@ -277,7 +1021,7 @@ const App: React.FC = () => {
         </button>
       )}
 
-      <AIChatHub isOpen={isChatOpen} onClose={() => setIsChatOpen(false)} />
+      <AIChatHub isOpen={isChatOpen} onClose={() => setIsChatOpen(false)} patientCase={activeCase} timePoint={timePoint} />
 
     </div>
   );
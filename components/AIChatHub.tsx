@@ -1,6 +1,7 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { MessageSquare, Send, X, Bot, User, HelpCircle, Loader2 } from 'lucide-react';
+import { LungMetrics, MetricKey, PatientCase, TimePoint } from '../types';
 
 interface Message {
     id: string;
@@ -22,32 +23,82 @@ const PRESET_QUESTIONS = [
     "What should I monitor daily?"
 ];
 
-const KNOWLEDGE_BASE: Record<string, string> = {
-    "What condition is being shown in this scan?": "Based on the 3D reconstruction and the CT slices, your scan shows clear signs of Chronic Obstructive Pulmonary Disease (COPD) with underlying Emphysema. The 'black holes' in the upper lobes indicate tissue loss.",
-    "Is the disease spreading to both lungs?": "Currently, the analysis detects pathology primarily in the upper lobes of both lungs, but the 'Emphysematous Bulla' (large air pocket) is most prominent in your upper left lung.",
-    "How will this affect my physical activity?": "Because your total lung volume is decreased by 13.1% and air trapping is at 18%, you may experience shortness of breath during exertion. The lungs cannot exchange oxygen as efficiently as healthy tissue.",
+// Questions answered from the selected case and timepoint
+const CASE_QUESTIONS = [
+    "What condition is being shown in this scan?",
+    "Is the disease spreading to both lungs?",
+    "How will this affect my physical activity?",
+    "Why is my airflow restricted?",
+    "What is my stiffness index and what does it mean?",
+];
+
+const GENERAL_ANSWERS: Record<string, string> = {
     "What is emphysematous bulla?": "A bulla is a permanent air-filled space within the lung that develops when the walls of the tiny air sacs (alveoli) are destroyed. It doesn't contribute to breathing and can compress healthy lung tissue around it.",
-    "Why is my airflow restricted?": "Your distal airways are showing structural distortion and narrowing. This prevents air from leaving the lungs smoothly, leading to the 'Air Trapping' shown in your metrics.",
-    "What is my stiffness index and what does it mean?": "Your stiffness index increased from 2.1 to 6.8. This indicates 'mechanical impedance'—your lung tissue is becoming less elastic and harder to expand, making it more work to take a deep breath.",
-    "How does smoking affect this condition?": "Smoking is the primary cause of the tissue destruction seen here. It accelerates the breakdown of alveoli walls and increases inflammation in the airways, worsening air trapping.",
+    "How does smoking affect this condition?": "Smoking is the primary cause of emphysema and worsens most lung diseases. It accelerates the breakdown of alveoli walls and increases inflammation in the airways, worsening air trapping.",
     "What medications are typical for COPD?": "Typical treatments include bronchodilators to open airways, corticosteroids to reduce inflammation, and sometimes supplemental oxygen. *Note: Always consult your physician for prescriptions.*",
-    "Can these damaged areas heal?": "Lungs generally don't 'regrow' destroyed alveoli. However, the goal of treatment is to protect the remaining 82% of healthy air capacity and improve your quality of life through therapy.",
+    "Can these damaged areas heal?": "Lungs generally don't 'regrow' destroyed alveoli. However, the goal of treatment is to protect the remaining healthy lung and improve your quality of life through therapy.",
     "What should I monitor daily?": "You should monitor your oxygen saturation (SpO2), your level of breathlessness during resting vs. activity, and any changes in cough or sputum production."
 };
 
-const AIChatHub: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpen, onClose }) => {
-    const [messages, setMessages] = useState<Message[]>([
-        {
-            id: '1',
-            text: "Hello! I'm LungScape AI. I've analyzed your 3D lung model and CT data. How can I help you understand your results today?",
-            sender: 'ai',
-            timestamp: new Date()
-        }
-    ]);
+// Mock and legacy metrics carry no provenance and count as measured
+const isMeasured = (metrics: LungMetrics, key: MetricKey) => metrics.provenance?.[key]?.measured !== false;
+
+// Answers for the selected timepoint, compared with the case's earliest earlier analysed scan
+const caseAnswers = (patientCase: PatientCase | null, timePoint: TimePoint | null): Record<string, string> => {
+    if (!patientCase || !timePoint || timePoint.analysisStatus !== 'completed') {
+        return Object.fromEntries(CASE_QUESTIONS.map(q => [q, "Open an analysed scan of a case first, and I can answer this from its measurements."]));
+    }
+    const { metrics } = timePoint;
+    const baseline = patientCase.timeline.find(tp => tp.analysisStatus === 'completed' && tp.date < timePoint.date);
+    const airTrapping = isMeasured(metrics, 'airTrapping')
+        ? `Air trapping is ${metrics.airTrapping.toFixed(0)}%: that share of the lung does not empty fully when you breathe out.`
+        : "Air trapping needs a paired expiratory scan, which this timepoint does not have.";
+    const volumeChange = baseline
+        ? ` That is ${(((metrics.totalVolume - baseline.metrics.totalVolume) / baseline.metrics.totalVolume) * 100).toFixed(1)}% compared with ${baseline.label} (${baseline.date}).`
+        : '';
+
+    return {
+        [CASE_QUESTIONS[0]]: `This case is recorded as ${patientCase.condition}. LungScape measures lung structure on the ${timePoint.label} scan (${timePoint.date}); the diagnosis itself comes from the care team.`,
+        [CASE_QUESTIONS[1]]: metrics.density
+            ? `On this scan, ${metrics.density.rightLung.percentBelow950.toFixed(1)}% of the right lung and ${metrics.density.leftLung.percentBelow950.toFixed(1)}% of the left lung is below -950 HU, the range of destroyed (emphysematous) tissue.`
+            : "This scan has no per-lung density breakdown, so I can't compare the two lungs.",
+        [CASE_QUESTIONS[2]]: `Total lung volume is ${metrics.totalVolume.toFixed(0)} mL.${volumeChange} ${airTrapping} Less air moving in and out usually means more breathlessness on exertion; your care team can relate these numbers to how you feel.`,
+        [CASE_QUESTIONS[3]]: isMeasured(metrics, 'airTrapping')
+            ? `${airTrapping} That usually points to narrowed or collapsing small airways, which slow the air leaving the lungs.`
+            : "Airflow restriction shows as air trapping on an expiratory scan, and this timepoint has none. Breathing tests (spirometry) measure it directly.",
+        [CASE_QUESTIONS[4]]: isMeasured(metrics, 'stiffnessIndex')
+            ? `Your stiffness index is ${metrics.stiffnessIndex.toFixed(1)}${baseline && isMeasured(baseline.metrics, 'stiffnessIndex') ? `, compared with ${baseline.metrics.stiffnessIndex.toFixed(1)} at ${baseline.label}` : ''}. Higher values mean the lung tissue expands less between breathing in and out, so each deep breath takes more work.`
+            : "The stiffness index needs a paired inspiratory/expiratory scan, which this timepoint does not have.",
+    };
+};
+
+const greeting = (patientCase: PatientCase | null, timePoint: TimePoint | null): Message => ({
+    id: '1',
+    text: patientCase && timePoint
+        ? `Hello! I'm LungScape AI. I can explain the ${timePoint.label} scan (${timePoint.date}) of ${patientCase.name}. How can I help you understand the results?`
+        : "Hello! I'm LungScape AI. Open a case and one of its scans, and I can help you understand the results.",
+    sender: 'ai',
+    timestamp: new Date()
+});
+
+interface AIChatHubProps {
+    isOpen: boolean;
+    onClose: () => void;
+    patientCase: PatientCase | null;
+    timePoint: TimePoint | null;
+}
+
+const AIChatHub: React.FC<AIChatHubProps> = ({ isOpen, onClose, patientCase, timePoint }) => {
+    const [messages, setMessages] = useState<Message[]>(() => [greeting(patientCase, timePoint)]);
     const [inputValue, setInputValue] = useState('');
     const [isTyping, setIsTyping] = useState(false);
     const scrollRef = useRef<HTMLDivElement>(null);
 
+    // A different case or timepoint starts a new conversation
+    useEffect(() => {
+        setMessages([greeting(patientCase, timePoint)]);
+    }, [patientCase?.id, timePoint?.id]);
+
     useEffect(() => {
         if (scrollRef.current) {
             scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
@@ -73,13 +124,14 @@ const AIChatHub: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpen,
             let aiText = "I'm sorry, I don't have specific data on that yet. Try asking one of the recommended questions or consult your specialist.";
 
             // Basic matching
-            const foundMatch = Object.keys(KNOWLEDGE_BASE).find(q =>
+            const knowledgeBase = { ...caseAnswers(patientCase, timePoint), ...GENERAL_ANSWERS };
+            const foundMatch = Object.keys(knowledgeBase).find(q =>
                 text.toLowerCase().includes(q.toLowerCase()) ||
                 q.toLowerCase().includes(text.toLowerCase())
             );
 
             if (foundMatch) {
-                aiText = KNOWLEDGE_BASE[foundMatch];
+                aiText = knowledgeBase[foundMatch];
             }
 
             const aiMsg: Message = {
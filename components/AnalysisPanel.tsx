@@ -34,7 +34,7 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
         setAnalysis(result);
       } catch (err) {
         console.error(err);
-        setAnalysis("Unable to load analysis.");
+        setAnalysis(err instanceof Error ? err.message : "Unable to load analysis.");
       } finally {
         setLoading(false);
       }
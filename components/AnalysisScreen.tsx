@@ -1,68 +1,119 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Activity, CheckCircle } from 'lucide-react';
+import { CTVolume, LungAnalysisResult, LungFinding } from '../types';
+import { AnalysisStage } from '../services/analysisPipeline';
+import { patientToVoxel } from '../services/volumeUtils';
+
+interface AnalysisScreenProps {
+    stage: AnalysisStage | null;
+    partial: Partial<LungAnalysisResult>;
+}
+
+const STAGES: { key: AnalysisStage; label: string }[] = [
+    { key: 'preparing', label: 'preparing volume...' },
+    { key: 'segmentation', label: 'segmenting lungs & airways...' },
+    { key: 'quality', label: 'checking image quality...' },
+    { key: 'lobes', label: 'locating fissures & lobes...' },
+    { key: 'metrics', label: 'measuring volumes & density...' },
+    { key: 'emphysema', label: 'detecting low-attenuation clusters...' },
+    { key: 'fibrosis', label: 'scoring parenchymal texture...' },
+    { key: 'airways', label: 'tracing airway tree...' },
+    { key: 'meshes', label: 'building 3D surfaces...' },
+];
+
+// Adding an expiratory scan to an analysed timepoint
+const EXPIRATORY_STAGES: { key: AnalysisStage; label: string }[] = [
+    { key: 'expiratory-preparing', label: 'preparing expiratory volume...' },
+    { key: 'expiratory-segmentation', label: 'segmenting expiratory lungs...' },
+    { key: 'expiratory-quality', label: 'checking expiratory image quality...' },
+    { key: 'registration', label: 'registering expiration to inspiration...' },
+    { key: 'gas-trapping', label: 'measuring gas trapping...' },
+    { key: 'ventilation', label: 'measuring regional ventilation...' },
+];
+
+// Registering an analysed baseline scan onto the current one
+const REGISTRATION_STAGES: { key: AnalysisStage; label: string }[] = [
+    { key: 'rigid-registration', label: 'aligning scans (rigid)...' },
+    { key: 'affine-registration', label: 'aligning scans (affine)...' },
+    { key: 'deformable-registration', label: 'estimating regional deformation...' },
+];
+
+// Lung window (W 1500 / L -600)
+const WINDOW_MIN = -1350;
+const WINDOW_MAX = 150;
+
+/** Draws the coronal slice `j` of a volume, superior at the top and patient right on the left. */
+const drawCoronal = (canvas: HTMLCanvasElement, volume: CTVolume, j: number) => {
+    const [nx, ny, nz] = volume.dimensions;
+    canvas.width = nx;
+    canvas.height = nz;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const image = ctx.createImageData(nx, nz);
+    for (let k = 0; k < nz; k++) {
+        for (let i = 0; i < nx; i++) {
+            const hu = volume.data[i + j * nx + k * nx * ny];
+            const g = Math.max(0, Math.min(255, ((hu - WINDOW_MIN) / (WINDOW_MAX - WINDOW_MIN)) * 255));
+            const o = ((nz - 1 - k) * nx + i) * 4;
+            image.data[o] = image.data[o + 1] = image.data[o + 2] = g;
+            image.data[o + 3] = 255;
+        }
+    }
+    ctx.putImageData(image, 0, 0);
+};
 
-import React, { useEffect, useState } from 'react';
-import { Scan, Target, AlertTriangle, Search, Activity, CornerUpLeft } from 'lucide-react';
-
-const AnalysisScreen: React.FC = () => {
+const AnalysisScreen: React.FC<AnalysisScreenProps> = ({ stage, partial }) => {
     const [scanPosition, setScanPosition] = useState(0);
-    const [detections, setDetections] = useState<{ id: number, x: number, y: number, label: string }[]>([]);
-    const [phase, setPhase] = useState(0); // 0: Scanning, 1: Detecting, 2: Identifying
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    const volume = partial.analysisVolume ?? partial.volume;
+    const findings: LungFinding[] = partial.emphysema?.bullae ?? [];
+    const stages = [EXPIRATORY_STAGES, REGISTRATION_STAGES].find(list => list.some(s => s.key === stage)) ?? STAGES;
+    const stageIndex = Math.max(0, stages.findIndex(s => s.key === stage));
+
+    // Coronal plane through the largest finding once there is one, otherwise the middle
+    const sliceJ = volume
+        ? findings.length > 0
+            ? Math.max(0, Math.min(volume.dimensions[1] - 1, Math.round(patientToVoxel(volume, findings[0].centroid)[1])))
+            : Math.floor(volume.dimensions[1] / 2)
+        : 0;
 
-    // Animation Loop
+    // Scanning line animation
     useEffect(() => {
-        // 1. Scanning Phase
         const scanInterval = setInterval(() => {
             setScanPosition((prev) => (prev + 1) % 100);
         }, 20);
-
-        // 2. Detection Phase (Spawn random circles)
-        const timeout1 = setTimeout(() => {
-            setPhase(1);
-            // Add random "searching" circles
-            const interval = setInterval(() => {
-                if (Math.random() > 0.7) {
-                    const newDetection = {
-                        id: Date.now(),
-                        x: 20 + Math.random() * 60, // Keep in center area (lungs)
-                        y: 20 + Math.random() * 60,
-                        label: ''
-                    };
-                    setDetections(prev => [...prev.slice(-3), newDetection]); // Keep last 3
-                }
-            }, 400);
-            return () => clearInterval(interval);
-        }, 2000);
-
-        // 3. Identification Phase (Highlight the specific Arrow feature)
-        // The arrow in the "Left Lung" (Right side of image) is around x=65%, y=30%
-        const timeout2 = setTimeout(() => {
-            setPhase(2);
-            setDetections([
-                { id: 999, x: 35, y: 40, label: 'Bullous Emphysema' }, // Moved Y from 65 to 40
-                // Approx location based on image provided
-            ]);
-        }, 5500);
-
-        return () => {
-            clearInterval(scanInterval);
-            clearTimeout(timeout1);
-            clearTimeout(timeout2);
-        };
+        return () => clearInterval(scanInterval);
     }, []);
 
+    useEffect(() => {
+        if (canvasRef.current && volume) drawCoronal(canvasRef.current, volume, sliceJ);
+    }, [volume, sliceJ]);
+
+    // Finding centroid as a percentage position on the coronal image
+    const markerPosition = (finding: LungFinding) => {
+        if (!volume) return null;
+        const [i, , k] = patientToVoxel(volume, finding.centroid);
+        return { x: (i / volume.dimensions[0]) * 100, y: (1 - k / volume.dimensions[2]) * 100 };
+    };
+
+    const aspect = volume
+        ? `${volume.dimensions[0] * volume.spacing[0]} / ${volume.dimensions[2] * volume.spacing[2]}`
+        : '4 / 3';
+
     return (
         <div className="flex flex-col items-center justify-center h-screen bg-slate-950 relative overflow-hidden">
 
             {/* Background Grid */}
             <div className="absolute inset-0 bg-[linear-gradient(rgba(17,24,39,0.5)_1px,transparent_1px),linear-gradient(90deg,rgba(17,24,39,0.5)_1px,transparent_1px)] bg-[size:40px_40px] [mask-image:radial-gradient(ellipse_60%_60%_at_50%_50%,#000_70%,transparent_100%)]pointer-events-none"></div>
 
-            <div className="relative w-full max-w-4xl aspect-[4/3] bg-black border border-slate-800 rounded-xl overflow-hidden shadow-2xl">
+            <div
+                className="relative max-w-4xl max-h-[80vh] w-full bg-black border border-slate-800 rounded-xl overflow-hidden shadow-2xl"
+                style={{ aspectRatio: aspect }}
+            >
 
-                {/* The CT Image */}
-                <img
-                    src="/copd-scan.png"
-                    alt="Analyzing CT"
-                    className="w-full h-full object-contain opacity-80"
-                />
+                {/* Coronal reformat of the uploaded scan */}
+                <canvas ref={canvasRef} className="w-full h-full opacity-80" />
 
                 {/* Scanning Line */}
                 <div
@@ -70,7 +121,7 @@ const AnalysisScreen: React.FC = () => {
                     style={{ top: `${scanPosition}%` }}
                 >
                     <div className="absolute right-2 -top-6 text-xs font-mono text-cyan-400 bg-black/50 px-1">
-                        SCANNING LAYER {Math.floor(scanPosition * 1.5)}
+                        SCANNING LAYER {volume ? Math.floor((1 - scanPosition / 100) * volume.dimensions[2]) : 0}
                     </div>
                 </div>
 
@@ -80,38 +131,24 @@ const AnalysisScreen: React.FC = () => {
                     style={{ top: `${scanPosition - 5}%` }}
                 ></div>
 
-                {/* Detection Circles (Random) */}
-                {detections.map(d => (
-                    <div
-                        key={d.id}
-                        className="absolute w-16 h-16 border-2 border-dashed border-cyan-400 rounded-full flex items-center justify-center animate-ping-slow"
-                        style={{ left: `${d.x}%`, top: `${d.y}%`, transform: 'translate(-50%, -50%)' }}
-                    >
-                        <div className="w-2 h-2 bg-cyan-400 rounded-full"></div>
-                        {d.label && (
-                            <div className="absolute -top-12 left-1/2 -translate-x-1/2 bg-slate-900/90 border border-cyan-500/50 px-3 py-1 rounded text-cyan-300 text-xs whitespace-nowrap z-20 shadow-lg flex items-center gap-2">
+                {/* Detected bullae, at their measured positions */}
+                {findings.map(finding => {
+                    const at = markerPosition(finding);
+                    if (!at) return null;
+                    return (
+                        <div
+                            key={finding.id}
+                            className="absolute w-16 h-16 border-2 border-orange-500 rounded-full flex items-center justify-center animate-pulse shadow-[0_0_30px_rgba(249,115,22,0.4)]"
+                            style={{ left: `${at.x}%`, top: `${at.y}%`, transform: 'translate(-50%, -50%)' }}
+                        >
+                            <div className="w-2 h-2 bg-orange-400 rounded-full"></div>
+                            <div className="absolute -top-10 left-1/2 -translate-x-1/2 bg-slate-900/90 border border-orange-500/50 px-3 py-1 rounded text-orange-200 text-xs whitespace-nowrap z-20 shadow-lg flex items-center gap-2">
                                 <AlertTriangle size={12} className="text-orange-400" />
-                                {d.label}
-                            </div>
-                        )}
-                        {d.label && (
-                            // Draw an arrow pointing to the actual feature from the label
-                            <div className="absolute top-0 left-1/2 w-[1px] h-[50px] bg-cyan-500 origin-bottom rotate-45 opacity-50"></div>
-                        )}
-                    </div>
-                ))}
-
-                {/* Specific "Arrow" Highlight Animation (Phase 2) */}
-                {phase >= 2 && (
-                    <>
-                        <div className="absolute top-[38%] left-[33%] w-24 h-24 border-2 border-orange-500 rounded-full animate-pulse shadow-[0_0_30px_rgba(249,115,22,0.4)] flex items-center justify-center">
-                            <div className="absolute -right-4 -bottom-4">
-                                <CornerUpLeft className="text-orange-400 rotate-90" size={32} />
+                                Bulla · {finding.volumeMl.toFixed(1)} mL{finding.lobe ? ` · ${finding.lobe.toUpperCase()}` : ''}
                             </div>
                         </div>
-                        <div className="absolute top-[30%] left-[65%] w-20 h-20 border-2 border-orange-500 rounded-full animate-pulse delay-500 shadow-[0_0_30px_rgba(249,115,22,0.4)]"></div>
-                    </>
-                )}
+                    );
+                })}
 
                 {/* UI Overlays */}
                 <div className="absolute top-4 left-4 flex gap-4">
@@ -120,15 +157,26 @@ const AnalysisScreen: React.FC = () => {
                         <div>
                             <div className="text-xs text-slate-400 uppercase tracking-wider">Status</div>
                             <div className="text-sm font-bold text-white">
-                                {phase === 0 ? " volumetric scanning..." : phase === 1 ? "pattern recognition..." : "identifying anomalies..."}
+                                {stages[stageIndex].label}
                             </div>
                         </div>
                     </div>
+                    {partial.emphysema && (
+                        <div className="bg-slate-900/80 backdrop-blur border border-slate-700 px-4 py-2 rounded-lg flex items-center gap-3">
+                            <CheckCircle className="text-emerald-400" size={20} />
+                            <div>
+                                <div className="text-xs text-slate-400 uppercase tracking-wider">LAA%-950</div>
+                                <div className="text-sm font-bold text-white">
+                                    {partial.emphysema.laa.wholeLung.toFixed(1)}% · {findings.length === 0 ? 'no bullae' : `${findings.length} bulla${findings.length > 1 ? 'e' : ''}`}
+                                </div>
+                            </div>
+                        </div>
+                    )}
                 </div>
 
                 <div className="absolute bottom-4 right-4">
                     <div className="font-mono text-cyan-400 text-xl tracking-widest animate-pulse">
-                        PROCESSING... {(phase * 33 + (scanPosition / 3)).toFixed(0)}%
+                        PROCESSING... {Math.round((stageIndex / stages.length) * 100)}%
                     </div>
                 </div>
 
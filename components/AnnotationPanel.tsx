@@ -0,0 +1,146 @@
+import React from 'react';
+import { MapPin, Search, Trash2, X } from 'lucide-react';
+import { Annotation } from '../types';
+import { AnnotationFilter, annotationAuthors, filterAnnotations } from '../services/annotations';
+
+interface AnnotationPanelProps {
+    annotations: Annotation[];
+    onChange: (annotations: Annotation[]) => void;
+    filter: AnnotationFilter;
+    onFilterChange: (filter: AnnotationFilter) => void;
+    selectedId: string | null;
+    onSelect: (id: string | null) => void;
+    author: string;
+    onAuthorChange: (author: string) => void;
+    placingPin: boolean;
+    onPlacingPinChange: (placing: boolean) => void;
+}
+
+const ORIGINS: [AnnotationFilter['origin'], string][] = [['all', 'All'], ['local', 'This scan'], ['carried', 'Carried']];
+
+/**
+ * Clinician pins on the current timepoint: drop new ones, search and filter the
+ * list, and edit or delete the selected note. Pins carried from another timepoint
+ * are read-only here; they are edited where they were dropped.
+ */
+const AnnotationPanel: React.FC<AnnotationPanelProps> = ({
+    annotations, onChange, filter, onFilterChange, selectedId, onSelect, author, onAuthorChange, placingPin, onPlacingPinChange
+}) => {
+    const shown = filterAnnotations(annotations, filter);
+    const authors = annotationAuthors(annotations);
+    const update = (id: string, text: string) => onChange(annotations.map(a => (a.id === id ? { ...a, text } : a)));
+    const remove = (id: string) => {
+        onChange(annotations.filter(a => a.id !== id));
+        if (selectedId === id) onSelect(null);
+    };
+
+    return (
+        <div className="bg-slate-900/80 backdrop-blur-xl border border-slate-700 rounded-2xl p-4 shadow-2xl text-xs">
+            <div className="flex items-center justify-between mb-3 text-slate-400 pb-2 border-b border-slate-700/50">
+                <span className="flex items-center gap-2">
+                    <MapPin size={16} />
+                    <span className="font-bold uppercase tracking-widest">Annotations</span>
+                </span>
+                <span className="font-mono text-slate-500">{shown.length}/{annotations.length}</span>
+            </div>
+
+            <div className="flex gap-2 mb-3">
+                <input
+                    value={author}
+                    onChange={e => onAuthorChange(e.target.value)}
+                    placeholder="Your name"
+                    className="flex-1 min-w-0 bg-slate-950/60 border border-slate-700 rounded-lg px-2 py-1 text-slate-200 placeholder-slate-600 focus:outline-none focus:border-violet-400"
+                />
+                <button
+                    onClick={() => onPlacingPinChange(!placingPin)}
+                    disabled={!placingPin && !author.trim()}
+                    className={`px-3 py-1 rounded-lg font-semibold transition-colors disabled:opacity-40 ${placingPin ? 'bg-violet-400 text-black' : 'bg-slate-800 text-slate-200 hover:text-white'}`}
+                    title={author.trim() ? undefined : 'Enter your name to drop pins'}
+                >
+                    {placingPin ? 'Cancel' : 'Drop pin'}
+                </button>
+            </div>
+            {placingPin && <p className="text-[10px] text-violet-300 -mt-2 mb-3">Click on the lung surface to place the pin</p>}
+
+            {annotations.length > 0 && (
+                <div className="space-y-2 mb-3">
+                    <div className="flex items-center gap-2 bg-slate-950/60 border border-slate-700 rounded-lg px-2 py-1">
+                        <Search size={12} className="text-slate-500" />
+                        <input
+                            value={filter.query}
+                            onChange={e => onFilterChange({ ...filter, query: e.target.value })}
+                            placeholder="Search notes"
+                            className="flex-1 min-w-0 bg-transparent text-slate-200 placeholder-slate-600 focus:outline-none"
+                        />
+                        {filter.query && (
+                            <button onClick={() => onFilterChange({ ...filter, query: '' })} className="text-slate-500 hover:text-white">
+                                <X size={12} />
+                            </button>
+                        )}
+                    </div>
+                    <div className="flex gap-2">
+                        <select
+                            value={filter.author ?? ''}
+                            onChange={e => onFilterChange({ ...filter, author: e.target.value || null })}
+                            className="flex-1 min-w-0 bg-slate-950/60 border border-slate-700 rounded-lg px-1 py-1 text-slate-200 focus:outline-none"
+                        >
+                            <option value="">All authors</option>
+                            {authors.map(name => <option key={name} value={name}>{name}</option>)}
+                        </select>
+                        <div className="flex bg-slate-950/60 border border-slate-700 rounded-lg p-0.5">
+                            {ORIGINS.map(([origin, label]) => (
+                                <button
+                                    key={origin}
+                                    onClick={() => onFilterChange({ ...filter, origin })}
+                                    className={`px-1.5 rounded-md text-[10px] font-semibold transition-colors ${filter.origin === origin ? 'bg-violet-400 text-black' : 'text-slate-400 hover:text-white'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            <div className="space-y-1 max-h-64 overflow-y-auto custom-scrollbar">
+                {shown.map(a => (
+                    <div
+                        key={a.id}
+                        onClick={() => onSelect(a.id === selectedId ? null : a.id)}
+                        className={`px-2 py-1.5 rounded-lg border cursor-pointer transition-colors ${a.id === selectedId ? 'border-violet-400/60 bg-slate-800/80' : 'border-transparent hover:bg-slate-800/60'}`}
+                    >
+                        <div className="flex items-start justify-between gap-2">
+                            <p className={`min-w-0 ${a.id === selectedId ? '' : 'truncate'} ${a.text ? 'text-slate-200' : 'text-slate-500 italic'}`}>{a.text || 'Untitled note'}</p>
+                            <button
+                                onClick={e => { e.stopPropagation(); remove(a.id); }}
+                                className="text-slate-500 hover:text-rose-400 transition-colors flex-shrink-0"
+                                title="Delete"
+                            >
+                                <Trash2 size={12} />
+                            </button>
+                        </div>
+                        <p className="text-[10px] text-slate-500 mt-0.5">
+                            {a.author} · {new Date(a.createdAt).toLocaleString()}
+                            {a.carriedFrom && <span className="text-violet-300"> · from {a.carriedFrom.timePointLabel}</span>}
+                        </p>
+                        {a.id === selectedId && !a.carriedFrom && (
+                            <textarea
+                                value={a.text}
+                                onChange={e => update(a.id, e.target.value)}
+                                onClick={e => e.stopPropagation()}
+                                placeholder="e.g. compare this region next visit"
+                                rows={3}
+                                autoFocus
+                                className="mt-2 w-full bg-slate-950/60 border border-slate-700 rounded-lg px-2 py-1 text-slate-200 placeholder-slate-600 resize-none focus:outline-none focus:border-violet-400"
+                            />
+                        )}
+                    </div>
+                ))}
+                {annotations.length === 0 && <p className="text-[10px] text-slate-500">No pins on this scan yet</p>}
+                {annotations.length > 0 && shown.length === 0 && <p className="text-[10px] text-slate-500">No notes match the filter</p>}
+            </div>
+        </div>
+    );
+};
+
+export default AnnotationPanel;
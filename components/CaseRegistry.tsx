@@ -0,0 +1,321 @@
+import React, { useId, useRef, useState } from 'react';
+import { AlertTriangle, ChevronRight, Download, Plus, Search, Upload, Users, X } from 'lucide-react';
+import { PatientCase } from '../types';
+import { caseConditions, COMMON_CONDITIONS, createPatientCase, filterCases, latestTimePoint } from '../services/caseRegistry';
+import { CaseBundleError, CaseBundleOptions, ImportedCase, ImportResolution, readCaseBundle } from '../services/caseBundle';
+
+interface CaseRegistryProps {
+    cases: PatientCase[];
+    activeCaseId: string | null; // Case with results loaded in this session
+    onCreate: (patientCase: PatientCase) => void;
+    onOpen: (id: string) => void;
+    onImport: (imported: ImportedCase[], resolutions: Record<string, ImportResolution>) => void;
+    onExport: (ids: string[], options: CaseBundleOptions) => Promise<void>;
+}
+
+const RESOLUTIONS: { value: ImportResolution; label: string; title: string }[] = [
+    { value: 'merge', label: 'Merge', title: 'Add the bundle\'s timepoints to this case; pins and measurements from both are kept' },
+    { value: 'replace', label: 'Replace', title: 'Replace this case with the bundled copy' },
+    { value: 'skip', label: 'Skip', title: 'Keep this case as it is' },
+];
+
+/**
+ * Case list between the landing page and upload: search by name or ID, filter by
+ * condition, create a case, and open one to add a scan or return to its results.
+ * Cases move between workstations as bundle files; importing a case that is
+ * already here asks whether to merge, replace or skip it.
+ */
+const CaseRegistry: React.FC<CaseRegistryProps> = ({ cases, activeCaseId, onCreate, onOpen, onImport, onExport }) => {
+    const conditionListId = useId();
+    const [query, setQuery] = useState('');
+    const [condition, setCondition] = useState<string | null>(null);
+    const [creating, setCreating] = useState(false);
+    const [draft, setDraft] = useState({ name: '', age: '', condition: '' });
+    const bundleInputRef = useRef<HTMLInputElement>(null);
+    const [bundleOptions, setBundleOptions] = useState<CaseBundleOptions>({ meshes: false, volumes: false });
+    const [busy, setBusy] = useState<string | null>(null); // What the bundle controls are doing
+    const [bundleProblems, setBundleProblems] = useState<string[]>([]);
+    const [bundleNotice, setBundleNotice] = useState<string | null>(null);
+    // Bundle read and waiting for a decision on the cases already in the registry
+    const [pendingImport, setPendingImport] = useState<ImportedCase[] | null>(null);
+    const [resolutions, setResolutions] = useState<Record<string, ImportResolution>>({});
+
+    const shown = filterCases(cases, query, condition);
+    const age = Number(draft.age);
+    const canCreate = draft.name.trim() !== '' && draft.condition.trim() !== '' && Number.isInteger(age) && age >= 0 && age <= 130;
+
+    const create = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canCreate) return;
+        const patientCase = createPatientCase({ name: draft.name, age, condition: draft.condition });
+        onCreate(patientCase);
+        setDraft({ name: '', age: '', condition: '' });
+        setCreating(false);
+        onOpen(patientCase.id);
+    };
+
+    const duplicates = pendingImport?.filter(item => cases.some(c => c.id === item.patientCase.id)) ?? [];
+
+    const finishImport = (imported: ImportedCase[], chosen: Record<string, ImportResolution>) => {
+        onImport(imported, chosen);
+        const count = imported.filter(item => chosen[item.patientCase.id] !== 'skip').length;
+        setBundleNotice(`Imported ${count} case${count === 1 ? '' : 's'}.`);
+        setPendingImport(null);
+    };
+
+    const handleBundleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setBundleProblems([]);
+        setBundleNotice(null);
+        setBusy('Reading bundle…');
+        try {
+            const imported = await readCaseBundle(file);
+            const existing = imported.filter(item => cases.some(c => c.id === item.patientCase.id));
+            if (existing.length === 0) finishImport(imported, {});
+            else {
+                setResolutions(Object.fromEntries(existing.map(item => [item.patientCase.id, 'merge' as const])));
+                setPendingImport(imported);
+            }
+        } catch (err) {
+            console.error("Import Error:", err);
+            setBundleProblems(err instanceof CaseBundleError ? err.problems : [err instanceof Error ? err.message : 'The bundle could not be read.']);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const exportCases = async (ids: string[]) => {
+        setBundleProblems([]);
+        setBundleNotice(null);
+        setBusy('Exporting…');
+        try {
+            await onExport(ids, bundleOptions);
+        } catch (err) {
+            console.error("Export Error:", err);
+            setBundleProblems([err instanceof Error ? err.message : 'The bundle could not be written.']);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const inputClass = 'bg-slate-950/60 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:border-cyan-500/60';
+
+    return (
+        <div className="flex h-screen bg-slate-950 items-center justify-center p-6">
+            <div className="w-full max-w-3xl bg-slate-900/80 border border-slate-700 rounded-3xl p-6 shadow-2xl backdrop-blur-sm animate-in fade-in duration-300">
+                <div className="flex items-center justify-between mb-5">
+                    <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 bg-slate-800 rounded-xl flex items-center justify-center">
+                            <Users className="text-cyan-400" size={20} />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-white">Patient Cases</h2>
+                            <p className="text-slate-400 text-sm">Open a case to add a scan to its timeline, or create a new one.</p>
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <input type="file" ref={bundleInputRef} className="hidden" accept=".zip,application/zip" onChange={handleBundleFile} />
+                        <button
+                            onClick={() => bundleInputRef.current?.click()}
+                            disabled={busy !== null}
+                            className="flex items-center gap-2 px-4 py-2 rounded-full bg-slate-800 text-slate-200 text-sm font-semibold hover:text-white disabled:opacity-40 transition-colors"
+                            title="Import cases from a bundle file"
+                        >
+                            <Upload size={16} /> Import
+                        </button>
+                        <button
+                            onClick={() => setCreating(!creating)}
+                            className="flex items-center gap-2 px-4 py-2 rounded-full bg-cyan-500 text-black text-sm font-bold hover:bg-cyan-400 transition-colors"
+                        >
+                            {creating ? <X size={16} /> : <Plus size={16} />} {creating ? 'Cancel' : 'New Case'}
+                        </button>
+                    </div>
+                </div>
+
+                {bundleProblems.length > 0 && (
+                    <div className="mb-5 p-4 rounded-2xl border border-rose-800/60 bg-rose-950/30 text-sm">
+                        <div className="flex items-center justify-between mb-2">
+                            <span className="flex items-center gap-2 font-semibold text-rose-300"><AlertTriangle size={14} /> Bundle problem{bundleProblems.length === 1 ? '' : 's'}</span>
+                            <button onClick={() => setBundleProblems([])} className="text-slate-500 hover:text-white"><X size={14} /></button>
+                        </div>
+                        <ul className="space-y-1 max-h-32 overflow-y-auto font-mono text-xs text-rose-200/90">
+                            {bundleProblems.map((problem, n) => <li key={n}>{problem}</li>)}
+                        </ul>
+                    </div>
+                )}
+
+                {pendingImport && (
+                    <div className="mb-5 p-4 rounded-2xl border border-amber-800/60 bg-amber-950/20 text-sm">
+                        <p className="text-amber-200 mb-3">
+                            {duplicates.length} of {pendingImport.length} bundled case{pendingImport.length === 1 ? '' : 's'} already exist{duplicates.length === 1 ? 's' : ''} here. Choose what to do with each:
+                        </p>
+                        <div className="space-y-2 mb-3">
+                            {duplicates.map(({ patientCase }) => (
+                                <div key={patientCase.id} className="flex items-center justify-between gap-3">
+                                    <span className="text-white truncate">
+                                        <span className="text-slate-500 font-mono mr-2">{patientCase.id}</span>
+                                        {patientCase.name} · {patientCase.timeline.length} timepoint(s) in bundle
+                                    </span>
+                                    <div className="flex rounded-lg border border-slate-700 overflow-hidden flex-shrink-0">
+                                        {RESOLUTIONS.map(option => (
+                                            <button
+                                                key={option.value}
+                                                title={option.title}
+                                                onClick={() => setResolutions({ ...resolutions, [patientCase.id]: option.value })}
+                                                className={`px-3 py-1 text-xs font-semibold transition-colors ${resolutions[patientCase.id] === option.value ? 'bg-cyan-500 text-black' : 'text-slate-300 hover:text-white'}`}
+                                            >
+                                                {option.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex justify-end gap-2">
+                            <button onClick={() => setPendingImport(null)} className="px-4 py-1.5 rounded-lg text-slate-400 hover:text-white transition-colors">Cancel</button>
+                            <button
+                                onClick={() => finishImport(pendingImport, resolutions)}
+                                className="px-4 py-1.5 rounded-lg bg-cyan-500 text-black font-bold hover:bg-cyan-400 transition-colors"
+                            >
+                                Import
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {bundleNotice && <p className="mb-4 text-xs text-emerald-300">{bundleNotice}</p>}
+
+                {creating && (
+                    <form onSubmit={create} className="mb-5 p-4 rounded-2xl border border-slate-800 bg-slate-950/40 grid grid-cols-[1fr_6rem_1fr_auto] gap-3">
+                        <input
+                            autoFocus
+                            value={draft.name}
+                            onChange={e => setDraft({ ...draft, name: e.target.value })}
+                            placeholder="Patient name"
+                            className={inputClass}
+                        />
+                        <input
+                            type="number"
+                            min={0}
+                            max={130}
+                            value={draft.age}
+                            onChange={e => setDraft({ ...draft, age: e.target.value })}
+                            placeholder="Age"
+                            className={inputClass}
+                        />
+                        <input
+                            list={conditionListId}
+                            value={draft.condition}
+                            onChange={e => setDraft({ ...draft, condition: e.target.value })}
+                            placeholder="Condition"
+                            className={inputClass}
+                        />
+                        <datalist id={conditionListId}>
+                            {[...new Set([...COMMON_CONDITIONS, ...caseConditions(cases)])].map(c => <option key={c} value={c} />)}
+                        </datalist>
+                        <button
+                            type="submit"
+                            disabled={!canCreate}
+                            className="px-4 rounded-lg bg-slate-800 text-slate-200 text-sm font-semibold hover:text-white disabled:opacity-40 transition-colors"
+                        >
+                            Create
+                        </button>
+                    </form>
+                )}
+
+                <div className="flex gap-3 mb-4">
+                    <div className={`flex-1 flex items-center gap-2 ${inputClass}`}>
+                        <Search size={14} className="text-slate-500" />
+                        <input
+                            value={query}
+                            onChange={e => setQuery(e.target.value)}
+                            placeholder="Search by name or case ID"
+                            className="flex-1 min-w-0 bg-transparent focus:outline-none"
+                        />
+                    </div>
+                    <select
+                        value={condition ?? ''}
+                        onChange={e => setCondition(e.target.value || null)}
+                        className={inputClass}
+                    >
+                        <option value="">All conditions</option>
+                        {caseConditions(cases).map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                </div>
+
+                <div className="space-y-2 max-h-[55vh] overflow-y-auto pr-1">
+                    {shown.map(c => {
+                        const latest = latestTimePoint(c);
+                        return (
+                            <div key={c.id} className="flex items-stretch gap-2">
+                                <button
+                                    onClick={() => onOpen(c.id)}
+                                    className="flex-1 min-w-0 flex items-center justify-between gap-4 p-4 rounded-xl border border-slate-800 bg-slate-950/40 hover:bg-slate-800/60 hover:border-cyan-500/40 transition-all text-left group"
+                                >
+                                    <div className="min-w-0">
+                                        <div className="text-sm font-semibold text-white truncate">
+                                            <span className="text-slate-500 font-mono mr-2">{c.id}</span>
+                                            {c.name}
+                                            {c.id === activeCaseId && (
+                                                <span className="ml-2 px-2 py-0.5 rounded-full bg-cyan-950 border border-cyan-800 text-cyan-400 text-[10px] font-bold uppercase tracking-wider">Open</span>
+                                            )}
+                                        </div>
+                                        <div className="text-xs text-slate-400 mt-1 flex gap-3">
+                                            <span>{c.age} y</span>
+                                            <span>{c.condition}</span>
+                                            <span>{c.timeline.length} timepoint(s)</span>
+                                            <span>{latest ? `Last scan ${latest.date}` : 'No scans yet'}</span>
+                                        </div>
+                                    </div>
+                                    <ChevronRight size={18} className="text-slate-500 group-hover:text-cyan-400 flex-shrink-0" />
+                                </button>
+                                <button
+                                    onClick={() => exportCases([c.id])}
+                                    disabled={busy !== null}
+                                    className="px-3 rounded-xl border border-slate-800 bg-slate-950/40 text-slate-500 hover:text-cyan-400 hover:border-cyan-500/40 disabled:opacity-40 transition-all"
+                                    title="Export this case as a bundle file"
+                                >
+                                    <Download size={16} />
+                                </button>
+                            </div>
+                        );
+                    })}
+                    {shown.length === 0 && (
+                        <p className="text-sm text-slate-500 text-center py-8">
+                            {cases.length === 0 ? 'No cases yet. Create one to get started.' : 'No cases match the search.'}
+                        </p>
+                    )}
+                </div>
+
+                <div className="flex items-center justify-between gap-4 mt-4 pt-4 border-t border-slate-800 text-xs text-slate-400">
+                    <div className="flex items-center gap-4">
+                        <span className="font-semibold text-slate-300">Bundles include</span>
+                        <label className="flex items-center gap-1.5 cursor-pointer">
+                            <input type="checkbox" checked={bundleOptions.meshes} onChange={e => setBundleOptions({ ...bundleOptions, meshes: e.target.checked })} className="accent-cyan-500" />
+                            Surface meshes
+                        </label>
+                        <label className="flex items-center gap-1.5 cursor-pointer">
+                            <input type="checkbox" checked={bundleOptions.volumes} onChange={e => setBundleOptions({ ...bundleOptions, volumes: e.target.checked })} className="accent-cyan-500" />
+                            Downsampled volumes
+                        </label>
+                    </div>
+                    {busy ? (
+                        <span className="text-cyan-400">{busy}</span>
+                    ) : (
+                        <button
+                            onClick={() => exportCases(shown.map(c => c.id))}
+                            disabled={shown.length === 0}
+                            className="flex items-center gap-1.5 text-cyan-400 hover:text-cyan-300 disabled:opacity-40 transition-colors"
+                        >
+                            <Download size={12} /> Export {shown.length === cases.length ? 'all' : 'shown'} ({shown.length})
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CaseRegistry;
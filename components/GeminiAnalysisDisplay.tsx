@@ -13,9 +13,10 @@ import {
 
 interface GeminiAnalysisDisplayProps {
     analysis: string;
+    pending?: boolean; // A summary is being generated
 }
 
-const GeminiAnalysisDisplay: React.FC<GeminiAnalysisDisplayProps> = ({ analysis }) => {
+const GeminiAnalysisDisplay: React.FC<GeminiAnalysisDisplayProps> = ({ analysis, pending = false }) => {
     // Parse the markdown-like content finding lines starting with * **
     const parseFindings = (text: string) => {
         // Split by the bullet point marker, filtering out empty strings
@@ -58,6 +59,20 @@ const GeminiAnalysisDisplay: React.FC<GeminiAnalysisDisplayProps> = ({ analysis
 
     const findings = parseFindings(analysis);
 
+    if (!analysis.trim()) {
+        return (
+            <div className="w-full h-full flex flex-col items-center justify-center text-center gap-3 p-6 rounded-xl border border-dashed border-slate-700 bg-slate-900/40">
+                <BrainCircuit size={24} className="text-slate-500" />
+                <p className="text-sm font-semibold text-slate-300">{pending ? 'Generating AI summary' : 'No AI summary'}</p>
+                <p className="text-xs text-slate-500 max-w-xs">
+                    {pending
+                        ? 'The summary appears here once it is ready. The measured values are on the Measured Metrics tab.'
+                        : 'No AI summary could be generated for this scan. The measured values are on the Measured Metrics tab.'}
+                </p>
+            </div>
+        );
+    }
+
     // Helper to highlight numbers in text
     const highlightNumbers = (text: string) => {
         // Regex to match percentages, decimal numbers, ranges (2.1 to 6.8), and mL
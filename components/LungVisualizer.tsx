@@ -2,28 +2,114 @@
 import React, { useEffect, useRef, useState } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
-import { LungMetrics, VisualizationLayers } from '../types';
-import { X, List, AlertCircle } from 'lucide-react';
+import { TransformControls } from 'three/addons/controls/TransformControls.js';
+import {
+    Annotation, CTVolume, LobeKey, LungAnalysisResult, LungFinding, LungLabel, LungMetrics, Measurement, MeasurementKind, RenderMode, SurfaceMesh,
+    TransferFunction, Vec3, VisualizationLayers
+} from '../types';
+import { LOBE_COLORS } from '../constants';
+import { LOBE_KEYS, LOBE_NAMES } from '../services/lobeSegmentation';
+import { sampleFibrosisAtVertices } from '../services/fibrosis';
+import {
+    directionToScene, meshToScene, patientToScene, SCENE_UNITS_PER_MM, SceneTransform, sceneToPatient, sceneTransformForMeshes
+} from '../services/sceneTransform';
+import { sampleBlockScore, voxelToPatient } from '../services/volumeUtils';
+import { volumeChangeAtVertices } from '../services/registration';
+import { stiffnessAtVertices } from '../services/ventilation';
+import { createMeasurement, distanceMm, formatMeasurement, MEASUREMENT_POINTS } from '../services/measurements';
+import { quantizeVolume, TRANSFER_TABLE_SIZE, transferFunctionFromPreset, transferFunctionTable } from '../services/volumeRendering';
+import { cursorVoxel, nearestVoxel, PLANE_AXES, SlicePlane, WINDOW_PRESETS } from './SliceViewer';
+import TransferFunctionEditor from './TransferFunctionEditor';
+import { X, List, AlertCircle, Scissors, Plus, Trash2, Ruler } from 'lucide-react';
 
 interface LungVisualizerProps {
     metrics: LungMetrics;
+    analysis?: LungAnalysisResult | null; // Patient anatomy; procedural placeholder lungs when absent
+    baselineMetrics?: LungMetrics | null; // Earlier timepoint for lobe volume change
     layers: VisualizationLayers;
     showOverlay: boolean;
     externalControlsRef?: React.MutableRefObject<OrbitControls | null>;
     className?: string;
     onStructureClick?: (name: string) => void;
+    sliceCursor?: Vec3 | null;                  // LPS mm where the slice planes cross; null = volume centre
+    onSliceCursorChange?: (cursor: Vec3) => void;
+    measurements?: Measurement[];
+    onMeasurementsChange?: (measurements: Measurement[]) => void;
+    annotations?: Annotation[];
+    selectedAnnotationId?: string | null;
+    onAnnotationSelect?: (id: string) => void;
+    placingPin?: boolean;                       // Next click on a surface drops a pin there
+    onPinPlaced?: (position: Vec3) => void;
 }
 
 const STRUCTURE_POINTS: Record<string, THREE.Vector3> = {
     bronchi: new THREE.Vector3(0, 2.8, 0), // Bifurcation area
-    bronchioles: new THREE.Vector3(2.0, 1.5, 0.5),
-    alveoli: new THREE.Vector3(-2.8, -1.5, 1.8),
-    vasculature: new THREE.Vector3(2.8, 0.5, 1.5),
-    pleura: new THREE.Vector3(-4.0, 0.0, 0.0), // Outer edge
-    fibrosisMap: new THREE.Vector3(3.0, -3.5, 1.0),
+    bronchioles: new THREE.Vector3(-2.0, 1.5, 0.5),
+    alveoli: new THREE.Vector3(2.8, -1.5, 1.8),
+    vasculature: new THREE.Vector3(-2.8, 0.5, 1.5),
+    pleura: new THREE.Vector3(4.0, 0.0, 0.0), // Outer edge
+    fibrosisMap: new THREE.Vector3(-3.0, -3.5, 1.0),
     airflow: new THREE.Vector3(0, 1.5, 0.0), // Central flow area
-    lobes: new THREE.Vector3(-3.0, 1.5, 1.0),
-    pathology: new THREE.Vector3(-2.8, 0.2, 0.8), // Moved further down to 0.2
+    lobes: new THREE.Vector3(3.0, 1.5, 1.0),
+    pathology: new THREE.Vector3(2.8, 0.2, 0.8), // Upper left lung
+};
+
+// Airway generations shown by the `bronchi` layer; deeper ones belong to `bronchioles`
+const MAX_BRONCHUS_GENERATION = 3;
+
+// Selection keys of the lobe meshes, e.g. "lobe:rul"
+const LOBE_LABEL_PREFIX = 'lobe:';
+const lobeOfLabel = (label: string | null) =>
+    label?.startsWith(LOBE_LABEL_PREFIX) ? label.slice(LOBE_LABEL_PREFIX.length) as LobeKey : null;
+
+const SLICE_PLANES: SlicePlane[] = ['axial', 'coronal', 'sagittal'];
+const SLICE_PLANE_COLORS: Record<SlicePlane, number> = { axial: 0xfacc15, coronal: 0x22d3ee, sagittal: 0xf472b6 };
+
+/**
+ * Paints the lung-windowed slice through `voxel` onto a slice plane mesh and moves
+ * its corners (and outline) onto that slice. Skipped when the plane already shows it.
+ */
+const paintSlicePlane = (mesh: THREE.Mesh, volume: CTVolume, transform: SceneTransform, voxel: Vec3) => {
+    const plane = mesh.userData.plane as SlicePlane;
+    const { x, y, through } = PLANE_AXES[plane];
+    if (mesh.userData.slice === voxel[through]) return;
+    mesh.userData.slice = voxel[through];
+
+    const [nx, ny] = volume.dimensions;
+    const width = volume.dimensions[x];
+    const height = volume.dimensions[y];
+    const texture = (mesh.material as THREE.MeshBasicMaterial).map as THREE.DataTexture;
+    const pixels = texture.image.data as Uint8Array;
+    const { width: windowWidth, level } = WINDOW_PRESETS.lung;
+    const low = level - windowWidth / 2;
+    const index: Vec3 = [0, 0, 0];
+    index[through] = voxel[through];
+    for (let py = 0; py < height; py++) {
+        index[y] = py;
+        for (let px = 0; px < width; px++) {
+            index[x] = px;
+            const hu = volume.data[index[0] + index[1] * nx + index[2] * nx * ny];
+            const o = (py * width + px) * 4;
+            pixels[o] = pixels[o + 1] = pixels[o + 2] = Math.max(0, Math.min(255, ((hu - low) / windowWidth) * 255));
+            pixels[o + 3] = 255;
+        }
+    }
+    texture.needsUpdate = true;
+
+    // Corners on the outer voxel edges, in texture order: (0,0), (1,0), (0,1), (1,1)
+    const corners = [[-0.5, -0.5], [width - 0.5, -0.5], [-0.5, height - 0.5], [width - 0.5, height - 0.5]].map(([u, v]) => {
+        const c: Vec3 = [...index];
+        c[x] = u;
+        c[y] = v;
+        return patientToScene(transform, voxelToPatient(volume, c[0], c[1], c[2]));
+    });
+    const positions = mesh.geometry.attributes.position as THREE.BufferAttribute;
+    corners.forEach((c, n) => positions.setXYZ(n, ...c));
+    positions.needsUpdate = true;
+    mesh.geometry.computeBoundingSphere();
+    const outline = (mesh.children[0] as THREE.LineLoop).geometry.attributes.position as THREE.BufferAttribute;
+    [0, 1, 3, 2].forEach((c, n) => outline.setXYZ(n, ...corners[c]));
+    outline.needsUpdate = true;
 };
 
 // --- SHADERS ---
@@ -38,9 +124,18 @@ const lungVertexShader = `
   uniform float expansionRatio;
   uniform float stiffnessIndex;
   uniform float uMotion;
+  uniform float uHasRegionalStiffness;
+  attribute float aFibrosis;
+  attribute float aVolumeChange;
+  attribute float aStiffness;
+  varying float vFibrosis;
+  varying float vVolumeChange;
+  #include <clipping_planes_pars_vertex>
 
   void main() {
     vUv = uv;
+    vFibrosis = aFibrosis;
+    vVolumeChange = aVolumeChange;
     vNormal = normalize(normalMatrix * normal);
     vPosition = position; 
     
@@ -50,20 +145,18 @@ const lungVertexShader = `
     float rawCycle = sin(time * 1.5);
     float breathCycle = (rawCycle + 1.0) * 0.5;
     
-    // Stiffness effect: lower parts move less if stiffness is high
-    float stiffnessThreshold = -6.0 + stiffnessIndex; 
-    float elasticity = 1.0;
-    
-    if (position.y < stiffnessThreshold) {
-       float depth = stiffnessThreshold - position.y;
-       elasticity = max(0.15, 1.0 - (depth * 0.3)); // INCREASED MIN VISIBILITY
-    }
+    // Stiffness effect: stiffer regions move less. Per lobe (aStiffness, 0-1) when a
+    // paired expiratory scan was analysed, otherwise the whole-lung index everywhere
+    float stiffness = uHasRegionalStiffness > 0.5 ? aStiffness : stiffnessIndex / 10.0;
+    float elasticity = max(0.15, 1.0 - stiffness * 0.85);
 
     // Expansion Logic
     float expansion = expansionRatio * 0.35 * breathCycle * elasticity * uMotion; // INCREASED BASE MAGNITUDE
     vec3 newPos = position + (normal * expansion);
 
-    gl_Position = projectionMatrix * modelViewMatrix * vec4(newPos, 1.0);
+    mvPosition = modelViewMatrix * vec4(newPos, 1.0);
+    #include <clipping_planes_vertex>
+    gl_Position = projectionMatrix * mvPosition;
   }
 `;
 
@@ -74,41 +167,53 @@ const lungFragmentShader = `
   varying vec3 vViewPosition;
   
   uniform float uIsRightLung;
+  uniform float uIsPlaceholder;
   uniform float uShowLobes;
   uniform float uShowAlveoli;
   uniform float uShowFibrosisMap;
+  uniform float uHasFibrosisData;
+  uniform float uShowVolumeChange;
+  uniform float uHasVolumeChange;
+  varying float vFibrosis;
+  varying float vVolumeChange;
+
+  #include <clipping_planes_pars_fragment>
 
   float rand(vec2 co){
       return fract(sin(dot(co.xy ,vec2(12.9898,78.233))) * 43758.5453);
   }
 
   void main() {
+    #include <clipping_planes_fragment>
     vec3 topColor = vec3(0.65, 0.45, 0.65); // Healthy tissue
     vec3 bottomColor = vec3(0.45, 0.25, 0.45); // Denser/Lower
     
     float heightFactor = smoothstep(-3.0, 3.0, vPosition.y);
     vec3 color = mix(bottomColor, topColor, heightFactor);
 
-    // Fissures for Lobes
-    float fissure = 0.0;
-    if (uIsRightLung > 0.5) {
-       // Right Lung Fissures (approximate)
-       float f1 = 1.0 - smoothstep(0.0, 0.05, abs(vPosition.y - 1.2 - vPosition.x * 0.2));
-       float f2 = 1.0 - smoothstep(0.0, 0.05, abs(vPosition.y + 1.5 - vPosition.z * 0.5));
-       fissure = max(f1, f2);
-    } else {
-       // Left Lung Fissure
-       float f1 = 1.0 - smoothstep(0.0, 0.05, abs(vPosition.y - 0.5 - vPosition.z * 0.8));
-       fissure = f1;
-    }
+    // Approximate fissures and lobe tint, for the procedural placeholder only;
+    // patient lungs show their detected lobes as separate meshes
+    if (uIsPlaceholder > 0.5) {
+        float fissure = 0.0;
+        if (uIsRightLung > 0.5) {
+           // Right Lung Fissures (approximate)
+           float f1 = 1.0 - smoothstep(0.0, 0.05, abs(vPosition.y - 1.2 + vPosition.x * 0.2));
+           float f2 = 1.0 - smoothstep(0.0, 0.05, abs(vPosition.y + 1.5 - vPosition.z * 0.5));
+           fissure = max(f1, f2);
+        } else {
+           // Left Lung Fissure
+           float f1 = 1.0 - smoothstep(0.0, 0.05, abs(vPosition.y - 0.5 - vPosition.z * 0.8));
+           fissure = f1;
+        }
 
-    if (uShowLobes > 0.5) {
-        color = mix(color, vec3(0.2, 0.1, 0.2), fissure * 0.6); // Darken fissures
-        // Color code lobes slightly
-        if (vPosition.y > 1.2) color += vec3(0.05, 0.0, 0.0); // Upper
-        else if (vPosition.y < -1.5) color += vec3(0.0, 0.0, 0.05); // Lower
-    } else {
-        color *= (1.0 - fissure * 0.2); // Subtle fissures normally
+        if (uShowLobes > 0.5) {
+            color = mix(color, vec3(0.2, 0.1, 0.2), fissure * 0.6); // Darken fissures
+            // Color code lobes slightly
+            if (vPosition.y > 1.2) color += vec3(0.05, 0.0, 0.0); // Upper
+            else if (vPosition.y < -1.5) color += vec3(0.0, 0.0, 0.05); // Lower
+        } else {
+            color *= (1.0 - fissure * 0.2); // Subtle fissures normally
+        }
     }
 
     // Lighting
@@ -130,14 +235,22 @@ const lungFragmentShader = `
         alpha += noise * 0.1;
     }
 
-    // Fibrosis Heatmap (Basal predominant)
-    if (uShowFibrosisMap > 0.5 && vPosition.y < -0.5) {
-        float scar = smoothstep(-0.5, -4.0, vPosition.y);
+    // Fibrosis Heatmap: measured per-vertex score, or basal predominant placeholder
+    float scar = uHasFibrosisData > 0.5 ? vFibrosis : smoothstep(-0.5, -4.0, vPosition.y);
+    if (uShowFibrosisMap > 0.5 && scar > 0.0) {
         vec3 scarColor = vec3(0.8, 0.6, 0.2); // Fibrotic yellow/brown
         color = mix(color, scarColor, scar * 0.8);
         alpha = mix(alpha, 0.95, scar * 0.8);
     }
 
+    // Regional volume change since baseline: shrinkage blue, expansion red, saturating at 20%
+    if (uShowVolumeChange > 0.5 && uHasVolumeChange > 0.5) {
+        float change = clamp(vVolumeChange / 0.2, -1.0, 1.0);
+        vec3 changeColor = change < 0.0 ? vec3(0.15, 0.45, 0.95) : vec3(0.95, 0.3, 0.2);
+        color = mix(color, changeColor, abs(change) * 0.85);
+        alpha = mix(alpha, 0.95, abs(change) * 0.6);
+    }
+
     vec3 finalColor = color + (vec3(1.0) * specular * 0.4) + (vec3(0.8, 0.6, 0.8) * fresnel * 0.5);
 
     gl_FragColor = vec4(finalColor, alpha);
@@ -148,11 +261,14 @@ const pathologyVertexShader = `
   varying vec2 vUv;
   varying vec3 vNormal;
   uniform float time;
+  #include <clipping_planes_pars_vertex>
   void main() {
     vUv = uv;
     vNormal = normal;
     float pulse = 1.0 + sin(time * 4.0) * 0.08;
-    gl_Position = projectionMatrix * modelViewMatrix * vec4(position * pulse, 1.0);
+    vec4 mvPosition = modelViewMatrix * vec4(position * pulse, 1.0);
+    #include <clipping_planes_vertex>
+    gl_Position = projectionMatrix * mvPosition;
   }
 `;
 
@@ -160,7 +276,9 @@ const pathologyFragmentShader = `
   varying vec2 vUv;
   varying vec3 vNormal;
   uniform float time;
+  #include <clipping_planes_pars_fragment>
   void main() {
+    #include <clipping_planes_fragment>
     vec3 baseColor = vec3(1.0, 0.4, 0.1); 
     float noise = sin(vUv.x * 20.0 + time) * cos(vUv.y * 20.0 + time);
     float alpha = 0.8 + noise * 0.2;
@@ -169,13 +287,471 @@ const pathologyFragmentShader = `
   }
 `;
 
+// Cutaway half-spaces the ray marcher can apply: every clip tool a box of six faces
+const MAX_VOLUME_CLIP_PLANES = 18;
+
+// Ray marcher over the unit box of texture coordinates; the mesh matrix places the box in the scene
+const volumeVertexShader = `
+  varying vec3 vLocal;
+  varying vec3 vCamera;
+  void main() {
+    vLocal = position;
+    vCamera = (inverse(modelMatrix) * vec4(cameraPosition, 1.0)).xyz;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+const volumeFragmentShader = `
+  precision highp sampler3D;
+  uniform sampler3D uVolume;   // Attenuation packed over VOLUME_HU_RANGE
+  uniform sampler3D uLabels;   // LungLabel per voxel
+  uniform sampler2D uTransfer; // RGBA over VOLUME_HU_RANGE
+  uniform vec4 uAirway;
+  uniform vec3 uSize;          // Voxels per axis
+  uniform vec3 uExtent;        // Millimetres per axis
+  uniform float uShowRightLung;
+  uniform float uShowLeftLung;
+  uniform vec4 uClipPlanes[${MAX_VOLUME_CLIP_PLANES}]; // Cutaway planes in texture coordinates
+  uniform int uClipCount;
+  varying vec3 vLocal;
+  varying vec3 vCamera;
+
+  const int MAX_STEPS = 1024;
+
+  // Same rule as the clipped surfaces: a sample behind any plane is cut away
+  bool clipped(vec3 p) {
+    for (int n = 0; n < ${MAX_VOLUME_CLIP_PLANES}; n++) {
+      if (n >= uClipCount) break;
+      if (dot(p, uClipPlanes[n].xyz) + uClipPlanes[n].w < 0.0) return true;
+    }
+    return false;
+  }
+
+  void main() {
+    // Where the view ray enters and leaves the box
+    vec3 dir = normalize(vLocal - vCamera);
+    vec3 t0 = -vCamera / dir;
+    vec3 t1 = (1.0 - vCamera) / dir;
+    vec3 tMin = min(t0, t1);
+    vec3 tMax = max(t0, t1);
+    float tNear = max(max(max(tMin.x, tMin.y), tMin.z), 0.0);
+    float tFar = min(min(tMax.x, tMax.y), tMax.z);
+    if (tNear >= tFar) discard;
+
+    // About one sample per voxel; the transfer opacities are per centimetre of tissue
+    float stepSize = 1.0 / max(max(uSize.x, uSize.y), uSize.z);
+    float stepCm = length(dir * uExtent) * stepSize / 10.0;
+    vec4 sum = vec4(0.0);
+    for (int n = 0; n < MAX_STEPS; n++) {
+      float t = tNear + (float(n) + 0.5) * stepSize;
+      if (t > tFar) break;
+      vec3 p = vCamera + dir * t;
+      if (clipped(p)) continue;
+      float label = floor(texture(uLabels, p).r * 255.0 + 0.5);
+      if (label < 0.5) continue;
+      if (label == ${LungLabel.RIGHT_LUNG}.0 && uShowRightLung < 0.5) continue;
+      if (label == ${LungLabel.LEFT_LUNG}.0 && uShowLeftLung < 0.5) continue;
+      vec4 color = label == ${LungLabel.AIRWAY}.0
+        ? uAirway
+        : texture(uTransfer, vec2((texture(uVolume, p).r * 255.0 + 0.5) / ${TRANSFER_TABLE_SIZE}.0, 0.5));
+      float alpha = 1.0 - pow(1.0 - min(color.a, 0.999), stepCm);
+      sum.rgb += (1.0 - sum.a) * alpha * color.rgb;
+      sum.a += (1.0 - sum.a) * alpha;
+      if (sum.a > 0.98) break;
+    }
+    if (sum.a < 0.005) discard;
+    gl_FragColor = sum; // Premultiplied
+  }
+`;
+
+const texture3D = (data: Uint8Array, [nx, ny, nz]: Vec3, filter: THREE.MagnificationTextureFilter) => {
+    const texture = new THREE.Data3DTexture(data, nx, ny, nz);
+    texture.format = THREE.RedFormat;
+    texture.minFilter = filter;
+    texture.magFilter = filter;
+    texture.unpackAlignment = 1;
+    texture.needsUpdate = true;
+    return texture;
+};
+
+/**
+ * Box around the analysis volume that ray-marches it on the GPU. Only back faces
+ * are drawn, so opaque overlays inside the box (airways, vessels, slice planes)
+ * win the depth test against it and stay on top of the rendering.
+ */
+const createVolumeMesh = (analysis: LungAnalysisResult, transform: SceneTransform, packed: Uint8Array, transferFunction: TransferFunction) => {
+    const { analysisVolume: volume, segmentation } = analysis;
+    const [nx, ny, nz] = volume.dimensions;
+    const transfer = new THREE.DataTexture(transferFunctionTable(transferFunction), TRANSFER_TABLE_SIZE, 1);
+    transfer.minFilter = THREE.LinearFilter;
+    transfer.magFilter = THREE.LinearFilter;
+    transfer.needsUpdate = true;
+    const { color, opacity } = transferFunction.airway;
+
+    const material = new THREE.ShaderMaterial({
+        vertexShader: volumeVertexShader,
+        fragmentShader: volumeFragmentShader,
+        uniforms: {
+            uVolume: { value: texture3D(packed, volume.dimensions, THREE.LinearFilter) },
+            uLabels: { value: texture3D(segmentation.labels, segmentation.dimensions, THREE.NearestFilter) },
+            uTransfer: { value: transfer },
+            uAirway: { value: new THREE.Vector4(color[0] / 255, color[1] / 255, color[2] / 255, opacity) },
+            uSize: { value: new THREE.Vector3(nx, ny, nz) },
+            uExtent: { value: new THREE.Vector3(nx * volume.spacing[0], ny * volume.spacing[1], nz * volume.spacing[2]) },
+            uShowRightLung: { value: 1.0 },
+            uShowLeftLung: { value: 1.0 },
+            uClipPlanes: { value: Array.from({ length: MAX_VOLUME_CLIP_PLANES }, () => new THREE.Vector4()) },
+            uClipCount: { value: 0 },
+        },
+        side: THREE.BackSide,
+        transparent: true,
+        depthWrite: false,
+        premultipliedAlpha: true,
+    });
+
+    const geo = new THREE.BoxGeometry(1, 1, 1);
+    geo.translate(0.5, 0.5, 0.5);
+    const mesh = new THREE.Mesh(geo, material);
+    mesh.name = 'volume';
+    mesh.userData.notPickable = true;
+    mesh.renderOrder = -1; // Before the other translucent layers, which blend over it
+
+    // Texture coordinates -> scene, with the box faces on the outer voxel edges
+    const corner = (i: number, j: number, k: number) =>
+        new THREE.Vector3(...patientToScene(transform, voxelToPatient(volume, i - 0.5, j - 0.5, k - 0.5)));
+    const origin = corner(0, 0, 0);
+    mesh.matrixAutoUpdate = false;
+    mesh.matrix.makeBasis(corner(nx, 0, 0).sub(origin), corner(0, ny, 0).sub(origin), corner(0, 0, nz).sub(origin)).setPosition(origin);
+    return mesh;
+};
+
+/** Rewrites a volume mesh's transfer table and airway colour after an edit. */
+const applyTransferFunction = (mesh: THREE.Mesh, transferFunction: TransferFunction) => {
+    const { uniforms } = mesh.material as THREE.ShaderMaterial;
+    const transfer = uniforms.uTransfer.value as THREE.DataTexture;
+    (transfer.image.data as Uint8Array).set(transferFunctionTable(transferFunction));
+    transfer.needsUpdate = true;
+    const { color, opacity } = transferFunction.airway;
+    (uniforms.uAirway.value as THREE.Vector4).set(color[0] / 255, color[1] / 255, color[2] / 255, opacity);
+};
+
+/** Copies the cutaway planes into a volume mesh, moved into its texture coordinates. */
+const applyVolumeClipPlanes = (mesh: THREE.Mesh, planes: THREE.Plane[]) => {
+    const { uniforms } = mesh.material as THREE.ShaderMaterial;
+    const toTexture = mesh.matrixWorld.clone().invert();
+    const out = uniforms.uClipPlanes.value as THREE.Vector4[];
+    const count = Math.min(planes.length, MAX_VOLUME_CLIP_PLANES);
+    for (let n = 0; n < count; n++) {
+        const { normal, constant } = planes[n].clone().applyMatrix4(toTexture);
+        out[n].set(normal.x, normal.y, normal.z, constant);
+    }
+    uniforms.uClipCount.value = count;
+};
+
+/**
+ * Frees the GPU memory behind everything in a scene: geometries, materials and
+ * their textures, including textures held in shader uniforms (the volume mesh's
+ * 3D textures among them).
+ */
+const disposeScene = (scene: THREE.Scene) => {
+    scene.traverse(object => {
+        const { geometry, material } = object as THREE.Mesh;
+        geometry?.dispose();
+        const materials = Array.isArray(material) ? material : material ? [material] : [];
+        for (const mat of materials) {
+            const values = mat instanceof THREE.ShaderMaterial ? Object.values(mat.uniforms).map(u => (u as THREE.IUniform).value) : [];
+            for (const value of [...Object.values(mat), ...values]) {
+                if (value instanceof THREE.Texture) value.dispose();
+            }
+            mat.dispose();
+        }
+    });
+};
+
+// --- CLIPPING ---
+
+type ClipKind = 'plane' | 'box';
+type GizmoMode = 'translate' | 'rotate' | 'scale';
+
+/** A cutaway tool. Its pose lives here so it survives scene rebuilds. */
+interface ClipTool {
+    id: string;
+    kind: ClipKind;
+    position: THREE.Vector3;
+    quaternion: THREE.Quaternion;
+    scale: THREE.Vector3; // Box edge lengths in scene units; planes stay at 1
+}
+
+const MAX_CLIP_PLANES = 3;
+const CLIP_NUDGE_MM = 2; // Per arrow key press; five times that with Shift
+const CLIP_NUDGE_DEGREES = 5;
+const CLIP_HELPER_SIZE = 8; // Scene units
+const CLIP_CAP_SIZE = 40;
+const CLIP_CAP_COLOR = 0xc98a9c;
+const CLIP_HELPER_COLOR = 0x22d3ee;
+const CLIP_RENDER_ORDER = 10; // Stencil passes and caps run in plane order after the other opaque objects
+
+// Stencil passes only count surface crossings, so they need no colour
+const clipStencilFragmentShader = `
+  #include <clipping_planes_pars_fragment>
+  void main() {
+    #include <clipping_planes_fragment>
+    gl_FragColor = vec4(1.0);
+  }
+`;
+
+/**
+ * Visible outline of a tool for the gizmo to grab: a square with an arrow towards
+ * the kept side for a plane, a wire cube for a box (sized through its scale).
+ */
+const createClipHelper = (tool: ClipTool) => {
+    const helper = new THREE.Group();
+    const material = new THREE.MeshBasicMaterial({ color: CLIP_HELPER_COLOR, transparent: true, opacity: 0.06, side: THREE.DoubleSide, depthWrite: false });
+    const lineMaterial = new THREE.LineBasicMaterial({ color: CLIP_HELPER_COLOR, transparent: true, opacity: 0.8 });
+    if (tool.kind === 'plane') {
+        const quad = new THREE.PlaneGeometry(CLIP_HELPER_SIZE, CLIP_HELPER_SIZE);
+        helper.add(new THREE.Mesh(quad, material));
+        helper.add(new THREE.LineSegments(new THREE.EdgesGeometry(quad), lineMaterial));
+        helper.add(new THREE.ArrowHelper(new THREE.Vector3(0, 0, 1), new THREE.Vector3(), 1, CLIP_HELPER_COLOR, 0.25, 0.15));
+    } else {
+        const cube = new THREE.BoxGeometry(1, 1, 1);
+        helper.add(new THREE.Mesh(cube, material));
+        helper.add(new THREE.LineSegments(new THREE.EdgesGeometry(cube), lineMaterial));
+    }
+    helper.position.copy(tool.position);
+    helper.quaternion.copy(tool.quaternion);
+    helper.scale.copy(tool.scale);
+    helper.traverse(child => { child.userData.clipToolId = tool.id; child.userData.notPickable = true; });
+    return helper;
+};
+
+/** Half-spaces a helper keeps: the arrow side of a plane, the inside of a box (six faces). */
+const helperPlanes = (helper: THREE.Object3D, kind: ClipKind, out: THREE.Plane[]) => {
+    if (kind === 'plane') {
+        out[0].setFromNormalAndCoplanarPoint(new THREE.Vector3(0, 0, 1).applyQuaternion(helper.quaternion), helper.position);
+        return;
+    }
+    for (let a = 0; a < 3; a++) {
+        const axis = new THREE.Vector3().setComponent(a, 1).applyQuaternion(helper.quaternion);
+        const half = helper.scale.getComponent(a) / 2;
+        for (const sign of [1, -1]) {
+            const face = helper.position.clone().addScaledVector(axis, sign * half);
+            out[a * 2 + (sign > 0 ? 0 : 1)].setFromNormalAndCoplanarPoint(axis.clone().multiplyScalar(-sign), face);
+        }
+    }
+};
+
+/**
+ * Clip planes plus stencil caps for the lung surfaces. For each plane the lungs are
+ * drawn into the stencil buffer (back faces count up, front faces down) clipped by
+ * that plane alone, leaving non-zero stencil wherever the plane lies inside a lung;
+ * a cap quad on the plane, clipped by the other planes, then fills those pixels.
+ */
+const createClipRig = (scene: THREE.Scene, lungs: THREE.Mesh[]) => {
+    const planes: THREE.Plane[] = []; // Shared by every clipped material, updated in place
+    const helpers = new Map<string, { tool: ClipTool; helper: THREE.Object3D; planes: THREE.Plane[] }>();
+    let caps: { plane: THREE.Plane; cap: THREE.Mesh; stencils: THREE.Mesh[] }[] = [];
+    let parts: THREE.Object3D[] = [];
+
+    const stencilMaterial = (lung: THREE.Mesh, plane: THREE.Plane, side: THREE.Side) => {
+        const source = lung.material as THREE.ShaderMaterial;
+        const op = side === THREE.BackSide ? THREE.IncrementWrapStencilOp : THREE.DecrementWrapStencilOp;
+        return new THREE.ShaderMaterial({
+            vertexShader: source.vertexShader, // Same breathing displacement as the visible surface
+            fragmentShader: clipStencilFragmentShader,
+            uniforms: source.uniforms,
+            side,
+            clipping: true,
+            clippingPlanes: [plane],
+            colorWrite: false,
+            depthWrite: false,
+            depthTest: false,
+            stencilWrite: true,
+            stencilFunc: THREE.AlwaysStencilFunc,
+            stencilFail: op,
+            stencilZFail: op,
+            stencilZPass: op,
+        });
+    };
+
+    const setTools = (tools: ClipTool[]) => {
+        parts.forEach(part => scene.remove(part));
+        parts = [];
+        caps = [];
+        helpers.clear();
+        planes.length = 0;
+
+        for (const tool of tools) {
+            const helper = createClipHelper(tool);
+            const own = Array.from({ length: tool.kind === 'plane' ? 1 : 6 }, () => new THREE.Plane());
+            helpers.set(tool.id, { tool, helper, planes: own });
+            planes.push(...own);
+            parts.push(helper);
+        }
+
+        planes.forEach((plane, n) => {
+            const cap = new THREE.Mesh(new THREE.PlaneGeometry(CLIP_CAP_SIZE, CLIP_CAP_SIZE), new THREE.MeshPhongMaterial({
+                color: CLIP_CAP_COLOR,
+                shininess: 10,
+                side: THREE.DoubleSide,
+                clippingPlanes: planes.filter(other => other !== plane),
+                stencilWrite: true,
+                stencilRef: 0,
+                stencilFunc: THREE.NotEqualStencilFunc,
+                stencilFail: THREE.ReplaceStencilOp,
+                stencilZFail: THREE.ReplaceStencilOp,
+                stencilZPass: THREE.ReplaceStencilOp,
+            }));
+            cap.renderOrder = CLIP_RENDER_ORDER + n * 2 + 1;
+            cap.onAfterRender = renderer => renderer.clearStencil();
+            cap.userData.notPickable = true;
+            const stencils = lungs.flatMap(lung => [THREE.BackSide, THREE.FrontSide].map(side => {
+                const mesh = new THREE.Mesh(lung.geometry, stencilMaterial(lung, plane, side));
+                mesh.position.copy(lung.position);
+                mesh.renderOrder = CLIP_RENDER_ORDER + n * 2;
+                mesh.userData.notPickable = true;
+                return mesh;
+            }));
+            caps.push({ plane, cap, stencils });
+            parts.push(cap, ...stencils);
+        });
+        parts.forEach(part => scene.add(part));
+        update(lungs.map(() => true));
+    };
+
+    /** Re-derives the planes from the helpers and moves the caps onto them; `shown` is per lung. */
+    const update = (shown: boolean[]) => {
+        helpers.forEach(({ tool, helper, planes: own }) => helperPlanes(helper, tool.kind, own));
+        const anyShown = shown.some(Boolean);
+        for (const { plane, cap, stencils } of caps) {
+            plane.coplanarPoint(cap.position);
+            cap.lookAt(cap.position.clone().sub(plane.normal));
+            cap.visible = anyShown;
+            stencils.forEach((mesh, n) => { mesh.visible = shown[Math.floor(n / 2)]; });
+        }
+    };
+
+    /** Copies a helper's pose back onto its tool after the gizmo or a key moved it. */
+    const syncTool = (id: string) => {
+        const entry = helpers.get(id);
+        if (!entry) return;
+        entry.tool.position.copy(entry.helper.position);
+        entry.tool.quaternion.copy(entry.helper.quaternion);
+        entry.tool.scale.copy(entry.helper.scale);
+    };
+
+    return { planes, setTools, update, syncTool, helperOf: (id: string) => helpers.get(id)?.helper };
+};
+
+type ClipRig = ReturnType<typeof createClipRig>;
+
+// --- MEASUREMENTS ---
+
+const MEASUREMENT_TOOLS: { kind: MeasurementKind; label: string }[] = [
+    { kind: 'distance', label: 'Distance' },
+    { kind: 'angle', label: 'Angle' },
+    { kind: 'sphere', label: 'Sphere ROI' },
+];
+const MEASUREMENT_HINTS: Record<MeasurementKind, string[]> = {
+    distance: ['Click the first point', 'Click the second point'],
+    angle: ['Click the first arm', 'Click the vertex', 'Click the second arm'],
+    sphere: ['Click the centre', 'Click a point on the rim'],
+};
+const MEASUREMENT_COLOR = 0xfbbf24;
+const MEASUREMENT_MARKER_MM = 2;
+const NO_MEASUREMENTS: Measurement[] = [];
+
+/** Whether a raycast hit lands on something drawn: visible all the way up and not clipped away. */
+const isPickable = (hit: THREE.Intersection) => {
+    for (let object: THREE.Object3D | null = hit.object; object; object = object.parent) {
+        if (!object.visible || object.userData.notPickable) return false;
+    }
+    const planes = ((hit.object as THREE.Mesh).material as THREE.Material).clippingPlanes;
+    return !planes || planes.every(plane => plane.distanceToPoint(hit.point) >= 0);
+};
+
+// Where a measurement's label sits: mid-distance, at the angle's vertex, at the sphere's centre
+const measurementAnchor = (m: Measurement): Vec3 => m.kind === 'distance'
+    ? [0, 1, 2].map(a => (m.points[0][a] + m.points[1][a]) / 2) as Vec3
+    : m.points[m.kind === 'angle' ? 1 : 0];
+
+/** Redraws the measurement markers, lines and spheres (plus a half-picked one) on top of the scene. */
+const drawMeasurements = (group: THREE.Group, transform: SceneTransform, measurements: Measurement[], pending: Vec3[]) => {
+    group.clear();
+    const material = new THREE.MeshBasicMaterial({ color: MEASUREMENT_COLOR, depthTest: false, transparent: true });
+    const lineMaterial = new THREE.LineBasicMaterial({ color: MEASUREMENT_COLOR, depthTest: false, transparent: true });
+    const marker = new THREE.SphereGeometry(MEASUREMENT_MARKER_MM * transform.scale, 12, 8);
+    const shapes: { kind: MeasurementKind | null; points: Vec3[] }[] = [...measurements];
+    if (pending.length > 0) shapes.push({ kind: null, points: pending });
+
+    for (const { kind, points } of shapes) {
+        const scenePoints = points.map(p => new THREE.Vector3(...patientToScene(transform, p)));
+        for (const point of scenePoints) {
+            const dot = new THREE.Mesh(marker, material);
+            dot.position.copy(point);
+            group.add(dot);
+        }
+        if (kind === 'sphere') {
+            const sphere = new THREE.Mesh(
+                new THREE.SphereGeometry(distanceMm(points[0], points[1]) * transform.scale, 24, 16),
+                new THREE.MeshBasicMaterial({ color: MEASUREMENT_COLOR, wireframe: true, transparent: true, opacity: 0.35, depthTest: false })
+            );
+            sphere.position.copy(scenePoints[0]);
+            group.add(sphere);
+        } else if (scenePoints.length > 1) {
+            group.add(new THREE.Line(new THREE.BufferGeometry().setFromPoints(scenePoints), lineMaterial));
+        }
+    }
+    group.traverse(child => { child.renderOrder = 30; });
+};
+
+// --- ANNOTATIONS ---
+
+const ANNOTATION_COLOR = 0xa78bfa;
+const ANNOTATION_MARKER_MM = 2.5;
+const NO_ANNOTATIONS: Annotation[] = [];
+
+/** Redraws the pin heads, the selected one in white. */
+const drawAnnotations = (group: THREE.Group, transform: SceneTransform, annotations: Annotation[], selectedId: string | null) => {
+    group.clear();
+    const marker = new THREE.SphereGeometry(ANNOTATION_MARKER_MM * transform.scale, 16, 12);
+    const material = new THREE.MeshBasicMaterial({ color: ANNOTATION_COLOR, depthTest: false, transparent: true });
+    const selectedMaterial = new THREE.MeshBasicMaterial({ color: 0xffffff, depthTest: false, transparent: true });
+    for (const annotation of annotations) {
+        const pin = new THREE.Mesh(marker, annotation.id === selectedId ? selectedMaterial : material);
+        pin.position.set(...patientToScene(transform, annotation.position));
+        pin.renderOrder = 30;
+        group.add(pin);
+    }
+};
+
+const newClipTool = (kind: ClipKind, count: number): ClipTool => ({
+    id: `${kind}-${Date.now()}-${count}`,
+    kind,
+    position: new THREE.Vector3(),
+    // New planes face the viewer so the near half of the lungs is cut away
+    quaternion: kind === 'plane' ? new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), Math.PI) : new THREE.Quaternion(),
+    scale: kind === 'plane' ? new THREE.Vector3(1, 1, 1) : new THREE.Vector3(6, 6, 6),
+});
+
 const LungVisualizer: React.FC<LungVisualizerProps> = ({
     metrics,
+    analysis,
+    baselineMetrics,
     layers,
     showOverlay,
     externalControlsRef,
     className,
-    onStructureClick
+    onStructureClick,
+    sliceCursor,
+    onSliceCursorChange,
+    measurements = NO_MEASUREMENTS,
+    onMeasurementsChange,
+    annotations = NO_ANNOTATIONS,
+    selectedAnnotationId = null,
+    onAnnotationSelect,
+    placingPin = false,
+    onPinPlaced
 }) => {
     const mountRef = useRef<HTMLDivElement>(null);
     const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
@@ -187,6 +763,13 @@ const LungVisualizer: React.FC<LungVisualizerProps> = ({
     // Interaction State
     const [activeLabel, setActiveLabel] = useState<string | null>(null);
     const [isLegendOpen, setIsLegendOpen] = useState(false);
+    const [renderMode, setRenderMode] = useState<RenderMode>('surface');
+    const [transferFunction, setTransferFunction] = useState<TransferFunction>(() => transferFunctionFromPreset('parenchyma'));
+    const [clipTools, setClipTools] = useState<ClipTool[]>([]);
+    const [selectedClipId, setSelectedClipId] = useState<string | null>(null);
+    const [gizmoMode, setGizmoMode] = useState<GizmoMode>('translate');
+    const [measureTool, setMeasureTool] = useState<MeasurementKind | null>(null);
+    const [pendingPoints, setPendingPoints] = useState<Vec3[]>([]);
 
     // UI References for connecting lines
     const labelRef = useRef<HTMLDivElement>(null);
@@ -195,14 +778,45 @@ const LungVisualizer: React.FC<LungVisualizerProps> = ({
     // References
     const rightLungRef = useRef<THREE.Mesh | null>(null);
     const leftLungRef = useRef<THREE.Mesh | null>(null);
+    const lobeMeshesRef = useRef<Partial<Record<LobeKey, THREE.Mesh>>>({});
     const bronchiGroupRef = useRef<THREE.Group | null>(null);
     const bronchiolesGroupRef = useRef<THREE.Group | null>(null);
     const vesselsGroupRef = useRef<THREE.Group | null>(null);
     const airflowSystemRef = useRef<THREE.Points | null>(null);
-    const pathologyMeshRef = useRef<THREE.Mesh | null>(null);
+    const pathologyMeshesRef = useRef<THREE.Mesh[]>([]);
+    const labelPointsRef = useRef<Record<string, THREE.Vector3>>({}); // Findings and lobes by label key
+    const slicePlanesRef = useRef<THREE.Mesh[]>([]);
+    const sceneTransformRef = useRef<SceneTransform | null>(null);
+    const sliceCursorRef = useRef(sliceCursor ?? null);
+    const onSliceCursorChangeRef = useRef(onSliceCursorChange);
+    const suppressClickRef = useRef(false); // Swallows the click that ends a slice plane or gizmo drag
+    const volumeMeshRef = useRef<THREE.Mesh | null>(null);
+    const packedVolumeRef = useRef<{ volume: CTVolume; data: Uint8Array } | null>(null); // Packed once per scan
+    const renderModeRef = useRef(renderMode);
+    const transferFunctionRef = useRef(transferFunction);
+    const clipRigRef = useRef<ClipRig | null>(null);
+    const gizmoRef = useRef<TransformControls | null>(null);
+    const clipToolsRef = useRef(clipTools);
+    const selectedClipRef = useRef(selectedClipId);
+    const gizmoModeRef = useRef(gizmoMode);
+    const measurementsRef = useRef(measurements);
+    const onMeasurementsChangeRef = useRef(onMeasurementsChange);
+    const measureToolRef = useRef(measureTool);
+    const pendingPointsRef = useRef(pendingPoints);
+    const measurementGroupRef = useRef<THREE.Group | null>(null);
+    const measurementLabelsRef = useRef<Record<string, HTMLDivElement | null>>({});
+    const annotationsRef = useRef(annotations);
+    const selectedAnnotationRef = useRef(selectedAnnotationId);
+    const placingPinRef = useRef(placingPin);
+    const onPinPlacedRef = useRef(onPinPlaced);
+    const annotationGroupRef = useRef<THREE.Group | null>(null);
+    const annotationLabelsRef = useRef<Record<string, HTMLDivElement | null>>({});
+    const annotationLinesRef = useRef<Record<string, SVGLineElement | null>>({});
 
     const layersRef = useRef(layers);
     const metricsRef = useRef(metrics);
+    // Read by the animation loop, so picking a structure never rebuilds the scene
+    const activeLabelRef = useRef(activeLabel);
 
     const raycaster = useRef(new THREE.Raycaster());
     const mouse = useRef(new THREE.Vector2());
@@ -210,9 +824,42 @@ const LungVisualizer: React.FC<LungVisualizerProps> = ({
     // Keep refs updated
     useEffect(() => { layersRef.current = layers; }, [layers]);
     useEffect(() => { metricsRef.current = metrics; }, [metrics]);
+    useEffect(() => { activeLabelRef.current = activeLabel; }, [activeLabel]);
+    useEffect(() => { onSliceCursorChangeRef.current = onSliceCursorChange; }, [onSliceCursorChange]);
+    useEffect(() => { onMeasurementsChangeRef.current = onMeasurementsChange; }, [onMeasurementsChange]);
+    useEffect(() => { onPinPlacedRef.current = onPinPlaced; }, [onPinPlaced]);
+    useEffect(() => { placingPinRef.current = placingPin; }, [placingPin]);
+
+    // The volume mesh is only built once volume mode is first used
+    const addVolumeMesh = (scene: THREE.Scene) => {
+        const transform = sceneTransformRef.current;
+        if (!analysis || !transform) return;
+        if (packedVolumeRef.current?.volume !== analysis.analysisVolume) {
+            packedVolumeRef.current = { volume: analysis.analysisVolume, data: quantizeVolume(analysis.analysisVolume) };
+        }
+        const mesh = createVolumeMesh(analysis, transform, packedVolumeRef.current.data, transferFunctionRef.current);
+        scene.add(mesh);
+        volumeMeshRef.current = mesh;
+    };
+
+    const attachGizmo = () => {
+        const gizmo = gizmoRef.current;
+        if (!gizmo) return;
+        const helper = selectedClipRef.current ? clipRigRef.current?.helperOf(selectedClipRef.current) : undefined;
+        if (helper) {
+            gizmo.attach(helper);
+            gizmo.setMode(gizmoModeRef.current);
+        } else {
+            gizmo.detach();
+        }
+    };
 
     const handleCanvasClick = (event: MouseEvent) => {
         if (!mountRef.current || !cameraRef.current || !sceneRef.current) return;
+        if (suppressClickRef.current) {
+            suppressClickRef.current = false;
+            return;
+        }
 
         const rect = mountRef.current.getBoundingClientRect();
         mouse.current.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
@@ -221,11 +868,46 @@ const LungVisualizer: React.FC<LungVisualizerProps> = ({
         raycaster.current.setFromCamera(mouse.current, cameraRef.current);
         const intersects = raycaster.current.intersectObjects(sceneRef.current.children, true);
 
+        // Pins and measuring tools take the click as a point on the nearest surface shown
+        const transform = sceneTransformRef.current;
+        const surfaceHit = intersects.find(hit => hit.object instanceof THREE.Mesh && isPickable(hit));
+        const surfacePoint = surfaceHit && transform ? sceneToPatient(transform, surfaceHit.point.toArray() as Vec3) : null;
+        if (placingPinRef.current) {
+            if (surfacePoint) onPinPlacedRef.current?.(surfacePoint);
+            return;
+        }
+        const tool = measureToolRef.current;
+        if (tool) {
+            if (!surfacePoint || !analysis) return;
+            const points = [...pendingPointsRef.current, surfacePoint];
+            if (points.length < MEASUREMENT_POINTS[tool]) {
+                setPendingPoints(points);
+                return;
+            }
+            onMeasurementsChangeRef.current?.([...measurementsRef.current, createMeasurement(tool, points, analysis, measurementsRef.current)]);
+            setPendingPoints([]);
+            return;
+        }
+
         if (intersects.length > 0) {
             const hitPathology = intersects.find(hit => hit.object.name === 'pathology');
             if (hitPathology) {
-                onStructureClick?.('pathology');
-                setActiveLabel('pathology');
+                const key = hitPathology.object.userData.findingId ?? 'pathology';
+                onStructureClick?.(key);
+                setActiveLabel(key);
+                return;
+            }
+            // The raycaster also reports hidden meshes, so only lobes currently on screen count
+            const hitLobe = intersects.find(hit => hit.object.name === 'lobe' && hit.object.visible);
+            if (hitLobe) {
+                const key = LOBE_LABEL_PREFIX + hitLobe.object.userData.lobe;
+                onStructureClick?.(key);
+                setActiveLabel(key);
+                return;
+            }
+            const hitClipTool = intersects.find(hit => hit.object.userData.clipToolId && hit.object.visible);
+            if (hitClipTool) {
+                setSelectedClipId(hitClipTool.object.userData.clipToolId);
                 return;
             }
             setActiveLabel(null);
@@ -242,12 +924,14 @@ const LungVisualizer: React.FC<LungVisualizerProps> = ({
 
         const scene = new THREE.Scene();
         sceneRef.current = scene;
+        materialsRef.current = [];
 
         const camera = new THREE.PerspectiveCamera(45, width / height, 0.1, 100);
         camera.position.set(0, 0, 18);
         cameraRef.current = camera;
 
-        const renderer = new THREE.WebGLRenderer({ alpha: true, antialias: true });
+        const renderer = new THREE.WebGLRenderer({ alpha: true, antialias: true, stencil: true }); // Stencil caps the clipped lungs
+        renderer.localClippingEnabled = true;
         renderer.setSize(width, height);
         renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
         renderer.setClearColor(0x000000, 0);
@@ -264,25 +948,7 @@ const LungVisualizer: React.FC<LungVisualizerProps> = ({
         renderer.domElement.addEventListener('click', handleCanvasClick);
 
         // --- 1. LUNG MESHES ---
-        const createLungMesh = (isRight: boolean) => {
-            const geo = new THREE.SphereGeometry(isRight ? 2.9 : 2.75, 128, 128);
-            // Shape deformation
-            const pos = geo.attributes.position;
-            for (let i = 0; i < pos.count; i++) {
-                let x = pos.getX(i);
-                let y = pos.getY(i);
-                let z = pos.getZ(i);
-                if ((isRight && x < 0) || (!isRight && x > 0)) x *= 0.3; // Flatten medial side
-                let scaleXZ = y > 0 ? 1.0 - (y * 0.12) : 1.0 + (Math.abs(y) * 0.05); // Taper top
-                if (!isRight && x > 0 && y < 0.5 && y > -1.5 && z > 0) { // Cardiac notch
-                    const dist = Math.sqrt(x * x + y * y + z * z);
-                    x -= 0.6 * (1.0 - Math.min(dist / 2.5, 1.0));
-                }
-                pos.setX(i, x * scaleXZ);
-                pos.setZ(i, z * scaleXZ);
-                pos.setY(i, y * 1.3); // Elongate
-            }
-            geo.computeVertexNormals();
+        const createLungMaterial = (isRight: boolean, hasFibrosisData = false, hasVolumeChange = false, hasRegionalStiffness = false) => {
             const mat = new THREE.ShaderMaterial({
                 vertexShader: lungVertexShader,
                 fragmentShader: lungFragmentShader,
@@ -291,22 +957,80 @@ const LungVisualizer: React.FC<LungVisualizerProps> = ({
                     expansionRatio: { value: metrics.expansionRatio },
                     stiffnessIndex: { value: metrics.stiffnessIndex },
                     uIsRightLung: { value: isRight ? 1.0 : 0.0 },
+                    uIsPlaceholder: { value: 0.0 },
                     uShowLobes: { value: 0.0 },
                     uShowAlveoli: { value: 0.0 },
                     uShowFibrosisMap: { value: 0.0 },
+                    uHasFibrosisData: { value: hasFibrosisData ? 1.0 : 0.0 },
+                    uShowVolumeChange: { value: 0.0 },
+                    uHasVolumeChange: { value: hasVolumeChange ? 1.0 : 0.0 },
+                    uHasRegionalStiffness: { value: hasRegionalStiffness ? 1.0 : 0.0 },
                     uMotion: { value: 1.0 }
                 },
                 side: THREE.FrontSide,
                 transparent: true,
                 depthWrite: false,
-                blending: THREE.NormalBlending
+                blending: THREE.NormalBlending,
+                clipping: true
             });
             materialsRef.current.push(mat);
-            const mesh = new THREE.Mesh(geo, mat);
-            mesh.position.x = isRight ? 3.0 : -3.0;
+            return mat;
+        };
+
+        // Placeholder shape used until a scan has been segmented. Same axes as patient
+        // meshes (x = patient Left), so the right lung sits at -x
+        const createProceduralLungMesh = (isRight: boolean) => {
+            const geo = new THREE.SphereGeometry(isRight ? 2.9 : 2.75, 128, 128);
+            // Shape deformation
+            const pos = geo.attributes.position;
+            for (let i = 0; i < pos.count; i++) {
+                let x = pos.getX(i);
+                let y = pos.getY(i);
+                let z = pos.getZ(i);
+                if ((isRight && x > 0) || (!isRight && x < 0)) x *= 0.3; // Flatten medial side
+                let scaleXZ = y > 0 ? 1.0 - (y * 0.12) : 1.0 + (Math.abs(y) * 0.05); // Taper top
+                if (!isRight && x < 0 && y < 0.5 && y > -1.5 && z > 0) { // Cardiac notch
+                    const dist = Math.sqrt(x * x + y * y + z * z);
+                    x += 0.6 * (1.0 - Math.min(dist / 2.5, 1.0));
+                }
+                pos.setX(i, x * scaleXZ);
+                pos.setZ(i, z * scaleXZ);
+                pos.setY(i, y * 1.3); // Elongate
+            }
+            geo.computeVertexNormals();
+            const material = createLungMaterial(isRight);
+            material.uniforms.uIsPlaceholder.value = 1.0;
+            const mesh = new THREE.Mesh(geo, material);
+            mesh.position.x = isRight ? -3.0 : 3.0;
             return mesh;
         };
 
+        // Surface built from the patient's lung mask, already in scene coordinates
+        const createPatientLungMesh = (surface: SurfaceMesh, transform: SceneTransform, isRight: boolean) => {
+            const { positions, normals, indices } = meshToScene(transform, surface);
+            const geo = new THREE.BufferGeometry();
+            geo.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+            geo.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
+            geo.setIndex(new THREE.BufferAttribute(indices, 1));
+            geo.computeBoundingSphere();
+            const fibrosis = analysis?.fibrosis.map;
+            if (fibrosis) geo.setAttribute('aFibrosis', new THREE.BufferAttribute(sampleFibrosisAtVertices(fibrosis, surface), 1));
+            const registration = analysis?.longitudinal?.registration;
+            if (registration) geo.setAttribute('aVolumeChange', new THREE.BufferAttribute(volumeChangeAtVertices(registration, surface), 1));
+            const stiffness = analysis?.expiratory?.ventilation.stiffness;
+            if (analysis && stiffness) geo.setAttribute('aStiffness', new THREE.BufferAttribute(stiffnessAtVertices(analysis.lobes, stiffness.lobes, stiffness.wholeLung, surface), 1));
+            return new THREE.Mesh(geo, createLungMaterial(isRight, !!fibrosis, !!registration, !!stiffness));
+        };
+
+        const sceneTransform = analysis ? sceneTransformForMeshes(analysis.meshes) : null;
+        labelPointsRef.current = {};
+        const createLungMesh = (isRight: boolean) => {
+            const surface = isRight ? analysis?.meshes.rightLung : analysis?.meshes.leftLung;
+            return surface && sceneTransform
+                ? createPatientLungMesh(surface, sceneTransform, isRight)
+                : createProceduralLungMesh(isRight);
+        };
+
         const rightLung = createLungMesh(true);
         rightLungRef.current = rightLung;
         const leftLung = createLungMesh(false);
@@ -316,6 +1040,35 @@ const LungVisualizer: React.FC<LungVisualizerProps> = ({
         scene.add(rightLung);
         scene.add(leftLung);
 
+        // Per-lobe surfaces, shown instead of the whole lungs while the lobes layer is on
+        lobeMeshesRef.current = {};
+        if (analysis && sceneTransform) {
+            for (const key of LOBE_KEYS) {
+                const surface = analysis.meshes.lobes[key];
+                if (!surface) continue;
+                const { positions, normals, indices } = meshToScene(sceneTransform, surface);
+                const geo = new THREE.BufferGeometry();
+                geo.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+                geo.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
+                geo.setIndex(new THREE.BufferAttribute(indices, 1));
+                geo.computeBoundingSphere();
+                const mesh = new THREE.Mesh(geo, new THREE.MeshPhongMaterial({
+                    color: LOBE_COLORS[key],
+                    transparent: true,
+                    opacity: 0.55,
+                    shininess: 40,
+                    depthWrite: false,
+                }));
+                mesh.name = 'lobe';
+                mesh.userData = { lobe: key };
+                mesh.renderOrder = 1;
+                mesh.visible = false;
+                scene.add(mesh);
+                lobeMeshesRef.current[key] = mesh;
+                labelPointsRef.current[LOBE_LABEL_PREFIX + key] = geo.boundingSphere!.center.clone();
+            }
+        }
+
         // --- 2. AIRWAYS & VESSELS ---
         const bronchiGroup = new THREE.Group();
         const bronchiolesGroup = new THREE.Group();
@@ -374,19 +1127,35 @@ const LungVisualizer: React.FC<LungVisualizerProps> = ({
             }
         };
 
-        // Main Trachea
-        const trachea = new THREE.Mesh(new THREE.CylinderGeometry(0.7, 0.7, 4, 16).translate(0, 4.0, 0), bronchiMat);
-        bronchiGroup.add(trachea);
+        const airwayTree = analysis?.airwayTree;
+        if (airwayTree && airwayTree.branches.length > 0 && sceneTransform) {
+            // Patient airway centerlines: generations 0-3 are bronchi, deeper ones bronchioles
+            airwayTree.branches.forEach(branch => {
+                const points = branch.centerline.map(p => new THREE.Vector3(...patientToScene(sceneTransform, p)));
+                if (points.length < 2) return;
+                const radius = Math.max(0.02, (branch.diameterMm / 2) * sceneTransform.scale);
+                const curve = new THREE.CatmullRomCurve3(points);
+                const geo = new THREE.TubeGeometry(curve, Math.max(4, points.length * 2), radius, 10, false);
+                const isBronchus = branch.generation <= MAX_BRONCHUS_GENERATION;
+                const mesh = new THREE.Mesh(geo, isBronchus ? bronchiMat : bronchiolesMat);
+                mesh.userData = { airwayBranch: branch.id };
+                (isBronchus ? bronchiGroup : bronchiolesGroup).add(mesh);
+            });
+        } else {
+            // Main Trachea
+            const trachea = new THREE.Mesh(new THREE.CylinderGeometry(0.7, 0.7, 4, 16).translate(0, 4.0, 0), bronchiMat);
+            bronchiGroup.add(trachea);
 
-        // Initial Branches
-        createBranch(new THREE.Vector3(0, 2.0, 0), new THREE.Vector3(0.8, -0.8, 0.2).normalize(), 2.0, 0.5, 5, false, false);
-        createBranch(new THREE.Vector3(0, 2.0, 0), new THREE.Vector3(-0.8, -0.7, 0.2).normalize(), 2.0, 0.5, 5, false, false);
+            // Initial Branches: the right main bronchus (-x) is the steeper one
+            createBranch(new THREE.Vector3(0, 2.0, 0), new THREE.Vector3(-0.8, -0.8, 0.2).normalize(), 2.0, 0.5, 5, false, false);
+            createBranch(new THREE.Vector3(0, 2.0, 0), new THREE.Vector3(0.8, -0.7, 0.2).normalize(), 2.0, 0.5, 5, false, false);
+        }
 
         // Vessels
-        createBranch(new THREE.Vector3(0.5, 2.0, 0.5), new THREE.Vector3(0.8, -0.8, 0.2).normalize(), 2.0, 0.3, 4, true, false);
-        createBranch(new THREE.Vector3(-0.5, 2.0, 0.5), new THREE.Vector3(-0.8, -0.7, 0.2).normalize(), 2.0, 0.3, 4, true, false);
-        createBranch(new THREE.Vector3(0.2, 2.0, -0.2), new THREE.Vector3(0.7, -0.9, 0.1).normalize(), 2.0, 0.3, 4, false, true);
-        createBranch(new THREE.Vector3(-0.2, 2.0, -0.2), new THREE.Vector3(-0.7, -0.8, 0.1).normalize(), 2.0, 0.3, 4, false, true);
+        createBranch(new THREE.Vector3(-0.5, 2.0, 0.5), new THREE.Vector3(-0.8, -0.8, 0.2).normalize(), 2.0, 0.3, 4, true, false);
+        createBranch(new THREE.Vector3(0.5, 2.0, 0.5), new THREE.Vector3(0.8, -0.7, 0.2).normalize(), 2.0, 0.3, 4, true, false);
+        createBranch(new THREE.Vector3(-0.2, 2.0, -0.2), new THREE.Vector3(-0.7, -0.9, 0.1).normalize(), 2.0, 0.3, 4, false, true);
+        createBranch(new THREE.Vector3(0.2, 2.0, -0.2), new THREE.Vector3(0.7, -0.8, 0.1).normalize(), 2.0, 0.3, 4, false, true);
 
         scene.add(bronchiGroup);
         scene.add(bronchiolesGroup);
@@ -395,24 +1164,43 @@ const LungVisualizer: React.FC<LungVisualizerProps> = ({
         bronchiolesGroupRef.current = bronchiolesGroup;
         vesselsGroupRef.current = vesselsGroup;
 
-        // --- 3. PATHOLOGY MESH ---
-        const pathologyGeo = new THREE.SphereGeometry(0.6, 32, 32);
-        const pPos = pathologyGeo.attributes.position;
-        for (let i = 0; i < pPos.count; i++) {
-            pPos.setXYZ(i, pPos.getX(i) + Math.random() * 0.1, pPos.getY(i) + Math.random() * 0.1, pPos.getZ(i) + Math.random() * 0.1);
+        // --- 3. PATHOLOGY MESHES ---
+        const createPathologyMesh = (radius: number) => {
+            const pathologyGeo = new THREE.SphereGeometry(radius, 32, 32);
+            const pPos = pathologyGeo.attributes.position;
+            const jitter = radius / 6;
+            for (let i = 0; i < pPos.count; i++) {
+                pPos.setXYZ(i, pPos.getX(i) + Math.random() * jitter, pPos.getY(i) + Math.random() * jitter, pPos.getZ(i) + Math.random() * jitter);
+            }
+            const pathologyMat = new THREE.ShaderMaterial({
+                vertexShader: pathologyVertexShader,
+                fragmentShader: pathologyFragmentShader,
+                uniforms: { time: { value: 0 } },
+                transparent: true,
+                side: THREE.FrontSide,
+                clipping: true
+            });
+            const pathologyMesh = new THREE.Mesh(pathologyGeo, pathologyMat);
+            pathologyMesh.name = 'pathology';
+            scene.add(pathologyMesh);
+            return pathologyMesh;
+        };
+
+        if (analysis && sceneTransform) {
+            // One highlight per detected finding, sized like a sphere of the same volume
+            pathologyMeshesRef.current = analysis.emphysema.bullae.map(finding => {
+                const radiusMm = Math.cbrt((3 * finding.volumeMl * 1000) / (4 * Math.PI));
+                const mesh = createPathologyMesh(Math.max(0.12, radiusMm * sceneTransform.scale));
+                mesh.position.set(...patientToScene(sceneTransform, finding.centroid));
+                mesh.userData = { findingId: finding.id };
+                labelPointsRef.current[finding.id] = mesh.position.clone();
+                return mesh;
+            });
+        } else {
+            const pathologyMesh = createPathologyMesh(0.6);
+            pathologyMesh.position.copy(STRUCTURE_POINTS.pathology);
+            pathologyMeshesRef.current = [pathologyMesh];
         }
-        const pathologyMat = new THREE.ShaderMaterial({
-            vertexShader: pathologyVertexShader,
-            fragmentShader: pathologyFragmentShader,
-            uniforms: { time: { value: 0 } },
-            transparent: true,
-            side: THREE.FrontSide
-        });
-        const pathologyMesh = new THREE.Mesh(pathologyGeo, pathologyMat);
-        pathologyMesh.position.copy(STRUCTURE_POINTS.pathology);
-        pathologyMesh.name = 'pathology';
-        pathologyMeshRef.current = pathologyMesh;
-        scene.add(pathologyMesh);
 
         // --- 4. PARTICLES (Physiological Airflow) ---
         // Flow from airways (bifurcation at y=2.0) outwards
@@ -421,6 +1209,11 @@ const LungVisualizer: React.FC<LungVisualizerProps> = ({
         const airPositions = new Float32Array(airCount * 3);
         const airVelocities = new Float32Array(airCount * 3); // Store direction
         const airLifetimes = new Float32Array(airCount); // 0.0 to 1.0
+        const airTrapping = new Float32Array(airCount); // Trapped share at the particle's target, 0-1
+        const airColors = new Float32Array(airCount * 3);
+        const freeColor = new THREE.Color(0xa5f3fc); // Cyan-200
+        const trappedColor = new THREE.Color(0xfbbf24); // Amber-400
+        const trappingMap = analysis?.expiratory?.gasTrapping.map;
 
         const initParticle = (i: number) => {
             // Start near the bifurcation (approx 2.0 - 2.5 height)
@@ -429,21 +1222,34 @@ const LungVisualizer: React.FC<LungVisualizerProps> = ({
             const startY = 2.2 + (Math.random() - 0.5) * 0.4;
             const startZ = 0;
 
-            // Target: Random point inside lung approximate volume
-            // We simulate the lung volume by using the same math as the mesh generation
-            const u = Math.random();
-            const v = Math.random();
-            const theta = 2 * Math.PI * u;
-            const phi = Math.acos(2 * v - 1); // Uniform sphere
-            const r = 2.5 * Math.cbrt(Math.random()); // Volume distribution
-
-            let tx = r * Math.sin(phi) * Math.cos(theta);
-            let ty = r * Math.sin(phi) * Math.sin(theta);
-            let tz = r * Math.cos(phi);
-
-            // Transform target to match lung shape (approx)
-            tx += (isRight ? 3.0 : -3.0);
-            ty *= 1.3; // Elongation
+            let tx: number, ty: number, tz: number;
+            const lungGeo = (isRight ? rightLung : leftLung).geometry;
+            if (lungGeo instanceof THREE.SphereGeometry) {
+                // Target: Random point inside lung approximate volume
+                // We simulate the lung volume by using the same math as the mesh generation
+                const u = Math.random();
+                const v = Math.random();
+                const theta = 2 * Math.PI * u;
+                const phi = Math.acos(2 * v - 1); // Uniform sphere
+                const r = 2.5 * Math.cbrt(Math.random()); // Volume distribution
+
+                tx = r * Math.sin(phi) * Math.cos(theta);
+                ty = r * Math.sin(phi) * Math.sin(theta);
+                tz = r * Math.cos(phi);
+
+                // Transform target to match lung shape (approx)
+                tx += (isRight ? -3.0 : 3.0);
+                ty *= 1.3; // Elongation
+            } else {
+                // Target: pull a random surface vertex of the patient mesh towards the lung centre
+                const surface = lungGeo.attributes.position;
+                const centre = lungGeo.boundingSphere!.center;
+                const vtx = Math.floor(Math.random() * surface.count);
+                const depth = 0.9 * Math.cbrt(Math.random());
+                tx = centre.x + (surface.getX(vtx) - centre.x) * depth;
+                ty = centre.y + (surface.getY(vtx) - centre.y) * depth;
+                tz = centre.z + (surface.getZ(vtx) - centre.z) * depth;
+            }
 
             // Set Start Position
             airPositions[i * 3] = startX;
@@ -465,6 +1271,15 @@ const LungVisualizer: React.FC<LungVisualizerProps> = ({
             airVelocities[i * 3 + 2] = (dz / dist) * speed;
 
             airLifetimes[i] = Math.random(); // Random start phase
+
+            // Gas trapping measured on expiration: particles heading into trapped lung slow down and pool there
+            airTrapping[i] = trappingMap && sceneTransform
+                ? Math.max(0, sampleBlockScore(trappingMap, sceneToPatient(sceneTransform, [tx, ty, tz])))
+                : 0;
+            const color = freeColor.clone().lerp(trappedColor, Math.min(1, airTrapping[i] * 2));
+            airColors[i * 3] = color.r;
+            airColors[i * 3 + 1] = color.g;
+            airColors[i * 3 + 2] = color.b;
         };
 
         for (let i = 0; i < airCount; i++) {
@@ -472,9 +1287,10 @@ const LungVisualizer: React.FC<LungVisualizerProps> = ({
         }
 
         airGeo.setAttribute('position', new THREE.BufferAttribute(airPositions, 3));
+        airGeo.setAttribute('color', new THREE.BufferAttribute(airColors, 3));
 
         const airMat = new THREE.PointsMaterial({
-            color: 0xa5f3fc, // Cyan-200
+            vertexColors: true,
             size: 0.18, // INCREASED SIZE
             transparent: true,
             opacity: 0.8, // INCREASED OPACITY
@@ -486,6 +1302,144 @@ const LungVisualizer: React.FC<LungVisualizerProps> = ({
         scene.add(airflowSystem);
         airflowSystemRef.current = airflowSystem;
 
+        // --- 5. CT SLICE PLANES ---
+        // Opaque, so the translucent lung surfaces behind a plane are hidden and it cuts through them
+        sceneTransformRef.current = sceneTransform;
+        slicePlanesRef.current = [];
+        if (analysis && sceneTransform) {
+            const { volume } = analysis;
+            const voxel = cursorVoxel(volume, sliceCursorRef.current);
+            for (const plane of SLICE_PLANES) {
+                const { x, y } = PLANE_AXES[plane];
+                const width = volume.dimensions[x];
+                const height = volume.dimensions[y];
+                const texture = new THREE.DataTexture(new Uint8Array(width * height * 4), width, height);
+                texture.colorSpace = THREE.SRGBColorSpace;
+                const geo = new THREE.BufferGeometry();
+                geo.setAttribute('position', new THREE.BufferAttribute(new Float32Array(12), 3));
+                geo.setAttribute('uv', new THREE.BufferAttribute(new Float32Array([0, 0, 1, 0, 0, 1, 1, 1]), 2));
+                geo.setIndex([0, 1, 2, 2, 1, 3]);
+                const mesh = new THREE.Mesh(geo, new THREE.MeshBasicMaterial({ map: texture, side: THREE.DoubleSide }));
+                mesh.name = 'slicePlane';
+                mesh.userData = { plane };
+                const outlineGeo = new THREE.BufferGeometry();
+                outlineGeo.setAttribute('position', new THREE.BufferAttribute(new Float32Array(12), 3));
+                mesh.add(new THREE.LineLoop(outlineGeo, new THREE.LineBasicMaterial({ color: SLICE_PLANE_COLORS[plane] })));
+                mesh.visible = false;
+                paintSlicePlane(mesh, volume, sceneTransform, voxel);
+                scene.add(mesh);
+                slicePlanesRef.current.push(mesh);
+            }
+        }
+
+        // Dragging a plane slides it along its normal (the orbit controls sit out the drag)
+        let sliceDrag: { mesh: THREE.Mesh; normal: THREE.Vector3; start: THREE.Vector3; grip: THREE.Plane } | null = null;
+        const castFromPointer = (event: PointerEvent) => {
+            const rect = renderer.domElement.getBoundingClientRect();
+            mouse.current.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+            mouse.current.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+            raycaster.current.setFromCamera(mouse.current, camera);
+            return raycaster.current.intersectObjects(slicePlanesRef.current.filter(mesh => mesh.visible), false)[0];
+        };
+        const handleSlicePointerDown = (event: PointerEvent) => {
+            if (gizmoRef.current?.axis) return; // The cutaway gizmo is under the pointer
+            if (measureToolRef.current || placingPinRef.current) return; // Clicks on the planes are points to pick
+            const hit = castFromPointer(event);
+            if (!hit) return;
+            const mesh = hit.object as THREE.Mesh;
+            const axis: Vec3 = [0, 0, 0];
+            axis[PLANE_AXES[mesh.userData.plane as SlicePlane].through] = 1;
+            const normal = new THREE.Vector3(...directionToScene(axis));
+            // Drag on the plane through the normal that faces the camera most squarely
+            const view = camera.getWorldDirection(new THREE.Vector3());
+            const facing = view.sub(normal.clone().multiplyScalar(view.dot(normal)));
+            if (facing.lengthSq() < 1e-6) return; // Looking straight along the normal
+            sliceDrag = { mesh, normal, start: hit.point.clone(), grip: new THREE.Plane().setFromNormalAndCoplanarPoint(facing.normalize(), hit.point) };
+            event.stopImmediatePropagation();
+            suppressClickRef.current = true;
+            controls.enabled = false;
+            renderer.domElement.setPointerCapture(event.pointerId);
+            renderer.domElement.style.cursor = 'grabbing';
+        };
+        const handleSlicePointerMove = (event: PointerEvent) => {
+            if (!sliceDrag) {
+                renderer.domElement.style.cursor = castFromPointer(event) ? 'grab' : '';
+                return;
+            }
+            if (!analysis || !sceneTransform) return;
+            castFromPointer(event);
+            const point = raycaster.current.ray.intersectPlane(sliceDrag.grip, new THREE.Vector3());
+            if (!point) return;
+            const { normal, start, mesh } = sliceDrag;
+            const moved = start.clone().addScaledVector(normal, point.sub(start).dot(normal));
+            const { through } = PLANE_AXES[mesh.userData.plane as SlicePlane];
+            const voxel = cursorVoxel(analysis.volume, sliceCursorRef.current);
+            voxel[through] = nearestVoxel(analysis.volume, sceneToPatient(sceneTransform, [moved.x, moved.y, moved.z]))[through];
+            if (voxel[through] === mesh.userData.slice) return;
+            paintSlicePlane(mesh, analysis.volume, sceneTransform, voxel);
+            sliceCursorRef.current = voxelToPatient(analysis.volume, voxel[0], voxel[1], voxel[2]);
+            onSliceCursorChangeRef.current?.(sliceCursorRef.current);
+        };
+        const handleSlicePointerUp = (event: PointerEvent) => {
+            if (!sliceDrag) return;
+            sliceDrag = null;
+            controls.enabled = true;
+            renderer.domElement.releasePointerCapture(event.pointerId);
+            renderer.domElement.style.cursor = '';
+        };
+        // Capture phase so the plane claims the pointer before the orbit controls see it
+        renderer.domElement.addEventListener('pointerdown', handleSlicePointerDown, { capture: true });
+        renderer.domElement.addEventListener('pointermove', handleSlicePointerMove);
+        renderer.domElement.addEventListener('pointerup', handleSlicePointerUp);
+
+        // --- 6. VOLUME RENDERING ---
+        volumeMeshRef.current = null;
+        if (renderModeRef.current === 'volume') addVolumeMesh(scene);
+
+        // --- 7. CLIPPING ---
+        // Cutaway planes clip the lungs, lobes, airways, vessels and findings; only the lungs get caps.
+        // The volume rendering applies the same planes per sample (see applyVolumeClipPlanes)
+        const clipRig = createClipRig(scene, [rightLung, leftLung]);
+        clipRigRef.current = clipRig;
+        clipRig.setTools(clipToolsRef.current);
+        const clippedMaterials: THREE.Material[] = [
+            ...materialsRef.current,
+            ...pathologyMeshesRef.current.map(mesh => mesh.material as THREE.Material),
+            ...(Object.values(lobeMeshesRef.current) as THREE.Mesh[]).map(mesh => mesh.material as THREE.Material),
+        ];
+        for (const group of [bronchiGroup, bronchiolesGroup, vesselsGroup]) {
+            group.traverse(child => { if (child instanceof THREE.Mesh) clippedMaterials.push(child.material as THREE.Material); });
+        }
+        clippedMaterials.forEach(material => { material.clippingPlanes = clipRig.planes; });
+
+        const gizmo = new TransformControls(camera, renderer.domElement);
+        gizmo.setSize(0.8);
+        gizmo.addEventListener('dragging-changed', event => {
+            controls.enabled = !event.value;
+            if (event.value) suppressClickRef.current = true;
+        });
+        gizmo.addEventListener('objectChange', () => {
+            if (selectedClipRef.current) clipRig.syncTool(selectedClipRef.current);
+        });
+        gizmo.getHelper().userData.notPickable = true;
+        scene.add(gizmo.getHelper());
+        gizmoRef.current = gizmo;
+        attachGizmo();
+
+        // --- 8. MEASUREMENTS ---
+        const measurementGroup = new THREE.Group();
+        measurementGroup.userData.notPickable = true;
+        scene.add(measurementGroup);
+        measurementGroupRef.current = measurementGroup;
+        if (sceneTransform) drawMeasurements(measurementGroup, sceneTransform, measurementsRef.current, pendingPointsRef.current);
+
+        // --- 9. ANNOTATION PINS ---
+        const annotationGroup = new THREE.Group();
+        annotationGroup.userData.notPickable = true;
+        scene.add(annotationGroup);
+        annotationGroupRef.current = annotationGroup;
+        if (sceneTransform) drawAnnotations(annotationGroup, sceneTransform, annotationsRef.current, selectedAnnotationRef.current);
+
         // --- LIGHTING ---
         const ambientLight = new THREE.AmbientLight(0xffffff, 0.4);
         scene.add(ambientLight);
@@ -506,28 +1460,52 @@ const LungVisualizer: React.FC<LungVisualizerProps> = ({
 
             const L = layersRef.current;
             const M = metricsRef.current;
+            const lobeMeshes = lobeMeshesRef.current;
+            const showLobeMeshes = L.lobes && Object.keys(lobeMeshes).length > 0;
+            const isolatedLobe = lobeOfLabel(activeLabelRef.current);
+            const volumeMesh = volumeMeshRef.current;
+            const showVolume = renderModeRef.current === 'volume' && !!volumeMesh;
 
             // Update Shader Uniforms
             materialsRef.current.forEach(mat => {
                 mat.uniforms.time.value = time;
                 mat.uniforms.stiffnessIndex.value = M.stiffnessIndex;
                 mat.uniforms.expansionRatio.value = M.expansionRatio;
-                mat.uniforms.uShowLobes.value = L.lobes ? 1.0 : 0.0;
+                mat.uniforms.uShowLobes.value = L.lobes && !showLobeMeshes ? 1.0 : 0.0;
                 mat.uniforms.uShowAlveoli.value = L.alveoli ? 1.0 : 0.0;
                 mat.uniforms.uShowFibrosisMap.value = L.fibrosisMap ? 1.0 : 0.0;
+                mat.uniforms.uShowVolumeChange.value = L.volumeChange ? 1.0 : 0.0;
                 mat.uniforms.uMotion.value = L.motion ? 1.0 : 0.0;
             });
 
-            if (pathologyMeshRef.current) {
-                (pathologyMeshRef.current.material as THREE.ShaderMaterial).uniforms.time.value = time;
-            }
+            pathologyMeshesRef.current.forEach(mesh => {
+                (mesh.material as THREE.ShaderMaterial).uniforms.time.value = time;
+            });
 
             // Visibility Toggles
-            if (rightLungRef.current) rightLungRef.current.visible = L.rightLung;
-            if (leftLungRef.current) leftLungRef.current.visible = L.leftLung;
+            if (rightLungRef.current) rightLungRef.current.visible = L.rightLung && !showLobeMeshes && !showVolume;
+            if (leftLungRef.current) leftLungRef.current.visible = L.leftLung && !showLobeMeshes && !showVolume;
+            // A selected lobe is shown on its own
+            for (const key of LOBE_KEYS) {
+                const mesh = lobeMeshes[key];
+                if (!mesh) continue;
+                const lungOn = key.startsWith('r') ? L.rightLung : L.leftLung;
+                mesh.visible = showLobeMeshes && lungOn && !showVolume && (!isolatedLobe || isolatedLobe === key);
+            }
+            clipRig.update([L.rightLung && !showVolume, L.leftLung && !showVolume]);
+
+            // Volume mode replaces the lung surfaces; the other layers stay drawn over it
+            if (volumeMesh) {
+                volumeMesh.visible = showVolume;
+                const { uniforms } = volumeMesh.material as THREE.ShaderMaterial;
+                uniforms.uShowRightLung.value = L.rightLung ? 1.0 : 0.0;
+                uniforms.uShowLeftLung.value = L.leftLung ? 1.0 : 0.0;
+                if (showVolume) applyVolumeClipPlanes(volumeMesh, clipRig.planes);
+            }
             if (bronchiGroupRef.current) bronchiGroupRef.current.visible = L.bronchi;
             if (bronchiolesGroupRef.current) bronchiolesGroupRef.current.visible = L.bronchioles;
             if (vesselsGroupRef.current) vesselsGroupRef.current.visible = L.vasculature;
+            slicePlanesRef.current.forEach(mesh => { mesh.visible = L.slicePlanes; });
 
             // --- AIRFLOW ANIMATION UPDATE ---
             if (airflowSystemRef.current) {
@@ -535,28 +1513,71 @@ const LungVisualizer: React.FC<LungVisualizerProps> = ({
                 if (L.airflow) {
                     const positions = airflowSystemRef.current.geometry.attributes.position.array as Float32Array;
 
+                    let recoloured = false;
                     for (let i = 0; i < airCount; i++) {
-                        airLifetimes[i] += 0.015; // Speed factor
+                        // Trapped particles live longer and nearly stop once they are out in the lung
+                        const trap = airTrapping[i];
+                        airLifetimes[i] += 0.015 * (1 - 0.6 * trap); // Speed factor
 
                         if (airLifetimes[i] > 1.0) {
                             // Reset particle
                             initParticle(i);
                             airLifetimes[i] = 0;
+                            recoloured = true;
                         } else {
                             // Move particle
-                            positions[i * 3] += airVelocities[i * 3];
-                            positions[i * 3 + 1] += airVelocities[i * 3 + 1];
-                            positions[i * 3 + 2] += airVelocities[i * 3 + 2];
+                            const slow = airLifetimes[i] > 0.5 ? 1 - 0.9 * trap : 1;
+                            positions[i * 3] += airVelocities[i * 3] * slow;
+                            positions[i * 3 + 1] += airVelocities[i * 3 + 1] * slow;
+                            positions[i * 3 + 2] += airVelocities[i * 3 + 2] * slow;
                         }
                     }
                     airflowSystemRef.current.geometry.attributes.position.needsUpdate = true;
+                    if (recoloured) airflowSystemRef.current.geometry.attributes.color.needsUpdate = true;
+                }
+            }
+
+            // Measurement labels follow their anchors
+            if (mountRef.current && sceneTransform) {
+                const widthHalf = mountRef.current.clientWidth / 2;
+                const heightHalf = mountRef.current.clientHeight / 2;
+                for (const m of measurementsRef.current) {
+                    const el = measurementLabelsRef.current[m.id];
+                    if (!el) continue;
+                    const p = new THREE.Vector3(...patientToScene(sceneTransform, measurementAnchor(m))).project(camera);
+                    el.style.opacity = p.z < 1 ? '1' : '0';
+                    el.style.transform = `translate(${p.x * widthHalf + widthHalf + 8}px, ${-p.y * heightHalf + heightHalf - 24}px)`;
+                }
+            }
+
+            // Pin labels sit up and to the right of their pins, with a leader line back down
+            if (mountRef.current && sceneTransform) {
+                const widthHalf = mountRef.current.clientWidth / 2;
+                const heightHalf = mountRef.current.clientHeight / 2;
+                for (const annotation of annotationsRef.current) {
+                    const el = annotationLabelsRef.current[annotation.id];
+                    const line = annotationLinesRef.current[annotation.id];
+                    if (!el || !line) continue;
+                    const p = new THREE.Vector3(...patientToScene(sceneTransform, annotation.position)).project(camera);
+                    const visible = p.z < 1;
+                    el.style.opacity = visible ? '1' : '0';
+                    line.style.display = visible ? 'block' : 'none';
+                    if (!visible) continue;
+                    const screenX = p.x * widthHalf + widthHalf;
+                    const screenY = -p.y * heightHalf + heightHalf;
+                    el.style.transform = `translate(${screenX + 40}px, ${screenY - 60}px)`;
+                    line.setAttribute('x1', String(screenX + 40));
+                    line.setAttribute('y1', String(screenY - 60 + el.offsetHeight));
+                    line.setAttribute('x2', String(screenX));
+                    line.setAttribute('y2', String(screenY));
                 }
             }
 
             // --- ARROW & LABEL MAPPING ---
             const activeKey = activeLabelRef.current;
-            if (mountRef.current && activeKey && STRUCTURE_POINTS[activeKey]) {
-                const targetPos = STRUCTURE_POINTS[activeKey].clone();
+            const activePoint = activeKey ? STRUCTURE_POINTS[activeKey] ?? labelPointsRef.current[activeKey] : undefined;
+            if (mountRef.current && activePoint) {
+                const targetPos = activePoint.clone();
                 targetPos.project(cameraRef.current);
 
                 // Only draw if point is in front of camera
@@ -600,7 +1621,7 @@ const LungVisualizer: React.FC<LungVisualizerProps> = ({
                 }
             } else {
                 // Hide if no active label
-                if (labelRef.current && activeKey !== 'pathology') labelRef.current.style.opacity = '0';
+                if (labelRef.current && activeKey !== 'pathology' && !activeFinding(activeKey)) labelRef.current.style.opacity = '0';
                 if (svgLineRef.current) svgLineRef.current.style.display = 'none';
             }
 
@@ -611,19 +1632,184 @@ const LungVisualizer: React.FC<LungVisualizerProps> = ({
         return () => {
             cancelAnimationFrame(frameIdRef.current);
             renderer.domElement.removeEventListener('click', handleCanvasClick);
+            gizmo.dispose();
+            renderer.domElement.removeEventListener('pointerdown', handleSlicePointerDown, { capture: true });
+            renderer.domElement.removeEventListener('pointermove', handleSlicePointerMove);
+            renderer.domElement.removeEventListener('pointerup', handleSlicePointerUp);
+            controls.dispose();
             if (mountRef.current && rendererRef.current) mountRef.current.removeChild(rendererRef.current.domElement);
-            rendererRef.current.dispose();
+            disposeScene(scene);
+            volumeMeshRef.current = null;
+            renderer.dispose();
+            renderer.forceContextLoss();
         };
-    }, [activeLabel]);
+    }, [analysis]);
 
-    const activeLabelRef = useRef(activeLabel);
-    useEffect(() => { activeLabelRef.current = activeLabel; }, [activeLabel]);
+    useEffect(() => {
+        renderModeRef.current = renderMode;
+        if (renderMode === 'volume' && !volumeMeshRef.current && sceneRef.current) addVolumeMesh(sceneRef.current);
+    }, [renderMode]);
+
+    useEffect(() => {
+        transferFunctionRef.current = transferFunction;
+        if (volumeMeshRef.current) applyTransferFunction(volumeMeshRef.current, transferFunction);
+    }, [transferFunction]);
+
+    useEffect(() => {
+        clipToolsRef.current = clipTools;
+        clipRigRef.current?.setTools(clipTools);
+        attachGizmo();
+    }, [clipTools]);
+
+    // Planes have no size, so they fall back to moving when the box was being resized
+    const selectedClipTool = clipTools.find(tool => tool.id === selectedClipId);
+    const activeGizmoMode: GizmoMode = selectedClipTool?.kind === 'plane' && gizmoMode === 'scale' ? 'translate' : gizmoMode;
+    useEffect(() => {
+        selectedClipRef.current = selectedClipId;
+        gizmoModeRef.current = activeGizmoMode;
+        attachGizmo();
+    }, [selectedClipId, activeGizmoMode]);
+
+    // Arrow keys nudge the selected cutaway tool: a plane moves along its normal (Up/Down)
+    // and turns about its vertical axis (Left/Right); a box moves up/down and sideways
+    useEffect(() => {
+        if (!showOverlay || !selectedClipId) return;
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+            const rig = clipRigRef.current;
+            const helper = rig?.helperOf(selectedClipId);
+            const tool = clipToolsRef.current.find(t => t.id === selectedClipId);
+            if (!rig || !helper || !tool) return;
+            const factor = event.shiftKey ? 5 : 1;
+            const step = CLIP_NUDGE_MM * SCENE_UNITS_PER_MM * factor;
+            const angle = THREE.MathUtils.degToRad(CLIP_NUDGE_DEGREES * factor);
+            switch (event.key) {
+                case 'ArrowUp':
+                case 'ArrowDown': {
+                    const sign = event.key === 'ArrowUp' ? 1 : -1;
+                    if (tool.kind === 'plane') helper.position.addScaledVector(new THREE.Vector3(0, 0, 1).applyQuaternion(helper.quaternion), sign * step);
+                    else helper.position.y += sign * step;
+                    break;
+                }
+                case 'ArrowLeft':
+                case 'ArrowRight': {
+                    const sign = event.key === 'ArrowRight' ? 1 : -1;
+                    if (tool.kind === 'plane') helper.rotateY(sign * angle);
+                    else helper.position.x += sign * step;
+                    break;
+                }
+                default:
+                    return;
+            }
+            event.preventDefault();
+            rig.syncTool(selectedClipId);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [showOverlay, selectedClipId]);
+
+    const addClipTool = (kind: ClipKind) => {
+        const tool = newClipTool(kind, clipTools.length);
+        setClipTools([...clipTools, tool]);
+        setSelectedClipId(tool.id);
+        setGizmoMode('translate');
+    };
+    const removeClipTool = (id: string) => {
+        setClipTools(clipTools.filter(tool => tool.id !== id));
+        if (selectedClipId === id) setSelectedClipId(null);
+    };
+    const clipPlaneCount = clipTools.filter(tool => tool.kind === 'plane').length;
+
+    useEffect(() => {
+        measurementsRef.current = measurements;
+        pendingPointsRef.current = pendingPoints;
+        const transform = sceneTransformRef.current;
+        if (measurementGroupRef.current && transform) drawMeasurements(measurementGroupRef.current, transform, measurements, pendingPoints);
+    }, [measurements, pendingPoints]);
+
+    useEffect(() => {
+        annotationsRef.current = annotations;
+        selectedAnnotationRef.current = selectedAnnotationId;
+        const transform = sceneTransformRef.current;
+        if (annotationGroupRef.current && transform) drawAnnotations(annotationGroupRef.current, transform, annotations, selectedAnnotationId);
+    }, [annotations, selectedAnnotationId]);
+
+    useEffect(() => {
+        measureToolRef.current = measureTool;
+        setPendingPoints([]);
+        if (!measureTool) return;
+        const handleKeyDown = (event: KeyboardEvent) => { if (event.key === 'Escape') setMeasureTool(null); };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [measureTool]);
+
+    // Follow cursor moves made elsewhere (e.g. in the 2D slice views)
+    useEffect(() => {
+        sliceCursorRef.current = sliceCursor ?? null;
+        const transform = sceneTransformRef.current;
+        if (!analysis || !transform) return;
+        const voxel = cursorVoxel(analysis.volume, sliceCursorRef.current);
+        slicePlanesRef.current.forEach(mesh => paintSlicePlane(mesh, analysis.volume, transform, voxel));
+    }, [sliceCursor, analysis]);
 
     const handleLegendClick = (key: string) => setActiveLabel(activeLabel === key ? null : key);
 
+    const findings: LungFinding[] = analysis?.emphysema.bullae ?? [];
+    const activeFinding = (key: string | null) => findings.find(f => f.id === key);
+    const selectedFinding = activeFinding(activeLabel);
+    const isPathologyLabel = activeLabel === 'pathology' || !!selectedFinding;
+    const selectedLobe = lobeOfLabel(activeLabel);
+    const lobeChange = (key: LobeKey) => {
+        const before = baselineMetrics?.lobeVolumes[key];
+        if (!before) return null;
+        const change = metrics.lobeVolumes[key] - before;
+        return `${change >= 0 ? '+' : ''}${change.toFixed(0)} mL (${change >= 0 ? '+' : ''}${((change / before) * 100).toFixed(1)}%)`;
+    };
+
     return (
         <div className={`relative ${className || 'w-full h-full'}`}>
-            <div ref={mountRef} className="w-full h-full cursor-pointer bg-slate-900/0" />
+            <div ref={mountRef} className={`w-full h-full bg-slate-900/0 ${measureTool || placingPin ? 'cursor-crosshair' : 'cursor-pointer'}`} />
+
+            {/* Measurement labels, placed each frame */}
+            {analysis && measurements.map(m => (
+                <div
+                    key={m.id}
+                    ref={el => { measurementLabelsRef.current[m.id] = el; }}
+                    className="absolute top-0 left-0 z-10 pointer-events-none opacity-0 bg-slate-900/90 border border-amber-400/50 px-2 py-0.5 rounded text-[10px] font-mono text-amber-200 whitespace-nowrap"
+                >
+                    {m.label} · {formatMeasurement(m)}
+                </div>
+            ))}
+
+            {/* Pin labels and their leader lines, placed each frame */}
+            {analysis && annotations.length > 0 && (
+                <svg className="absolute inset-0 w-full h-full pointer-events-none z-10 overflow-visible">
+                    {annotations.map(annotation => (
+                        <line
+                            key={annotation.id}
+                            ref={el => { annotationLinesRef.current[annotation.id] = el; }}
+                            stroke={annotation.id === selectedAnnotationId ? '#ffffff' : '#a78bfa'}
+                            strokeWidth="1.5"
+                            strokeDasharray="3"
+                            style={{ display: 'none' }}
+                        />
+                    ))}
+                </svg>
+            )}
+            {analysis && annotations.map(annotation => (
+                <div
+                    key={annotation.id}
+                    ref={el => { annotationLabelsRef.current[annotation.id] = el; }}
+                    onClick={() => onAnnotationSelect?.(annotation.id)}
+                    className={`absolute top-0 left-0 z-10 opacity-0 max-w-[12rem] bg-slate-900/90 border px-2 py-1 rounded-lg backdrop-blur-md cursor-pointer ${annotation.id === selectedAnnotationId ? 'border-white' : 'border-violet-400/50 hover:border-violet-300'}`}
+                >
+                    <p className="text-[11px] text-violet-100 truncate">{annotation.text || 'Untitled note'}</p>
+                    <p className="text-[9px] text-slate-400 truncate">
+                        {annotation.author} · {annotation.createdAt.slice(0, 10)}
+                        {annotation.carriedFrom && ` · from ${annotation.carriedFrom.timePointLabel}`}
+                    </p>
+                </div>
+            ))}
 
             {/* SVG Overlay for Arrows */}
             <svg className="absolute inset-0 w-full h-full pointer-events-none z-10 overflow-visible">
@@ -664,17 +1850,230 @@ const LungVisualizer: React.FC<LungVisualizerProps> = ({
                 )}
 
                 {activeLabel && (
-                    <div className={`bg-slate-900/90 border px-3 py-2 rounded-lg backdrop-blur-md shadow-2xl -translate-x-1/2 -translate-y-1/2 pointer-events-none ${activeLabel === 'pathology' ? 'border-orange-500/50 shadow-[0_0_20px_rgba(249,115,22,0.3)]' : 'border-cyan-500/50 shadow-[0_0_15px_rgba(6,182,212,0.3)]'
+                    <div className={`bg-slate-900/90 border px-3 py-2 rounded-lg backdrop-blur-md shadow-2xl -translate-x-1/2 -translate-y-1/2 pointer-events-none ${isPathologyLabel ? 'border-orange-500/50 shadow-[0_0_20px_rgba(249,115,22,0.3)]' : 'border-cyan-500/50 shadow-[0_0_15px_rgba(6,182,212,0.3)]'
                         }`}>
-                        <p className={`text-xs font-bold uppercase tracking-wider whitespace-nowrap ${activeLabel === 'pathology' ? 'text-orange-400' : 'text-cyan-50'}`}>
-                            {activeLabel === 'pathology' ? 'Emphysematous Bulla (COPD)' : activeLabel === 'fibrosisMap' ? 'Honeycombing (Basal)' : activeLabel}
+                        <p className={`text-xs font-bold uppercase tracking-wider whitespace-nowrap ${isPathologyLabel ? 'text-orange-400' : 'text-cyan-50'}`}>
+                            {selectedFinding ? `Bulla · ${selectedFinding.lung === 'right' ? 'Right' : 'Left'} Lung${selectedFinding.lobe ? ` (${selectedFinding.lobe.toUpperCase()})` : ''}` : selectedLobe ? LOBE_NAMES[selectedLobe] : activeLabel === 'pathology' ? 'Emphysematous Bulla (COPD)' : activeLabel === 'fibrosisMap' ? 'Honeycombing (Basal)' : activeLabel}
+                        </p>
+                        {selectedFinding && (
+                            <div className="mt-1 grid grid-cols-2 gap-x-3 text-[10px] font-mono text-slate-300 whitespace-nowrap">
+                                <span>Volume</span><span>{selectedFinding.volumeMl.toFixed(1)} mL</span>
+                                <span>Max extent</span><span>{selectedFinding.maxExtentMm.toFixed(0)} mm</span>
+                                <span>Mean density</span><span>{selectedFinding.meanHU} HU</span>
+                            </div>
+                        )}
+                        {selectedLobe && (
+                            <div className="mt-1 grid grid-cols-2 gap-x-3 text-[10px] font-mono text-slate-300 whitespace-nowrap">
+                                <span>Volume</span><span>{metrics.lobeVolumes[selectedLobe]} mL</span>
+                                <span>Share of lung</span><span>{metrics.totalVolume > 0 ? ((metrics.lobeVolumes[selectedLobe] / metrics.totalVolume) * 100).toFixed(1) : '0.0'}%</span>
+                                <span>Since baseline</span><span>{lobeChange(selectedLobe) ?? 'No baseline'}</span>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            <div className="absolute bottom-6 right-6 z-20 flex flex-col gap-3 pointer-events-none">
+                {/* Slice planes: outline colour and current slice of each */}
+                {layers.slicePlanes && analysis && (
+                    <div className="bg-slate-900/90 border border-slate-700/60 rounded-xl px-4 py-3 backdrop-blur-xl shadow-xl w-56">
+                        <span className="text-[10px] font-bold text-slate-300 uppercase tracking-wider">CT Slice Planes</span>
+                        <div className="mt-2 space-y-1">
+                            {SLICE_PLANES.map(plane => {
+                                const { through } = PLANE_AXES[plane];
+                                return (
+                                    <div key={plane} className="flex items-center justify-between text-[10px]">
+                                        <span className="flex items-center gap-2 text-slate-300 capitalize">
+                                            <span className="w-2.5 h-0.5" style={{ backgroundColor: `#${SLICE_PLANE_COLORS[plane].toString(16).padStart(6, '0')}` }}></span>
+                                            {plane}
+                                        </span>
+                                        <span className="font-mono text-slate-400">{cursorVoxel(analysis.volume, sliceCursor ?? null)[through] + 1} / {analysis.volume.dimensions[through]}</span>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        <p className="text-[10px] text-slate-500 mt-2">Drag a plane to move it through the scan</p>
+                    </div>
+                )}
+
+                {/* Gas trapping on the paired expiratory scan (amber airflow particles) */}
+                {layers.airflow && analysis?.expiratory && (
+                    <div className="bg-slate-900/90 border border-slate-700/60 rounded-xl px-4 py-3 backdrop-blur-xl shadow-xl w-56">
+                        <div className="flex items-center justify-between mb-2">
+                            <span className="text-[10px] font-bold text-slate-300 uppercase tracking-wider">Gas Trapping</span>
+                            <span className="text-[10px] font-mono text-amber-300">{analysis.expiratory.gasTrapping.percent.wholeLung.toFixed(1)}%</span>
+                        </div>
+                        <div className="h-2 rounded-full" style={{ background: 'linear-gradient(to right, #a5f3fc, #fbbf24)' }}></div>
+                        <div className="flex justify-between text-[10px] font-mono text-slate-400 mt-1">
+                            <span>0%</span><span>&ge;50%</span>
+                        </div>
+                        <p className="text-[10px] text-slate-500 mt-2">
+                            Expiratory voxels below {analysis.expiratory.gasTrapping.thresholdHU} HU; particles slow and pool where air is trapped
+                        </p>
+                    </div>
+                )}
+
+                {/* Regional volume change since baseline (matches the shader's blue -> red blend) */}
+                {layers.volumeChange && analysis?.longitudinal && (
+                    <div className="bg-slate-900/90 border border-slate-700/60 rounded-xl px-4 py-3 backdrop-blur-xl shadow-xl w-56">
+                        <div className="flex items-center justify-between mb-2">
+                            <span className="text-[10px] font-bold text-slate-300 uppercase tracking-wider">Volume Change</span>
+                            <span className="text-[10px] font-mono text-sky-300">since baseline</span>
+                        </div>
+                        <div className="h-2 rounded-full" style={{ background: 'linear-gradient(to right, rgb(38, 115, 242), rgb(140, 90, 140), rgb(242, 77, 51))' }}></div>
+                        <div className="flex justify-between text-[10px] font-mono text-slate-400 mt-1">
+                            <span>-20%</span><span>0</span><span>+20%</span>
+                        </div>
+                        <p className="text-[10px] text-slate-500 mt-2">
+                            Jacobian of the deformable registration; lung overlap {(analysis.longitudinal.registration.dice * 100).toFixed(0)}%
+                        </p>
+                    </div>
+                )}
+
+            {/* Fibrosis score scale (matches the shader's tissue -> scar colour blend) */}
+                {layers.fibrosisMap && analysis && (
+                    <div className="bg-slate-900/90 border border-slate-700/60 rounded-xl px-4 py-3 backdrop-blur-xl shadow-xl w-56">
+                        <div className="flex items-center justify-between mb-2">
+                            <span className="text-[10px] font-bold text-slate-300 uppercase tracking-wider">Fibrosis Score</span>
+                            <span className="text-[10px] font-mono text-amber-300">mean {analysis.fibrosis.meanScore.toFixed(0)}</span>
+                        </div>
+                        <div className="h-2 rounded-full" style={{ background: 'linear-gradient(to right, rgb(140, 90, 140), rgb(191, 140, 69))' }}></div>
+                        <div className="flex justify-between text-[10px] font-mono text-slate-400 mt-1">
+                            <span>0</span><span>50</span><span>100</span>
+                        </div>
+                        <p className="text-[10px] text-slate-500 mt-2">
+                            {analysis.fibrosis.attenuationRangeHU[0]} to {analysis.fibrosis.attenuationRangeHU[1]} HU: {analysis.fibrosis.haaPercent.wholeLung.toFixed(1)}% of lung
                         </p>
                     </div>
                 )}
             </div>
 
+            {/* Surface meshes or direct volume rendering of the scan */}
+            {showOverlay && analysis && (
+                <div className="absolute top-6 left-1/2 -translate-x-1/2 z-20 flex flex-col items-center gap-3">
+                    <div className="flex gap-1 bg-slate-900/80 border border-slate-700/60 rounded-full p-1 backdrop-blur-md">
+                        {([['surface', 'Surface'], ['volume', 'Volume']] as const).map(([mode, label]) => (
+                            <button
+                                key={mode}
+                                onClick={() => setRenderMode(mode)}
+                                className={`px-3 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider transition-colors ${renderMode === mode ? 'bg-cyan-500 text-black' : 'text-slate-400 hover:text-white'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    {renderMode === 'volume' && <TransferFunctionEditor value={transferFunction} onChange={setTransferFunction} />}
+                </div>
+            )}
+
             {showOverlay && (
                 <div className="absolute bottom-6 left-6 z-20 flex flex-col items-start gap-3">
+                    {/* Measurement tools */}
+                    {analysis && (
+                        <div className="bg-slate-900/90 border border-slate-700/60 rounded-xl p-3 backdrop-blur-xl shadow-xl w-64 text-xs">
+                            <span className="flex items-center gap-2 text-[10px] font-bold text-slate-300 uppercase tracking-wider mb-2"><Ruler size={12} /> Measurements</span>
+                            <div className="flex gap-1 mb-2">
+                                {MEASUREMENT_TOOLS.map(({ kind, label }) => (
+                                    <button
+                                        key={kind}
+                                        onClick={() => setMeasureTool(measureTool === kind ? null : kind)}
+                                        className={`px-2.5 py-0.5 rounded-full font-semibold transition-colors ${measureTool === kind ? 'bg-amber-400 text-black' : 'bg-slate-800 text-slate-300 hover:text-white'}`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                            {measureTool && (
+                                <p className="text-[10px] text-amber-300 mb-2">
+                                    {MEASUREMENT_HINTS[measureTool][pendingPoints.length]} · Esc to stop
+                                </p>
+                            )}
+                            {measurements.length > 0 ? (
+                                <div className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+                                    {measurements.map(m => (
+                                        <div key={m.id} className="flex items-center justify-between px-2 py-1 rounded-lg text-slate-300 hover:bg-slate-800/60">
+                                            <span>
+                                                <span className="font-bold text-amber-300 mr-2">{m.label}</span>
+                                                <span className="font-mono">{formatMeasurement(m)}</span>
+                                                {m.kind === 'sphere' && <span className="font-mono text-slate-500 ml-1">r {distanceMm(m.points[0], m.points[1]).toFixed(0)} mm</span>}
+                                            </span>
+                                            <button
+                                                onClick={() => onMeasurementsChange?.(measurements.filter(other => other.id !== m.id))}
+                                                className="text-slate-500 hover:text-rose-400 transition-colors"
+                                                title="Delete"
+                                            >
+                                                <Trash2 size={12} />
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            ) : !measureTool && (
+                                <p className="text-[10px] text-slate-500">Pick a tool, then click on the model</p>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Cutaway tools */}
+                    <div className="bg-slate-900/90 border border-slate-700/60 rounded-xl p-3 backdrop-blur-xl shadow-xl w-64 text-xs">
+                        <div className="flex items-center justify-between mb-2">
+                            <span className="flex items-center gap-2 text-[10px] font-bold text-slate-300 uppercase tracking-wider"><Scissors size={12} /> Cutaway</span>
+                            <div className="flex gap-1">
+                                <button
+                                    onClick={() => addClipTool('plane')}
+                                    disabled={clipPlaneCount >= MAX_CLIP_PLANES}
+                                    className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-slate-800 text-slate-300 hover:text-white disabled:opacity-40 transition-colors"
+                                >
+                                    <Plus size={10} /> Plane
+                                </button>
+                                <button
+                                    onClick={() => addClipTool('box')}
+                                    disabled={clipTools.some(tool => tool.kind === 'box')}
+                                    className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-slate-800 text-slate-300 hover:text-white disabled:opacity-40 transition-colors"
+                                >
+                                    <Plus size={10} /> Box
+                                </button>
+                            </div>
+                        </div>
+                        {clipTools.length === 0 ? (
+                            <p className="text-[10px] text-slate-500">Add a plane or a box to cut into the lungs</p>
+                        ) : (
+                            <>
+                                <div className="space-y-1">
+                                    {clipTools.map(tool => (
+                                        <div
+                                            key={tool.id}
+                                            onClick={() => setSelectedClipId(tool.id)}
+                                            className={`flex items-center justify-between px-2 py-1 rounded-lg cursor-pointer transition-colors ${selectedClipId === tool.id ? 'bg-slate-800 ring-1 ring-cyan-500/50 text-white' : 'text-slate-300 hover:bg-slate-800/60'}`}
+                                        >
+                                            <span>{tool.kind === 'plane' ? `Plane ${clipTools.filter(t => t.kind === 'plane').indexOf(tool) + 1}` : 'Box clip'}</span>
+                                            <button
+                                                onClick={event => { event.stopPropagation(); removeClipTool(tool.id); }}
+                                                className="text-slate-500 hover:text-rose-400 transition-colors"
+                                                title="Remove"
+                                            >
+                                                <Trash2 size={12} />
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                                {selectedClipTool && (
+                                    <div className="flex gap-1 mt-2">
+                                        {([['translate', 'Move'], ['rotate', 'Rotate'], ...(selectedClipTool.kind === 'box' ? [['scale', 'Resize']] : [])] as [GizmoMode, string][]).map(([mode, label]) => (
+                                            <button
+                                                key={mode}
+                                                onClick={() => setGizmoMode(mode)}
+                                                className={`px-2.5 py-0.5 rounded-full font-semibold transition-colors ${activeGizmoMode === mode ? 'bg-cyan-500 text-black' : 'bg-slate-800 text-slate-300 hover:text-white'}`}
+                                            >
+                                                {label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                                <p className="text-[10px] text-slate-500 mt-2">Arrow keys nudge the selected tool (Shift for larger steps)</p>
+                            </>
+                        )}
+                    </div>
+
                     {isLegendOpen && (
                         <div className="bg-slate-900/95 p-4 rounded-xl backdrop-blur-xl border border-slate-700/60 shadow-2xl min-w-[260px] animate-in slide-in-from-bottom-5 fade-in duration-300 origin-bottom-left max-h-[70vh] overflow-y-auto custom-scrollbar">
                             <div className="flex items-center justify-between mb-3 pb-2 border-b border-slate-700/80">
@@ -682,17 +2081,48 @@ const LungVisualizer: React.FC<LungVisualizerProps> = ({
                                 <button onClick={() => setIsLegendOpen(false)} className="text-slate-500 hover:text-white transition-colors"><X size={14} /></button>
                             </div>
                             <div className="space-y-2">
-                                <button
-                                    onClick={() => { handleLegendClick('pathology'); onStructureClick?.('pathology'); }}
-                                    className={`w-full flex items-center gap-3 p-2 rounded-lg transition-all text-left group
+                                {analysis ? (
+                                    findings.length > 0 ? findings.map(finding => (
+                                        <button
+                                            key={finding.id}
+                                            onClick={() => { handleLegendClick(finding.id); onStructureClick?.(finding.id); }}
+                                            className={`w-full flex items-center gap-3 p-2 rounded-lg transition-all text-left group
+                                 ${activeLabel === finding.id ? 'bg-orange-900/30 ring-1 ring-orange-500/50' : 'hover:bg-slate-800/60'}
+                             `}
+                                        >
+                                            <div className="w-3 h-3 rounded-full bg-orange-500 border border-orange-300 shadow-sm animate-pulse"></div>
+                                            <span className={`text-xs ${activeLabel === finding.id ? 'text-orange-400 font-semibold' : 'text-slate-300 group-hover:text-white'}`}>
+                                                Bulla {finding.lobe ? finding.lobe.toUpperCase() : ''} · {finding.volumeMl.toFixed(1)} mL
+                                            </span>
+                                        </button>
+                                    )) : (
+                                        <p className="text-xs text-slate-500 px-2">No bullae above {analysis.emphysema.minBullaVolumeMl} mL detected</p>
+                                    )
+                                ) : (
+                                    <button
+                                        onClick={() => { handleLegendClick('pathology'); onStructureClick?.('pathology'); }}
+                                        className={`w-full flex items-center gap-3 p-2 rounded-lg transition-all text-left group
                                  ${activeLabel === 'pathology' ? 'bg-orange-900/30 ring-1 ring-orange-500/50' : 'hover:bg-slate-800/60'}
                              `}
-                                >
-                                    <div className="w-3 h-3 rounded-full bg-orange-500 border border-orange-300 shadow-sm animate-pulse"></div>
-                                    <span className={`text-xs ${activeLabel === 'pathology' ? 'text-orange-400 font-semibold' : 'text-slate-300 group-hover:text-white'}`}>
-                                        Detected Pathology
-                                    </span>
-                                </button>
+                                    >
+                                        <div className="w-3 h-3 rounded-full bg-orange-500 border border-orange-300 shadow-sm animate-pulse"></div>
+                                        <span className={`text-xs ${activeLabel === 'pathology' ? 'text-orange-400 font-semibold' : 'text-slate-300 group-hover:text-white'}`}>
+                                            Detected Pathology
+                                        </span>
+                                    </button>
+                                )}
+
+                                {/* Lobe surfaces: pick one to isolate it */}
+                                {analysis && layers.lobes && LOBE_KEYS.filter(key => analysis.meshes.lobes[key]).map(key => (
+                                    <button
+                                        key={key}
+                                        onClick={() => { handleLegendClick(LOBE_LABEL_PREFIX + key); onStructureClick?.(LOBE_LABEL_PREFIX + key); }}
+                                        className={`w-full flex items-center gap-3 p-2 rounded-lg transition-all text-left group ${selectedLobe === key ? 'bg-slate-800 ring-1 ring-cyan-500/50' : 'hover:bg-slate-800/60'}`}
+                                    >
+                                        <div className="w-3 h-3 rounded-full border border-slate-500" style={{ backgroundColor: LOBE_COLORS[key] }}></div>
+                                        <span className="text-xs text-slate-300 group-hover:text-white">{LOBE_NAMES[key]} · {metrics.lobeVolumes[key]} mL</span>
+                                    </button>
+                                ))}
 
                                 {[
                                     { key: 'lobes', label: 'Lobes', color: 'bg-purple-400' },
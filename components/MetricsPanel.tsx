@@ -1,16 +1,53 @@
 import React from 'react';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, Cell } from 'recharts';
-import { LungMetrics, TimePoint, ViewMode } from '../types';
-import { ArrowDown, ArrowUp, Activity, Wind, AlertCircle } from 'lucide-react';
+import { LungMetrics, MetricKey, TimePoint, ViewMode } from '../types';
+import { ArrowDown, ArrowUp, Activity, Wind, AlertCircle, AlertTriangle, CheckCircle, Info, ShieldCheck } from 'lucide-react';
+import { isMetricMeasured } from '../services/lungMetrics';
 
 interface MetricsPanelProps {
   currentPoint: TimePoint;
   timeline: TimePoint[];
+  baselinePoint?: TimePoint | null; // Compared against; defaults to the first timepoint
   viewMode: ViewMode;
 }
 
-const MetricsPanel: React.FC<MetricsPanelProps> = ({ currentPoint, timeline, viewMode }) => {
-  
+const METRIC_LABELS: Record<MetricKey, string> = {
+  totalVolume: 'Total Volume',
+  lobeVolumes: 'Lobe Volumes',
+  airTrapping: 'Air Trapping',
+  stiffnessIndex: 'Stiffness Index',
+  expansionRatio: 'Expansion Ratio',
+};
+
+const MetricsPanel: React.FC<MetricsPanelProps> = ({ currentPoint, timeline, baselinePoint, viewMode }) => {
+  const metrics = currentPoint.metrics;
+  const compared = baselinePoint ?? timeline[0];
+  const baseline = compared && compared.id !== currentPoint.id && compared.analysisStatus === 'completed' ? compared.metrics : null;
+  const volumeChange = baseline && baseline.totalVolume > 0
+    ? ((metrics.totalVolume - baseline.totalVolume) / baseline.totalVolume) * 100
+    : null;
+  const measured = (key: MetricKey) => isMetricMeasured(metrics, key);
+  const provenanceTitle = (key: MetricKey) => metrics.provenance?.[key]?.description;
+
+  // Image quality warnings that bear on a metric, flagged beside it
+  const qcFlag = (key: MetricKey) => {
+    const issues = metrics.qc?.checks.filter(c => c.severity !== 'pass' && c.affects.includes(key)) ?? [];
+    if (issues.length === 0) return null;
+    return (
+      <span className="ml-auto text-amber-400" title={issues.map(c => `${c.scan === 'expiratory' ? 'Expiratory scan, ' : ''}${c.label}: ${c.detail}`).join('\n')}>
+        <AlertTriangle size={14} />
+      </span>
+    );
+  };
+
+  // Lobe with the largest relative loss since baseline, if any lost volume
+  const lobeLoss = baseline
+    ? (Object.keys(metrics.lobeVolumes) as (keyof LungMetrics['lobeVolumes'])[])
+        .filter(key => baseline.lobeVolumes[key] > 0)
+        .map(key => ({ key, change: (metrics.lobeVolumes[key] - baseline.lobeVolumes[key]) / baseline.lobeVolumes[key] }))
+        .sort((a, b) => a.change - b.change)[0]
+    : undefined;
+
   // Transform timeline for charts
   const volumeData = timeline.map(tp => ({
     name: tp.label,
@@ -20,11 +57,11 @@ const MetricsPanel: React.FC<MetricsPanelProps> = ({ currentPoint, timeline, vie
   }));
 
   const lobeData = [
-    { name: 'R-Upper', value: currentPoint.metrics.lobeVolumes.rul },
-    { name: 'R-Middle', value: currentPoint.metrics.lobeVolumes.rml },
-    { name: 'R-Lower', value: currentPoint.metrics.lobeVolumes.rll },
-    { name: 'L-Upper', value: currentPoint.metrics.lobeVolumes.lul },
-    { name: 'L-Lower', value: currentPoint.metrics.lobeVolumes.lll },
+    { key: 'rul' as const, name: 'R-Upper', value: metrics.lobeVolumes.rul },
+    { key: 'rml' as const, name: 'R-Middle', value: metrics.lobeVolumes.rml },
+    { key: 'rll' as const, name: 'R-Lower', value: metrics.lobeVolumes.rll },
+    { key: 'lul' as const, name: 'L-Upper', value: metrics.lobeVolumes.lul },
+    { key: 'lll' as const, name: 'L-Lower', value: metrics.lobeVolumes.lll },
   ];
 
   return (
@@ -32,56 +69,63 @@ const MetricsPanel: React.FC<MetricsPanelProps> = ({ currentPoint, timeline, vie
       
       {/* KPI Cards */}
       <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
-        <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700">
+        <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700" title={provenanceTitle('totalVolume')}>
           <div className="flex items-center gap-2 text-slate-400 text-sm mb-1">
             <Wind size={16} />
             <span>Total Volume</span>
+            {qcFlag('totalVolume')}
           </div>
           <div className="text-2xl font-bold text-white">
-            {(currentPoint.metrics.totalVolume / 1000).toFixed(2)} L
-          </div>
-          <div className="text-xs text-rose-400 flex items-center mt-1">
-            <ArrowDown size={12} className="mr-1" />
-            12% from baseline
+            {(metrics.totalVolume / 1000).toFixed(2)} L
           </div>
+          {volumeChange !== null ? (
+            <div className={`text-xs flex items-center mt-1 ${volumeChange < 0 ? 'text-rose-400' : 'text-emerald-400'}`}>
+              {volumeChange < 0 ? <ArrowDown size={12} className="mr-1" /> : <ArrowUp size={12} className="mr-1" />}
+              {Math.abs(volumeChange).toFixed(0)}% from baseline
+            </div>
+          ) : (
+            <div className="text-xs text-slate-500 mt-1">Baseline scan</div>
+          )}
         </div>
 
-        <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700">
+        <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700" title={provenanceTitle('stiffnessIndex')}>
           <div className="flex items-center gap-2 text-slate-400 text-sm mb-1">
             <Activity size={16} />
             <span>Stiffness Index</span>
+            {qcFlag('stiffnessIndex')}
           </div>
           <div className="text-2xl font-bold text-white">
-            {currentPoint.metrics.stiffnessIndex.toFixed(1)}
+            {measured('stiffnessIndex') ? metrics.stiffnessIndex.toFixed(1) : '—'}
           </div>
-           <div className="text-xs text-rose-400 flex items-center mt-1">
-            <ArrowUp size={12} className="mr-1" />
-            Critical Increase
+          <div className="text-xs text-slate-500 mt-1">
+            {measured('stiffnessIndex') ? 'Index 0-10' : 'Not measured'}
           </div>
         </div>
 
-        <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700">
+        <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700" title={provenanceTitle('airTrapping')}>
           <div className="flex items-center gap-2 text-slate-400 text-sm mb-1">
             <AlertCircle size={16} />
             <span>Air Trapping</span>
+            {qcFlag('airTrapping')}
           </div>
           <div className="text-2xl font-bold text-white">
-            {currentPoint.metrics.airTrapping}%
+            {metrics.airTrapping}%
           </div>
           <div className="text-xs text-slate-500 mt-1">
-            Moderate Severity
+            {metrics.gasTrappingLobes ? 'Expiratory voxels below -856 HU' : 'Voxels below -856 HU'}
           </div>
         </div>
 
-        <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700">
+        <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700" title={provenanceTitle('expansionRatio')}>
           <div className="flex items-center gap-2 text-slate-400 text-sm mb-1">
             <span>Expansion Ratio</span>
+            {qcFlag('expansionRatio')}
           </div>
           <div className="text-2xl font-bold text-white">
-            {currentPoint.metrics.expansionRatio.toFixed(2)}
+            {measured('expansionRatio') ? metrics.expansionRatio.toFixed(2) : '—'}
           </div>
           <div className="text-xs text-slate-500 mt-1">
-            Reduced compliance
+            {measured('expansionRatio') ? 'Inspiration / expiration' : 'Not measured'}
           </div>
         </div>
       </div>
@@ -141,7 +185,7 @@ const MetricsPanel: React.FC<MetricsPanelProps> = ({ currentPoint, timeline, vie
         {/* Lobar Breakdown */}
         {viewMode === ViewMode.DOCTOR && (
           <div className="bg-slate-800/50 p-5 rounded-xl border border-slate-700">
-            <h3 className="text-slate-300 font-medium mb-4">Lobar Volumetric Distribution</h3>
+            <h3 className="text-slate-300 font-medium mb-4 flex items-center gap-2">Lobar Volumetric Distribution {qcFlag('lobeVolumes')}</h3>
             <div className="h-48 w-full">
               <ResponsiveContainer width="100%" height="100%">
                 <BarChart data={lobeData} layout="vertical">
@@ -160,9 +204,110 @@ const MetricsPanel: React.FC<MetricsPanelProps> = ({ currentPoint, timeline, vie
                 </BarChart>
               </ResponsiveContainer>
             </div>
-            <p className="text-xs text-slate-500 mt-2 italic">
-              Note: Right Lower Lobe (RLL) shows maximal volume loss compared to baseline.
-            </p>
+            {lobeLoss && lobeLoss.change < 0 && (
+              <p className="text-xs text-slate-500 mt-2 italic">
+                Note: {lobeLoss.key.toUpperCase()} shows maximal volume loss compared to baseline ({(lobeLoss.change * 100).toFixed(0)}%).
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Emphysema */}
+        {viewMode === ViewMode.DOCTOR && metrics.density && (
+          <div className="bg-slate-800/50 p-5 rounded-xl border border-slate-700">
+            <h3 className="text-slate-300 font-medium mb-4">Emphysema Index (LAA%-950)</h3>
+            <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-xs">
+              {[
+                { name: 'Right Lung', region: metrics.density.rightLung },
+                { name: 'Left Lung', region: metrics.density.leftLung },
+                ...lobeData.map(lobe => ({ name: lobe.name, region: metrics.density!.lobes[lobe.key] })),
+              ].map(({ name, region }) => (
+                <div key={name} className="flex justify-between">
+                  <span className="text-slate-400">{name}</span>
+                  <span className="font-mono text-white">{region.percentBelow950.toFixed(1)}%</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Gas trapping (paired expiratory scan) */}
+        {viewMode === ViewMode.DOCTOR && metrics.gasTrappingLobes && (
+          <div className="bg-slate-800/50 p-5 rounded-xl border border-slate-700">
+            <h3 className="text-slate-300 font-medium mb-4">Gas Trapping on Expiration (%-856)</h3>
+            <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-xs">
+              {lobeData.map(lobe => (
+                <div key={lobe.key} className="flex justify-between">
+                  <span className="text-slate-400">{lobe.name}</span>
+                  <span className="font-mono text-white">{metrics.gasTrappingLobes![lobe.key].toFixed(1)}%</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Lobar stiffness (paired expiratory scan) */}
+        {viewMode === ViewMode.DOCTOR && metrics.stiffnessLobes && (
+          <div className="bg-slate-800/50 p-5 rounded-xl border border-slate-700" title={provenanceTitle('stiffnessIndex')}>
+            <h3 className="text-slate-300 font-medium mb-4">Lobar Stiffness Index (0-10)</h3>
+            <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-xs">
+              {lobeData.map(lobe => (
+                <div key={lobe.key} className="flex justify-between">
+                  <span className="text-slate-400">{lobe.name}</span>
+                  <span className="font-mono text-white">{metrics.stiffnessLobes![lobe.key].toFixed(1)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Image quality checks */}
+        {viewMode === ViewMode.DOCTOR && metrics.qc && (
+          <div className="bg-slate-800/50 p-5 rounded-xl border border-slate-700">
+            <h3 className="text-slate-300 font-medium mb-4 flex items-center gap-2">
+              <ShieldCheck size={16} /> Image Quality
+            </h3>
+            <div className="space-y-2">
+              {metrics.qc.checks.map(check => (
+                <div key={`${check.scan}-${check.key}`} className="text-xs flex items-start gap-2">
+                  {check.severity === 'pass'
+                    ? <CheckCircle size={14} className="mt-0.5 flex-shrink-0 text-emerald-400" />
+                    : <AlertTriangle size={14} className={`mt-0.5 flex-shrink-0 ${check.severity === 'fail' ? 'text-rose-400' : 'text-amber-400'}`} />}
+                  <div>
+                    <span className="text-slate-300 font-medium">
+                      {check.scan === 'expiratory' ? 'Expiratory ' + check.label.toLowerCase() : check.label}
+                    </span>
+                    <p className="text-slate-500">{check.detail}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Metric Provenance */}
+        {viewMode === ViewMode.DOCTOR && metrics.provenance && (
+          <div className="bg-slate-800/50 p-5 rounded-xl border border-slate-700">
+            <h3 className="text-slate-300 font-medium mb-4 flex items-center gap-2">
+              <Info size={16} /> Metric Provenance
+            </h3>
+            <div className="space-y-3">
+              {(Object.keys(METRIC_LABELS) as MetricKey[]).map(key => {
+                const source = metrics.provenance?.[key];
+                if (!source) return null;
+                return (
+                  <div key={key} className="text-xs">
+                    <div className="flex items-center justify-between">
+                      <span className="text-slate-300 font-medium">{METRIC_LABELS[key]}</span>
+                      <span className={`font-mono ${source.measured ? 'text-cyan-400' : 'text-slate-500'}`}>
+                        {source.measured ? source.algorithm : 'Not measured'}
+                      </span>
+                    </div>
+                    <p className="text-slate-500 mt-0.5">{source.description} ({source.units})</p>
+                  </div>
+                );
+              })}
+            </div>
           </div>
         )}
       </div>
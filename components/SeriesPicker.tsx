@@ -0,0 +1,66 @@
+import React from 'react';
+import { Layers, ChevronRight, X, AlertTriangle } from 'lucide-react';
+import { DicomSeriesGroup } from '../types';
+
+interface SeriesPickerProps {
+    series: DicomSeriesGroup[];
+    skippedFiles: number;
+    onSelect: (series: DicomSeriesGroup) => void;
+    onCancel: () => void;
+}
+
+const formatDate = (da: string) => (da.length === 8 ? `${da.slice(0, 4)}-${da.slice(4, 6)}-${da.slice(6, 8)}` : da || 'Unknown date');
+
+const SeriesPicker: React.FC<SeriesPickerProps> = ({ series, skippedFiles, onSelect, onCancel }) => {
+    return (
+        <div className="w-full max-w-2xl bg-slate-900/80 border border-slate-700 rounded-3xl p-6 shadow-2xl backdrop-blur-sm animate-in fade-in duration-300">
+            <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 bg-slate-800 rounded-xl flex items-center justify-center">
+                        <Layers className="text-cyan-400" size={20} />
+                    </div>
+                    <div>
+                        <h2 className="text-xl font-bold text-white">Select a Series</h2>
+                        <p className="text-slate-400 text-sm">The selection contains {series.length} series. Choose the CT series to analyze.</p>
+                    </div>
+                </div>
+                <button onClick={onCancel} className="text-slate-500 hover:text-white transition-colors p-1">
+                    <X size={18} />
+                </button>
+            </div>
+
+            {skippedFiles > 0 && (
+                <div className="mt-3 text-xs text-amber-300 bg-amber-950/40 border border-amber-800/50 rounded-lg px-3 py-2 flex items-center gap-2">
+                    <AlertTriangle size={14} className="flex-shrink-0" />
+                    {skippedFiles} file(s) were skipped because they are not readable DICOM images.
+                </div>
+            )}
+
+            <div className="mt-4 space-y-2 max-h-[50vh] overflow-y-auto pr-1">
+                {series.map(s => (
+                    <button
+                        key={s.seriesInstanceUID}
+                        onClick={() => onSelect(s)}
+                        className="w-full flex items-center justify-between gap-4 p-4 rounded-xl border border-slate-800 bg-slate-950/40 hover:bg-slate-800/60 hover:border-cyan-500/40 transition-all text-left group"
+                    >
+                        <div className="min-w-0">
+                            <div className="text-sm font-semibold text-white truncate">
+                                {s.seriesNumber !== null && <span className="text-slate-500 mr-2">#{s.seriesNumber}</span>}
+                                {s.description}
+                            </div>
+                            <div className="text-xs text-slate-400 mt-1 flex gap-3">
+                                <span>{s.modality || 'Unknown modality'}</span>
+                                <span>{s.slices.length} slice(s)</span>
+                                <span>{formatDate(s.study.studyDate)}</span>
+                                {s.slices[0].sliceThickness !== null && <span>{s.slices[0].sliceThickness} mm</span>}
+                            </div>
+                        </div>
+                        <ChevronRight size={18} className="text-slate-500 group-hover:text-cyan-400 flex-shrink-0" />
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default SeriesPicker;
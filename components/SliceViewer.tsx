@@ -0,0 +1,336 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CTVolume, LobeKey, LungAnalysisResult, LungLabel, Vec3, VolumeGrid } from '../types';
+import { LOBE_COLORS } from '../constants';
+import { LOBE_KEY_BY_LABEL, LOBE_NAMES } from '../services/lobeSegmentation';
+import { patientToVoxel, voxelToPatient } from '../services/volumeUtils';
+
+export type SlicePlane = 'axial' | 'coronal' | 'sagittal';
+
+interface SliceViewerProps {
+    analysis: LungAnalysisResult;
+    cursor: Vec3 | null;                   // LPS mm; null = centre of the volume
+    onCursorChange: (cursor: Vec3) => void;
+}
+
+type WindowPreset = 'lung' | 'mediastinal' | 'bone';
+type Overlay = 'lungs' | 'lobes' | 'airways' | 'findings';
+
+export const WINDOW_PRESETS: Record<WindowPreset, { label: string; width: number; level: number }> = {
+    lung: { label: 'Lung', width: 1500, level: -600 },
+    mediastinal: { label: 'Mediastinal', width: 350, level: 50 },
+    bone: { label: 'Bone', width: 1800, level: 400 },
+};
+
+const OVERLAY_LABELS: Record<Overlay, string> = {
+    lungs: 'Lungs',
+    lobes: 'Lobes',
+    airways: 'Airways',
+    findings: 'Findings',
+};
+
+// Image axes per plane in radiological convention: patient right on the image left,
+// anterior up on axial views, superior up on coronal and sagittal views
+export const PLANE_AXES: Record<SlicePlane, { x: number; y: number; through: number; flipY: boolean }> = {
+    axial: { x: 0, y: 1, through: 2, flipY: false },
+    coronal: { x: 0, y: 2, through: 1, flipY: true },
+    sagittal: { x: 1, y: 2, through: 0, flipY: true },
+};
+
+const PLANE_LABELS: Record<SlicePlane, string> = { axial: 'Axial', coronal: 'Coronal', sagittal: 'Sagittal' };
+
+const OVERLAY_ALPHA = 0.35;
+const RIGHT_LUNG_RGB: Vec3 = [34, 211, 238];
+const LEFT_LUNG_RGB: Vec3 = [59, 130, 246];
+const AIRWAY_RGB: Vec3 = [251, 191, 36];
+const CROSSHAIR_COLOR = 'rgba(250, 204, 21, 0.7)';
+const FINDING_COLOR = 'rgba(244, 63, 94, 0.9)';
+
+const hexToRgb = (hex: string): Vec3 => [1, 3, 5].map(o => parseInt(hex.slice(o, o + 2), 16)) as Vec3;
+const LOBE_RGB = Object.fromEntries(Object.entries(LOBE_COLORS).map(([key, hex]) => [key, hexToRgb(hex)])) as Record<LobeKey, Vec3>;
+
+/** Voxel of a volume nearest to a patient position, clamped into the grid. */
+export const nearestVoxel = (volume: VolumeGrid, p: Vec3): Vec3 =>
+    patientToVoxel(volume, p).map((v, a) => Math.max(0, Math.min(volume.dimensions[a] - 1, Math.round(v)))) as Vec3;
+
+/** Voxel under a shared slice cursor; the centre of the volume while there is none. */
+export const cursorVoxel = (volume: VolumeGrid, cursor: Vec3 | null): Vec3 =>
+    cursor ? nearestVoxel(volume, cursor) : volume.dimensions.map(n => Math.floor(n / 2)) as Vec3;
+
+/**
+ * For each voxel index along each axis of `volume`, the nearest index on `grid`
+ * (-1 outside). Both are stored in canonical LPS order with the same direction, so
+ * the mapping separates by axis.
+ */
+const axisLookup = (volume: CTVolume, grid: VolumeGrid) => {
+    const offset = patientToVoxel(grid, volume.origin);
+    return [0, 1, 2].map(a => {
+        const ratio = volume.spacing[a] / grid.spacing[a];
+        return Int32Array.from({ length: volume.dimensions[a] }, (_, n) => {
+            const m = Math.round(offset[a] + n * ratio);
+            return m >= 0 && m < grid.dimensions[a] ? m : -1;
+        });
+    });
+};
+
+interface PlaneImage {
+    plane: SlicePlane;
+    voxel: Vec3;
+    width: number;   // Image size in voxels
+    height: number;
+}
+
+/** Paints one windowed slice with its label overlays, findings and crosshair. */
+const drawPlane = (
+    canvas: HTMLCanvasElement,
+    analysis: LungAnalysisResult,
+    lookup: Int32Array[],
+    image: PlaneImage,
+    windowing: { width: number; level: number },
+    overlays: Record<Overlay, boolean>
+) => {
+    const { volume, segmentation, lobes } = analysis;
+    const [nx, ny] = volume.dimensions;
+    const [sx, sy] = segmentation.dimensions;
+    const { x, y, through, flipY } = PLANE_AXES[image.plane];
+    const { width, height, voxel } = image;
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const low = windowing.level - windowing.width / 2;
+    const pixels = ctx.createImageData(width, height);
+    const index: Vec3 = [0, 0, 0];
+    index[through] = voxel[through];
+    const showLabels = overlays.lungs || overlays.lobes || overlays.airways;
+    for (let py = 0; py < height; py++) {
+        index[y] = flipY ? height - 1 - py : py;
+        for (let px = 0; px < width; px++) {
+            index[x] = px;
+            const hu = volume.data[index[0] + index[1] * nx + index[2] * nx * ny];
+            let r = Math.max(0, Math.min(255, ((hu - low) / windowing.width) * 255));
+            let g = r, b = r;
+
+            if (showLabels) {
+                const li = lookup[0][index[0]], lj = lookup[1][index[1]], lk = lookup[2][index[2]];
+                if (li >= 0 && lj >= 0 && lk >= 0) {
+                    const s = li + lj * sx + lk * sx * sy;
+                    const label = segmentation.labels[s];
+                    const lobe = LOBE_KEY_BY_LABEL[lobes.labels[s]];
+                    const color = overlays.airways && label === LungLabel.AIRWAY ? AIRWAY_RGB
+                        : overlays.lobes && lobe ? LOBE_RGB[lobe]
+                            : overlays.lungs && label === LungLabel.RIGHT_LUNG ? RIGHT_LUNG_RGB
+                                : overlays.lungs && label === LungLabel.LEFT_LUNG ? LEFT_LUNG_RGB
+                                    : null;
+                    if (color) {
+                        r += (color[0] - r) * OVERLAY_ALPHA;
+                        g += (color[1] - g) * OVERLAY_ALPHA;
+                        b += (color[2] - b) * OVERLAY_ALPHA;
+                    }
+                }
+            }
+
+            const o = (py * width + px) * 4;
+            pixels.data[o] = r;
+            pixels.data[o + 1] = g;
+            pixels.data[o + 2] = b;
+            pixels.data[o + 3] = 255;
+        }
+    }
+    ctx.putImageData(pixels, 0, 0);
+
+    const toImage = (v: Vec3) => [v[x], flipY ? height - 1 - v[y] : v[y]];
+    ctx.lineWidth = Math.max(1, width / 256);
+
+    // Findings whose bounding box the slice cuts
+    if (overlays.findings) {
+        ctx.strokeStyle = FINDING_COLOR;
+        for (const finding of analysis.emphysema.bullae) {
+            const a = patientToVoxel(volume, finding.boundingBox.min);
+            const c = patientToVoxel(volume, finding.boundingBox.max);
+            if (voxel[through] < Math.min(a[through], c[through]) - 0.5 || voxel[through] > Math.max(a[through], c[through]) + 0.5) continue;
+            const [ax, ay] = toImage(a), [cx, cy] = toImage(c);
+            ctx.strokeRect(Math.min(ax, cx) - 0.5, Math.min(ay, cy) - 0.5, Math.abs(cx - ax) + 1, Math.abs(cy - ay) + 1);
+        }
+    }
+
+    const [hx, hy] = toImage(voxel);
+    ctx.strokeStyle = CROSSHAIR_COLOR;
+    ctx.beginPath();
+    ctx.moveTo(hx + 0.5, 0);
+    ctx.lineTo(hx + 0.5, height);
+    ctx.moveTo(0, hy + 0.5);
+    ctx.lineTo(width, hy + 0.5);
+    ctx.stroke();
+};
+
+interface SlicePaneProps {
+    plane: SlicePlane;
+    analysis: LungAnalysisResult;
+    lookup: Int32Array[];
+    voxel: Vec3;
+    windowing: { width: number; level: number };
+    overlays: Record<Overlay, boolean>;
+    onVoxelChange: (voxel: Vec3) => void;
+}
+
+const SlicePane: React.FC<SlicePaneProps> = ({ plane, analysis, lookup, voxel, windowing, overlays, onVoxelChange }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const dragging = useRef(false);
+    const [displaySize, setDisplaySize] = useState<{ width: number; height: number } | null>(null);
+    const { volume } = analysis;
+    const { x, y, through, flipY } = PLANE_AXES[plane];
+    const width = volume.dimensions[x];
+    const height = volume.dimensions[y];
+    const [voxelX, voxelY, voxelZ] = voxel;
+
+    useEffect(() => {
+        if (canvasRef.current) drawPlane(canvasRef.current, analysis, lookup, { plane, voxel: [voxelX, voxelY, voxelZ], width, height }, windowing, overlays);
+    }, [analysis, lookup, plane, voxelX, voxelY, voxelZ, width, height, windowing, overlays]);
+
+    // Fit the image to the pane at its physical proportions (voxels are rarely cubic)
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const physicalWidth = width * volume.spacing[x];
+        const physicalHeight = height * volume.spacing[y];
+        const observer = new ResizeObserver(([entry]) => {
+            const scale = Math.min(entry.contentRect.width / physicalWidth, entry.contentRect.height / physicalHeight);
+            setDisplaySize({ width: physicalWidth * scale, height: physicalHeight * scale });
+        });
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, [volume, x, y, width, height]);
+
+    // Wheel scrolls through slices; registered natively so the page does not scroll
+    const latest = useRef({ voxel, onVoxelChange });
+    latest.current = { voxel, onVoxelChange };
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const onWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const next = [...latest.current.voxel] as Vec3;
+            next[through] = Math.max(0, Math.min(volume.dimensions[through] - 1, next[through] + (e.deltaY > 0 ? -1 : 1)));
+            latest.current.onVoxelChange(next);
+        };
+        canvas.addEventListener('wheel', onWheel, { passive: false });
+        return () => canvas.removeEventListener('wheel', onWheel);
+    }, [through, volume]);
+
+    const pointAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const px = Math.floor(((e.clientX - rect.left) / rect.width) * width);
+        const py = Math.floor(((e.clientY - rect.top) / rect.height) * height);
+        const next = [...voxel] as Vec3;
+        next[x] = Math.max(0, Math.min(width - 1, px));
+        next[y] = Math.max(0, Math.min(height - 1, flipY ? height - 1 - py : py));
+        onVoxelChange(next);
+    };
+
+    return (
+        <div ref={containerRef} className="relative bg-black rounded-lg border border-slate-800 overflow-hidden flex items-center justify-center min-h-0">
+            <canvas
+                ref={canvasRef}
+                className="cursor-crosshair"
+                style={{ ...displaySize, imageRendering: 'pixelated' }}
+                onPointerDown={e => { dragging.current = true; e.currentTarget.setPointerCapture(e.pointerId); pointAt(e); }}
+                onPointerMove={e => { if (dragging.current) pointAt(e); }}
+                onPointerUp={() => { dragging.current = false; }}
+            />
+            <div className="absolute top-1.5 left-2 text-[10px] font-bold uppercase tracking-wider text-slate-300 pointer-events-none">
+                {PLANE_LABELS[plane]}
+            </div>
+            <div className="absolute bottom-1.5 right-2 text-[10px] font-mono text-slate-400 pointer-events-none">
+                {voxel[through] + 1} / {volume.dimensions[through]}
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Axial, coronal and sagittal views of the source volume around one shared
+ * cursor. Clicking or dragging in a view moves the cursor within that plane (so
+ * the other two follow), the wheel steps through slices, and the segmentation
+ * and findings can be overlaid on the windowed image.
+ */
+const SliceViewer: React.FC<SliceViewerProps> = ({ analysis, cursor, onCursorChange }) => {
+    const { volume } = analysis;
+    const [preset, setPreset] = useState<WindowPreset>('lung');
+    const [overlays, setOverlays] = useState<Record<Overlay, boolean>>({ lungs: false, lobes: false, airways: false, findings: true });
+
+    const lookup = useMemo(() => axisLookup(volume, analysis.segmentation), [volume, analysis.segmentation]);
+    const voxel = cursorVoxel(volume, cursor);
+
+    const setVoxel = (v: Vec3) => onCursorChange(voxelToPatient(volume, v[0], v[1], v[2]));
+    const position = voxelToPatient(volume, voxel[0], voxel[1], voxel[2]);
+    const hu = volume.data[voxel[0] + voxel[1] * volume.dimensions[0] + voxel[2] * volume.dimensions[0] * volume.dimensions[1]];
+    const [li, lj, lk] = lookup.map((axis, a) => axis[voxel[a]]);
+    const lobe = li >= 0 && lj >= 0 && lk >= 0
+        ? LOBE_KEY_BY_LABEL[analysis.lobes.labels[li + lj * analysis.lobes.dimensions[0] + lk * analysis.lobes.dimensions[0] * analysis.lobes.dimensions[1]]]
+        : undefined;
+    const finding = analysis.emphysema.bullae.find(f =>
+        [0, 1, 2].every(a => position[a] >= f.boundingBox.min[a] && position[a] <= f.boundingBox.max[a]));
+
+    return (
+        <div className="w-full h-full grid grid-cols-2 grid-rows-2 gap-2 p-2">
+            {(['axial', 'coronal', 'sagittal'] as const).map(plane => (
+                <SlicePane
+                    key={plane}
+                    plane={plane}
+                    analysis={analysis}
+                    lookup={lookup}
+                    voxel={voxel}
+                    windowing={WINDOW_PRESETS[preset]}
+                    overlays={overlays}
+                    onVoxelChange={setVoxel}
+                />
+            ))}
+
+            <div className="bg-slate-900/80 rounded-lg border border-slate-800 p-3 flex flex-col gap-3 text-xs overflow-y-auto">
+                <div>
+                    <p className="text-[10px] font-bold uppercase tracking-wider text-slate-500 mb-1.5">Window</p>
+                    <div className="flex gap-1.5">
+                        {(Object.keys(WINDOW_PRESETS) as WindowPreset[]).map(key => (
+                            <button
+                                key={key}
+                                onClick={() => setPreset(key)}
+                                className={`px-2.5 py-1 rounded-full font-semibold transition-colors ${preset === key ? 'bg-cyan-500 text-black' : 'bg-slate-800 text-slate-300 hover:text-white'}`}
+                                title={`W ${WINDOW_PRESETS[key].width} / L ${WINDOW_PRESETS[key].level}`}
+                            >
+                                {WINDOW_PRESETS[key].label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div>
+                    <p className="text-[10px] font-bold uppercase tracking-wider text-slate-500 mb-1.5">Overlays</p>
+                    <div className="grid grid-cols-2 gap-1">
+                        {(Object.keys(OVERLAY_LABELS) as Overlay[]).map(key => (
+                            <label key={key} className="flex items-center gap-2 text-slate-300 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={overlays[key]}
+                                    onChange={() => setOverlays(prev => ({ ...prev, [key]: !prev[key] }))}
+                                    className="accent-cyan-500"
+                                />
+                                {OVERLAY_LABELS[key]}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="mt-auto font-mono text-slate-400 space-y-0.5">
+                    <p>{position.map(v => v.toFixed(1)).join(', ')} mm (LPS)</p>
+                    <p>{hu} HU</p>
+                    <p className="text-slate-300">{lobe ? LOBE_NAMES[lobe] : 'Outside the lungs'}</p>
+                    {finding && <p className="text-rose-400">Bulla {finding.volumeMl.toFixed(1)} mL</p>}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SliceViewer;
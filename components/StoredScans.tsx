@@ -0,0 +1,71 @@
+import React from 'react';
+import { Database, HardDrive, RotateCcw, Trash2 } from 'lucide-react';
+import { TimePoint } from '../types';
+import { StoredBinary } from '../services/caseStore';
+
+interface StoredScansProps {
+    timeline: TimePoint[];
+    binaries: StoredBinary[];
+    estimate: { usage: number; quota: number } | null;
+    warning: string | null;
+    onReopen: (timePoint: TimePoint) => void;
+    onEvict: (timePoint: TimePoint) => void;
+}
+
+const formatBytes = (bytes: number) =>
+    bytes >= 1e9 ? `${(bytes / 1e9).toFixed(1)} GB` : bytes >= 1e6 ? `${(bytes / 1e6).toFixed(0)} MB` : `${Math.ceil(bytes / 1e3)} kB`;
+
+/**
+ * Timepoints of the open case as kept on this device: scans with their volume
+ * stored can be reopened (re-running the analysis) or evicted to free space,
+ * which keeps the timepoint and its metrics.
+ */
+const StoredScans: React.FC<StoredScansProps> = ({ timeline, binaries, estimate, warning, onReopen, onEvict }) => {
+    const storedBytes = (tp: TimePoint) => binaries.filter(b => b.timePointId === tp.id).reduce((sum, b) => sum + b.bytes, 0);
+    const hasVolume = (tp: TimePoint) => binaries.some(b => b.timePointId === tp.id && b.kind === 'volume' && b.role === 'inspiratory');
+
+    return (
+        <div className="w-full max-w-2xl bg-slate-900/80 border border-slate-700 rounded-2xl p-4 shadow-2xl">
+            <div className="flex items-center justify-between mb-3">
+                <span className="flex items-center gap-2 text-xs font-bold text-slate-300 uppercase tracking-wider">
+                    <Database size={14} /> Timepoints on this device
+                </span>
+                {estimate && estimate.quota > 0 && (
+                    <span className="flex items-center gap-2 text-[10px] font-mono text-slate-500" title="Browser storage used by this site">
+                        <HardDrive size={12} /> {formatBytes(estimate.usage)} of {formatBytes(estimate.quota)}
+                    </span>
+                )}
+            </div>
+
+            {warning && <p className="text-xs text-amber-300 bg-amber-950/40 border border-amber-800/50 rounded-lg px-3 py-2 mb-3">{warning}</p>}
+
+            <div className="space-y-1 max-h-48 overflow-y-auto pr-1">
+                {timeline.map(tp => (
+                    <div key={tp.id} className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg bg-slate-950/40 text-sm">
+                        <div className="min-w-0">
+                            <span className="text-white">{tp.label}</span>
+                            <span className="text-slate-500 text-xs ml-2">{tp.date}</span>
+                        </div>
+                        <div className="flex items-center gap-3 flex-shrink-0 text-xs">
+                            {hasVolume(tp) ? (
+                                <>
+                                    <span className="font-mono text-slate-500">{formatBytes(storedBytes(tp))}</span>
+                                    <button onClick={() => onReopen(tp)} className="flex items-center gap-1 text-cyan-400 hover:text-cyan-300 transition-colors">
+                                        <RotateCcw size={12} /> Reopen
+                                    </button>
+                                    <button onClick={() => onEvict(tp)} className="text-slate-500 hover:text-rose-400 transition-colors" title="Remove the stored scan, keep the metrics">
+                                        <Trash2 size={12} />
+                                    </button>
+                                </>
+                            ) : (
+                                <span className="text-slate-500">Metrics only</span>
+                            )}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default StoredScans;
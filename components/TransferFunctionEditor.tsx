@@ -0,0 +1,187 @@
+import React, { useId, useRef, useState } from 'react';
+import { TransferFunction, TransferFunctionPoint, TransferFunctionPreset, Vec3 } from '../types';
+import { TRANSFER_FUNCTION_PRESETS, transferFunctionFromPreset, VOLUME_HU_RANGE } from '../services/volumeRendering';
+import { RotateCcw, Trash2 } from 'lucide-react';
+
+interface TransferFunctionEditorProps {
+    value: TransferFunction;
+    onChange: (transferFunction: TransferFunction) => void;
+}
+
+const GRAPH_WIDTH = 288;
+const GRAPH_HEIGHT = 96;
+const [HU_MIN, HU_MAX] = VOLUME_HU_RANGE;
+
+const toX = (hu: number) => ((hu - HU_MIN) / (HU_MAX - HU_MIN)) * GRAPH_WIDTH;
+const toY = (opacity: number) => (1 - opacity) * GRAPH_HEIGHT;
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+const rgb = (c: Vec3) => `rgb(${c[0]}, ${c[1]}, ${c[2]})`;
+const toHex = (c: Vec3) => '#' + c.map(v => v.toString(16).padStart(2, '0')).join('');
+const fromHex = (hex: string): Vec3 => [1, 3, 5].map(o => parseInt(hex.slice(o, o + 2), 16)) as Vec3;
+
+/**
+ * Opacity curve of a transfer function over attenuation, filled with its colours.
+ * Points drag in HU and opacity (keeping their HU order), double-clicking the graph
+ * adds one, and the selected point can be recoloured or removed.
+ */
+const TransferFunctionEditor: React.FC<TransferFunctionEditorProps> = ({ value, onChange }) => {
+    const gradientId = useId();
+    const svgRef = useRef<SVGSVGElement>(null);
+    const dragging = useRef<number | null>(null);
+    const [selected, setSelected] = useState<number | null>(null);
+    const { points } = value;
+    const point = selected !== null ? points[selected] : undefined;
+
+    const updatePoint = (index: number, patch: Partial<TransferFunctionPoint>) =>
+        onChange({ ...value, points: points.map((p, n) => (n === index ? { ...p, ...patch } : p)) });
+
+    const graphPosition = (e: React.MouseEvent) => {
+        const rect = svgRef.current!.getBoundingClientRect();
+        return {
+            hu: Math.round(HU_MIN + clamp01((e.clientX - rect.left) / rect.width) * (HU_MAX - HU_MIN)),
+            opacity: Math.round(clamp01(1 - (e.clientY - rect.top) / rect.height) * 100) / 100,
+        };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const n = dragging.current;
+        if (n === null) return;
+        const { hu, opacity } = graphPosition(e);
+        const low = n > 0 ? points[n - 1].hu + 1 : HU_MIN;
+        const high = n < points.length - 1 ? points[n + 1].hu - 1 : HU_MAX;
+        updatePoint(n, { hu: Math.max(low, Math.min(high, hu)), opacity });
+    };
+
+    const handleDoubleClick = (e: React.MouseEvent) => {
+        const { hu, opacity } = graphPosition(e);
+        if (points.some(p => p.hu === hu)) return;
+        const index = points.findIndex(p => p.hu > hu);
+        const at = index < 0 ? points.length : index;
+        const color = [...(points[Math.max(0, at - 1)]?.color ?? [255, 255, 255])] as Vec3;
+        onChange({ ...value, points: [...points.slice(0, at), { hu, color, opacity }, ...points.slice(at)] });
+        setSelected(at);
+    };
+
+    const removeSelected = () => {
+        if (selected === null || points.length <= 2) return;
+        onChange({ ...value, points: points.filter((_, n) => n !== selected) });
+        setSelected(null);
+    };
+
+    const applyPreset = (preset: TransferFunctionPreset) => {
+        onChange(transferFunctionFromPreset(preset));
+        setSelected(null);
+    };
+
+    const curve = points.map(p => `${toX(p.hu)},${toY(p.opacity)}`).join(' ');
+
+    return (
+        <div className="w-80 bg-slate-900/90 border border-slate-700/60 rounded-xl p-3 backdrop-blur-xl shadow-xl text-xs">
+            <div className="flex items-center justify-between mb-2">
+                <span className="text-[10px] font-bold text-slate-300 uppercase tracking-wider">Transfer Function</span>
+                <button onClick={() => applyPreset(value.preset)} className="text-slate-500 hover:text-white transition-colors" title="Reset to preset">
+                    <RotateCcw size={12} />
+                </button>
+            </div>
+
+            <div className="flex gap-1.5 mb-2">
+                {(Object.keys(TRANSFER_FUNCTION_PRESETS) as TransferFunctionPreset[]).map(key => (
+                    <button
+                        key={key}
+                        onClick={() => applyPreset(key)}
+                        className={`px-2.5 py-1 rounded-full font-semibold transition-colors ${value.preset === key ? 'bg-cyan-500 text-black' : 'bg-slate-800 text-slate-300 hover:text-white'}`}
+                    >
+                        {TRANSFER_FUNCTION_PRESETS[key].label}
+                    </button>
+                ))}
+            </div>
+
+            <svg
+                ref={svgRef}
+                width={GRAPH_WIDTH}
+                height={GRAPH_HEIGHT}
+                className="bg-black/60 rounded cursor-crosshair touch-none"
+                onPointerMove={handlePointerMove}
+                onPointerUp={() => { dragging.current = null; }}
+                onDoubleClick={handleDoubleClick}
+            >
+                <defs>
+                    <linearGradient id={gradientId} x1="0" x2={GRAPH_WIDTH} y1="0" y2="0" gradientUnits="userSpaceOnUse">
+                        {points.map((p, n) => <stop key={n} offset={toX(p.hu) / GRAPH_WIDTH} stopColor={rgb(p.color)} />)}
+                    </linearGradient>
+                </defs>
+                <polygon
+                    points={`${toX(points[0]?.hu ?? HU_MIN)},${GRAPH_HEIGHT} ${curve} ${toX(points[points.length - 1]?.hu ?? HU_MAX)},${GRAPH_HEIGHT}`}
+                    fill={`url(#${gradientId})`}
+                    fillOpacity={0.8}
+                />
+                <polyline points={curve} fill="none" stroke="white" strokeWidth={1.5} />
+                {points.map((p, n) => (
+                    <circle
+                        key={n}
+                        cx={toX(p.hu)}
+                        cy={toY(p.opacity)}
+                        r={4.5}
+                        fill={rgb(p.color)}
+                        stroke={selected === n ? '#22d3ee' : 'white'}
+                        strokeWidth={selected === n ? 2 : 1}
+                        className="cursor-grab"
+                        onPointerDown={e => {
+                            e.stopPropagation();
+                            svgRef.current?.setPointerCapture(e.pointerId);
+                            dragging.current = n;
+                            setSelected(n);
+                        }}
+                    />
+                ))}
+            </svg>
+            <div className="flex justify-between text-[10px] font-mono text-slate-500 mt-1" style={{ width: GRAPH_WIDTH }}>
+                <span>{HU_MIN}</span><span>0 HU</span><span>{HU_MAX}</span>
+            </div>
+
+            {point && selected !== null ? (
+                <div className="flex items-center gap-2 mt-2 text-slate-300">
+                    <input
+                        type="color"
+                        value={toHex(point.color)}
+                        onChange={e => updatePoint(selected, { color: fromHex(e.target.value) })}
+                        className="w-6 h-6 bg-transparent border-0 p-0 cursor-pointer"
+                    />
+                    <span className="font-mono">{point.hu} HU</span>
+                    <span className="font-mono text-slate-400">{(point.opacity * 100).toFixed(0)}% / cm</span>
+                    <button
+                        onClick={removeSelected}
+                        disabled={points.length <= 2}
+                        className="ml-auto text-slate-500 hover:text-rose-400 disabled:opacity-30 transition-colors"
+                        title="Remove point"
+                    >
+                        <Trash2 size={12} />
+                    </button>
+                </div>
+            ) : (
+                <p className="text-[10px] text-slate-500 mt-2">Drag points to edit; double-click to add one</p>
+            )}
+
+            <div className="flex items-center gap-2 mt-2 pt-2 border-t border-slate-700/60 text-slate-300">
+                <input
+                    type="color"
+                    value={toHex(value.airway.color)}
+                    onChange={e => onChange({ ...value, airway: { ...value.airway, color: fromHex(e.target.value) } })}
+                    className="w-6 h-6 bg-transparent border-0 p-0 cursor-pointer"
+                />
+                <span>Airway lumen</span>
+                <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    value={value.airway.opacity}
+                    onChange={e => onChange({ ...value, airway: { ...value.airway, opacity: Number(e.target.value) } })}
+                    className="ml-auto w-24 accent-cyan-500"
+                />
+            </div>
+        </div>
+    );
+};
+
+export default TransferFunctionEditor;
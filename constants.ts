@@ -1,6 +1,6 @@
 import { PatientCase, TimePoint } from './types';
 
-// Mock Patient Data simulating progression of fibrosis over 2 years
+// Mock Patient Data simulating progression of fibrosis over 2 years; a test fixture, never put in the case registry
 export const MOCK_PATIENT: PatientCase = {
   id: 'PT-8942',
   name: 'Eleanor Vance',
@@ -0,0 +1,68 @@
+// Offline support: app shell and CDN GETs go to the network first and fall back to the
+// last cached copy, so the bundles, the importmap modules and the Tailwind / font CDNs
+// keep working without a connection. Cases and scans are in IndexedDB (services/caseStore.ts).
+// Bump the version when the cached set changes; activation deletes every other cache.
+const CACHE = 'lungscape-shell-v3';
+
+// Every file of the build, filled in by vite.config.ts and cached on install
+const BUILD_ASSETS = [];
+
+// Cross-origin hosts the page loads from: importmap modules, Tailwind and the fonts
+const CDN_ORIGINS = [
+  'https://esm.sh',
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com',
+  'https://fonts.gstatic.com',
+];
+
+// Oldest entries are dropped past this, so stale hashed bundles do not pile up
+const MAX_ENTRIES = 150;
+
+const isCacheable = url => url.origin === self.location.origin || CDN_ORIGINS.includes(url.origin);
+
+const trimCache = async cache => {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_ENTRIES)).map(key => cache.delete(key)));
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(['/', '/index.html', ...BUILD_ASSETS.filter(asset => asset !== '/index.html')])));
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (!isCacheable(url)) return;
+  event.respondWith(
+    fetch(request)
+      .then(response => {
+        // Opaque responses are cross-origin no-cors loads such as the CDN stylesheets
+        if (response.ok || response.type === 'opaque') {
+          const copy = response.clone();
+          event.waitUntil(caches.open(CACHE).then(async cache => {
+            // Re-inserting moves the entry to the end, so trimming drops the least recently fetched
+            await cache.delete(request);
+            await cache.put(request, copy);
+            await trimCache(cache);
+          }));
+        }
+        return response;
+      })
+      .catch(async () => {
+        const cached = await caches.match(request);
+        if (cached) return cached;
+        if (request.mode === 'navigate') return (await caches.match('/index.html')) ?? Response.error();
+        return Response.error();
+      })
+  );
+});
@@ -0,0 +1,196 @@
+import {
+  AirwayBranch, AirwayTree, LobeKey, LobeSegmentation, LungLabel, LungSegmentation, Vec3
+} from "../types";
+import { LOBE_KEY_BY_LABEL } from "./lobeSegmentation";
+import { voxelToPatient, voxelVolumeMl } from "./volumeUtils";
+
+// Breadth-first layers from the trachea grouped into one wavefront band
+const BAND_LAYERS = 3;
+// Side branches shorter than this many bands are treated as leaks or noise at a bifurcation
+const MIN_BRANCH_BANDS = 3;
+// Neighbourhood searched for lobe labels around an airway tip (voxels)
+const LOBE_SEARCH_RADIUS = 6;
+
+interface FrontNode {
+  band: number;
+  voxels: number;
+  centroid: Vec3;   // Voxel index space
+  parent: number;   // -1 for the root
+  children: number[];
+  height: number;   // Bands in the tallest chain below (and including) this node
+}
+
+const emptyTree = (): AirwayTree => ({ branches: [], maxGeneration: 0 });
+
+/** Majority lobe label in a cube around a voxel position. */
+const lobeNear = (lobes: LobeSegmentation, at: Vec3): LobeKey | null => {
+  const [nx, ny, nz] = lobes.dimensions;
+  const counts = new Map<number, number>();
+  const [ci, cj, ck] = at.map(Math.round);
+  for (let k = Math.max(0, ck - LOBE_SEARCH_RADIUS); k <= Math.min(nz - 1, ck + LOBE_SEARCH_RADIUS); k++) {
+    for (let j = Math.max(0, cj - LOBE_SEARCH_RADIUS); j <= Math.min(ny - 1, cj + LOBE_SEARCH_RADIUS); j++) {
+      for (let i = Math.max(0, ci - LOBE_SEARCH_RADIUS); i <= Math.min(nx - 1, ci + LOBE_SEARCH_RADIUS); i++) {
+        const label = lobes.labels[i + j * nx + k * nx * ny];
+        if (label) counts.set(label, (counts.get(label) ?? 0) + 1);
+      }
+    }
+  }
+  let best = 0, bestCount = 0;
+  counts.forEach((count, label) => { if (count > bestCount) { best = label; bestCount = count; } });
+  return LOBE_KEY_BY_LABEL[best] ?? null;
+};
+
+/**
+ * Splits the airway mask into wavefronts travelling out from the trachea seed.
+ * Each connected piece of a front becomes a node whose parent is the piece of the
+ * previous front it touches; a front that falls apart marks a bifurcation.
+ */
+const propagateFronts = (airway: Uint8Array, dims: Vec3, seed: Vec3): FrontNode[] => {
+  const [nx, ny, nz] = dims;
+  const nxy = nx * ny;
+  const start = seed[0] + seed[1] * nx + seed[2] * nxy;
+  if (!airway[start]) return [];
+
+  const neighbours = (p: number, visit: (q: number) => void) => {
+    const i = p % nx, j = ((p - i) / nx) % ny, k = (p - i - j * nx) / nxy;
+    if (i > 0) visit(p - 1);
+    if (i < nx - 1) visit(p + 1);
+    if (j > 0) visit(p - nx);
+    if (j < ny - 1) visit(p + nx);
+    if (k > 0) visit(p - nxy);
+    if (k < nz - 1) visit(p + nxy);
+  };
+
+  // Geodesic (breadth-first) layer of every reachable airway voxel
+  const band = new Int32Array(airway.length).fill(-1);
+  const layer = new Int32Array(airway.length);
+  const order: number[] = [start];
+  band[start] = 0;
+  for (let head = 0; head < order.length; head++) {
+    const p = order[head];
+    neighbours(p, q => {
+      if (airway[q] && band[q] < 0) {
+        layer[q] = layer[p] + 1;
+        band[q] = Math.floor(layer[q] / BAND_LAYERS);
+        order.push(q);
+      }
+    });
+  }
+
+  // Connected pieces of each band, visited in increasing band order so parents exist first
+  const nodeOf = new Int32Array(airway.length).fill(-1);
+  const nodes: FrontNode[] = [];
+  const piece: number[] = [];
+  for (const seedVoxel of order) {
+    if (nodeOf[seedVoxel] >= 0) continue;
+    const id = nodes.length;
+    const b = band[seedVoxel];
+    const votes = new Map<number, number>();
+    let si = 0, sj = 0, sk = 0;
+    piece.length = 0;
+    piece.push(seedVoxel);
+    nodeOf[seedVoxel] = id;
+    for (let head = 0; head < piece.length; head++) {
+      const p = piece[head];
+      const i = p % nx, j = ((p - i) / nx) % ny, k = (p - i - j * nx) / nxy;
+      si += i; sj += j; sk += k;
+      neighbours(p, q => {
+        if (band[q] === b && nodeOf[q] < 0) { nodeOf[q] = id; piece.push(q); }
+        else if (band[q] === b - 1) votes.set(nodeOf[q], (votes.get(nodeOf[q]) ?? 0) + 1);
+      });
+    }
+    let parent = -1, parentVotes = 0;
+    votes.forEach((count, node) => { if (count > parentVotes) { parent = node; parentVotes = count; } });
+    nodes.push({ band: b, voxels: piece.length, centroid: [si / piece.length, sj / piece.length, sk / piece.length], parent, children: [], height: 1 });
+    if (parent >= 0) nodes[parent].children.push(id);
+  }
+
+  // Heights bottom-up (children always have larger ids), then prune short side branches
+  for (let id = nodes.length - 1; id >= 0; id--) {
+    const node = nodes[id];
+    for (const child of node.children) node.height = Math.max(node.height, nodes[child].height + 1);
+  }
+  for (const node of nodes) {
+    if (node.children.length < 2) continue;
+    const kept = node.children.filter(c => nodes[c].height >= MIN_BRANCH_BANDS);
+    node.children = kept.length > 0
+      ? kept
+      : [node.children.reduce((a, b) => (nodes[b].height > nodes[a].height ? b : a))];
+  }
+  return nodes;
+};
+
+/**
+ * Extracts the airway centerline tree from the segmented airway lumen: wavefront
+ * propagation from the trachea seed, one branch per chain of fronts between splits,
+ * generations counted from the trachea (0), lumen diameter from branch volume over
+ * length, and the supplied lobe from the lobe labels around the branch's tips.
+ */
+export const extractAirwayTree = (segmentation: LungSegmentation, lobes: LobeSegmentation): AirwayTree => {
+  if (!segmentation.tracheaSeed) return emptyTree();
+  const airway = segmentation.labels.map(v => (v === LungLabel.AIRWAY ? 1 : 0));
+  const nodes = propagateFronts(airway, segmentation.dimensions, segmentation.tracheaSeed);
+  const root = nodes.findIndex(n => n.parent < 0);
+  if (root < 0) return emptyTree();
+
+  const voxelMl = voxelVolumeMl(segmentation.spacing);
+  const toPatient = (c: Vec3) => voxelToPatient(segmentation, c[0], c[1], c[2]);
+  const branches: AirwayBranch[] = [];
+  const tipsOf: Vec3[][] = [];
+
+  // Walk the pruned node tree; a branch runs until its front splits or ends
+  const stack: { node: number; parentId: number | null; generation: number; from: Vec3 | null }[] =
+    [{ node: root, parentId: null, generation: 0, from: null }];
+  while (stack.length > 0) {
+    const { node: first, parentId, generation, from } = stack.pop()!;
+    const chain = [first];
+    while (nodes[chain[chain.length - 1]].children.length === 1) {
+      chain.push(nodes[chain[chain.length - 1]].children[0]);
+    }
+    const centerline = chain.map(id => toPatient(nodes[id].centroid));
+    if (from) centerline.unshift(from);
+
+    let lengthMm = 0;
+    for (let n = 1; n < centerline.length; n++) {
+      const [a, b] = [centerline[n - 1], centerline[n]];
+      lengthMm += Math.hypot(b[0] - a[0], b[1] - a[1], b[2] - a[2]);
+    }
+    const volumeMm3 = chain.reduce((sum, id) => sum + nodes[id].voxels, 0) * voxelMl * 1000;
+    // Short stubs have no meaningful length; use the front thickness instead
+    const effectiveLength = Math.max(lengthMm, BAND_LAYERS * Math.min(...segmentation.spacing));
+
+    const id = branches.length;
+    branches.push({
+      id,
+      parentId,
+      generation,
+      centerline,
+      diameterMm: 2 * Math.sqrt(volumeMm3 / (Math.PI * effectiveLength)),
+      lengthMm,
+      lobe: null,
+    });
+    const last = nodes[chain[chain.length - 1]];
+    tipsOf.push(last.children.length === 0 ? [last.centroid] : []);
+    for (const child of last.children) {
+      stack.push({ node: child, parentId: id, generation: generation + 1, from: centerline[centerline.length - 1] });
+    }
+  }
+
+  // Lobe of each branch: the single lobe all of its descendant tips end in
+  for (let id = branches.length - 1; id >= 0; id--) {
+    const parentId = branches[id].parentId;
+    if (parentId !== null) tipsOf[parentId].push(...tipsOf[id]);
+  }
+  const tipLobes = new Map<Vec3, LobeKey | null>();
+  branches.forEach((branch, id) => {
+    const found = new Set<LobeKey>();
+    for (const tip of tipsOf[id]) {
+      if (!tipLobes.has(tip)) tipLobes.set(tip, lobeNear(lobes, tip));
+      const lobe = tipLobes.get(tip);
+      if (lobe) found.add(lobe);
+    }
+    branch.lobe = found.size === 1 ? [...found][0] : null;
+  });
+
+  return { branches, maxGeneration: branches.reduce((max, b) => Math.max(max, b.generation), 0) };
+};
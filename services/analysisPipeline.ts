@@ -0,0 +1,162 @@
+import { CTVolume, ExpiratoryAnalysis, LobeKey, LongitudinalComparison, LungAnalysisResult, LungLabel, LungSurfaceMeshes, SurfaceMesh } from "../types";
+import { createAnalysisVolume } from "./volumeUtils";
+import { segmentLungs } from "./lungSegmentation";
+import { LOBE_KEYS, LOBE_LABEL_BY_KEY, segmentLobes } from "./lobeSegmentation";
+import { applyExpiratoryMetrics, computeLungMetrics, segmentedLungVolumeMl } from "./lungMetrics";
+import { buildSurfaceMesh } from "./surfaceMesh";
+import { extractAirwayTree } from "./airwayTree";
+import { analyzeEmphysema } from "./emphysema";
+import { scoreFibrosis } from "./fibrosis";
+import { registerScans } from "./registration";
+import { analyzeGasTrapping } from "./gasTrapping";
+import { analyzeVentilation } from "./ventilation";
+import { assessImageQuality, QualityGateError } from "./qualityControl";
+
+export type AnalysisStage =
+  | 'preparing' | 'segmentation' | 'quality' | 'lobes' | 'metrics' | 'emphysema' | 'fibrosis' | 'airways' | 'meshes'
+  | 'expiratory-preparing' | 'expiratory-segmentation' | 'expiratory-quality' | 'registration' | 'gas-trapping' | 'ventilation'
+  | 'rigid-registration' | 'affine-registration' | 'deformable-registration';
+
+// Triangle budget per lobe surface; five lobes share roughly the budget of the two lungs
+const LOBE_MESH_TRIANGLES = 16000;
+
+// Give the browser a chance to paint between CPU-heavy stages
+const yieldToBrowser = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * Runs the deterministic analysis stages on an uploaded volume.
+ * Stages run on the main thread; `onStage` is called before each one starts,
+ * with everything the earlier stages have produced so far.
+ */
+export const runLungAnalysis = async (
+  volume: CTVolume,
+  onStage?: (stage: AnalysisStage, partial: Partial<LungAnalysisResult>) => void
+): Promise<LungAnalysisResult> => {
+  const partial: Partial<LungAnalysisResult> = { volume };
+  const stage = async (name: AnalysisStage) => {
+    onStage?.(name, { ...partial });
+    await yieldToBrowser();
+  };
+
+  await stage('preparing');
+  const analysisVolume = partial.analysisVolume = createAnalysisVolume(volume);
+
+  await stage('segmentation');
+  const segmentation = partial.segmentation = segmentLungs(analysisVolume);
+
+  // Nothing is measured from a scan that fails a blocking check
+  await stage('quality');
+  const qc = assessImageQuality(volume, analysisVolume, segmentation);
+  if (qc.blocking) throw new QualityGateError(qc);
+
+  await stage('lobes');
+  const lobes = partial.lobes = segmentLobes(analysisVolume, segmentation);
+
+  await stage('metrics');
+  const metrics = partial.metrics = { ...computeLungMetrics(analysisVolume, segmentation, lobes), qc };
+
+  await stage('emphysema');
+  const emphysema = partial.emphysema = analyzeEmphysema(analysisVolume, segmentation, lobes, metrics);
+
+  await stage('fibrosis');
+  const fibrosis = partial.fibrosis = scoreFibrosis(analysisVolume, segmentation, lobes);
+
+  await stage('airways');
+  const airwayTree = partial.airwayTree = extractAirwayTree(segmentation, lobes);
+
+  await stage('meshes');
+  const maskOf = (labels: Uint8Array, label: number) => labels.map(v => (v === label ? 1 : 0));
+  const meshes: LungSurfaceMeshes = {
+    rightLung: buildSurfaceMesh(maskOf(segmentation.labels, LungLabel.RIGHT_LUNG), segmentation),
+    leftLung: buildSurfaceMesh(maskOf(segmentation.labels, LungLabel.LEFT_LUNG), segmentation),
+    lobes: Object.fromEntries(LOBE_KEYS.map(key => [
+      key,
+      buildSurfaceMesh(maskOf(lobes.labels, LOBE_LABEL_BY_KEY[key]), segmentation, { targetTriangles: LOBE_MESH_TRIANGLES }),
+    ])) as Record<LobeKey, SurfaceMesh | null>,
+  };
+
+  return { volume, analysisVolume, segmentation, lobes, metrics, emphysema, fibrosis, airwayTree, meshes };
+};
+
+/**
+ * Adds a paired expiratory scan to a finished inspiratory analysis: segments it,
+ * registers it onto the inspiratory lungs and measures gas trapping. Returns the
+ * inspiratory result with `expiratory` set and the paired metrics filled in.
+ */
+export const runExpiratoryAnalysis = async (
+  inspiratory: LungAnalysisResult,
+  volume: CTVolume,
+  onStage?: (stage: AnalysisStage, partial: Partial<LungAnalysisResult>) => void
+): Promise<LungAnalysisResult> => {
+  // The progress screen shows the scan being processed, so report the expiratory volume
+  const partial: Partial<LungAnalysisResult> = { volume };
+  const stage = async (name: AnalysisStage) => {
+    onStage?.(name, { ...partial });
+    await yieldToBrowser();
+  };
+
+  await stage('expiratory-preparing');
+  const analysisVolume = partial.analysisVolume = createAnalysisVolume(volume);
+
+  await stage('expiratory-segmentation');
+  const segmentation = partial.segmentation = segmentLungs(analysisVolume);
+
+  await stage('expiratory-quality');
+  const qc = assessImageQuality(volume, analysisVolume, segmentation, 'expiratory');
+  if (qc.blocking) throw new QualityGateError(qc);
+
+  await stage('registration');
+  const registration = await registerScans(
+    { volume: inspiratory.analysisVolume, segmentation: inspiratory.segmentation },
+    { volume: analysisVolume, segmentation },
+    yieldToBrowser
+  );
+
+  await stage('gas-trapping');
+  const gasTrapping = analyzeGasTrapping(analysisVolume, segmentation, inspiratory.segmentation, inspiratory.lobes, registration);
+
+  await stage('ventilation');
+  const ventilation = analyzeVentilation(inspiratory.segmentation, inspiratory.lobes, registration);
+
+  const expiratory: ExpiratoryAnalysis = {
+    volume,
+    analysisVolume,
+    segmentation,
+    qc,
+    registration,
+    gasTrapping,
+    ventilation,
+    lungVolumeMl: Math.round(segmentedLungVolumeMl(segmentation)),
+  };
+  return { ...inspiratory, metrics: applyExpiratoryMetrics(inspiratory.metrics, expiratory), expiratory };
+};
+
+/**
+ * Analyses an earlier scan of the same patient and registers it onto the current
+ * one (fixed = current, moving = baseline), so regional change can be read off the
+ * current anatomy. Returns the current result with `longitudinal` set.
+ */
+export const runLongitudinalAnalysis = async (
+  current: LungAnalysisResult,
+  baselineVolume: CTVolume,
+  onStage?: (stage: AnalysisStage, partial: Partial<LungAnalysisResult>) => void
+): Promise<LungAnalysisResult> => {
+  const baseline = await runLungAnalysis(baselineVolume, onStage);
+
+  const stageNames = {
+    rigid: 'rigid-registration',
+    affine: 'affine-registration',
+    demons: 'deformable-registration',
+  } as const;
+  const registration = await registerScans(
+    { volume: current.analysisVolume, segmentation: current.segmentation },
+    { volume: baseline.analysisVolume, segmentation: baseline.segmentation },
+    async name => {
+      onStage?.(stageNames[name], { volume: baselineVolume, analysisVolume: baseline.analysisVolume });
+      await yieldToBrowser();
+    }
+  );
+
+  const longitudinal: LongitudinalComparison = { baseline, registration };
+  return { ...current, longitudinal };
+};
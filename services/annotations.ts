@@ -0,0 +1,45 @@
+import { Annotation, TimePoint, Vec3 } from "../types";
+
+export interface AnnotationFilter {
+  query: string;                          // Matched against note text and author, case-insensitive
+  author: string | null;                  // null = everyone
+  origin: 'all' | 'local' | 'carried';    // Pinned on this timepoint, or carried from another
+}
+
+export const EMPTY_ANNOTATION_FILTER: AnnotationFilter = { query: '', author: null, origin: 'all' };
+
+export const createAnnotation = (position: Vec3, text: string, author: string): Annotation => ({
+  id: `a-${Date.now()}`,
+  position,
+  text: text.trim(),
+  author: author.trim(),
+  createdAt: new Date().toISOString(),
+});
+
+/**
+ * Target's annotations with the source timepoint's pins carried over through
+ * `sourceToTarget` (a registration mapping between the two scans). Copies carried
+ * earlier are replaced, and pins that started on the target are not sent back.
+ */
+export const carryAnnotations = (source: TimePoint, target: TimePoint, sourceToTarget: (p: Vec3) => Vec3): Annotation[] => {
+  const carried = (source.annotations ?? [])
+    .filter(a => a.carriedFrom?.timePointId !== target.id)
+    .map(a => {
+      const carriedFrom = a.carriedFrom ?? { timePointId: source.id, timePointLabel: source.label, annotationId: a.id };
+      return { ...a, id: `${carriedFrom.annotationId}@${target.id}`, position: sourceToTarget(a.position), carriedFrom };
+    });
+  const replaced = new Set(carried.map(a => a.id));
+  return [...(target.annotations ?? []).filter(a => !replaced.has(a.id)), ...carried];
+};
+
+export const annotationAuthors = (annotations: Annotation[]) =>
+  [...new Set(annotations.map(a => a.author))].sort((a, b) => a.localeCompare(b));
+
+export const filterAnnotations = (annotations: Annotation[], filter: AnnotationFilter) => {
+  const query = filter.query.trim().toLowerCase();
+  return annotations.filter(a =>
+    (!query || a.text.toLowerCase().includes(query) || a.author.toLowerCase().includes(query)) &&
+    (filter.author === null || a.author === filter.author) &&
+    (filter.origin === 'all' || (filter.origin === 'carried') === Boolean(a.carriedFrom))
+  );
+};
@@ -0,0 +1,599 @@
+import { Annotation, CTVolume, LungSurfaceMeshes, PatientCase, TimePoint } from "../types";
+import { JsonSchema, formatSchemaError, validateJson } from "./jsonSchema";
+import { createZip, readZip, ZipFormatError } from "./zipArchive";
+import {
+  deleteAiAnalysis, evictTimePointData, listStoredBinaries, loadAiAnalysis, loadCases, loadMeshes, loadVolume, meshArrays,
+  meshesFromArrays, saveAiAnalysis, saveMeshes, saveVolume, StoredBinary, StoredScanRole
+} from "./caseStore";
+import { createAnalysisVolume } from "./volumeUtils";
+
+/**
+ * Case bundles move cases between workstations as one ZIP file:
+ *
+ *   manifest.json                 format, version and an entry per case naming its files
+ *   cases/<id>/case.json          demographics (id, name, age, condition, similarCases)
+ *   cases/<id>/timeline.json      timepoints with metrics, QC and measurements
+ *   cases/<id>/annotations.json   clinician pins by timepoint ID
+ *   cases/<id>/analyses.json      AI summaries by timepoint ID
+ *   cases/<id>/meshes/<tp>.bin    optional surface meshes
+ *   cases/<id>/volumes/<tp>-<role>.bin   optional downsampled CT volumes
+ *
+ * Binary files are typed arrays back to back, little-endian, each starting on a
+ * 4-byte boundary; the manifest lists every array's name, type, byte offset and
+ * length, plus the volume geometry. Readers accept bundles up to their own
+ * CASE_BUNDLE_VERSION; the version goes up whenever a change would make an
+ * older reader misread a bundle.
+ */
+
+export const CASE_BUNDLE_FORMAT = 'lungscape-case-bundle';
+export const CASE_BUNDLE_VERSION = 1;
+
+const MAX_REPORTED_PROBLEMS = 50;
+
+type BundleArrayType = 'Int16Array' | 'Uint32Array' | 'Float32Array';
+type BundleArray = Int16Array | Uint32Array | Float32Array;
+const ARRAY_TYPES: Record<BundleArrayType, { new(buffer: ArrayBuffer): BundleArray; BYTES_PER_ELEMENT: number }> = { Int16Array, Uint32Array, Float32Array };
+
+interface BundlePart {
+  name: string;
+  type: BundleArrayType;
+  offset: number; // Bytes from the start of the file
+  length: number; // Elements
+}
+
+interface BundleMeshEntry {
+  timePointId: string;
+  path: string;
+  parts: BundlePart[];
+}
+
+interface BundleVolumeEntry {
+  timePointId: string;
+  role: StoredScanRole;
+  path: string;
+  header: Omit<CTVolume, 'data'>;
+  parts: BundlePart[];
+}
+
+interface BundleCaseEntry {
+  id: string;
+  name: string;
+  files: { case: string; timeline: string; annotations: string; analyses: string };
+  meshes: BundleMeshEntry[];
+  volumes: BundleVolumeEntry[];
+}
+
+export interface CaseBundleManifest {
+  format: typeof CASE_BUNDLE_FORMAT;
+  formatVersion: number;
+  createdAt: string; // ISO timestamp
+  cases: BundleCaseEntry[];
+}
+
+export interface CaseBundleOptions {
+  meshes: boolean;
+  volumes: boolean; // Downsampled to the analysis grid
+}
+
+/** One case read from a bundle, with the stored data that travelled with it. */
+export interface ImportedCase {
+  patientCase: PatientCase;
+  analyses: Record<string, string>; // AI summary by timepoint ID
+  meshes: { timePointId: string; meshes: LungSurfaceMeshes }[];
+  volumes: { timePointId: string; role: StoredScanRole; volume: CTVolume }[];
+}
+
+// What to do with a bundled case whose ID is already in the registry
+export type ImportResolution = 'merge' | 'replace' | 'skip';
+
+/** Thrown when a bundle cannot be imported; `problems` says where each fault is. */
+export class CaseBundleError extends Error {
+  constructor(readonly problems: string[]) {
+    super(problems.length === 1 ? `Invalid case bundle: ${problems[0]}` : `Invalid case bundle: ${problems.length} problems found.`);
+    this.name = 'CaseBundleError';
+  }
+}
+
+// --- Schema ---
+
+const vec3: JsonSchema = { type: 'array', items: { type: 'number' }, minItems: 3, maxItems: 3 };
+const nonEmptyString: JsonSchema = { type: 'string', minLength: 1 };
+const timestamp: JsonSchema = { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}T' };
+
+/** JSON Schema (draft-07) of manifest.json; the definitions cover the per-case files. */
+export const CASE_BUNDLE_SCHEMA: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: `urn:lungscape:case-bundle:${CASE_BUNDLE_VERSION}`,
+  title: 'LungScape case bundle manifest',
+  type: 'object',
+  required: ['format', 'formatVersion', 'createdAt', 'cases'],
+  properties: {
+    format: { const: CASE_BUNDLE_FORMAT },
+    formatVersion: { type: 'integer', minimum: 1, maximum: CASE_BUNDLE_VERSION },
+    createdAt: timestamp,
+    cases: { type: 'array', minItems: 1, items: { $ref: '#/definitions/caseEntry' } },
+  },
+  definitions: {
+    part: {
+      type: 'object',
+      required: ['name', 'type', 'offset', 'length'],
+      properties: {
+        name: nonEmptyString,
+        type: { enum: Object.keys(ARRAY_TYPES) },
+        offset: { type: 'integer', minimum: 0 },
+        length: { type: 'integer', minimum: 0 },
+      },
+    },
+    caseEntry: {
+      type: 'object',
+      required: ['id', 'name', 'files', 'meshes', 'volumes'],
+      properties: {
+        id: nonEmptyString,
+        name: { type: 'string' },
+        files: {
+          type: 'object',
+          required: ['case', 'timeline', 'annotations', 'analyses'],
+          properties: { case: nonEmptyString, timeline: nonEmptyString, annotations: nonEmptyString, analyses: nonEmptyString },
+        },
+        meshes: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['timePointId', 'path', 'parts'],
+            properties: { timePointId: nonEmptyString, path: nonEmptyString, parts: { type: 'array', items: { $ref: '#/definitions/part' } } },
+          },
+        },
+        volumes: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['timePointId', 'role', 'path', 'header', 'parts'],
+            properties: {
+              timePointId: nonEmptyString,
+              role: { enum: ['inspiratory', 'expiratory'] },
+              path: nonEmptyString,
+              header: { $ref: '#/definitions/volumeHeader' },
+              parts: { type: 'array', minItems: 1, maxItems: 1, items: { $ref: '#/definitions/part' } },
+            },
+          },
+        },
+      },
+    },
+    volumeHeader: {
+      type: 'object',
+      required: ['id', 'dimensions', 'spacing', 'origin', 'direction', 'metadata'],
+      properties: {
+        id: { type: 'string' },
+        dimensions: { type: 'array', items: { type: 'integer', minimum: 1 }, minItems: 3, maxItems: 3 },
+        spacing: vec3,
+        origin: vec3,
+        direction: { type: 'array', items: { type: 'number' }, minItems: 9, maxItems: 9 },
+        metadata: {
+          type: 'object',
+          required: ['source', 'description'],
+          properties: { source: { enum: ['dicom', 'nifti'] }, description: { type: 'string' } },
+        },
+      },
+    },
+    case: {
+      type: 'object',
+      required: ['id', 'name', 'age', 'condition', 'similarCases'],
+      properties: {
+        id: nonEmptyString,
+        name: { type: 'string' },
+        age: { type: 'integer', minimum: 0, maximum: 130 },
+        condition: { type: 'string' },
+        similarCases: { type: 'array', items: { type: 'string' } },
+      },
+    },
+    lobeValues: {
+      type: 'object',
+      required: ['rul', 'rml', 'rll', 'lul', 'lll'],
+      properties: Object.fromEntries(['rul', 'rml', 'rll', 'lul', 'lll'].map(key => [key, { type: 'number' }])),
+    },
+    metrics: {
+      type: 'object',
+      required: ['totalVolume', 'expansionRatio', 'stiffnessIndex', 'airTrapping', 'lobeVolumes'],
+      properties: {
+        totalVolume: { type: 'number', minimum: 0 },
+        expansionRatio: { type: 'number' },
+        stiffnessIndex: { type: 'number' },
+        airTrapping: { type: 'number' },
+        lobeVolumes: { $ref: '#/definitions/lobeValues' },
+        provenance: { type: 'object' },
+        density: { type: 'object' },
+        gasTrappingLobes: { $ref: '#/definitions/lobeValues' },
+        stiffnessLobes: { $ref: '#/definitions/lobeValues' },
+        qc: {
+          type: 'object',
+          required: ['checks', 'blocking'],
+          properties: {
+            checks: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['key', 'scan', 'label', 'severity', 'measured', 'units', 'detail', 'affects'],
+                properties: {
+                  scan: { enum: ['inspiratory', 'expiratory'] },
+                  severity: { enum: ['pass', 'warning', 'fail'] },
+                  measured: { type: ['number', 'null'] },
+                  affects: { type: 'array', items: { type: 'string' } },
+                },
+              },
+            },
+            blocking: { type: 'boolean' },
+          },
+        },
+      },
+    },
+    seriesRef: {
+      type: 'object',
+      required: ['description'],
+      properties: { description: { type: 'string' }, seriesInstanceUID: { type: 'string' } },
+    },
+    measurement: {
+      type: 'object',
+      required: ['id', 'kind', 'label', 'points', 'value', 'createdAt'],
+      properties: {
+        id: nonEmptyString,
+        kind: { enum: ['distance', 'angle', 'sphere'] },
+        label: { type: 'string' },
+        points: { type: 'array', items: vec3, minItems: 2, maxItems: 3 },
+        value: { type: 'number' },
+        meanHU: { type: 'number' },
+        createdAt: timestamp,
+      },
+    },
+    timeline: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'date', 'label', 'metrics', 'scanImage', 'analysisStatus'],
+        properties: {
+          id: nonEmptyString,
+          date: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$' },
+          label: { type: 'string' },
+          metrics: { $ref: '#/definitions/metrics' },
+          scanImage: { type: 'string' },
+          analysisStatus: { enum: ['pending', 'processing', 'completed'] },
+          series: {
+            type: 'object',
+            required: ['inspiratory'],
+            properties: { inspiratory: { $ref: '#/definitions/seriesRef' }, expiratory: { $ref: '#/definitions/seriesRef' } },
+          },
+          measurements: { type: 'array', items: { $ref: '#/definitions/measurement' } },
+        },
+      },
+    },
+    annotations: {
+      type: 'object',
+      additionalProperties: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['id', 'position', 'text', 'author', 'createdAt'],
+          properties: {
+            id: nonEmptyString,
+            position: vec3,
+            text: { type: 'string' },
+            author: { type: 'string' },
+            createdAt: timestamp,
+            carriedFrom: {
+              type: 'object',
+              required: ['timePointId', 'timePointLabel', 'annotationId'],
+              properties: { timePointId: { type: 'string' }, timePointLabel: { type: 'string' }, annotationId: { type: 'string' } },
+            },
+          },
+        },
+      },
+    },
+    analyses: { type: 'object', additionalProperties: { type: 'string' } },
+  },
+};
+
+// Schema of one per-case file, sharing the manifest schema's definitions
+const fileSchema = (definition: string): JsonSchema => ({ definitions: CASE_BUNDLE_SCHEMA.definitions, $ref: `#/definitions/${definition}` });
+
+// --- Binary files ---
+
+const packArrays = (arrays: { name: string; values: BundleArray }[]) => {
+  let size = 0;
+  const parts: BundlePart[] = arrays.map(({ name, values }) => {
+    const offset = Math.ceil(size / 4) * 4;
+    size = offset + values.byteLength;
+    return { name, type: values.constructor.name as BundleArrayType, offset, length: values.length };
+  });
+  const data = new Uint8Array(size);
+  arrays.forEach(({ values }, n) => data.set(new Uint8Array(values.buffer, values.byteOffset, values.byteLength), parts[n].offset));
+  return { parts, data };
+};
+
+const unpackArrays = (path: string, data: Uint8Array, parts: BundlePart[], problems: string[]) => {
+  const arrays: Record<string, BundleArray> = {};
+  for (const part of parts) {
+    const type = ARRAY_TYPES[part.type];
+    const end = part.offset + part.length * type.BYTES_PER_ELEMENT;
+    if (part.offset % type.BYTES_PER_ELEMENT !== 0) problems.push(`${path}: array ${part.name} is not aligned to its ${part.type} elements`);
+    else if (end > data.length) problems.push(`${path}: array ${part.name} runs past the end of the file (${end} of ${data.length} bytes)`);
+    else arrays[part.name] = new type(data.slice(part.offset, end).buffer);
+  }
+  return arrays;
+};
+
+// --- Export ---
+
+const encodeJson = (value: unknown) => new TextEncoder().encode(JSON.stringify(value, null, 2));
+
+// Case and timepoint IDs in paths, kept to characters every unzip tool accepts
+const safeName = (id: string) => id.replace(/[^\w.-]/g, '_');
+
+const caseDirectory = (id: string, taken: Set<string>) => {
+  const base = `cases/${safeName(id)}`;
+  let dir = base;
+  for (let n = 2; taken.has(dir); n++) dir = `${base}-${n}`;
+  taken.add(dir);
+  return dir;
+};
+
+/** Bundle of the cases with their locally stored AI summaries and, optionally, meshes and downsampled volumes. */
+export const exportCaseBundle = async (cases: PatientCase[], options: CaseBundleOptions): Promise<Blob> => {
+  const files: { path: string; data: Uint8Array }[] = [];
+  const dirs = new Set<string>();
+  const manifest: CaseBundleManifest = { format: CASE_BUNDLE_FORMAT, formatVersion: CASE_BUNDLE_VERSION, createdAt: new Date().toISOString(), cases: [] };
+
+  for (const patientCase of cases) {
+    const { timeline, ...details } = patientCase;
+    const dir = caseDirectory(patientCase.id, dirs);
+    const entry: BundleCaseEntry = {
+      id: patientCase.id,
+      name: patientCase.name,
+      files: { case: `${dir}/case.json`, timeline: `${dir}/timeline.json`, annotations: `${dir}/annotations.json`, analyses: `${dir}/analyses.json` },
+      meshes: [],
+      volumes: [],
+    };
+    const annotations: Record<string, Annotation[]> = {};
+    const analyses: Record<string, string> = {};
+
+    for (const tp of timeline) {
+      if (tp.annotations?.length) annotations[tp.id] = tp.annotations;
+      const analysis = await loadAiAnalysis(patientCase.id, tp.id);
+      if (analysis) analyses[tp.id] = analysis;
+
+      const meshes = options.meshes ? await loadMeshes(patientCase.id, tp.id) : null;
+      if (meshes) {
+        const { parts, data } = packArrays(meshArrays(meshes));
+        const path = `${dir}/meshes/${safeName(tp.id)}.bin`;
+        entry.meshes.push({ timePointId: tp.id, path, parts });
+        files.push({ path, data });
+      }
+      for (const role of options.volumes ? (['inspiratory', 'expiratory'] as const) : []) {
+        const volume = await loadVolume(patientCase.id, tp.id, role);
+        if (!volume) continue;
+        const { data: voxels, ...header } = createAnalysisVolume(volume);
+        const { parts, data } = packArrays([{ name: 'data', values: voxels }]);
+        const path = `${dir}/volumes/${safeName(tp.id)}-${role}.bin`;
+        entry.volumes.push({ timePointId: tp.id, role, path, header, parts });
+        files.push({ path, data });
+      }
+    }
+
+    files.push(
+      { path: entry.files.case, data: encodeJson(details) },
+      { path: entry.files.timeline, data: encodeJson(timeline.map(({ annotations: _, ...tp }) => tp)) },
+      { path: entry.files.annotations, data: encodeJson(annotations) },
+      { path: entry.files.analyses, data: encodeJson(analyses) },
+    );
+    manifest.cases.push(entry);
+  }
+  return createZip([{ path: 'manifest.json', data: encodeJson(manifest) }, ...files]);
+};
+
+/** File name for a bundle of the cases, e.g. "lungscape-PT-1234-2026-03-01.zip". */
+export const caseBundleFileName = (cases: PatientCase[]) =>
+  `lungscape-${cases.length === 1 ? safeName(cases[0].id) : `${cases.length}-cases`}-${new Date().toISOString().slice(0, 10)}.zip`;
+
+// --- Import ---
+
+const readJson = (entries: Map<string, Uint8Array>, path: string, problems: string[]): unknown => {
+  const data = entries.get(path);
+  if (!data) {
+    problems.push(`${path}: missing from the bundle`);
+    return undefined;
+  }
+  try {
+    return JSON.parse(new TextDecoder().decode(data));
+  } catch (err) {
+    problems.push(`${path}: not valid JSON (${err instanceof Error ? err.message : String(err)})`);
+    return undefined;
+  }
+};
+
+// Schema problems of a file, prefixed with its path; true when it conforms
+const conforms = (path: string, value: unknown, schema: JsonSchema, problems: string[]) => {
+  const errors = validateJson(value, schema);
+  problems.push(...errors.map(e => `${path}: ${formatSchemaError(e)}`));
+  return errors.length === 0;
+};
+
+const MESH_FIELDS = { positions: 'Float32Array', normals: 'Float32Array', indices: 'Uint32Array' } as const;
+
+// Problems with the meshes in a mesh file: each needs all three arrays, of the
+// right types, with one normal per vertex and indices that stay in range
+const checkMeshArrays = (path: string, arrays: Record<string, BundleArray>, problems: string[]) => {
+  const start = problems.length;
+  const names = new Set(Object.keys(arrays).map(key => key.slice(0, key.lastIndexOf('.'))));
+  for (const name of names) {
+    const [positions, normals, indices] = Object.entries(MESH_FIELDS).map(([field, type]) => {
+      const values = arrays[`${name}.${field}`];
+      if (!values) {
+        problems.push(`${path}: mesh ${name} has no ${field} array`);
+        return undefined;
+      }
+      if (values.constructor.name !== type) {
+        problems.push(`${path}: array ${name}.${field} must be ${type}, not ${values.constructor.name}`);
+        return undefined;
+      }
+      return values;
+    });
+    if (!positions || !normals || !indices) continue;
+    if (positions.length % 3 !== 0) problems.push(`${path}: array ${name}.positions has ${positions.length} values, not a whole number of vertices`);
+    if (normals.length !== positions.length) problems.push(`${path}: array ${name}.normals has ${normals.length} values for ${positions.length} position values`);
+    if (indices.length % 3 !== 0) problems.push(`${path}: array ${name}.indices has ${indices.length} values, not a whole number of triangles`);
+    const vertices = Math.floor(positions.length / 3);
+    const outOfRange = indices.findIndex(index => index >= vertices);
+    if (outOfRange >= 0) problems.push(`${path}: array ${name}.indices refers to vertex ${indices[outOfRange]} at position ${outOfRange}, but the mesh has ${vertices} vertices`);
+  }
+  return problems.length === start;
+};
+
+const readCase = (entries: Map<string, Uint8Array>, entry: BundleCaseEntry, problems: string[]): ImportedCase | null => {
+  const start = problems.length;
+  const details = readJson(entries, entry.files.case, problems);
+  const timeline = readJson(entries, entry.files.timeline, problems);
+  const annotations = readJson(entries, entry.files.annotations, problems);
+  const analyses = readJson(entries, entry.files.analyses, problems);
+  if (problems.length > start) return null;
+
+  const valid = [
+    conforms(entry.files.case, details, fileSchema('case'), problems),
+    conforms(entry.files.timeline, timeline, fileSchema('timeline'), problems),
+    conforms(entry.files.annotations, annotations, fileSchema('annotations'), problems),
+    conforms(entry.files.analyses, analyses, fileSchema('analyses'), problems),
+  ].every(Boolean);
+  if (!valid) return null;
+
+  const patientCase = details as Omit<PatientCase, 'timeline'>;
+  const timePoints = timeline as TimePoint[];
+  const pins = annotations as Record<string, Annotation[]>;
+  const summaries = analyses as Record<string, string>;
+  if (patientCase.id !== entry.id) problems.push(`${entry.files.case}: case ID ${patientCase.id} does not match the manifest's ${entry.id}`);
+
+  const timePointIds = new Set<string>();
+  timePoints.forEach((tp, n) => {
+    if (timePointIds.has(tp.id)) problems.push(`${entry.files.timeline}: $[${n}].id ${tp.id} is used by an earlier timepoint`);
+    timePointIds.add(tp.id);
+  });
+  const checkTimePoint = (path: string, id: string) => {
+    if (!timePointIds.has(id)) problems.push(`${path}: timepoint ${id} is not on the case's timeline`);
+  };
+  Object.keys(pins).forEach(id => checkTimePoint(entry.files.annotations, id));
+  Object.keys(summaries).forEach(id => checkTimePoint(entry.files.analyses, id));
+  entry.meshes.forEach(m => checkTimePoint(m.path, m.timePointId));
+  entry.volumes.forEach(v => checkTimePoint(v.path, v.timePointId));
+
+  const binary = (path: string) => {
+    const data = entries.get(path);
+    if (!data) problems.push(`${path}: missing from the bundle`);
+    return data;
+  };
+  const meshes = entry.meshes.flatMap(m => {
+    const data = binary(m.path);
+    const arrays = data && unpackArrays(m.path, data, m.parts, problems);
+    if (!arrays || !checkMeshArrays(m.path, arrays, problems)) return [];
+    return [{ timePointId: m.timePointId, meshes: meshesFromArrays(arrays) }];
+  });
+  const volumes = entry.volumes.flatMap(v => {
+    const data = binary(v.path);
+    const voxels = data && unpackArrays(v.path, data, v.parts, problems).data;
+    const expected = v.header.dimensions[0] * v.header.dimensions[1] * v.header.dimensions[2];
+    if (!voxels) return [];
+    if (!(voxels instanceof Int16Array) || voxels.length !== expected) {
+      problems.push(`${v.path}: expected ${expected} Int16 voxels for a ${v.header.dimensions.join('x')} volume`);
+      return [];
+    }
+    return [{ timePointId: v.timePointId, role: v.role, volume: { ...v.header, data: voxels } }];
+  });
+  if (problems.length > start) return null;
+
+  return {
+    patientCase: {
+      ...patientCase,
+      timeline: timePoints
+        .map(tp => (pins[tp.id] ? { ...tp, annotations: pins[tp.id] } : tp))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+    },
+    analyses: summaries,
+    meshes,
+    volumes,
+  };
+};
+
+/**
+ * Cases in a bundle file. Everything is checked before anything is returned, so
+ * a bundle either imports whole or fails with every problem found.
+ */
+export const readCaseBundle = async (file: Blob): Promise<ImportedCase[]> => {
+  let entries: Map<string, Uint8Array>;
+  try {
+    entries = await readZip(await file.arrayBuffer());
+  } catch (err) {
+    if (err instanceof ZipFormatError) throw new CaseBundleError([err.message]);
+    throw err;
+  }
+
+  const problems: string[] = [];
+  const manifest = readJson(entries, 'manifest.json', problems) as Partial<CaseBundleManifest> | undefined;
+  if (!manifest) throw new CaseBundleError(problems);
+  if (manifest.format !== CASE_BUNDLE_FORMAT) throw new CaseBundleError(['manifest.json: not a LungScape case bundle']);
+  if (typeof manifest.formatVersion === 'number' && manifest.formatVersion > CASE_BUNDLE_VERSION) {
+    throw new CaseBundleError([`manifest.json: bundle format version ${manifest.formatVersion} is newer than this app reads (${CASE_BUNDLE_VERSION}); update LungScape to import it`]);
+  }
+  if (!conforms('manifest.json', manifest, CASE_BUNDLE_SCHEMA, problems)) throw new CaseBundleError(problems.slice(0, MAX_REPORTED_PROBLEMS));
+
+  const seen = new Set<string>();
+  const imported: ImportedCase[] = [];
+  for (const entry of manifest.cases!) {
+    if (seen.has(entry.id)) {
+      problems.push(`manifest.json: case ${entry.id} appears more than once`);
+      continue;
+    }
+    seen.add(entry.id);
+    const result = readCase(entries, entry, problems);
+    if (result) imported.push(result);
+  }
+  if (problems.length) throw new CaseBundleError(problems.slice(0, MAX_REPORTED_PROBLEMS));
+  return imported;
+};
+
+// --- Storing an import ---
+
+const voxelCount = ({ dimensions }: Pick<CTVolume, 'dimensions'>) => dimensions[0] * dimensions[1] * dimensions[2];
+
+/**
+ * Writes an imported case's summaries, meshes and volumes to local storage.
+ * A merge keeps whatever this device already holds for a timepoint; a replace
+ * takes the bundle's data, except that a stored volume is never swapped for a
+ * coarser one (bundles carry the downsampled analysis volume). A replace also
+ * drops what is stored for local timepoints the bundle's timeline does not have.
+ */
+export const storeImportedCase = async ({ patientCase, analyses, meshes, volumes }: ImportedCase, resolution: ImportResolution) => {
+  if (resolution === 'skip') return;
+  const keepLocal = resolution === 'merge';
+  const stored = (await listStoredBinaries()).filter(b => b.caseId === patientCase.id);
+  const storedBinary = (timePointId: string, kind: StoredBinary['kind'], role?: StoredScanRole) =>
+    stored.find(b => b.timePointId === timePointId && b.kind === kind && b.role === role);
+
+  if (resolution === 'replace') {
+    const kept = new Set(patientCase.timeline.map(tp => tp.id));
+    const local = (await loadCases()).find(c => c.id === patientCase.id)?.timeline.map(tp => tp.id) ?? [];
+    for (const timePointId of new Set([...local, ...stored.map(b => b.timePointId)])) {
+      if (kept.has(timePointId)) continue;
+      await deleteAiAnalysis(patientCase.id, timePointId);
+      await evictTimePointData(patientCase.id, timePointId);
+    }
+  }
+
+  for (const [timePointId, text] of Object.entries(analyses)) {
+    if (keepLocal && (await loadAiAnalysis(patientCase.id, timePointId)) !== null) continue;
+    await saveAiAnalysis(patientCase.id, timePointId, text);
+  }
+  for (const { timePointId, meshes: set } of meshes) {
+    if (keepLocal && storedBinary(timePointId, 'meshes')) continue;
+    await saveMeshes(patientCase.id, timePointId, set);
+  }
+  for (const { timePointId, role, volume } of volumes) {
+    const local = storedBinary(timePointId, 'volume', role)?.header;
+    if (local && (keepLocal || voxelCount(local) > voxelCount(volume))) continue;
+    await saveVolume(patientCase.id, timePointId, role, volume);
+  }
+};
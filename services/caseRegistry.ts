@@ -0,0 +1,76 @@
+import { PatientCase, TimePoint } from "../types";
+
+export interface NewCaseDetails {
+  name: string;
+  age: number;
+  condition: string;
+}
+
+// Conditions offered when creating a case; any other text is accepted too
+export const COMMON_CONDITIONS = [
+  'Idiopathic Pulmonary Fibrosis (IPF)',
+  'COPD / Emphysema',
+  'Interstitial Lung Disease (ILD)',
+  'Asthma',
+  'Bronchiectasis',
+  'Screening',
+];
+
+export const createPatientCase = ({ name, age, condition }: NewCaseDetails): PatientCase => ({
+  id: `PT-${Date.now().toString(36).toUpperCase()}`,
+  name: name.trim(),
+  age,
+  condition: condition.trim(),
+  timeline: [],
+  similarCases: [],
+});
+
+/** Distinct conditions across the cases, alphabetical. */
+export const caseConditions = (cases: PatientCase[]) =>
+  [...new Set(cases.map(c => c.condition).filter(Boolean))].sort((a, b) => a.localeCompare(b));
+
+/** Cases whose name or ID contains the query (case-insensitive), optionally of one condition. */
+export const filterCases = (cases: PatientCase[], query: string, condition: string | null) => {
+  const q = query.trim().toLowerCase();
+  return cases.filter(c =>
+    (!q || c.name.toLowerCase().includes(q) || c.id.toLowerCase().includes(q)) &&
+    (condition === null || c.condition === condition)
+  );
+};
+
+/** Case with the timepoint added, or replaced when one with its ID exists, keeping the timeline in date order. */
+export const upsertTimePoint = (patientCase: PatientCase, timePoint: TimePoint): PatientCase => ({
+  ...patientCase,
+  timeline: [...patientCase.timeline.filter(tp => tp.id !== timePoint.id), timePoint]
+    .sort((a, b) => a.date.localeCompare(b.date)),
+});
+
+export const removeTimePoint = (patientCase: PatientCase, id: string): PatientCase => ({
+  ...patientCase,
+  timeline: patientCase.timeline.filter(tp => tp.id !== id),
+});
+
+/** Most recent completed timepoint, if any. */
+export const latestTimePoint = (patientCase: PatientCase) =>
+  [...patientCase.timeline].reverse().find(tp => tp.analysisStatus === 'completed');
+
+const unionById = <T extends { id: string }>(existing: T[] | undefined, incoming: T[] | undefined) =>
+  existing || incoming
+    ? [...(existing ?? []).filter(item => !incoming?.some(other => other.id === item.id)), ...(incoming ?? [])]
+    : undefined;
+
+/**
+ * Imported copy of a case folded into the local one: timepoints are matched by ID
+ * and the incoming version wins, except that measurements and annotations are
+ * unioned by ID so notes made on either workstation survive. Demographics stay local.
+ */
+export const mergeCase = (existing: PatientCase, incoming: PatientCase): PatientCase =>
+  incoming.timeline.reduce(
+    (merged, tp) => {
+      const local = existing.timeline.find(other => other.id === tp.id);
+      return upsertTimePoint(merged, local
+        ? { ...tp, measurements: unionById(local.measurements, tp.measurements), annotations: unionById(local.annotations, tp.annotations) }
+        : tp);
+    },
+    { ...existing, similarCases: [...new Set([...existing.similarCases, ...incoming.similarCases])] }
+  );
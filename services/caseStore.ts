@@ -0,0 +1,363 @@
+import { CTVolume, LungSurfaceMeshes, PatientCase, SurfaceMesh, TimePoint } from "../types";
+import { LOBE_KEYS } from "./lobeSegmentation";
+
+/**
+ * Local persistence of the case registry in IndexedDB, so cases survive reloads
+ * and the app works offline. Small records (cases, timepoints with their metrics,
+ * measurements and annotations, AI summaries) live in their own stores; scan
+ * volumes and surface meshes are written as typed-array chunks with a catalogue
+ * record each, and can be evicted to free space without touching the metrics.
+ */
+
+const DB_NAME = 'lungscape';
+const CHUNK_ELEMENTS = 1 << 21; // 4 MB of Int16 voxels per chunk
+const QUOTA_HEADROOM = 1.1;     // Free space wanted beyond the bytes about to be written
+
+type StoreName = 'cases' | 'timePoints' | 'aiAnalyses' | 'binaries' | 'chunks';
+
+/**
+ * Schema migrations in order: entry n upgrades a version-n database to version
+ * n + 1 inside the upgrade transaction, so existing records can be rewritten
+ * there. Append new entries; never edit shipped ones.
+ */
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  // 1: cases, their timepoints and AI summaries, and chunked binary data. Timepoint
+  //    IDs are only unique within a case (bundles bring in timepoints from other
+  //    devices), so timepoints, summaries and scan data are keyed by case too.
+  db => {
+    db.createObjectStore('cases', { keyPath: 'id' });
+    db.createObjectStore('timePoints', { keyPath: ['caseId', 'id'] }).createIndex('caseId', 'caseId');
+    db.createObjectStore('aiAnalyses', { keyPath: ['caseId', 'timePointId'] });
+    const binaries = db.createObjectStore('binaries', { keyPath: 'key' }); // "<caseId>/<timepoint ID>/..."
+    binaries.createIndex('caseId', 'caseId');
+    binaries.createIndex('timePointId', 'timePointId');
+    db.createObjectStore('chunks', { keyPath: ['key', 'index'] });
+  },
+];
+
+export const STORAGE_SCHEMA_VERSION = MIGRATIONS.length;
+
+/** Thrown when a write still does not fit after evicting older scan data. */
+export class StorageQuotaError extends Error {
+  constructor(readonly bytesNeeded: number) {
+    super(`Not enough local storage for ${(bytesNeeded / 1e6).toFixed(0)} MB of scan data, even after evicting older scans.`);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+type TypedArrayName = 'Int16Array' | 'Uint8Array' | 'Uint32Array' | 'Float32Array';
+type StoredArray = Int16Array | Uint8Array | Uint32Array | Float32Array;
+const ARRAY_TYPES: Record<TypedArrayName, { new(length: number): StoredArray }> = { Int16Array, Uint8Array, Uint32Array, Float32Array };
+
+// One typed array of a binary record, split over consecutive chunks
+interface StoredPart {
+  name: string;
+  type: TypedArrayName;
+  length: number;
+  firstChunk: number;
+  chunkCount: number;
+}
+
+export type StoredScanRole = 'inspiratory' | 'expiratory';
+
+/** Catalogue entry of a stored volume or mesh set. */
+export interface StoredBinary {
+  key: string;
+  caseId: string;
+  timePointId: string;
+  kind: 'volume' | 'meshes';
+  role?: StoredScanRole;
+  bytes: number;
+  createdAt: string;     // ISO timestamp
+  lastAccessed: string;  // ISO timestamp, for least-recently-used eviction
+  parts: StoredPart[];
+  header?: Omit<CTVolume, 'data'>; // Volumes: everything but the voxels
+}
+
+type CaseRecord = Omit<PatientCase, 'timeline'>;
+type TimePointRecord = TimePoint & { caseId: string };
+
+export interface StoredAiAnalysis {
+  timePointId: string;
+  caseId: string;
+  text: string;
+  createdAt: string;
+}
+
+// --- IndexedDB plumbing ---
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const completion = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+});
+
+const isQuotaError = (err: unknown) => err instanceof DOMException && err.name === 'QuotaExceededError';
+
+let database: Promise<IDBDatabase> | null = null;
+
+/** The database, opened (and migrated) on first use. */
+const openDatabase = () => {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('Local storage is unavailable in this browser.'));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, STORAGE_SCHEMA_VERSION);
+    req.onupgradeneeded = event => {
+      const tx = req.transaction!;
+      for (let version = event.oldVersion; version < STORAGE_SCHEMA_VERSION; version++) MIGRATIONS[version](req.result, tx);
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      // Another tab is upgrading to a newer schema: let it, and reopen on next use
+      db.onversionchange = () => { db.close(); database = null; };
+      resolve(db);
+    };
+    req.onerror = () => reject(req.error?.name === 'VersionError'
+      ? new Error('Stored cases were saved by a newer version of LungScape; reload to update.')
+      : req.error);
+    req.onblocked = () => reject(new Error('Local storage upgrade is blocked by another open LungScape tab.'));
+  });
+  database.catch(() => { database = null; });
+  return database;
+};
+
+const transaction = async (stores: StoreName[], mode: IDBTransactionMode = 'readonly') =>
+  (await openDatabase()).transaction(stores, mode);
+
+// --- Cases and timepoints ---
+
+/** All stored cases with their timelines in date order. */
+export const loadCases = async (): Promise<PatientCase[]> => {
+  const tx = await transaction(['cases', 'timePoints']);
+  const [cases, timePoints] = await Promise.all([
+    request(tx.objectStore('cases').getAll() as IDBRequest<CaseRecord[]>),
+    request(tx.objectStore('timePoints').getAll() as IDBRequest<TimePointRecord[]>),
+  ]);
+  return cases.map(c => ({
+    ...c,
+    timeline: timePoints
+      .filter(tp => tp.caseId === c.id)
+      // An analysis interrupted by a reload is left pending
+      .map(({ caseId: _, ...tp }) => (tp.analysisStatus === 'processing' ? { ...tp, analysisStatus: 'pending' } : tp) as TimePoint)
+      .sort((a, b) => a.date.localeCompare(b.date)),
+  }));
+};
+
+/** Writes a case and its timeline, dropping stored timepoints no longer on it (and their data). */
+export const saveCase = async (patientCase: PatientCase) => {
+  const { timeline, ...record } = patientCase;
+  const tx = await transaction(['cases', 'timePoints', 'aiAnalyses'], 'readwrite');
+  const saved = completion(tx);
+  tx.objectStore('cases').put(record);
+  const timePoints = tx.objectStore('timePoints');
+  const kept = new Set(timeline.map(tp => tp.id));
+  const storedIds = (await request(timePoints.index('caseId').getAllKeys(patientCase.id)) as [string, string][]).map(([, id]) => id);
+  const dropped = storedIds.filter(id => !kept.has(id));
+  for (const id of dropped) {
+    timePoints.delete([patientCase.id, id]);
+    tx.objectStore('aiAnalyses').delete([patientCase.id, id]);
+  }
+  for (const tp of timeline) timePoints.put({ ...tp, caseId: patientCase.id });
+  await saved;
+  for (const id of dropped) await evictTimePointData(patientCase.id, id);
+};
+
+// --- AI summaries ---
+
+export const saveAiAnalysis = async (caseId: string, timePointId: string, text: string) => {
+  const tx = await transaction(['aiAnalyses'], 'readwrite');
+  const record: StoredAiAnalysis = { timePointId, caseId, text, createdAt: new Date().toISOString() };
+  tx.objectStore('aiAnalyses').put(record);
+  await completion(tx);
+};
+
+export const loadAiAnalysis = async (caseId: string, timePointId: string): Promise<string | null> => {
+  const tx = await transaction(['aiAnalyses']);
+  const record = await request(tx.objectStore('aiAnalyses').get([caseId, timePointId]) as IDBRequest<StoredAiAnalysis | undefined>);
+  return record?.text ?? null;
+};
+
+export const deleteAiAnalysis = async (caseId: string, timePointId: string) => {
+  const tx = await transaction(['aiAnalyses'], 'readwrite');
+  tx.objectStore('aiAnalyses').delete([caseId, timePointId]);
+  await completion(tx);
+};
+
+// --- Chunked binary data ---
+
+export const listStoredBinaries = async (): Promise<StoredBinary[]> => {
+  const tx = await transaction(['binaries']);
+  return request(tx.objectStore('binaries').getAll() as IDBRequest<StoredBinary[]>);
+};
+
+/** Deletes a stored volume or mesh set; the timepoint and its metrics stay. */
+export const evictBinary = async (key: string) => {
+  const tx = await transaction(['binaries', 'chunks'], 'readwrite');
+  tx.objectStore('binaries').delete(key);
+  tx.objectStore('chunks').delete(IDBKeyRange.bound([key, 0], [key, Infinity]));
+  await completion(tx);
+};
+
+export const evictTimePointData = async (caseId: string, timePointId: string) => {
+  for (const binary of await listStoredBinaries()) {
+    if (binary.caseId === caseId && binary.timePointId === timePointId) await evictBinary(binary.key);
+  }
+};
+
+/** Browser's usage and quota for this origin, when it reports them. */
+export const storageEstimate = async () => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+/** Asks the browser not to clear local data under storage pressure; resolves false if refused. */
+export const requestPersistentStorage = async () => navigator.storage?.persist?.() ?? false;
+
+/**
+ * Evicts least recently used scan data, other than the timepoint being written,
+ * until `bytes` have been freed. Returns the bytes actually freed.
+ */
+const evictLeastRecentlyUsed = async (bytes: number, keep: Pick<StoredBinary, 'caseId' | 'timePointId'>) => {
+  const candidates = (await listStoredBinaries())
+    .filter(b => b.caseId !== keep.caseId || b.timePointId !== keep.timePointId)
+    .sort((a, b) => a.lastAccessed.localeCompare(b.lastAccessed));
+  let freed = 0;
+  for (const binary of candidates) {
+    if (freed >= bytes) break;
+    await evictBinary(binary.key);
+    freed += binary.bytes;
+  }
+  return freed;
+};
+
+const putBinary = async (record: StoredBinary, arrays: StoredArray[]) => {
+  const tx = await transaction(['binaries', 'chunks'], 'readwrite');
+  const chunks = tx.objectStore('chunks');
+  chunks.delete(IDBKeyRange.bound([record.key, 0], [record.key, Infinity]));
+  record.parts.forEach((part, n) => {
+    for (let c = 0; c < part.chunkCount; c++) {
+      const values = arrays[n].slice(c * CHUNK_ELEMENTS, (c + 1) * CHUNK_ELEMENTS);
+      chunks.put({ key: record.key, index: part.firstChunk + c, values });
+    }
+  });
+  tx.objectStore('binaries').put(record);
+  await completion(tx);
+};
+
+/**
+ * Writes named typed arrays under one key. Makes room first when the browser's
+ * estimate says they will not fit, and once more if the write still hits the
+ * quota, before giving up with a StorageQuotaError.
+ */
+const writeBinary = async (
+  base: Pick<StoredBinary, 'key' | 'caseId' | 'timePointId' | 'kind' | 'role' | 'header'>,
+  arrays: { name: string; values: StoredArray }[]
+) => {
+  let firstChunk = 0;
+  const parts = arrays.map(({ name, values }) => {
+    const chunkCount = Math.max(1, Math.ceil(values.length / CHUNK_ELEMENTS));
+    const part: StoredPart = { name, type: values.constructor.name as TypedArrayName, length: values.length, firstChunk, chunkCount };
+    firstChunk += chunkCount;
+    return part;
+  });
+  const now = new Date().toISOString();
+  const record: StoredBinary = { ...base, bytes: arrays.reduce((sum, a) => sum + a.values.byteLength, 0), createdAt: now, lastAccessed: now, parts };
+
+  const estimate = await storageEstimate();
+  if (estimate && estimate.quota > 0) {
+    const shortfall = record.bytes * QUOTA_HEADROOM - (estimate.quota - estimate.usage);
+    if (shortfall > 0) await evictLeastRecentlyUsed(shortfall, record);
+  }
+  try {
+    await putBinary(record, arrays.map(a => a.values));
+  } catch (err) {
+    if (!isQuotaError(err)) throw err;
+    if (await evictLeastRecentlyUsed(record.bytes * QUOTA_HEADROOM, record) === 0) throw new StorageQuotaError(record.bytes);
+    try {
+      await putBinary(record, arrays.map(a => a.values));
+    } catch (retryErr) {
+      throw isQuotaError(retryErr) ? new StorageQuotaError(record.bytes) : retryErr;
+    }
+  }
+};
+
+/** Named typed arrays stored under a key, or null when absent or evicted. */
+const readBinary = async (key: string) => {
+  const tx = await transaction(['binaries', 'chunks'], 'readwrite');
+  const record = await request(tx.objectStore('binaries').get(key) as IDBRequest<StoredBinary | undefined>);
+  if (!record) return null;
+  const chunks = await request(tx.objectStore('chunks').getAll(IDBKeyRange.bound([key, 0], [key, Infinity])) as IDBRequest<{ index: number; values: StoredArray }[]>);
+  tx.objectStore('binaries').put({ ...record, lastAccessed: new Date().toISOString() });
+  await completion(tx);
+
+  const byIndex = new Map(chunks.map(c => [c.index, c.values]));
+  const arrays: Record<string, StoredArray> = {};
+  for (const part of record.parts) {
+    const values = new ARRAY_TYPES[part.type](part.length);
+    for (let c = 0; c < part.chunkCount; c++) {
+      const chunk = byIndex.get(part.firstChunk + c);
+      if (!chunk) return null; // Partially written or evicted mid-read
+      values.set(chunk, c * CHUNK_ELEMENTS);
+    }
+    arrays[part.name] = values;
+  }
+  return { record, arrays };
+};
+
+const volumeKey = (caseId: string, timePointId: string, role: StoredScanRole) => `${caseId}/${timePointId}/volume/${role}`;
+const meshesKey = (caseId: string, timePointId: string) => `${caseId}/${timePointId}/meshes`;
+
+export const saveVolume = async (caseId: string, timePointId: string, role: StoredScanRole, volume: CTVolume) => {
+  const { data, ...header } = volume;
+  await writeBinary({ key: volumeKey(caseId, timePointId, role), caseId, timePointId, kind: 'volume', role, header }, [{ name: 'data', values: data }]);
+};
+
+export const loadVolume = async (caseId: string, timePointId: string, role: StoredScanRole): Promise<CTVolume | null> => {
+  const stored = await readBinary(volumeKey(caseId, timePointId, role));
+  if (!stored?.record.header) return null;
+  return { ...stored.record.header, data: stored.arrays.data as Int16Array };
+};
+
+const MESH_NAMES = ['rightLung', 'leftLung', ...LOBE_KEYS.map(key => `lobes.${key}`)];
+const meshOf = (meshes: LungSurfaceMeshes, name: string) =>
+  name.startsWith('lobes.') ? meshes.lobes[name.slice(6) as keyof LungSurfaceMeshes['lobes']] : meshes[name as 'rightLung' | 'leftLung'];
+
+/** Mesh set as named arrays ("leftLung.positions", "lobes.rul.indices", ...); missing meshes are left out. */
+export const meshArrays = (meshes: LungSurfaceMeshes) =>
+  MESH_NAMES.flatMap(name => {
+    const mesh = meshOf(meshes, name);
+    return mesh ? (['positions', 'normals', 'indices'] as const).map(field => ({ name: `${name}.${field}`, values: mesh[field] })) : [];
+  });
+
+/** Inverse of meshArrays. */
+export const meshesFromArrays = (arrays: Record<string, ArrayBufferView>): LungSurfaceMeshes => {
+  const mesh = (name: string): SurfaceMesh | null => arrays[`${name}.positions`]
+    ? {
+      positions: arrays[`${name}.positions`] as Float32Array,
+      normals: arrays[`${name}.normals`] as Float32Array,
+      indices: arrays[`${name}.indices`] as Uint32Array,
+    }
+    : null;
+  return {
+    rightLung: mesh('rightLung'),
+    leftLung: mesh('leftLung'),
+    lobes: Object.fromEntries(LOBE_KEYS.map(key => [key, mesh(`lobes.${key}`)])) as LungSurfaceMeshes['lobes'],
+  };
+};
+
+export const saveMeshes = async (caseId: string, timePointId: string, meshes: LungSurfaceMeshes) => {
+  await writeBinary({ key: meshesKey(caseId, timePointId), caseId, timePointId, kind: 'meshes' }, meshArrays(meshes));
+};
+
+export const loadMeshes = async (caseId: string, timePointId: string): Promise<LungSurfaceMeshes | null> => {
+  const stored = await readBinary(meshesKey(caseId, timePointId));
+  return stored && meshesFromArrays(stored.arrays);
+};
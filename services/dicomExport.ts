@@ -0,0 +1,464 @@
+import { BoundingBox, LobeKey, LungAnalysisResult, LungLabel, PatientCase, TimePoint, Vec3 } from "../types";
+import { LOBE_COLORS } from "../constants";
+import { createUid, dicomDateTime, DicomDataset, TAG_OF, writeDicomFile } from "./dicomWriter";
+import { findBullaClusters } from "./emphysema";
+import { LOBE_KEYS, LOBE_LABEL_BY_KEY } from "./lobeSegmentation";
+import { patientToVoxel, voxelToPatient, voxelVolumeMl } from "./volumeUtils";
+import { createZip } from "./zipArchive";
+
+/**
+ * DICOM export of an analysed scan for PACS: a Segmentation object with the
+ * lungs, lobes and bullae as binary segments on the analysis grid, and a
+ * Comprehensive SR measurement report (TID 1500) with one volumetric group per
+ * segment (TID 1411) plus a whole-lung group (TID 1501). Both join the source
+ * study and frame of reference and reference the source series and images.
+ */
+
+const SEGMENTATION_STORAGE = '1.2.840.10008.5.1.4.1.1.66.4';
+const COMPREHENSIVE_SR_STORAGE = '1.2.840.10008.5.1.4.1.1.88.33';
+const SEG_SERIES_NUMBER = 9001;
+const SR_SERIES_NUMBER = 9002;
+const MANUFACTURER = 'LungScape';
+const SOFTWARE_VERSION = '1';
+const PRIVATE_CODES = '99LUNGSCAPE';
+
+/** Thrown when the scan cannot be exported to DICOM, e.g. because it did not come from DICOM. */
+export class DicomExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DicomExportError';
+  }
+}
+
+interface Code {
+  value: string;
+  scheme: string;
+  meaning: string;
+}
+
+const codeItem = ({ value, scheme, meaning }: Code): DicomDataset => ({ CodeValue: value, CodingSchemeDesignator: scheme, CodeMeaning: meaning });
+
+const CODES = {
+  anatomicalStructure: { value: '91723000', scheme: 'SCT', meaning: 'Anatomical Structure' },
+  abnormalStructure: { value: '49755003', scheme: 'SCT', meaning: 'Morphologically Altered Structure' },
+  lung: { value: '39607008', scheme: 'SCT', meaning: 'Lung' },
+  rightLung: { value: '3341006', scheme: 'SCT', meaning: 'Right lung' },
+  leftLung: { value: '44029006', scheme: 'SCT', meaning: 'Left lung' },
+  bulla: { value: 'BULLA', scheme: PRIVATE_CODES, meaning: 'Emphysematous bulla' },
+  segmentation: { value: '113076', scheme: 'DCM', meaning: 'Segmentation' },
+  sourceImage: { value: '121322', scheme: 'DCM', meaning: 'Source image for image processing operation' },
+  measurementReport: { value: '126000', scheme: 'DCM', meaning: 'Imaging Measurement Report' },
+  language: { value: '121049', scheme: 'DCM', meaning: 'Language of Content Item and Descendants' },
+  english: { value: 'eng', scheme: 'RFC5646', meaning: 'English' },
+  observerType: { value: '121005', scheme: 'DCM', meaning: 'Observer Type' },
+  device: { value: '121007', scheme: 'DCM', meaning: 'Device' },
+  deviceObserverUid: { value: '121012', scheme: 'DCM', meaning: 'Device Observer UID' },
+  deviceObserverName: { value: '121013', scheme: 'DCM', meaning: 'Device Observer Name' },
+  procedureReported: { value: '121058', scheme: 'DCM', meaning: 'Procedure reported' },
+  chestCt: { value: '24627-2', scheme: 'LN', meaning: 'CT Chest' },
+  imageLibrary: { value: '111028', scheme: 'DCM', meaning: 'Image Library' },
+  imageLibraryGroup: { value: '126200', scheme: 'DCM', meaning: 'Image Library Group' },
+  imagingMeasurements: { value: '126010', scheme: 'DCM', meaning: 'Imaging Measurements' },
+  measurementGroup: { value: '125007', scheme: 'DCM', meaning: 'Measurement Group' },
+  trackingIdentifier: { value: '112039', scheme: 'DCM', meaning: 'Tracking Identifier' },
+  trackingUid: { value: '112040', scheme: 'DCM', meaning: 'Tracking Unique Identifier' },
+  finding: { value: '121071', scheme: 'DCM', meaning: 'Finding' },
+  findingSite: { value: '363698007', scheme: 'SCT', meaning: 'Finding Site' },
+  referencedSegment: { value: '121191', scheme: 'DCM', meaning: 'Referenced Segment' },
+  sourceSeries: { value: '121232', scheme: 'DCM', meaning: 'Source series for segmentation' },
+  derivation: { value: '121401', scheme: 'DCM', meaning: 'Derivation' },
+  mean: { value: '373098007', scheme: 'SCT', meaning: 'Mean' },
+  maximum: { value: '56851009', scheme: 'SCT', meaning: 'Maximum' },
+  volume: { value: '118565006', scheme: 'SCT', meaning: 'Volume' },
+  length: { value: '410668003', scheme: 'SCT', meaning: 'Length' },
+  attenuation: { value: '112031', scheme: 'DCM', meaning: 'Attenuation Coefficient' },
+  laa950: { value: 'LAA950', scheme: PRIVATE_CODES, meaning: 'Percent of lung volume below -950 HU' },
+} satisfies Record<string, Code>;
+
+const UNITS = {
+  ml: { value: 'ml', scheme: 'UCUM', meaning: 'milliliter' },
+  mm: { value: 'mm', scheme: 'UCUM', meaning: 'millimeter' },
+  percent: { value: '%', scheme: 'UCUM', meaning: 'percent' },
+  hu: { value: "[hnsf'U]", scheme: 'UCUM', meaning: 'Hounsfield unit' },
+} satisfies Record<string, Code>;
+
+const LOBE_CODES: Record<LobeKey, Code> = {
+  rul: { value: '45653009', scheme: 'SCT', meaning: 'Upper lobe of right lung' },
+  rml: { value: '72481006', scheme: 'SCT', meaning: 'Middle lobe of right lung' },
+  rll: { value: '266005', scheme: 'SCT', meaning: 'Lower lobe of right lung' },
+  lul: { value: '44714003', scheme: 'SCT', meaning: 'Upper lobe of left lung' },
+  lll: { value: '41224006', scheme: 'SCT', meaning: 'Lower lobe of left lung' },
+};
+
+// sRGB hex -> DICOM CIELab (D65), each component scaled to 0-65535
+const cieLab = (hex: string) => {
+  const linear = [1, 3, 5].map(n => {
+    const c = parseInt(hex.slice(n, n + 2), 16) / 255;
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  const xyz = [
+    (0.4124 * linear[0] + 0.3576 * linear[1] + 0.1805 * linear[2]) / 0.95047,
+    0.2126 * linear[0] + 0.7152 * linear[1] + 0.0722 * linear[2],
+    (0.0193 * linear[0] + 0.1192 * linear[1] + 0.9505 * linear[2]) / 1.08883,
+  ].map(t => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116));
+  const [l, a, b] = [116 * xyz[1] - 16, 500 * (xyz[0] - xyz[1]), 200 * (xyz[1] - xyz[2])];
+  const scale = (v: number, min: number, max: number) => Math.round(Math.min(1, Math.max(0, (v - min) / (max - min))) * 65535);
+  return [scale(l, 0, 100), scale(a, -128, 127), scale(b, -128, 127)];
+};
+
+interface Measurement {
+  concept: Code;
+  value: number;
+  unit: Code;
+  derivation?: Code;
+}
+
+// One segment of the SEG, with what the SR reports about it
+interface SegmentDefinition {
+  label: string;
+  category: Code;
+  type: Code;
+  site?: Code;      // Anatomic region, for findings
+  color: string;    // sRGB hex
+  algorithm: string;
+  contains: (p: number) => boolean;
+  slices?: [number, number]; // First and last slice that can hold its voxels, when known
+  measurements: Measurement[];
+}
+
+const round = (v: number, digits = 2) => Math.round(v * 10 ** digits) / 10 ** digits;
+
+// --- SR content items ---
+
+type Relationship = 'CONTAINS' | 'HAS OBS CONTEXT' | 'HAS CONCEPT MOD';
+
+const contentItem = (relationship: Relationship, valueType: string, concept: Code | null, rest: DicomDataset): DicomDataset => ({
+  RelationshipType: relationship,
+  ValueType: valueType,
+  ...(concept ? { ConceptNameCodeSequence: [codeItem(concept)] } : {}),
+  ...rest,
+});
+
+const container = (concept: Code, children: DicomDataset[]) =>
+  contentItem('CONTAINS', 'CONTAINER', concept, { ContinuityOfContent: 'SEPARATE', ContentSequence: children });
+const codeValue = (relationship: Relationship, concept: Code, value: Code) =>
+  contentItem(relationship, 'CODE', concept, { ConceptCodeSequence: [codeItem(value)] });
+const text = (relationship: Relationship, concept: Code, value: string) => contentItem(relationship, 'TEXT', concept, { TextValue: value });
+const uidRef = (relationship: Relationship, concept: Code, uid: string) => contentItem(relationship, 'UIDREF', concept, { UID: uid });
+const image = (concept: Code | null, reference: DicomDataset) => contentItem('CONTAINS', 'IMAGE', concept, { ReferencedSOPSequence: [reference] });
+const numeric = ({ concept, value, unit, derivation }: Measurement) => contentItem('CONTAINS', 'NUM', concept, {
+  MeasuredValueSequence: [{ MeasurementUnitsCodeSequence: [codeItem(unit)], NumericValue: round(value) }],
+  ...(derivation ? { ContentSequence: [codeValue('HAS CONCEPT MOD', CODES.derivation, derivation)] } : {}),
+});
+
+// --- Export ---
+
+/**
+ * SEG and SR files for an analysed DICOM scan. The SEG holds only frames with
+ * segment voxels; frames lying on a source image's plane reference that image.
+ */
+export const exportDicomObjects = (result: LungAnalysisResult, now = new Date()) => {
+  const { metadata } = result.volume;
+  const { study, patient } = metadata;
+  if (metadata.source !== 'dicom' || !study?.studyInstanceUID || !study.seriesInstanceUID) {
+    throw new DicomExportError('DICOM export needs a scan loaded from DICOM files, so the results can join its study.');
+  }
+  const { segmentation, lobes, emphysema, metrics } = result;
+  const grid = segmentation;
+  const [nx, ny, nz] = grid.dimensions;
+  const nxy = nx * ny;
+  const { date, time } = dicomDateTime(now);
+  const density = metrics.density;
+  const voxelMl = voxelVolumeMl(grid.spacing);
+
+  // Slices an LPS box can reach, widened to whole slices so none at its edge is missed
+  const slicesOf = ({ min, max }: BoundingBox): [number, number] => {
+    const ks = [0, 1, 2, 3, 4, 5, 6, 7].map(c => patientToVoxel(grid, [
+      c & 1 ? max[0] : min[0], c & 2 ? max[1] : min[1], c & 4 ? max[2] : min[2],
+    ])[2]);
+    return [Math.max(0, Math.floor(Math.min(...ks))), Math.min(nz - 1, Math.ceil(Math.max(...ks)))];
+  };
+
+  // --- Segments ---
+  const lungSegment = (side: 'right' | 'left'): SegmentDefinition => {
+    const label = side === 'right' ? LungLabel.RIGHT_LUNG : LungLabel.LEFT_LUNG;
+    const region = density?.[side === 'right' ? 'rightLung' : 'leftLung'];
+    return {
+      label: side === 'right' ? 'Right lung' : 'Left lung',
+      category: CODES.anatomicalStructure,
+      type: side === 'right' ? CODES.rightLung : CODES.leftLung,
+      color: side === 'right' ? '#fda4af' : '#93c5fd',
+      algorithm: 'LungScape lung segmentation',
+      contains: p => segmentation.labels[p] === label,
+      measurements: [
+        { concept: CODES.volume, value: region?.volumeMl ?? segmentation.voxelCounts[side === 'right' ? 'rightLung' : 'leftLung'] * voxelMl, unit: UNITS.ml },
+        ...(region ? [{ concept: CODES.attenuation, value: region.meanHU, unit: UNITS.hu, derivation: CODES.mean }] : []),
+        { concept: CODES.laa950, value: emphysema.laa[side === 'right' ? 'rightLung' : 'leftLung'], unit: UNITS.percent },
+      ],
+    };
+  };
+
+  const lobeSegment = (key: LobeKey): SegmentDefinition => ({
+    label: LOBE_CODES[key].meaning,
+    category: CODES.anatomicalStructure,
+    type: LOBE_CODES[key],
+    color: LOBE_COLORS[key],
+    algorithm: `LungScape lobe segmentation (${lobes.method})`,
+    contains: p => lobes.labels[p] === LOBE_LABEL_BY_KEY[key],
+    measurements: [
+      { concept: CODES.volume, value: metrics.lobeVolumes[key], unit: UNITS.ml },
+      ...(density ? [{ concept: CODES.attenuation, value: density.lobes[key].meanHU, unit: UNITS.hu, derivation: CODES.mean }] : []),
+      { concept: CODES.laa950, value: emphysema.laa.lobes[key], unit: UNITS.percent },
+    ],
+  });
+
+  const { clusterOf, bullaIds } = findBullaClusters(result.analysisVolume, segmentation);
+  const bullaSegments = emphysema.bullae.map((bulla, n): SegmentDefinition => ({
+    label: `Bulla ${n + 1}`,
+    category: CODES.abnormalStructure,
+    type: CODES.bulla,
+    site: bulla.lobe ? LOBE_CODES[bulla.lobe] : bulla.lung === 'right' ? CODES.rightLung : CODES.leftLung,
+    color: '#f59e0b',
+    algorithm: `LungScape bulla detection (clusters below ${emphysema.thresholdHU} HU)`,
+    contains: p => clusterOf[p] === bullaIds[n],
+    slices: slicesOf(bulla.boundingBox),
+    measurements: [
+      { concept: CODES.volume, value: bulla.volumeMl, unit: UNITS.ml },
+      { concept: CODES.length, value: bulla.maxExtentMm, unit: UNITS.mm, derivation: CODES.maximum },
+      { concept: CODES.attenuation, value: bulla.meanHU, unit: UNITS.hu, derivation: CODES.mean },
+    ],
+  }));
+
+  // Frames: one per segment and slice holding any of its voxels
+  const candidates = [lungSegment('right'), lungSegment('left'), ...LOBE_KEYS.map(lobeSegment), ...bullaSegments];
+  const frames: { segment: number; k: number }[] = [];
+  const segments: SegmentDefinition[] = [];
+  for (const definition of candidates) {
+    const slices: number[] = [];
+    const [first, last] = definition.slices ?? [0, nz - 1];
+    for (let k = first; k <= last; k++) {
+      for (let p = k * nxy; p < (k + 1) * nxy; p++) {
+        if (definition.contains(p)) { slices.push(k); break; }
+      }
+    }
+    if (slices.length === 0) continue; // e.g. a lobe the partition did not produce
+    segments.push(definition);
+    for (const k of slices) frames.push({ segment: segments.length, k });
+  }
+  if (frames.length === 0) throw new DicomExportError('The segmentation is empty; there is nothing to export.');
+
+  // 1 bit per pixel, packed across frame boundaries, least significant bit first
+  const pixels = new Uint8Array(Math.ceil((frames.length * nxy) / 8));
+  frames.forEach(({ segment, k }, f) => {
+    const { contains } = segments[segment - 1];
+    for (let q = 0; q < nxy; q++) {
+      if (!contains(k * nxy + q)) continue;
+      const bit = f * nxy + q;
+      pixels[bit >> 3] |= 1 << (bit & 7);
+    }
+  });
+
+  // Source images lying on a frame's plane, by slice index
+  const kAxis = grid.direction.slice(6, 9);
+  const origin = voxelToPatient(grid, 0, 0, 0);
+  const sourceBySlice = new Map<number, { sopClassUID: string; sopInstanceUID: string }>();
+  for (const instance of metadata.sourceInstances ?? []) {
+    if (!instance.position) continue;
+    const along = (instance.position[0] - origin[0]) * kAxis[0] + (instance.position[1] - origin[1]) * kAxis[1] + (instance.position[2] - origin[2]) * kAxis[2];
+    const k = Math.round(along / grid.spacing[2]);
+    if (k >= 0 && k < nz && Math.abs(along - k * grid.spacing[2]) < 0.01 * grid.spacing[2]) sourceBySlice.set(k, instance);
+  }
+
+  const patientModule: DicomDataset = {
+    PatientName: patient?.patientName || null,
+    PatientID: patient?.patientId || null,
+    PatientBirthDate: patient?.birthDate || null,
+    PatientSex: patient?.sex || null,
+  };
+  const studyModule: DicomDataset = {
+    StudyInstanceUID: study.studyInstanceUID,
+    StudyDate: study.studyDate || null,
+    StudyTime: null,
+    ReferringPhysicianName: null,
+    StudyID: null,
+    AccessionNumber: study.accessionNumber || null,
+    StudyDescription: study.studyDescription || undefined,
+  };
+  const equipment: DicomDataset = {
+    Manufacturer: MANUFACTURER,
+    ManufacturerModelName: MANUFACTURER,
+    DeviceSerialNumber: 'web',
+    SoftwareVersions: SOFTWARE_VERSION,
+  };
+  const sourceReferences = (metadata.sourceInstances ?? []).map(instance => ({
+    ReferencedSOPClassUID: instance.sopClassUID,
+    ReferencedSOPInstanceUID: instance.sopInstanceUID,
+  }));
+
+  // --- Segmentation ---
+  const segSeriesUID = createUid();
+  const segInstanceUID = createUid();
+  const dimensionOrganizationUID = createUid();
+  const seg: DicomDataset = {
+    SpecificCharacterSet: 'ISO_IR 192',
+    SOPClassUID: SEGMENTATION_STORAGE,
+    SOPInstanceUID: segInstanceUID,
+    ...patientModule,
+    ...studyModule,
+    Modality: 'SEG',
+    SeriesInstanceUID: segSeriesUID,
+    SeriesNumber: SEG_SERIES_NUMBER,
+    SeriesDescription: 'LungScape segmentation',
+    SeriesDate: date,
+    SeriesTime: time,
+    FrameOfReferenceUID: study.frameOfReferenceUID || createUid(),
+    PositionReferenceIndicator: null,
+    ...equipment,
+    InstanceNumber: 1,
+    ContentDate: date,
+    ContentTime: time,
+    ImageType: ['DERIVED', 'PRIMARY'],
+    SamplesPerPixel: 1,
+    PhotometricInterpretation: 'MONOCHROME2',
+    Rows: ny,
+    Columns: nx,
+    BitsAllocated: 1,
+    BitsStored: 1,
+    HighBit: 0,
+    PixelRepresentation: 0,
+    LossyImageCompression: '00',
+    SegmentationType: 'BINARY',
+    SegmentsOverlap: 'YES',
+    ContentLabel: 'LUNGSCAPE',
+    ContentDescription: 'Lungs, lobes and bullae',
+    ContentCreatorName: null,
+    SegmentSequence: segments.map((s, n) => ({
+      SegmentNumber: n + 1,
+      SegmentLabel: s.label,
+      SegmentedPropertyCategoryCodeSequence: [codeItem(s.category)],
+      SegmentedPropertyTypeCodeSequence: [codeItem(s.type)],
+      ...(s.site ? { AnatomicRegionSequence: [codeItem(s.site)] } : {}),
+      SegmentAlgorithmType: 'AUTOMATIC',
+      SegmentAlgorithmName: s.algorithm,
+      RecommendedDisplayCIELabValue: cieLab(s.color),
+    })),
+    DimensionOrganizationSequence: [{ DimensionOrganizationUID: dimensionOrganizationUID }],
+    DimensionIndexSequence: [
+      {
+        DimensionOrganizationUID: dimensionOrganizationUID,
+        DimensionIndexPointer: TAG_OF.ReferencedSegmentNumber,
+        FunctionalGroupPointer: TAG_OF.SegmentIdentificationSequence,
+        DimensionDescriptionLabel: 'ReferencedSegmentNumber',
+      },
+      {
+        DimensionOrganizationUID: dimensionOrganizationUID,
+        DimensionIndexPointer: TAG_OF.ImagePositionPatient,
+        FunctionalGroupPointer: TAG_OF.PlanePositionSequence,
+        DimensionDescriptionLabel: 'ImagePositionPatient',
+      },
+    ],
+    NumberOfFrames: frames.length,
+    SharedFunctionalGroupsSequence: [{
+      PixelMeasuresSequence: [{
+        PixelSpacing: [grid.spacing[1], grid.spacing[0]], // Between rows (j), between columns (i)
+        SliceThickness: grid.spacing[2],
+        SpacingBetweenSlices: grid.spacing[2],
+      }],
+      PlaneOrientationSequence: [{ ImageOrientationPatient: grid.direction.slice(0, 6) }],
+    }],
+    PerFrameFunctionalGroupsSequence: frames.map(({ segment, k }) => {
+      const source = sourceBySlice.get(k);
+      return {
+        FrameContentSequence: [{ DimensionIndexValues: [segment, k + 1] }],
+        PlanePositionSequence: [{ ImagePositionPatient: voxelToPatient(grid, 0, 0, k) as Vec3 }],
+        SegmentIdentificationSequence: [{ ReferencedSegmentNumber: segment }],
+        ...(source ? {
+          DerivationImageSequence: [{
+            DerivationCodeSequence: [codeItem(CODES.segmentation)],
+            SourceImageSequence: [{
+              ReferencedSOPClassUID: source.sopClassUID,
+              ReferencedSOPInstanceUID: source.sopInstanceUID,
+              PurposeOfReferenceCodeSequence: [codeItem(CODES.sourceImage)],
+            }],
+          }],
+        } : {}),
+      };
+    }),
+    ReferencedSeriesSequence: [{ SeriesInstanceUID: study.seriesInstanceUID, ReferencedInstanceSequence: sourceReferences }],
+    PixelData: pixels,
+  };
+
+  // --- Measurement report ---
+  const group = (trackingId: string, children: DicomDataset[]) => container(CODES.measurementGroup, [
+    text('HAS OBS CONTEXT', CODES.trackingIdentifier, trackingId),
+    uidRef('HAS OBS CONTEXT', CODES.trackingUid, createUid()),
+    ...children,
+  ]);
+  const segmentGroups = segments.map((s, n) => group(s.label, [
+    codeValue('CONTAINS', CODES.finding, s.type),
+    ...(s.site ? [codeValue('HAS CONCEPT MOD', CODES.findingSite, s.site)] : []),
+    image(CODES.referencedSegment, { ReferencedSOPClassUID: SEGMENTATION_STORAGE, ReferencedSOPInstanceUID: segInstanceUID, ReferencedSegmentNumber: n + 1 }),
+    uidRef('CONTAINS', CODES.sourceSeries, study.seriesInstanceUID),
+    ...s.measurements.map(numeric),
+  ]));
+  const wholeLungGroup = group('Whole lung', [
+    codeValue('HAS CONCEPT MOD', CODES.findingSite, CODES.lung),
+    numeric({ concept: CODES.volume, value: metrics.totalVolume, unit: UNITS.ml }),
+    numeric({ concept: CODES.laa950, value: emphysema.laa.wholeLung, unit: UNITS.percent }),
+  ]);
+
+  const sr: DicomDataset = {
+    SpecificCharacterSet: 'ISO_IR 192',
+    SOPClassUID: COMPREHENSIVE_SR_STORAGE,
+    SOPInstanceUID: createUid(),
+    ...patientModule,
+    ...studyModule,
+    Modality: 'SR',
+    SeriesInstanceUID: createUid(),
+    SeriesNumber: SR_SERIES_NUMBER,
+    SeriesDescription: 'LungScape measurements',
+    SeriesDate: date,
+    SeriesTime: time,
+    ReferencedPerformedProcedureStepSequence: [],
+    Manufacturer: MANUFACTURER,
+    InstanceNumber: 1,
+    CompletionFlag: 'COMPLETE',
+    VerificationFlag: 'UNVERIFIED',
+    ContentDate: date,
+    ContentTime: time,
+    PerformedProcedureCodeSequence: [],
+    CurrentRequestedProcedureEvidenceSequence: [{
+      StudyInstanceUID: study.studyInstanceUID,
+      ReferencedSeriesSequence: [
+        { SeriesInstanceUID: study.seriesInstanceUID, ReferencedSOPSequence: sourceReferences },
+        { SeriesInstanceUID: segSeriesUID, ReferencedSOPSequence: [{ ReferencedSOPClassUID: SEGMENTATION_STORAGE, ReferencedSOPInstanceUID: segInstanceUID }] },
+      ],
+    }],
+    ValueType: 'CONTAINER',
+    ConceptNameCodeSequence: [codeItem(CODES.measurementReport)],
+    ContinuityOfContent: 'SEPARATE',
+    ContentTemplateSequence: [{ MappingResource: 'DCMR', TemplateIdentifier: '1500' }],
+    ContentSequence: [
+      codeValue('HAS CONCEPT MOD', CODES.language, CODES.english),
+      codeValue('HAS OBS CONTEXT', CODES.observerType, CODES.device),
+      uidRef('HAS OBS CONTEXT', CODES.deviceObserverUid, createUid()),
+      text('HAS OBS CONTEXT', CODES.deviceObserverName, MANUFACTURER),
+      codeValue('HAS CONCEPT MOD', CODES.procedureReported, CODES.chestCt),
+      container(CODES.imageLibrary, [
+        container(CODES.imageLibraryGroup, sourceReferences.map(reference => image(null, reference))),
+      ]),
+      container(CODES.imagingMeasurements, [...segmentGroups, wholeLungGroup]),
+    ],
+  };
+
+  return { segmentation: writeDicomFile(seg), report: writeDicomFile(sr) };
+};
+
+/** ZIP with the SEG and SR files, for the download. */
+export const exportDicomArchive = (result: LungAnalysisResult) => {
+  const { segmentation, report } = exportDicomObjects(result);
+  return createZip([{ path: 'SEG.dcm', data: segmentation }, { path: 'SR.dcm', data: report }]);
+};
+
+export const dicomFileName = (patientCase: PatientCase, timePoint: TimePoint) =>
+  `${patientCase.id.replace(/[^\w.-]/g, '_')}-${timePoint.date}-dicom.zip`;
@@ -0,0 +1,358 @@
+import { DicomSlice, Vec3 } from "../types";
+
+// Uncompressed transfer syntaxes we can decode directly
+const TRANSFER_SYNTAXES: Record<string, { explicitVR: boolean; name: string }> = {
+  '1.2.840.10008.1.2': { explicitVR: false, name: 'Implicit VR Little Endian' },
+  '1.2.840.10008.1.2.1': { explicitVR: true, name: 'Explicit VR Little Endian' },
+};
+
+// VRs whose explicit-VR header uses 2 reserved bytes and a 32-bit length
+const LONG_LENGTH_VRS = new Set(['OB', 'OD', 'OF', 'OL', 'OV', 'OW', 'SQ', 'SV', 'UC', 'UN', 'UR', 'UT', 'UV']);
+
+const UNDEFINED_LENGTH = 0xffffffff;
+
+const tag = (group: number, element: number) => ((group << 16) | element) >>> 0;
+
+export const TAGS = {
+  TransferSyntaxUID: tag(0x0002, 0x0010),
+  SOPClassUID: tag(0x0008, 0x0016),
+  SOPInstanceUID: tag(0x0008, 0x0018),
+  StudyDate: tag(0x0008, 0x0020),
+  AccessionNumber: tag(0x0008, 0x0050),
+  Modality: tag(0x0008, 0x0060),
+  StudyDescription: tag(0x0008, 0x1030),
+  SeriesDescription: tag(0x0008, 0x103e),
+  PatientName: tag(0x0010, 0x0010),
+  PatientID: tag(0x0010, 0x0020),
+  PatientBirthDate: tag(0x0010, 0x0030),
+  PatientSex: tag(0x0010, 0x0040),
+  ContrastBolusAgent: tag(0x0018, 0x0010),
+  SliceThickness: tag(0x0018, 0x0050),
+  KVP: tag(0x0018, 0x0060),
+  SpacingBetweenSlices: tag(0x0018, 0x0088),
+  ConvolutionKernel: tag(0x0018, 0x1210),
+  StudyInstanceUID: tag(0x0020, 0x000d),
+  SeriesInstanceUID: tag(0x0020, 0x000e),
+  SeriesNumber: tag(0x0020, 0x0011),
+  InstanceNumber: tag(0x0020, 0x0013),
+  ImagePositionPatient: tag(0x0020, 0x0032),
+  ImageOrientationPatient: tag(0x0020, 0x0037),
+  FrameOfReferenceUID: tag(0x0020, 0x0052),
+  SamplesPerPixel: tag(0x0028, 0x0002),
+  PhotometricInterpretation: tag(0x0028, 0x0004),
+  NumberOfFrames: tag(0x0028, 0x0008),
+  Rows: tag(0x0028, 0x0010),
+  Columns: tag(0x0028, 0x0011),
+  PixelSpacing: tag(0x0028, 0x0030),
+  BitsAllocated: tag(0x0028, 0x0100),
+  BitsStored: tag(0x0028, 0x0101),
+  PixelRepresentation: tag(0x0028, 0x0103),
+  RescaleIntercept: tag(0x0028, 0x1052),
+  RescaleSlope: tag(0x0028, 0x1053),
+  PixelData: tag(0x7fe0, 0x0010),
+};
+
+const ITEM = tag(0xfffe, 0xe000);
+const ITEM_DELIMITATION = tag(0xfffe, 0xe00d);
+const SEQUENCE_DELIMITATION = tag(0xfffe, 0xe0dd);
+
+interface DicomElement {
+  vr: string | null; // null when the transfer syntax is implicit VR
+  offset: number; // Start of the value field
+  length: number;
+}
+
+type ElementMap = Map<number, DicomElement>;
+
+const textDecoder = new TextDecoder('latin1');
+
+class ByteReader {
+  readonly view: DataView;
+  offset: number;
+
+  constructor(readonly buffer: ArrayBuffer, offset = 0) {
+    this.view = new DataView(buffer);
+    this.offset = offset;
+  }
+
+  get remaining() {
+    return this.view.byteLength - this.offset;
+  }
+
+  ensure(bytes: number, what: string) {
+    if (this.remaining < bytes) {
+      throw new Error(`Unexpected end of file while reading ${what} at byte ${this.offset}`);
+    }
+  }
+
+  uint16() {
+    this.ensure(2, 'a 16-bit value');
+    const v = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return v;
+  }
+
+  uint32() {
+    this.ensure(4, 'a 32-bit value');
+    const v = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return v;
+  }
+
+  ascii(length: number) {
+    this.ensure(length, 'a text value');
+    const s = textDecoder.decode(new Uint8Array(this.buffer, this.offset, length));
+    this.offset += length;
+    return s;
+  }
+}
+
+const formatTag = (t: number) =>
+  `(${(t >>> 16).toString(16).padStart(4, '0')},${(t & 0xffff).toString(16).padStart(4, '0')})`.toUpperCase();
+
+// Reads one element header and positions the reader at its value
+const readElementHeader = (reader: ByteReader, explicitVR: boolean) => {
+  const group = reader.uint16();
+  const element = reader.uint16();
+  const t = tag(group, element);
+
+  // Item and delimitation tags never carry a VR, even in explicit syntaxes
+  if (group === 0xfffe) {
+    return { tag: t, vr: null, length: reader.uint32() };
+  }
+
+  if (!explicitVR) {
+    return { tag: t, vr: null, length: reader.uint32() };
+  }
+
+  const vr = reader.ascii(2);
+  if (LONG_LENGTH_VRS.has(vr)) {
+    reader.offset += 2;
+    return { tag: t, vr, length: reader.uint32() };
+  }
+  return { tag: t, vr, length: reader.uint16() };
+};
+
+// Walks past a sequence (or item) of undefined length, including nested sequences
+const skipUndefinedLength = (reader: ByteReader, explicitVR: boolean, terminator: number) => {
+  while (reader.remaining > 0) {
+    const header = readElementHeader(reader, explicitVR);
+    if (header.tag === terminator) return;
+    if (header.length === UNDEFINED_LENGTH) {
+      const nestedTerminator = header.tag === ITEM ? ITEM_DELIMITATION : SEQUENCE_DELIMITATION;
+      skipUndefinedLength(reader, explicitVR, nestedTerminator);
+    } else {
+      reader.ensure(header.length, `element ${formatTag(header.tag)}`);
+      reader.offset += header.length;
+    }
+  }
+  throw new Error(`Sequence delimiter ${formatTag(terminator)} not found before end of file`);
+};
+
+const readElements = (
+  reader: ByteReader,
+  explicitVR: boolean,
+  elements: ElementMap,
+  stopAt?: (t: number) => boolean
+) => {
+  while (reader.remaining >= 8) {
+    const start = reader.offset;
+    const peekGroup = reader.view.getUint16(start, true);
+    const peekElement = reader.view.getUint16(start + 2, true);
+    if (stopAt && stopAt(tag(peekGroup, peekElement))) return;
+
+    const header = readElementHeader(reader, explicitVR);
+
+    if (header.length === UNDEFINED_LENGTH) {
+      if (header.tag === TAGS.PixelData) {
+        throw new Error('Pixel data is encapsulated (compressed); only uncompressed images are supported');
+      }
+      skipUndefinedLength(reader, explicitVR, SEQUENCE_DELIMITATION);
+      continue;
+    }
+
+    reader.ensure(header.length, `element ${formatTag(header.tag)}`);
+    elements.set(header.tag, { vr: header.vr, offset: reader.offset, length: header.length });
+    reader.offset += header.length;
+  }
+};
+
+const getString = (buffer: ArrayBuffer, elements: ElementMap, t: number) => {
+  const el = elements.get(t);
+  if (!el || el.length === 0) return '';
+  return textDecoder
+    .decode(new Uint8Array(buffer, el.offset, el.length))
+    .replace(/[\0\s]+$/, '')
+    .trim();
+};
+
+// DS / IS values are backslash separated decimal strings
+const getNumbers = (buffer: ArrayBuffer, elements: ElementMap, t: number) => {
+  const raw = getString(buffer, elements, t);
+  if (!raw) return [];
+  return raw.split('\\').map(v => parseFloat(v)).filter(v => Number.isFinite(v));
+};
+
+const getNumber = (buffer: ArrayBuffer, elements: ElementMap, t: number): number | null => {
+  const values = getNumbers(buffer, elements, t);
+  return values.length > 0 ? values[0] : null;
+};
+
+const getUint16 = (view: DataView, elements: ElementMap, t: number): number | null => {
+  const el = elements.get(t);
+  if (!el || el.length < 2) return null;
+  return view.getUint16(el.offset, true);
+};
+
+const requireUint16 = (view: DataView, elements: ElementMap, t: number, name: string) => {
+  const v = getUint16(view, elements, t);
+  if (v === null) throw new Error(`Missing required attribute ${name} ${formatTag(t)}`);
+  return v;
+};
+
+const readPixelData = (
+  buffer: ArrayBuffer,
+  el: DicomElement,
+  rows: number,
+  columns: number,
+  bitsAllocated: number,
+  pixelRepresentation: number
+) => {
+  const pixelCount = rows * columns;
+  const bytesPerPixel = bitsAllocated / 8;
+  const expected = pixelCount * bytesPerPixel;
+  if (el.length < expected) {
+    throw new Error(`Pixel data is truncated: expected ${expected} bytes, found ${el.length}`);
+  }
+  // Copy so the typed array is aligned and independent of the file buffer
+  const bytes = buffer.slice(el.offset, el.offset + expected);
+  if (bitsAllocated === 8) {
+    return pixelRepresentation === 1 ? new Int8Array(bytes) : new Uint8Array(bytes);
+  }
+  return pixelRepresentation === 1 ? new Int16Array(bytes) : new Uint16Array(bytes);
+};
+
+/**
+ * Parses a single-frame, uncompressed DICOM Part 10 file.
+ * Throws an Error with a user-facing message when the file cannot be decoded.
+ */
+export const parseDicom = (buffer: ArrayBuffer, fileName: string): DicomSlice => {
+  const fail = (reason: string): never => {
+    throw new Error(`${fileName}: ${reason}`);
+  };
+
+  if (buffer.byteLength < 132) fail('file is too small to be a DICOM image');
+
+  const preamble = textDecoder.decode(new Uint8Array(buffer, 128, 4));
+  if (preamble !== 'DICM') fail('not a DICOM Part 10 file (missing "DICM" prefix)');
+
+  try {
+    const reader = new ByteReader(buffer, 132);
+    const elements: ElementMap = new Map();
+
+    // File meta information (group 0002) is always explicit VR little endian
+    readElements(reader, true, elements, t => t >>> 16 !== 0x0002);
+
+    const transferSyntaxUID = getString(buffer, elements, TAGS.TransferSyntaxUID);
+    if (!transferSyntaxUID) fail('file meta information has no Transfer Syntax UID');
+
+    const syntax = TRANSFER_SYNTAXES[transferSyntaxUID];
+    if (!syntax) {
+      fail(`transfer syntax ${transferSyntaxUID} is not supported; export the series as uncompressed little endian DICOM`);
+    }
+
+    readElements(reader, syntax.explicitVR, elements);
+
+    const view = new DataView(buffer);
+    const rows = requireUint16(view, elements, TAGS.Rows, 'Rows');
+    const columns = requireUint16(view, elements, TAGS.Columns, 'Columns');
+    const bitsAllocated = requireUint16(view, elements, TAGS.BitsAllocated, 'BitsAllocated');
+    const bitsStored = getUint16(view, elements, TAGS.BitsStored) ?? bitsAllocated;
+    const pixelRepresentation = getUint16(view, elements, TAGS.PixelRepresentation) ?? 0;
+    const samplesPerPixel = getUint16(view, elements, TAGS.SamplesPerPixel) ?? 1;
+    const photometricInterpretation = getString(buffer, elements, TAGS.PhotometricInterpretation) || 'MONOCHROME2';
+    const numberOfFrames = getNumber(buffer, elements, TAGS.NumberOfFrames) ?? 1;
+
+    if (samplesPerPixel !== 1 || !photometricInterpretation.startsWith('MONOCHROME')) {
+      fail(`${photometricInterpretation} images are not supported; a greyscale CT series is required`);
+    }
+    if (numberOfFrames > 1) fail('multi-frame images are not supported; export one file per slice');
+    if (bitsAllocated !== 8 && bitsAllocated !== 16) fail(`${bitsAllocated}-bit pixel data is not supported`);
+
+    const pixelElement = elements.get(TAGS.PixelData);
+    if (!pixelElement) fail('file contains no pixel data');
+
+    const pixelSpacing = getNumbers(buffer, elements, TAGS.PixelSpacing);
+    const position = getNumbers(buffer, elements, TAGS.ImagePositionPatient);
+    const orientation = getNumbers(buffer, elements, TAGS.ImageOrientationPatient);
+
+    return {
+      fileName,
+      transferSyntaxUID,
+      sopClassUID: getString(buffer, elements, TAGS.SOPClassUID),
+      sopInstanceUID: getString(buffer, elements, TAGS.SOPInstanceUID),
+      instanceNumber: getNumber(buffer, elements, TAGS.InstanceNumber),
+      patient: {
+        patientId: getString(buffer, elements, TAGS.PatientID),
+        patientName: getString(buffer, elements, TAGS.PatientName).replace(/\^+/g, ' ').trim(),
+        birthDate: getString(buffer, elements, TAGS.PatientBirthDate),
+        sex: getString(buffer, elements, TAGS.PatientSex),
+      },
+      study: {
+        studyInstanceUID: getString(buffer, elements, TAGS.StudyInstanceUID),
+        studyDate: getString(buffer, elements, TAGS.StudyDate),
+        studyDescription: getString(buffer, elements, TAGS.StudyDescription),
+        accessionNumber: getString(buffer, elements, TAGS.AccessionNumber),
+        seriesInstanceUID: getString(buffer, elements, TAGS.SeriesInstanceUID),
+        seriesNumber: getNumber(buffer, elements, TAGS.SeriesNumber),
+        seriesDescription: getString(buffer, elements, TAGS.SeriesDescription),
+        modality: getString(buffer, elements, TAGS.Modality),
+        frameOfReferenceUID: getString(buffer, elements, TAGS.FrameOfReferenceUID),
+      },
+      acquisition: {
+        kvp: getNumber(buffer, elements, TAGS.KVP),
+        convolutionKernel: getString(buffer, elements, TAGS.ConvolutionKernel),
+        contrastBolusAgent: getString(buffer, elements, TAGS.ContrastBolusAgent),
+      },
+      rows,
+      columns,
+      bitsAllocated,
+      bitsStored,
+      pixelRepresentation,
+      photometricInterpretation,
+      pixelSpacing: pixelSpacing.length >= 2 ? [pixelSpacing[0], pixelSpacing[1]] : null,
+      sliceThickness: getNumber(buffer, elements, TAGS.SliceThickness),
+      spacingBetweenSlices: getNumber(buffer, elements, TAGS.SpacingBetweenSlices),
+      imagePositionPatient: position.length >= 3 ? [position[0], position[1], position[2]] as Vec3 : null,
+      imageOrientationPatient: orientation.length >= 6
+        ? [orientation[0], orientation[1], orientation[2], orientation[3], orientation[4], orientation[5]]
+        : null,
+      rescaleSlope: getNumber(buffer, elements, TAGS.RescaleSlope) ?? 1,
+      rescaleIntercept: getNumber(buffer, elements, TAGS.RescaleIntercept) ?? 0,
+      pixelData: readPixelData(buffer, pixelElement!, rows, columns, bitsAllocated, pixelRepresentation),
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    if (message.startsWith(`${fileName}:`)) throw err;
+    throw new Error(`${fileName}: ${message}`);
+  }
+};
+
+/** Reads a browser File and parses it as DICOM. */
+export const parseDicomFile = async (file: File): Promise<DicomSlice> => {
+  const buffer = await file.arrayBuffer();
+  return parseDicom(buffer, file.name);
+};
+
+/** Converts a slice's stored values to Hounsfield units using its rescale slope/intercept. */
+export const getSliceHounsfieldUnits = (slice: DicomSlice): Float32Array => {
+  const { pixelData, rescaleSlope, rescaleIntercept, bitsStored, pixelRepresentation, bitsAllocated } = slice;
+  const out = new Float32Array(pixelData.length);
+  // Mask off bits above BitsStored for unsigned data (some scanners leave overlay bits set)
+  const mask = pixelRepresentation === 0 && bitsStored < bitsAllocated ? (1 << bitsStored) - 1 : -1;
+  for (let i = 0; i < pixelData.length; i++) {
+    const stored = mask === -1 ? pixelData[i] : pixelData[i] & mask;
+    out[i] = stored * rescaleSlope + rescaleIntercept;
+  }
+  return out;
+};
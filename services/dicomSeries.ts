@@ -0,0 +1,207 @@
+import { CTVolume, DicomSeriesGroup, DicomSlice, SeriesAssemblyReport, Vec3 } from "../types";
+import { getSliceHounsfieldUnits } from "./dicomParser";
+import { clampToInt16, reorientToLPS } from "./volumeUtils";
+
+// Neighbour distances may deviate this much from the median before spacing counts as uneven
+const SPACING_TOLERANCE = 0.1;
+// A gap wider than this multiple of the nominal spacing means slices are missing
+const MISSING_SLICE_FACTOR = 1.5;
+// Slices closer than this fraction of the nominal spacing are treated as duplicates
+const DUPLICATE_FACTOR = 0.01;
+
+const MIN_SLICES = 2;
+
+/** Groups parsed slices by SeriesInstanceUID, largest series first. */
+export const groupDicomSeries = (slices: DicomSlice[]): DicomSeriesGroup[] => {
+  const groups = new Map<string, DicomSeriesGroup>();
+  for (const slice of slices) {
+    const uid = slice.study.seriesInstanceUID || 'unknown-series';
+    let group = groups.get(uid);
+    if (!group) {
+      group = {
+        seriesInstanceUID: uid,
+        seriesNumber: slice.study.seriesNumber,
+        description: slice.study.seriesDescription || slice.study.studyDescription || 'Unnamed series',
+        modality: slice.study.modality,
+        patient: slice.patient,
+        study: slice.study,
+        slices: [],
+      };
+      groups.set(uid, group);
+    }
+    group.slices.push(slice);
+  }
+  return [...groups.values()].sort((a, b) => b.slices.length - a.slices.length);
+};
+
+const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const checkConsistentGeometry = (slices: DicomSlice[]) => {
+  const first = slices[0];
+  for (const s of slices) {
+    if (s.rows !== first.rows || s.columns !== first.columns) {
+      throw new Error(`${s.fileName}: image size ${s.columns}x${s.rows} differs from the rest of the series (${first.columns}x${first.rows})`);
+    }
+    const a = s.imageOrientationPatient, b = first.imageOrientationPatient;
+    if (a && b && a.some((v, i) => Math.abs(v - b[i]) > 1e-3)) {
+      throw new Error(`${s.fileName}: image orientation differs from the rest of the series; gantry-tilted or mixed-orientation series are not supported`);
+    }
+  }
+};
+
+/**
+ * Sorts a series along the slice normal, drops duplicates, fills gaps by linear
+ * interpolation and returns one Hounsfield-unit volume in canonical LPS order.
+ */
+export const buildVolumeFromSeries = (series: DicomSeriesGroup): CTVolume => {
+  if (series.slices.length < MIN_SLICES) {
+    throw new Error(`Series "${series.description}" has ${series.slices.length} image; at least ${MIN_SLICES} slices are needed to build a volume`);
+  }
+  checkConsistentGeometry(series.slices);
+
+  const warnings: string[] = [];
+  const first = series.slices[0];
+  const orientation = first.imageOrientationPatient;
+  const rowDir: Vec3 = orientation ? [orientation[0], orientation[1], orientation[2]] : [1, 0, 0];
+  const colDir: Vec3 = orientation ? [orientation[3], orientation[4], orientation[5]] : [0, 1, 0];
+  const normal = cross(rowDir, colDir);
+
+  const hasPositions = series.slices.every(s => s.imagePositionPatient);
+  if (!hasPositions) {
+    warnings.push('ImagePositionPatient missing; slices ordered by InstanceNumber');
+  }
+  if (!orientation) warnings.push('ImageOrientationPatient missing; axial orientation assumed');
+  if (series.modality && series.modality !== 'CT') warnings.push(`Modality is ${series.modality}, expected CT`);
+
+  const fallbackSpacing = first.spacingBetweenSlices ?? first.sliceThickness ?? 1;
+  const located = series.slices.map((slice, idx) => ({
+    slice,
+    position: hasPositions
+      ? dot(slice.imagePositionPatient!, normal)
+      : (slice.instanceNumber ?? idx) * fallbackSpacing,
+  }));
+  located.sort((a, b) => a.position - b.position);
+
+  // Nominal spacing from the raw neighbour distances (duplicates have distance ~0)
+  const rawGaps = located.slice(1).map((s, i) => s.position - located[i].position).filter(g => g > 1e-3);
+  if (rawGaps.length === 0) {
+    throw new Error(`Series "${series.description}" has no distinct slice positions; all images lie in the same plane`);
+  }
+  const nominalSpacing = median(rawGaps);
+
+  const unique: typeof located = [];
+  let duplicateSlices = 0;
+  for (const entry of located) {
+    const prev = unique[unique.length - 1];
+    if (prev && entry.position - prev.position < nominalSpacing * DUPLICATE_FACTOR) {
+      duplicateSlices++;
+      continue;
+    }
+    unique.push(entry);
+  }
+  if (duplicateSlices > 0) warnings.push(`${duplicateSlices} duplicate slice(s) ignored`);
+
+  const gaps = unique.slice(1).map((s, i) => s.position - unique[i].position);
+  const spacingRange: [number, number] = [Math.min(...gaps), Math.max(...gaps)];
+  const unevenSpacing = gaps.some(g => Math.abs(g - nominalSpacing) > nominalSpacing * SPACING_TOLERANCE && g <= nominalSpacing * MISSING_SLICE_FACTOR);
+  if (unevenSpacing) {
+    warnings.push(`Uneven slice spacing (${spacingRange[0].toFixed(2)}-${spacingRange[1].toFixed(2)} mm); resampled to ${nominalSpacing.toFixed(2)} mm`);
+  }
+
+  // Resample onto a regular grid along the normal
+  const nx = first.columns, ny = first.rows;
+  const sliceSize = nx * ny;
+  const start = unique[0].position;
+  const nz = Math.round((unique[unique.length - 1].position - start) / nominalSpacing) + 1;
+  const data = new Int16Array(sliceSize * nz);
+  const huCache = new Map<number, Float32Array>();
+  const getHU = (idx: number) => {
+    let hu = huCache.get(idx);
+    if (!hu) {
+      hu = getSliceHounsfieldUnits(unique[idx].slice);
+      huCache.set(idx, hu);
+      // Only the two bracketing slices are needed at any time
+      for (const key of huCache.keys()) if (key < idx - 1) huCache.delete(key);
+    }
+    return hu;
+  };
+
+  const missingSliceIndices: number[] = [];
+  let upper = 0;
+  for (let k = 0; k < nz; k++) {
+    const pos = start + k * nominalSpacing;
+    while (upper < unique.length - 1 && unique[upper].position < pos - nominalSpacing * DUPLICATE_FACTOR) upper++;
+    const out = data.subarray(k * sliceSize, (k + 1) * sliceSize);
+    const hi = unique[upper];
+
+    if (Math.abs(hi.position - pos) <= nominalSpacing * SPACING_TOLERANCE || upper === 0) {
+      const hu = getHU(upper);
+      for (let p = 0; p < sliceSize; p++) out[p] = clampToInt16(hu[p]);
+      continue;
+    }
+
+    const lo = unique[upper - 1];
+    const gap = hi.position - lo.position;
+    if (gap > nominalSpacing * MISSING_SLICE_FACTOR) missingSliceIndices.push(k);
+    const t = Math.min(1, Math.max(0, (pos - lo.position) / gap));
+    const a = getHU(upper - 1), b = getHU(upper);
+    for (let p = 0; p < sliceSize; p++) out[p] = clampToInt16(a[p] + (b[p] - a[p]) * t);
+  }
+  if (missingSliceIndices.length > 0) {
+    warnings.push(`${missingSliceIndices.length} missing slice(s) filled by interpolation`);
+  }
+
+  const assembly: SeriesAssemblyReport = {
+    acquiredSlices: unique.length,
+    duplicateSlices,
+    missingSlices: missingSliceIndices.length,
+    missingSliceIndices,
+    nominalSpacing,
+    spacingRange,
+    unevenSpacing,
+    warnings,
+  };
+
+  // PixelSpacing is [row spacing, column spacing]; i runs along a row (column spacing)
+  const pixelSpacing = first.pixelSpacing ?? [1, 1];
+  if (!first.pixelSpacing) warnings.push('PixelSpacing missing; 1 mm pixels assumed');
+
+  const firstPosition = unique[0].slice.imagePositionPatient ?? [0, 0, 0];
+
+  const volume: CTVolume = {
+    id: series.seriesInstanceUID,
+    dimensions: [nx, ny, nz],
+    spacing: [pixelSpacing[1], pixelSpacing[0], nominalSpacing],
+    origin: [firstPosition[0], firstPosition[1], firstPosition[2]],
+    direction: [...rowDir, ...colDir, ...normal],
+    data,
+    metadata: {
+      source: 'dicom',
+      description: series.description,
+      patient: series.patient,
+      study: series.study,
+      acquisition: first.acquisition,
+      sliceThickness: first.sliceThickness,
+      sourceInstances: unique.map(u => ({
+        sopClassUID: u.slice.sopClassUID,
+        sopInstanceUID: u.slice.sopInstanceUID,
+        position: u.slice.imagePositionPatient,
+      })),
+      assembly,
+    },
+  };
+
+  return reorientToLPS(volume);
+};
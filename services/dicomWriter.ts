@@ -0,0 +1,268 @@
+/**
+ * DICOM Part 10 writing in Explicit VR Little Endian, for the objects the app
+ * exports. Datasets are plain objects keyed by attribute keyword, as in the
+ * standard's data dictionary; only the attributes listed below can be written.
+ * Elements are sorted by tag and sequences are written with defined lengths.
+ */
+
+type Vr = 'AE' | 'AT' | 'CS' | 'DA' | 'DS' | 'FD' | 'IS' | 'LO' | 'LT' | 'OB' | 'PN' | 'SH' | 'SQ' | 'ST' | 'TM' | 'UI' | 'UL' | 'US' | 'UT';
+
+const DICTIONARY = {
+  FileMetaInformationGroupLength: [0x00020000, 'UL'],
+  FileMetaInformationVersion: [0x00020001, 'OB'],
+  MediaStorageSOPClassUID: [0x00020002, 'UI'],
+  MediaStorageSOPInstanceUID: [0x00020003, 'UI'],
+  TransferSyntaxUID: [0x00020010, 'UI'],
+  ImplementationClassUID: [0x00020012, 'UI'],
+  ImplementationVersionName: [0x00020013, 'SH'],
+  SpecificCharacterSet: [0x00080005, 'CS'],
+  ImageType: [0x00080008, 'CS'],
+  SOPClassUID: [0x00080016, 'UI'],
+  SOPInstanceUID: [0x00080018, 'UI'],
+  StudyDate: [0x00080020, 'DA'],
+  SeriesDate: [0x00080021, 'DA'],
+  ContentDate: [0x00080023, 'DA'],
+  StudyTime: [0x00080030, 'TM'],
+  SeriesTime: [0x00080031, 'TM'],
+  ContentTime: [0x00080033, 'TM'],
+  AccessionNumber: [0x00080050, 'SH'],
+  Modality: [0x00080060, 'CS'],
+  Manufacturer: [0x00080070, 'LO'],
+  ReferringPhysicianName: [0x00080090, 'PN'],
+  CodeValue: [0x00080100, 'SH'],
+  CodingSchemeDesignator: [0x00080102, 'SH'],
+  CodeMeaning: [0x00080104, 'LO'],
+  MappingResource: [0x00080105, 'CS'],
+  StudyDescription: [0x00081030, 'LO'],
+  SeriesDescription: [0x0008103e, 'LO'],
+  ManufacturerModelName: [0x00081090, 'LO'],
+  ReferencedPerformedProcedureStepSequence: [0x00081111, 'SQ'],
+  ReferencedSeriesSequence: [0x00081115, 'SQ'],
+  ReferencedSOPClassUID: [0x00081150, 'UI'],
+  ReferencedSOPInstanceUID: [0x00081155, 'UI'],
+  ReferencedSOPSequence: [0x00081199, 'SQ'],
+  ReferencedInstanceSequence: [0x0008114a, 'SQ'],
+  SourceImageSequence: [0x00082112, 'SQ'],
+  AnatomicRegionSequence: [0x00082218, 'SQ'],
+  DerivationImageSequence: [0x00089124, 'SQ'],
+  DerivationCodeSequence: [0x00089215, 'SQ'],
+  PatientName: [0x00100010, 'PN'],
+  PatientID: [0x00100020, 'LO'],
+  PatientBirthDate: [0x00100030, 'DA'],
+  PatientSex: [0x00100040, 'CS'],
+  SliceThickness: [0x00180050, 'DS'],
+  SpacingBetweenSlices: [0x00180088, 'DS'],
+  DeviceSerialNumber: [0x00181000, 'LO'],
+  SoftwareVersions: [0x00181020, 'LO'],
+  StudyInstanceUID: [0x0020000d, 'UI'],
+  SeriesInstanceUID: [0x0020000e, 'UI'],
+  StudyID: [0x00200010, 'SH'],
+  SeriesNumber: [0x00200011, 'IS'],
+  InstanceNumber: [0x00200013, 'IS'],
+  ImagePositionPatient: [0x00200032, 'DS'],
+  ImageOrientationPatient: [0x00200037, 'DS'],
+  FrameOfReferenceUID: [0x00200052, 'UI'],
+  PositionReferenceIndicator: [0x00201040, 'LO'],
+  DimensionOrganizationUID: [0x00209164, 'UI'],
+  DimensionOrganizationSequence: [0x00209221, 'SQ'],
+  DimensionIndexSequence: [0x00209222, 'SQ'],
+  DimensionIndexPointer: [0x00209165, 'AT'],
+  FunctionalGroupPointer: [0x00209167, 'AT'],
+  DimensionDescriptionLabel: [0x00209421, 'LO'],
+  FrameContentSequence: [0x00209111, 'SQ'],
+  PlanePositionSequence: [0x00209113, 'SQ'],
+  PlaneOrientationSequence: [0x00209116, 'SQ'],
+  DimensionIndexValues: [0x00209157, 'UL'],
+  SamplesPerPixel: [0x00280002, 'US'],
+  PhotometricInterpretation: [0x00280004, 'CS'],
+  NumberOfFrames: [0x00280008, 'IS'],
+  Rows: [0x00280010, 'US'],
+  Columns: [0x00280011, 'US'],
+  PixelSpacing: [0x00280030, 'DS'],
+  BitsAllocated: [0x00280100, 'US'],
+  BitsStored: [0x00280101, 'US'],
+  HighBit: [0x00280102, 'US'],
+  PixelRepresentation: [0x00280103, 'US'],
+  LossyImageCompression: [0x00282110, 'CS'],
+  PixelMeasuresSequence: [0x00289110, 'SQ'],
+  PurposeOfReferenceCodeSequence: [0x0040a170, 'SQ'],
+  RelationshipType: [0x0040a010, 'CS'],
+  ValueType: [0x0040a040, 'CS'],
+  ConceptNameCodeSequence: [0x0040a043, 'SQ'],
+  ContinuityOfContent: [0x0040a050, 'CS'],
+  UID: [0x0040a124, 'UI'],
+  TextValue: [0x0040a160, 'UT'],
+  ConceptCodeSequence: [0x0040a168, 'SQ'],
+  CompletionFlag: [0x0040a491, 'CS'],
+  VerificationFlag: [0x0040a493, 'CS'],
+  ContentTemplateSequence: [0x0040a504, 'SQ'],
+  TemplateIdentifier: [0x0040db00, 'CS'],
+  MeasuredValueSequence: [0x0040a300, 'SQ'],
+  NumericValue: [0x0040a30a, 'DS'],
+  MeasurementUnitsCodeSequence: [0x004008ea, 'SQ'],
+  CurrentRequestedProcedureEvidenceSequence: [0x0040a375, 'SQ'],
+  PerformedProcedureCodeSequence: [0x0040a372, 'SQ'],
+  ContentSequence: [0x0040a730, 'SQ'],
+  SegmentedPropertyCategoryCodeSequence: [0x00620003, 'SQ'],
+  SegmentNumber: [0x00620004, 'US'],
+  SegmentLabel: [0x00620005, 'LO'],
+  SegmentAlgorithmType: [0x00620008, 'CS'],
+  SegmentAlgorithmName: [0x00620009, 'LO'],
+  SegmentIdentificationSequence: [0x0062000a, 'SQ'],
+  ReferencedSegmentNumber: [0x0062000b, 'US'],
+  RecommendedDisplayCIELabValue: [0x0062000d, 'US'],
+  SegmentsOverlap: [0x00620013, 'CS'],
+  SegmentSequence: [0x00620002, 'SQ'],
+  SegmentationType: [0x00620001, 'CS'],
+  SegmentedPropertyTypeCodeSequence: [0x0062000f, 'SQ'],
+  ContentLabel: [0x00700080, 'CS'],
+  ContentDescription: [0x00700081, 'LO'],
+  ContentCreatorName: [0x00700084, 'PN'],
+  SharedFunctionalGroupsSequence: [0x52009229, 'SQ'],
+  PerFrameFunctionalGroupsSequence: [0x52009230, 'SQ'],
+  PixelData: [0x7fe00010, 'OB'],
+} as const satisfies Record<string, readonly [number, Vr]>;
+
+export type DicomKeyword = keyof typeof DICTIONARY;
+export type DicomValue = string | number | (string | number)[] | Uint8Array | DicomDataset[] | null;
+export type DicomDataset = Partial<Record<DicomKeyword, DicomValue>>;
+
+export const TAG_OF = Object.fromEntries(Object.entries(DICTIONARY).map(([keyword, [tag]]) => [keyword, tag])) as Record<DicomKeyword, number>;
+
+export const EXPLICIT_VR_LITTLE_ENDIAN = '1.2.840.10008.1.2.1';
+const IMPLEMENTATION_CLASS_UID = '2.25.49164960326031787600408078988366738879';
+const IMPLEMENTATION_VERSION = 'LUNGSCAPE_1';
+
+// VRs whose header uses 2 reserved bytes and a 32-bit length
+const LONG_LENGTH_VRS = new Set<Vr>(['OB', 'SQ', 'UT']);
+const ITEM = 0xfffee000;
+
+const encoder = new TextEncoder();
+
+/** A new UID under the 2.25 (UUID-derived) root. */
+export const createUid = () => `2.25.${BigInt(`0x${crypto.randomUUID().replace(/-/g, '')}`).toString()}`;
+
+/** DICOM DA and TM of a moment, in local time. */
+export const dicomDateTime = (date = new Date()) => {
+  const pad = (v: number, n = 2) => String(v).padStart(n, '0');
+  return {
+    date: `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`,
+    time: `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`,
+  };
+};
+
+// Decimal strings are limited to 16 characters
+const formatDS = (v: number) => {
+  if (!Number.isFinite(v)) throw new Error(`Cannot write ${v} as a DICOM decimal string.`);
+  for (let digits = 10; digits > 0; digits--) {
+    const text = String(Number(v.toPrecision(digits)));
+    if (text.length <= 16) return text;
+  }
+  return v.toExponential(4);
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const encodeValue = (vr: Vr, value: Exclude<DicomValue, DicomDataset[]>): Uint8Array => {
+  if (value === null) return new Uint8Array(0);
+  if (value instanceof Uint8Array) return value.length % 2 ? concat([value, new Uint8Array(1)]) : value;
+  const values = Array.isArray(value) ? value : [value];
+
+  if (vr === 'US' || vr === 'UL' || vr === 'FD' || vr === 'AT') {
+    const size = vr === 'US' ? 2 : vr === 'FD' ? 8 : 4;
+    const view = new DataView(new ArrayBuffer(values.length * size));
+    values.forEach((v, n) => {
+      const x = Number(v);
+      if (vr === 'US') view.setUint16(n * 2, x, true);
+      else if (vr === 'UL') view.setUint32(n * 4, x, true);
+      else if (vr === 'FD') view.setFloat64(n * 8, x, true);
+      else {
+        view.setUint16(n * 4, x >>> 16, true);
+        view.setUint16(n * 4 + 2, x & 0xffff, true);
+      }
+    });
+    return new Uint8Array(view.buffer);
+  }
+
+  const text = values
+    .map(v => (typeof v === 'number' ? (vr === 'DS' ? formatDS(v) : String(Math.round(v))) : v))
+    .join('\\');
+  const bytes = encoder.encode(text);
+  if (bytes.length % 2 === 0) return bytes;
+  return concat([bytes, new Uint8Array([vr === 'UI' ? 0 : 0x20])]);
+};
+
+const header = (tag: number, vr: Vr, length: number) => {
+  const long = LONG_LENGTH_VRS.has(vr);
+  const view = new DataView(new ArrayBuffer(long ? 12 : 8));
+  view.setUint16(0, tag >>> 16, true);
+  view.setUint16(2, tag & 0xffff, true);
+  view.setUint8(4, vr.charCodeAt(0));
+  view.setUint8(5, vr.charCodeAt(1));
+  if (long) view.setUint32(8, length, true);
+  else {
+    if (length > 0xffff) throw new Error(`Value of ${vr} element (${(tag >>> 16).toString(16)},${(tag & 0xffff).toString(16)}) is too long.`);
+    view.setUint16(6, length, true);
+  }
+  return new Uint8Array(view.buffer);
+};
+
+const encodeElements = (dataset: DicomDataset): Uint8Array[] => {
+  const parts: Uint8Array[] = [];
+  const keywords = (Object.keys(dataset) as DicomKeyword[])
+    .filter(keyword => dataset[keyword] !== undefined)
+    .sort((a, b) => DICTIONARY[a][0] - DICTIONARY[b][0]);
+  for (const keyword of keywords) {
+    const [tag, vr] = DICTIONARY[keyword];
+    const value = dataset[keyword]!;
+    if (vr === 'SQ') {
+      const items = (value ?? []) as DicomDataset[];
+      const encodedItems = items.map(item => {
+        const body = concat(encodeElements(item));
+        const itemHeader = new DataView(new ArrayBuffer(8));
+        itemHeader.setUint16(0, ITEM >>> 16, true);
+        itemHeader.setUint16(2, ITEM & 0xffff, true);
+        itemHeader.setUint32(4, body.length, true);
+        return concat([new Uint8Array(itemHeader.buffer), body]);
+      });
+      parts.push(header(tag, vr, encodedItems.reduce((sum, item) => sum + item.length, 0)), ...encodedItems);
+    } else {
+      const bytes = encodeValue(vr, value as Exclude<DicomValue, DicomDataset[]>);
+      parts.push(header(tag, vr, bytes.length), bytes);
+    }
+  }
+  return parts;
+};
+
+/** Part 10 file of the dataset: preamble, file meta information, then the dataset. */
+export const writeDicomFile = (dataset: DicomDataset): Uint8Array => {
+  const sopClassUID = dataset.SOPClassUID;
+  const sopInstanceUID = dataset.SOPInstanceUID;
+  if (typeof sopClassUID !== 'string' || typeof sopInstanceUID !== 'string') {
+    throw new Error('A DICOM file needs SOPClassUID and SOPInstanceUID.');
+  }
+  const meta = concat(encodeElements({
+    FileMetaInformationVersion: new Uint8Array([0, 1]),
+    MediaStorageSOPClassUID: sopClassUID,
+    MediaStorageSOPInstanceUID: sopInstanceUID,
+    TransferSyntaxUID: EXPLICIT_VR_LITTLE_ENDIAN,
+    ImplementationClassUID: IMPLEMENTATION_CLASS_UID,
+    ImplementationVersionName: IMPLEMENTATION_VERSION,
+  }));
+  const preamble = new Uint8Array(132);
+  preamble.set(encoder.encode('DICM'), 128);
+  return concat([
+    preamble,
+    ...encodeElements({ FileMetaInformationGroupLength: meta.length }),
+    meta,
+    ...encodeElements(dataset),
+  ]);
+};
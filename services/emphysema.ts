@@ -0,0 +1,127 @@
+import {
+  CTVolume, EmphysemaAnalysis, LobeKey, LobeSegmentation, LungFinding, LungLabel, LungMetrics,
+  LungSegmentation, Vec3
+} from "../types";
+import { labelComponents } from "./maskUtils";
+import { EMPHYSEMA_THRESHOLD_HU } from "./lungMetrics";
+import { LOBE_KEYS, LOBE_KEY_BY_LABEL } from "./lobeSegmentation";
+import { voxelToPatient, voxelVolumeMl } from "./volumeUtils";
+
+// Smallest low-attenuation cluster reported as a bulla (~12 mm equivalent diameter);
+// smaller clusters are mostly image noise or centrilobular emphysema
+export const MIN_BULLA_ML = 1.0;
+
+const round = (v: number, digits = 1) => Math.round(v * 10 ** digits) / 10 ** digits;
+
+interface ClusterStats {
+  count: number;
+  sumHU: number;
+  si: number; sj: number; sk: number;
+  min: Vec3;
+  max: Vec3;
+  rightVoxels: number;
+  lobeVotes: Map<number, number>;
+}
+
+/**
+ * Bulla clusters: 6-connected clusters of lung voxels below -950 HU that are at
+ * least MIN_BULLA_ML in volume. `bullaIds` lists their component IDs in
+ * `clusterOf`, largest first, which is the order of EmphysemaAnalysis.bullae.
+ */
+export const findBullaClusters = (volume: CTVolume, segmentation: LungSegmentation) => {
+  const { labels } = segmentation;
+  const lowAttenuation = new Uint8Array(labels.length);
+  let lungVoxels = 0, lowVoxels = 0;
+  for (let p = 0; p < labels.length; p++) {
+    if (labels[p] !== LungLabel.RIGHT_LUNG && labels[p] !== LungLabel.LEFT_LUNG) continue;
+    lungVoxels++;
+    if (volume.data[p] < EMPHYSEMA_THRESHOLD_HU) {
+      lowAttenuation[p] = 1;
+      lowVoxels++;
+    }
+  }
+
+  const { labels: clusterOf, sizes } = labelComponents(lowAttenuation, segmentation.dimensions);
+  const minVoxels = Math.ceil(MIN_BULLA_ML / voxelVolumeMl(segmentation.spacing));
+  const bullaIds = sizes
+    .map((size, id) => ({ size, id }))
+    .filter(({ size, id }) => id > 0 && size >= minVoxels)
+    .sort((a, b) => b.size - a.size)
+    .map(({ id }) => id);
+  return { clusterOf, bullaIds, lungVoxels, lowVoxels };
+};
+
+/** LAA%-950 per lung and lobe, plus the bullae found by findBullaClusters. */
+export const analyzeEmphysema = (
+  volume: CTVolume,
+  segmentation: LungSegmentation,
+  lobes: LobeSegmentation,
+  metrics: LungMetrics
+): EmphysemaAnalysis => {
+  const [nx, ny] = segmentation.dimensions;
+  const { labels } = segmentation;
+  const voxelMl = voxelVolumeMl(segmentation.spacing);
+  const { clusterOf, bullaIds, lungVoxels, lowVoxels } = findBullaClusters(volume, segmentation);
+
+  const stats = new Map<number, ClusterStats>();
+  for (const id of bullaIds) {
+    stats.set(id, {
+      count: 0, sumHU: 0, si: 0, sj: 0, sk: 0,
+      min: [Infinity, Infinity, Infinity], max: [-Infinity, -Infinity, -Infinity],
+      rightVoxels: 0, lobeVotes: new Map(),
+    });
+  }
+
+  if (stats.size > 0) {
+    for (let p = 0; p < clusterOf.length; p++) {
+      const cluster = clusterOf[p] ? stats.get(clusterOf[p]) : undefined;
+      if (!cluster) continue;
+      const i = p % nx, j = ((p - i) / nx) % ny, k = Math.floor(p / (nx * ny));
+      cluster.count++;
+      cluster.sumHU += volume.data[p];
+      cluster.si += i; cluster.sj += j; cluster.sk += k;
+      [i, j, k].forEach((c, a) => {
+        if (c < cluster.min[a]) cluster.min[a] = c;
+        if (c > cluster.max[a]) cluster.max[a] = c;
+      });
+      if (labels[p] === LungLabel.RIGHT_LUNG) cluster.rightVoxels++;
+      const lobe = lobes.labels[p];
+      if (lobe) cluster.lobeVotes.set(lobe, (cluster.lobeVotes.get(lobe) ?? 0) + 1);
+    }
+  }
+
+  const half = segmentation.spacing.map(s => s / 2);
+  const bullae: LungFinding[] = [...stats.values()]
+    .map((c, n) => {
+      // Voxel bounds grown by half a voxel so the box encloses the voxels, not their centres
+      const corners = [voxelToPatient(segmentation, ...c.min), voxelToPatient(segmentation, ...c.max)];
+      const min = [0, 1, 2].map(a => Math.min(corners[0][a], corners[1][a]) - half[a]) as Vec3;
+      const max = [0, 1, 2].map(a => Math.max(corners[0][a], corners[1][a]) + half[a]) as Vec3;
+      let lobeLabel = 0, lobeCount = 0;
+      c.lobeVotes.forEach((count, label) => { if (count > lobeCount) { lobeLabel = label; lobeCount = count; } });
+      return {
+        id: `bulla-${n + 1}`,
+        kind: 'bulla',
+        centroid: voxelToPatient(segmentation, c.si / c.count, c.sj / c.count, c.sk / c.count),
+        volumeMl: round(c.count * voxelMl, 2),
+        boundingBox: { min, max },
+        maxExtentMm: round(Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2])),
+        meanHU: Math.round(c.sumHU / c.count),
+        lung: c.rightVoxels * 2 >= c.count ? 'right' : 'left',
+        lobe: LOBE_KEY_BY_LABEL[lobeLabel] ?? null,
+      };
+    });
+
+  const density = metrics.density;
+  return {
+    thresholdHU: EMPHYSEMA_THRESHOLD_HU,
+    laa: {
+      wholeLung: round(lungVoxels ? (lowVoxels / lungVoxels) * 100 : 0),
+      rightLung: round(density?.rightLung.percentBelow950 ?? 0),
+      leftLung: round(density?.leftLung.percentBelow950 ?? 0),
+      lobes: Object.fromEntries(LOBE_KEYS.map(key => [key, round(density?.lobes[key].percentBelow950 ?? 0)])) as Record<LobeKey, number>,
+    },
+    minBullaVolumeMl: MIN_BULLA_ML,
+    bullae,
+  };
+};
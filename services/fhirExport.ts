@@ -0,0 +1,276 @@
+import { DicomPatientInfo, LobeKey, MetricKey, PatientCase, QCCheck, QCCheckKey, RegionDensity, TimePoint } from "../types";
+import { SchemaError, validateJson } from "./jsonSchema";
+import { FHIR_R4_SCHEMA } from "./fhirSchema";
+import { LOBE_KEYS } from "./lobeSegmentation";
+
+/**
+ * FHIR R4 export of one timepoint's results as a transaction Bundle: the patient
+ * (created only if no patient with the case ID exists), an Observation per
+ * metric, per lobe and per quality check, and a DiagnosticReport that lists
+ * them and carries the AI summary, when one was generated, as its presented
+ * form. Quantities use UCUM; anatomy uses SNOMED CT. The metrics themselves
+ * have no standard LOINC codes, so they are coded in the app's own code system.
+ */
+
+const UCUM = 'http://unitsofmeasure.org';
+const SNOMED = 'http://snomed.info/sct';
+const LOINC = 'http://loinc.org';
+const METRIC_CODES = 'urn:lungscape:metric';
+const CASE_IDENTIFIERS = 'urn:lungscape:case';
+const OBSERVATION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const DIAGNOSTIC_SERVICE = 'http://terminology.hl7.org/CodeSystem/v2-0074';
+const INTERPRETATION = 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation';
+const DATA_ABSENT = 'http://terminology.hl7.org/CodeSystem/data-absent-reason';
+
+// --- Resource shapes, as far as the export writes them ---
+
+export interface FhirCoding { system?: string; code?: string; display?: string }
+export interface FhirCodeableConcept { coding?: FhirCoding[]; text?: string }
+export interface FhirQuantity { value: number; unit: string; system: typeof UCUM; code: string }
+export interface FhirReference { reference: string; display?: string }
+export interface FhirAnnotation { text: string }
+
+export interface FhirObservation {
+  resourceType: 'Observation';
+  status: 'final' | 'preliminary';
+  category: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject: FhirReference;
+  effectiveDateTime: string;
+  issued: string;
+  valueQuantity?: FhirQuantity;
+  dataAbsentReason?: FhirCodeableConcept;
+  interpretation?: FhirCodeableConcept[];
+  bodySite?: FhirCodeableConcept;
+  method?: FhirCodeableConcept;
+  note?: FhirAnnotation[];
+  component?: { code: FhirCodeableConcept; valueQuantity: FhirQuantity }[];
+}
+
+export interface FhirPatient {
+  resourceType: 'Patient';
+  identifier: { system: string; value: string }[];
+  name?: { text: string }[];
+  gender?: 'male' | 'female' | 'other' | 'unknown';
+  birthDate?: string;
+}
+
+export interface FhirDiagnosticReport {
+  resourceType: 'DiagnosticReport';
+  status: 'final' | 'preliminary';
+  category: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject: FhirReference;
+  effectiveDateTime: string;
+  issued: string;
+  result: FhirReference[];
+  conclusion?: string;
+  presentedForm?: { contentType: string; language: string; data: string; title: string }[];
+}
+
+export type FhirResource = FhirPatient | FhirObservation | FhirDiagnosticReport;
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: 'transaction';
+  timestamp: string;
+  entry: { fullUrl: string; resource: FhirResource; request: { method: 'POST'; url: string; ifNoneExist?: string } }[];
+}
+
+export interface FhirExportInput {
+  patientCase: PatientCase;
+  timePoint: TimePoint;
+  summary: string | null;            // AI summary text, when one was generated
+  dicomPatient?: DicomPatientInfo;   // Demographics from the scan, when it was DICOM
+}
+
+// --- Codes and units ---
+
+const metricCode = (code: string, display: string): FhirCodeableConcept => ({ coding: [{ system: METRIC_CODES, code, display }], text: display });
+
+const quantity = (value: number, unit: string, code = unit): FhirQuantity => ({ value, unit, system: UCUM, code });
+
+const ML = (value: number) => quantity(value, 'mL');
+const PERCENT = (value: number) => quantity(value, '%');
+const HU = (value: number) => quantity(value, 'HU', "[hnsf'U]");
+const SCORE = (value: number) => quantity(value, 'score', '{score}');
+
+const bodySite = (code: string, display: string): FhirCodeableConcept => ({ coding: [{ system: SNOMED, code, display }], text: display });
+
+const LUNGS = bodySite('39607008', 'Lung structure');
+const LUNG_SITES = { right: bodySite('3341006', 'Right lung'), left: bodySite('44029006', 'Left lung') };
+const LOBE_SITES: Record<LobeKey, FhirCodeableConcept> = {
+  rul: bodySite('45653009', 'Right upper lobe of lung'),
+  rml: bodySite('72481006', 'Right middle lobe of lung'),
+  rll: bodySite('266005', 'Right lower lobe of lung'),
+  lul: bodySite('44714003', 'Left upper lobe of lung'),
+  lll: bodySite('41224006', 'Left lower lobe of lung'),
+};
+
+const IMAGING: FhirCodeableConcept[] = [{ coding: [{ system: OBSERVATION_CATEGORY, code: 'imaging', display: 'Imaging' }] }];
+
+const QC_UNITS: Record<QCCheckKey, (value: number) => FhirQuantity> = {
+  sliceThickness: v => quantity(v, 'mm'),
+  sliceSpacing: v => quantity(v, 'mm'),
+  missingSlices: v => quantity(v, 'slices', '{slices}'),
+  coverage: PERCENT,
+  motion: SCORE,
+  contrast: PERCENT,
+  huCalibration: HU,
+};
+
+const INTERPRETATIONS: Record<QCCheck['severity'], FhirCodeableConcept> = {
+  pass: { coding: [{ system: INTERPRETATION, code: 'N', display: 'Normal' }] },
+  warning: { coding: [{ system: INTERPRETATION, code: 'A', display: 'Abnormal' }] },
+  fail: { coding: [{ system: INTERPRETATION, code: 'AA', display: 'Critical abnormal' }] },
+};
+
+const NOT_PERFORMED: FhirCodeableConcept = { coding: [{ system: DATA_ABSENT, code: 'not-performed', display: 'Not Performed' }] };
+
+const GENDERS: Record<string, FhirPatient['gender']> = { M: 'male', F: 'female', O: 'other' };
+
+// DICOM DA "YYYYMMDD" -> FHIR date
+const fhirDate = (da: string) => (/^\d{8}$/.test(da) ? `${da.slice(0, 4)}-${da.slice(4, 6)}-${da.slice(6, 8)}` : undefined);
+
+const base64Utf8 = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let n = 0; n < bytes.length; n += 0x8000) binary += String.fromCharCode(...bytes.subarray(n, n + 0x8000));
+  return btoa(binary);
+};
+
+const round = (v: number, digits = 2) => Math.round(v * 10 ** digits) / 10 ** digits;
+
+// --- Bundle ---
+
+/** Transaction Bundle of the timepoint's metrics, QC checks and report. */
+export const buildFhirBundle = ({ patientCase, timePoint, summary, dicomPatient }: FhirExportInput): FhirBundle => {
+  const { metrics } = timePoint;
+  const issued = new Date().toISOString();
+  const status = timePoint.analysisStatus === 'completed' ? 'final' : 'preliminary';
+  const patientUrl = `urn:uuid:${crypto.randomUUID()}`;
+  const subject: FhirReference = { reference: patientUrl, display: patientCase.name };
+
+  // QC findings are noted on each metric they bear on
+  const flagged = (metrics.qc?.checks ?? []).filter(check => check.severity !== 'pass');
+  const qcNotes = (key: MetricKey): FhirAnnotation[] => flagged
+    .filter(check => check.affects.includes(key))
+    .map(check => ({ text: `Quality check ${check.severity} (${check.label}, ${check.scan} scan): ${check.detail}` }));
+
+  const observation = (code: FhirCodeableConcept, extra: Partial<FhirObservation>): FhirObservation => ({
+    resourceType: 'Observation',
+    status,
+    category: IMAGING,
+    code,
+    subject,
+    effectiveDateTime: timePoint.date,
+    issued,
+    ...extra,
+  });
+
+  // Observation with a single value, or the reason it has none
+  const valued = (code: FhirCodeableConcept, value: FhirQuantity | null, extra: Partial<FhirObservation> = {}) =>
+    observation(code, { ...(value ? { valueQuantity: value } : { dataAbsentReason: NOT_PERFORMED }), ...extra });
+
+  // A metric Observation, absent-valued when its provenance says it was not measured
+  const metric = (key: MetricKey, code: FhirCodeableConcept, value: FhirQuantity, extra: Partial<FhirObservation> = {}) => {
+    const provenance = metrics.provenance?.[key];
+    const notes = [...(provenance && !provenance.measured ? [{ text: provenance.description }] : []), ...qcNotes(key)];
+    return valued(code, provenance?.measured === false ? null : value, {
+      ...(provenance ? { method: { text: `${provenance.description} (${provenance.algorithm})` } } : {}),
+      ...(notes.length ? { note: notes } : {}),
+      ...extra,
+    });
+  };
+
+  const density = (site: FhirCodeableConcept, region: RegionDensity) => observation(metricCode('lung-density', 'Lung density'), {
+    bodySite: site,
+    component: [
+      { code: metricCode('region-volume', 'Region volume'), valueQuantity: ML(round(region.volumeMl, 1)) },
+      { code: metricCode('mean-attenuation', 'Mean attenuation'), valueQuantity: HU(round(region.meanHU, 1)) },
+      { code: metricCode('laa-856', 'Low attenuation area below -856 HU'), valueQuantity: PERCENT(round(region.percentBelow856)) },
+      { code: metricCode('laa-950', 'Low attenuation area below -950 HU'), valueQuantity: PERCENT(round(region.percentBelow950)) },
+    ],
+    ...(qcNotes('airTrapping').length ? { note: qcNotes('airTrapping') } : {}),
+  });
+
+  const perLobe = (values: Record<LobeKey, number> | undefined, build: (key: LobeKey, value: number) => FhirObservation) =>
+    values ? LOBE_KEYS.map(key => build(key, values[key])) : [];
+
+  const observations: FhirObservation[] = [
+    metric('totalVolume', metricCode('total-lung-volume', 'Total lung volume'), ML(metrics.totalVolume), { bodySite: LUNGS }),
+    metric('expansionRatio', metricCode('expansion-ratio', 'Expansion ratio'), quantity(round(metrics.expansionRatio, 3), 'ratio', '1'), { bodySite: LUNGS }),
+    metric('stiffnessIndex', metricCode('stiffness-index', 'Stiffness index (0-10)'), SCORE(round(metrics.stiffnessIndex)), { bodySite: LUNGS }),
+    metric('airTrapping', metricCode('air-trapping', 'Air trapping'), PERCENT(round(metrics.airTrapping)), { bodySite: LUNGS }),
+    ...perLobe(metrics.lobeVolumes, (key, v) =>
+      metric('lobeVolumes', metricCode('lobe-volume', 'Lobe volume'), ML(v), { bodySite: LOBE_SITES[key] })),
+    ...perLobe(metrics.gasTrappingLobes, (key, v) =>
+      metric('airTrapping', metricCode('air-trapping', 'Air trapping'), PERCENT(round(v)), { bodySite: LOBE_SITES[key] })),
+    ...perLobe(metrics.stiffnessLobes, (key, v) =>
+      metric('stiffnessIndex', metricCode('stiffness-index', 'Stiffness index (0-10)'), SCORE(round(v)), { bodySite: LOBE_SITES[key] })),
+    ...(metrics.density
+      ? [
+        density(LUNG_SITES.right, metrics.density.rightLung),
+        density(LUNG_SITES.left, metrics.density.leftLung),
+        ...LOBE_KEYS.map(key => density(LOBE_SITES[key], metrics.density!.lobes[key])),
+      ]
+      : []),
+    ...(metrics.qc?.checks ?? []).map(check => valued(
+      metricCode(`qc-${check.key}`, `Image quality: ${check.label}`),
+      check.measured === null ? null : QC_UNITS[check.key](check.measured),
+      {
+        interpretation: [INTERPRETATIONS[check.severity]],
+        note: [{ text: `${check.scan === 'inspiratory' ? 'Inspiratory' : 'Expiratory'} scan: ${check.detail}` }],
+      }
+    )),
+  ];
+
+  const patient: FhirPatient = {
+    resourceType: 'Patient',
+    identifier: [{ system: CASE_IDENTIFIERS, value: patientCase.id }],
+    name: [{ text: dicomPatient?.patientName.replace(/\^/g, ' ').trim() || patientCase.name }],
+    ...(dicomPatient && GENDERS[dicomPatient.sex] ? { gender: GENDERS[dicomPatient.sex] } : {}),
+    ...(dicomPatient && fhirDate(dicomPatient.birthDate) ? { birthDate: fhirDate(dicomPatient.birthDate) } : {}),
+  };
+
+  const observationEntries = observations.map(resource => ({
+    fullUrl: `urn:uuid:${crypto.randomUUID()}`,
+    resource,
+    request: { method: 'POST' as const, url: 'Observation' },
+  }));
+
+  const report: FhirDiagnosticReport = {
+    resourceType: 'DiagnosticReport',
+    status,
+    category: [{ coding: [{ system: DIAGNOSTIC_SERVICE, code: 'RAD', display: 'Radiology' }] }],
+    code: { coding: [{ system: LOINC, code: '24627-2', display: 'CT Chest' }], text: `Quantitative lung CT (${timePoint.label})` },
+    subject,
+    effectiveDateTime: timePoint.date,
+    issued,
+    result: observationEntries.map(entry => ({ reference: entry.fullUrl })),
+    ...(summary
+      ? {
+        conclusion: summary,
+        presentedForm: [{ contentType: 'text/plain; charset=utf-8', language: 'en', data: base64Utf8(summary), title: 'AI summary' }],
+      }
+      : {}),
+  };
+
+  return {
+    resourceType: 'Bundle',
+    type: 'transaction',
+    timestamp: issued,
+    entry: [
+      { fullUrl: patientUrl, resource: patient, request: { method: 'POST', url: 'Patient', ifNoneExist: `identifier=${CASE_IDENTIFIERS}|${patientCase.id}` } },
+      ...observationEntries,
+      { fullUrl: `urn:uuid:${crypto.randomUUID()}`, resource: report, request: { method: 'POST', url: 'DiagnosticReport' } },
+    ],
+  };
+};
+
+/** Ways the bundle breaks the bundled FHIR R4 schema; empty when it conforms. */
+export const validateFhirBundle = (bundle: unknown): SchemaError[] => validateJson(bundle, FHIR_R4_SCHEMA);
+
+/** File name for a timepoint's export, e.g. "PT-1234-2026-03-01-fhir.json". */
+export const fhirFileName = (patientCase: PatientCase, timePoint: TimePoint) =>
+  `${patientCase.id.replace(/[^\w.-]/g, '_')}-${timePoint.date}-fhir.json`;
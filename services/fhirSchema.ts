@@ -0,0 +1,127 @@
+import { JsonSchema } from "./jsonSchema";
+
+/**
+ * The part of the FHIR R4 (4.0.1) JSON Schema that covers what the FHIR export
+ * writes: a Bundle of Patient, Observation and DiagnosticReport resources.
+ * Definitions follow hl7.org/fhir/R4/fhir.schema.json (same names, primitive
+ * patterns and closed objects), with elements the export never writes left out,
+ * and with required elements added from the resources' cardinalities. Kept in
+ * the app so exports can be checked offline.
+ */
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/definitions/${name}` });
+const list = (name: string): JsonSchema => ({ type: 'array', items: ref(name) });
+
+// Every element may carry an id and extensions; the export uses neither, so they are left out
+const element = (properties: Record<string, JsonSchema>, required: string[] = []): JsonSchema => ({
+  type: 'object',
+  properties,
+  additionalProperties: false,
+  ...(required.length ? { required } : {}),
+});
+
+const resource = (resourceType: string, properties: Record<string, JsonSchema>, required: string[] = []): JsonSchema =>
+  element({ resourceType: { const: resourceType }, id: ref('id'), meta: ref('Meta'), ...properties }, ['resourceType', ...required]);
+
+const YEAR = '([0-9]([0-9]([0-9][1-9]|[1-9]0)|[1-9]00)|[1-9]000)';
+const TIME = 'T([01][0-9]|2[0-3]):[0-5][0-9]:([0-5][0-9]|60)(\\.[0-9]+)?(Z|(\\+|-)((0[0-9]|1[0-3]):[0-5][0-9]|14:00))';
+
+export const FHIR_R4_SCHEMA: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-06/schema#',
+  $id: 'http://hl7.org/fhir/json-schema/4.0#lungscape-subset',
+  description: 'Subset of the FHIR R4 JSON schema covering the resources written by the LungScape FHIR export.',
+  ...ref('Bundle'),
+  definitions: {
+    // --- Primitives ---
+    id: { type: 'string', pattern: '^[A-Za-z0-9\\-\\.]{1,64}$' },
+    uri: { type: 'string', pattern: '^\\S*$' },
+    code: { type: 'string', pattern: '^[^\\s]+(\\s[^\\s]+)*$' },
+    string: { type: 'string', pattern: '^[ \\r\\n\\t\\S]+$' },
+    markdown: { type: 'string', pattern: '^[ \\r\\n\\t\\S]+$' },
+    decimal: { type: 'number' },
+    boolean: { type: 'boolean' },
+    date: { type: 'string', pattern: `^${YEAR}(-(0[1-9]|1[0-2])(-(0[1-9]|[1-2][0-9]|3[0-1]))?)?$` },
+    dateTime: { type: 'string', pattern: `^${YEAR}(-(0[1-9]|1[0-2])(-(0[1-9]|[1-2][0-9]|3[0-1])(${TIME})?)?)?$` },
+    instant: { type: 'string', pattern: `^${YEAR}-(0[1-9]|1[0-2])-(0[1-9]|[1-2][0-9]|3[0-1])${TIME}$` },
+    base64Binary: { type: 'string', pattern: '^(\\s*([0-9a-zA-Z\\+/=]){4}\\s*)+$' },
+
+    // --- Data types ---
+    Meta: element({ profile: { type: 'array', items: ref('uri') }, tag: list('Coding') }),
+    Coding: element({ system: ref('uri'), version: ref('string'), code: ref('code'), display: ref('string') }),
+    CodeableConcept: element({ coding: list('Coding'), text: ref('string') }),
+    Quantity: element({
+      value: ref('decimal'),
+      comparator: { enum: ['<', '<=', '>=', '>'] },
+      unit: ref('string'),
+      system: ref('uri'),
+      code: ref('code'),
+    }),
+    Reference: element({ reference: ref('string'), type: ref('uri'), identifier: ref('Identifier'), display: ref('string') }),
+    Identifier: element({ use: { enum: ['usual', 'official', 'temp', 'secondary', 'old'] }, system: ref('uri'), value: ref('string') }),
+    HumanName: element({ use: { enum: ['usual', 'official', 'temp', 'nickname', 'anonymous', 'old', 'maiden'] }, text: ref('string') }),
+    Annotation: element({ authorString: ref('string'), time: ref('dateTime'), text: ref('markdown') }, ['text']),
+    Attachment: element({
+      contentType: ref('code'),
+      language: ref('code'),
+      data: ref('base64Binary'),
+      title: ref('string'),
+      creation: ref('dateTime'),
+    }),
+
+    // --- Resources ---
+    Bundle: resource('Bundle', {
+      type: { enum: ['document', 'message', 'transaction', 'transaction-response', 'batch', 'batch-response', 'history', 'searchset', 'collection'] },
+      timestamp: ref('instant'),
+      entry: list('Bundle_Entry'),
+    }, ['type']),
+    Bundle_Entry: element({ fullUrl: ref('uri'), resource: ref('ResourceList'), request: ref('Bundle_Request') }),
+    Bundle_Request: element({
+      method: { enum: ['GET', 'HEAD', 'POST', 'PUT', 'DELETE', 'PATCH'] },
+      url: ref('uri'),
+      ifNoneExist: ref('string'),
+    }, ['method', 'url']),
+    ResourceList: { oneOf: [ref('Patient'), ref('Observation'), ref('DiagnosticReport')] },
+
+    Patient: resource('Patient', {
+      identifier: list('Identifier'),
+      name: list('HumanName'),
+      gender: { enum: ['male', 'female', 'other', 'unknown'] },
+      birthDate: ref('date'),
+    }),
+    Observation: resource('Observation', {
+      identifier: list('Identifier'),
+      status: { enum: ['registered', 'preliminary', 'final', 'amended', 'corrected', 'cancelled', 'entered-in-error', 'unknown'] },
+      category: list('CodeableConcept'),
+      code: ref('CodeableConcept'),
+      subject: ref('Reference'),
+      effectiveDateTime: ref('dateTime'),
+      issued: ref('instant'),
+      valueQuantity: ref('Quantity'),
+      valueString: ref('string'),
+      dataAbsentReason: ref('CodeableConcept'),
+      interpretation: list('CodeableConcept'),
+      note: list('Annotation'),
+      bodySite: ref('CodeableConcept'),
+      method: ref('CodeableConcept'),
+      component: list('Observation_Component'),
+    }, ['status', 'code']),
+    Observation_Component: element({
+      code: ref('CodeableConcept'),
+      valueQuantity: ref('Quantity'),
+      dataAbsentReason: ref('CodeableConcept'),
+      interpretation: list('CodeableConcept'),
+    }, ['code']),
+    DiagnosticReport: resource('DiagnosticReport', {
+      identifier: list('Identifier'),
+      status: { enum: ['registered', 'partial', 'preliminary', 'final', 'amended', 'corrected', 'appended', 'cancelled', 'entered-in-error', 'unknown'] },
+      category: list('CodeableConcept'),
+      code: ref('CodeableConcept'),
+      subject: ref('Reference'),
+      effectiveDateTime: ref('dateTime'),
+      issued: ref('instant'),
+      result: list('Reference'),
+      conclusion: ref('string'),
+      presentedForm: list('Attachment'),
+    }, ['status', 'code']),
+  },
+};
@@ -0,0 +1,132 @@
+import {
+  BlockScoreMap, CTVolume, FibrosisAnalysis, LobeKey, LobeSegmentation, LungLabel, LungSegmentation, SurfaceMesh
+} from "../types";
+import { LOBE_KEYS, LOBE_KEY_BY_LABEL } from "./lobeSegmentation";
+import { createBlockGrid, sampleBlockScore } from "./volumeUtils";
+
+// Ground-glass / reticular attenuation band (HU)
+export const HAA_MIN_HU = -600;
+export const HAA_MAX_HU = -250;
+
+// Target edge length of a scoring block (mm)
+const BLOCK_MM = 10;
+// Blocks with less lung than this share are left unscored (pleura, mediastinum)
+const MIN_LUNG_FRACTION = 0.3;
+
+// Score = HAA_WEIGHT * HAA share + TEXTURE_WEIGHT * texture, each normalised to 0-1
+const HAA_WEIGHT = 0.75;
+const TEXTURE_WEIGHT = 0.25;
+// A block that is half high-attenuation tissue scores the full HAA term
+const HAA_SATURATION = 0.5;
+// Mean neighbour HU difference of parenchyma: ~20 HU is noise, ~100 HU is coarse reticulation
+const TEXTURE_FLOOR_HU = 20;
+const TEXTURE_RANGE_HU = 80;
+
+const round = (v: number, digits = 1) => Math.round(v * 10 ** digits) / 10 ** digits;
+const clamp01 = (v: number) => (v < 0 ? 0 : v > 1 ? 1 : v);
+
+/**
+ * Fibrosis score per ~1 cm block: the share of lung voxels in the -600..-250 HU band
+ * (ground glass, reticulation) combined with a texture term, the mean absolute HU
+ * difference between neighbouring parenchymal voxels. Vessels (above -250 HU) are
+ * left out of the texture term so they do not read as fibrosis.
+ */
+export const scoreFibrosis = (
+  volume: CTVolume,
+  segmentation: LungSegmentation,
+  lobes: LobeSegmentation
+): FibrosisAnalysis => {
+  const dims = segmentation.dimensions;
+  const [nx, ny, nz] = dims;
+  const nxy = nx * ny;
+  const { labels } = segmentation;
+  const data = volume.data;
+
+  const blockGrid = createBlockGrid(segmentation, BLOCK_MM);
+  const { blockVoxels, dimensions: blockDims } = blockGrid;
+  const [bx, by] = blockDims;
+  const blockCount = blockDims[0] * blockDims[1] * blockDims[2];
+  const lungCount = new Uint32Array(blockCount);
+  const haaCount = new Uint32Array(blockCount);
+  const textureSum = new Float64Array(blockCount);
+  const textureCount = new Uint32Array(blockCount);
+
+  let lungVoxels = 0, haaVoxels = 0;
+  const lobeLung = Object.fromEntries(LOBE_KEYS.map(key => [key, 0])) as Record<LobeKey, number>;
+  const lobeHaa = Object.fromEntries(LOBE_KEYS.map(key => [key, 0])) as Record<LobeKey, number>;
+
+  const isLung = (q: number) => labels[q] === LungLabel.RIGHT_LUNG || labels[q] === LungLabel.LEFT_LUNG;
+  for (let k = 0; k < nz; k++) {
+    for (let j = 0; j < ny; j++) {
+      for (let i = 0; i < nx; i++) {
+        const p = i + j * nx + k * nxy;
+        if (!isLung(p)) continue;
+        const b = Math.floor(i / blockVoxels[0]) + bx * (Math.floor(j / blockVoxels[1]) + by * Math.floor(k / blockVoxels[2]));
+        const hu = data[p];
+        const haa = hu >= HAA_MIN_HU && hu <= HAA_MAX_HU;
+        lungCount[b]++;
+        lungVoxels++;
+        const lobe = LOBE_KEY_BY_LABEL[lobes.labels[p]];
+        if (lobe) lobeLung[lobe]++;
+        if (haa) {
+          haaCount[b]++;
+          haaVoxels++;
+          if (lobe) lobeHaa[lobe]++;
+        }
+        // Texture: forward differences to parenchymal neighbours only
+        if (hu > HAA_MAX_HU) continue;
+        for (const q of [i < nx - 1 ? p + 1 : -1, j < ny - 1 ? p + nx : -1, k < nz - 1 ? p + nxy : -1]) {
+          if (q < 0 || !isLung(q) || data[q] > HAA_MAX_HU) continue;
+          textureSum[b] += Math.abs(data[q] - hu);
+          textureCount[b]++;
+        }
+      }
+    }
+  }
+
+  const fullBlock = blockVoxels[0] * blockVoxels[1] * blockVoxels[2];
+  const scores = new Float32Array(blockCount).fill(-1);
+  let weightedScore = 0;
+  for (let b = 0; b < blockCount; b++) {
+    if (lungCount[b] < fullBlock * MIN_LUNG_FRACTION) continue;
+    const haaTerm = clamp01(haaCount[b] / lungCount[b] / HAA_SATURATION);
+    const texture = textureCount[b] ? textureSum[b] / textureCount[b] : 0;
+    const textureTerm = clamp01((texture - TEXTURE_FLOOR_HU) / TEXTURE_RANGE_HU);
+    scores[b] = HAA_WEIGHT * haaTerm + TEXTURE_WEIGHT * textureTerm;
+    weightedScore += scores[b] * lungCount[b];
+  }
+  const scoredVoxels = Array.from(lungCount).reduce((sum, n, b) => sum + (scores[b] >= 0 ? n : 0), 0);
+
+  const map: BlockScoreMap = { ...blockGrid, scores };
+
+  return {
+    method: `${HAA_WEIGHT * 100}% share of lung voxels in ${HAA_MIN_HU}..${HAA_MAX_HU} HU + ${TEXTURE_WEIGHT * 100}% parenchymal texture, per ${BLOCK_MM} mm block`,
+    attenuationRangeHU: [HAA_MIN_HU, HAA_MAX_HU],
+    haaPercent: {
+      wholeLung: round(lungVoxels ? (haaVoxels / lungVoxels) * 100 : 0),
+      lobes: Object.fromEntries(LOBE_KEYS.map(key => [key, round(lobeLung[key] ? (lobeHaa[key] / lobeLung[key]) * 100 : 0)])) as Record<LobeKey, number>,
+    },
+    meanScore: round(scoredVoxels ? (weightedScore / scoredVoxels) * 100 : 0),
+    map,
+  };
+};
+
+/**
+ * Score for every vertex of a lung surface, sampled half a block inside the surface
+ * so it reflects the underlying parenchyma; 0 where no scored block is nearby.
+ */
+export const sampleFibrosisAtVertices = (map: BlockScoreMap, mesh: SurfaceMesh) => {
+  const inset = Math.min(...map.spacing) / 2;
+  const { positions, normals } = mesh;
+  const out = new Float32Array(positions.length / 3);
+  for (let v = 0; v < out.length; v++) {
+    const p = v * 3;
+    const score = sampleBlockScore(map, [
+      positions[p] - normals[p] * inset,
+      positions[p + 1] - normals[p + 1] * inset,
+      positions[p + 2] - normals[p + 2] * inset,
+    ]);
+    out[v] = Math.max(0, score);
+  }
+  return out;
+};
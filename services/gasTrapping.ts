@@ -0,0 +1,88 @@
+import {
+  CTVolume, DeformableRegistration, GasTrappingAnalysis, LobeKey, LobeSegmentation, LungLabel, LungSegmentation
+} from "../types";
+import { AIR_TRAPPING_THRESHOLD_HU } from "./lungMetrics";
+import { LOBE_KEYS, LOBE_KEY_BY_LABEL } from "./lobeSegmentation";
+import { mapFixedToMoving } from "./registration";
+import { createBlockGrid, patientToVoxel, voxelToPatient } from "./volumeUtils";
+
+// Edge length of a gas-trapping block on the inspiratory grid (mm)
+const BLOCK_MM = 15;
+// Blocks with less inspiratory lung than this share are left unmapped
+const MIN_LUNG_FRACTION = 0.3;
+
+const round = (v: number, digits = 1) => Math.round(v * 10 ** digits) / 10 ** digits;
+const isLung = (label: number) => label === LungLabel.RIGHT_LUNG || label === LungLabel.LEFT_LUNG;
+
+/**
+ * Gas trapping on the expiratory scan: the share of expiratory lung voxels below
+ * -856 HU. For the lobar breakdown and the block map, each inspiratory lung voxel
+ * is followed through the registration to its expiratory position, so the trapped
+ * share lines up with the inspiratory lobes and surfaces.
+ */
+export const analyzeGasTrapping = (
+  expVolume: CTVolume,
+  expSegmentation: LungSegmentation,
+  inspSegmentation: LungSegmentation,
+  inspLobes: LobeSegmentation,
+  registration: DeformableRegistration // Fixed = inspiratory, moving = expiratory
+): GasTrappingAnalysis => {
+  const [ex, ey, ez] = expSegmentation.dimensions;
+  const [nx, ny] = inspSegmentation.dimensions;
+
+  const blockGrid = createBlockGrid(inspSegmentation, BLOCK_MM);
+  const { blockVoxels, dimensions: blockDims } = blockGrid;
+  const [bx, by] = blockDims;
+  const blockCount = blockDims[0] * blockDims[1] * blockDims[2];
+  const blockOf = (i: number, j: number, k: number) =>
+    Math.floor(i / blockVoxels[0]) + bx * (Math.floor(j / blockVoxels[1]) + by * Math.floor(k / blockVoxels[2]));
+
+  let lungVoxels = 0, trappedVoxels = 0;
+  expSegmentation.labels.forEach((label, p) => {
+    if (!isLung(label)) return;
+    lungVoxels++;
+    if (expVolume.data[p] < AIR_TRAPPING_THRESHOLD_HU) trappedVoxels++;
+  });
+
+  // Inspiratory lung per block decides which blocks are worth mapping
+  const inspLungCount = new Uint32Array(blockCount);
+  const mappedCount = new Uint32Array(blockCount);
+  const trappedCount = new Uint32Array(blockCount);
+  const lobeLung = Object.fromEntries(LOBE_KEYS.map(key => [key, 0])) as Record<LobeKey, number>;
+  const lobeTrapped = Object.fromEntries(LOBE_KEYS.map(key => [key, 0])) as Record<LobeKey, number>;
+
+  inspSegmentation.labels.forEach((label, p) => {
+    if (!isLung(label)) return;
+    const i = p % nx, j = ((p - i) / nx) % ny, k = (p - i - j * nx) / (nx * ny);
+    const b = blockOf(i, j, k);
+    inspLungCount[b]++;
+
+    const [mi, mj, mk] = patientToVoxel(expSegmentation, mapFixedToMoving(registration, voxelToPatient(inspSegmentation, i, j, k))).map(Math.round);
+    if (mi < 0 || mj < 0 || mk < 0 || mi >= ex || mj >= ey || mk >= ez) return;
+    const q = mi + mj * ex + mk * ex * ey;
+    if (!isLung(expSegmentation.labels[q])) return;
+    const trapped = expVolume.data[q] < AIR_TRAPPING_THRESHOLD_HU;
+    mappedCount[b]++;
+    if (trapped) trappedCount[b]++;
+    const lobe = LOBE_KEY_BY_LABEL[inspLobes.labels[p]];
+    if (!lobe) return;
+    lobeLung[lobe]++;
+    if (trapped) lobeTrapped[lobe]++;
+  });
+
+  const fullBlock = blockVoxels[0] * blockVoxels[1] * blockVoxels[2];
+  const scores = new Float32Array(blockCount).fill(-1);
+  for (let b = 0; b < blockCount; b++) {
+    if (inspLungCount[b] < fullBlock * MIN_LUNG_FRACTION || mappedCount[b] === 0) continue;
+    scores[b] = trappedCount[b] / mappedCount[b];
+  }
+
+  return {
+    thresholdHU: AIR_TRAPPING_THRESHOLD_HU,
+    percent: {
+      wholeLung: round(lungVoxels ? (trappedVoxels / lungVoxels) * 100 : 0),
+      lobes: Object.fromEntries(LOBE_KEYS.map(key => [key, round(lobeLung[key] ? (lobeTrapped[key] / lobeLung[key]) * 100 : 0)])) as Record<LobeKey, number>,
+    },
+    map: { ...blockGrid, scores },
+  };
+};
@@ -5,39 +5,65 @@ import { LungMetrics, ViewMode } from "../types";
 // Here we assume process.env.API_KEY is available.
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
 
+// The stiffness index is only meaningful with its method, so prompts carry that too
+const stiffnessDefinition = (metrics: LungMetrics) => {
+  const source = metrics.provenance?.stiffnessIndex;
+  if (!source) return 'Index 0-10 (method not recorded).';
+  return source.measured ? `${source.description} (${source.algorithm}, ${source.units})` : 'Not measured for this scan.';
+};
+
+/** No summary could be generated; callers show nothing rather than store or export a stand-in. */
+export class SummaryUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SummaryUnavailableError';
+  }
+}
+
+const metricLines = (metrics: LungMetrics) => `
+    - Total Volume: ${metrics.totalVolume} mL
+    - Stiffness Index: ${metrics.stiffnessIndex}
+    - Expansion Ratio: ${metrics.expansionRatio}
+    - Air Trapping: ${metrics.airTrapping}%`;
+
+/**
+ * Summary of a scan's metrics, compared with an earlier scan when there is one.
+ * Throws SummaryUnavailableError when no API key is set or the model gives no text.
+ */
 export const analyzeLungProgression = async (
   currentMetrics: LungMetrics,
-  baselineMetrics: LungMetrics,
+  baselineMetrics: LungMetrics | null,
   mode: ViewMode
 ): Promise<string> => {
   if (!process.env.API_KEY) {
-    return "API Key not configured. Unable to generate AI insights.";
+    throw new SummaryUnavailableError("API Key not configured. Unable to generate AI insights.");
   }
 
   const modelId = "gemini-3-flash-preview";
   
   const systemInstruction = mode === ViewMode.DOCTOR
-    ? "You are a specialized medical AI assistant for pulmonologists. Analyze the provided longitudinal lung function metrics. Focus on structural changes, stiffness progression, and lobar volume loss. Use medical terminology (e.g., 'parenchymal compliance', 'fibrotic progression'). Be concise, data-driven, and objective. DO NOT provide a diagnosis. Limit to 3 bullet points."
+    ? "You are a specialized medical AI assistant for pulmonologists. Analyze the provided lung function metrics. Focus on structural changes, stiffness progression, and lobar volume loss. Use medical terminology (e.g., 'parenchymal compliance', 'fibrotic progression'). Be concise, data-driven, and objective. DO NOT provide a diagnosis. Limit to 3 bullet points, each written as '* **Title:** text'."
     : "You are a helpful medical assistant explaining lung health changes to a patient. Use simple, reassuring, and clear language. Avoid complex jargon. Explain what the changes in volume and stiffness mean for their breathing. Focus on how the lungs are moving. DO NOT provide a medical diagnosis. Limit to 3 short paragraphs.";
 
-  const prompt = `
+  const prompt = baselineMetrics ? `
     Compare the following lung metrics:
     
-    Baseline:
-    - Total Volume: ${baselineMetrics.totalVolume} mL
-    - Stiffness Index: ${baselineMetrics.stiffnessIndex}
-    - Expansion Ratio: ${baselineMetrics.expansionRatio}
-    - Air Trapping: ${baselineMetrics.airTrapping}%
+    Baseline:${metricLines(baselineMetrics)}
+
+    Current:${metricLines(currentMetrics)}
 
-    Current (Year 2):
-    - Total Volume: ${currentMetrics.totalVolume} mL
-    - Stiffness Index: ${currentMetrics.stiffnessIndex}
-    - Expansion Ratio: ${currentMetrics.expansionRatio}
-    - Air Trapping: ${currentMetrics.airTrapping}%
+    Stiffness Index definition: ${stiffnessDefinition(currentMetrics)}
 
     Provide an assessment of the progression.
+  ` : `
+    Summarize the following lung metrics from a single scan; there is no earlier scan to compare with:${metricLines(currentMetrics)}
+
+    Stiffness Index definition: ${stiffnessDefinition(currentMetrics)}
+
+    Provide an assessment of the current state.
   `;
 
+  let text: string | undefined;
   try {
     const response = await ai.models.generateContent({
       model: modelId,
@@ -47,12 +73,13 @@ export const analyzeLungProgression = async (
         temperature: 0.3, 
       },
     });
-    
-    return response.text || "Analysis unavailable.";
+    text = response.text;
   } catch (error) {
     console.error("Gemini API Error:", error);
-    return "Unable to generate analysis at this time.";
+    throw new SummaryUnavailableError("Unable to generate analysis at this time.");
   }
+  if (!text?.trim()) throw new SummaryUnavailableError("Analysis unavailable.");
+  return text;
 };
 
 export const getSimilarCasesAnalysis = async (condition: string): Promise<string> => {
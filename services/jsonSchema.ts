@@ -0,0 +1,138 @@
+/**
+ * Validation against the subset of JSON Schema (draft-07) used by the schemas
+ * shipped with the app: types, enum/const, object properties with required and
+ * additionalProperties, array items and bounds, number and string bounds,
+ * patterns, local $ref to #/definitions, and anyOf/oneOf/allOf.
+ */
+
+export type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  definitions?: Record<string, JsonSchema>;
+  type?: JsonType | JsonType[];
+  enum?: readonly unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  pattern?: string;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+}
+
+export interface SchemaError {
+  path: string;    // e.g. "$.cases[0].timeline[2].date"
+  message: string;
+}
+
+const typeOf = (value: unknown): JsonType =>
+  value === null ? 'null'
+    : Array.isArray(value) ? 'array'
+      : typeof value === 'number' ? (Number.isInteger(value) ? 'integer' : 'number')
+        : (typeof value as JsonType);
+
+const matchesType = (value: unknown, type: JsonType) => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+const childPath = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+
+const resolveRef = (ref: string, root: JsonSchema): JsonSchema => {
+  const match = /^#\/definitions\/(.+)$/.exec(ref);
+  const target = match && root.definitions?.[match[1]];
+  if (!target) throw new Error(`Schema reference ${ref} cannot be resolved.`);
+  return target;
+};
+
+const describe = (value: unknown) => {
+  const type = typeOf(value);
+  return type === 'string' ? JSON.stringify(value) : type === 'object' || type === 'array' ? type : String(value);
+};
+
+const validateAt = (value: unknown, schema: JsonSchema, root: JsonSchema, path: string, errors: SchemaError[]) => {
+  if (schema.$ref) {
+    validateAt(value, resolveRef(schema.$ref, root), root, path, errors);
+    return;
+  }
+  const fail = (message: string) => errors.push({ path, message });
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(t => matchesType(value, t))) {
+      fail(`expected ${types.join(' or ')}, found ${typeOf(value)}`);
+      return;
+    }
+  }
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    fail(`expected ${JSON.stringify(schema.const)}, found ${describe(value)}`);
+  }
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    fail(`expected one of ${schema.enum.map(o => JSON.stringify(o)).join(', ')}, found ${describe(value)}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) fail(`must be at least ${schema.minimum}, found ${value}`);
+    if (schema.maximum !== undefined && value > schema.maximum) fail(`must be at most ${schema.maximum}, found ${value}`);
+  }
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) fail(`must be at least ${schema.minLength} character(s) long`);
+    if (schema.pattern && !new RegExp(schema.pattern, 'u').test(value)) fail(`${JSON.stringify(value)} does not match ${schema.pattern}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) fail(`must have at least ${schema.minItems} item(s), found ${value.length}`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) fail(`must have at most ${schema.maxItems} item(s), found ${value.length}`);
+    if (schema.items) value.forEach((item, n) => validateAt(item, schema.items!, root, childPath(path, n), errors));
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in object)) errors.push({ path: childPath(path, key), message: 'is required' });
+    }
+    for (const [key, child] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) validateAt(child, propertySchema, root, childPath(path, key), errors);
+      else if (schema.additionalProperties === false) errors.push({ path: childPath(path, key), message: 'is not allowed here' });
+      else if (typeof schema.additionalProperties === 'object') validateAt(child, schema.additionalProperties, root, childPath(path, key), errors);
+    }
+  }
+
+  for (const sub of schema.allOf ?? []) validateAt(value, sub, root, path, errors);
+
+  // anyOf / oneOf: report the closest alternative's errors when none fits
+  const alternatives = schema.anyOf ?? schema.oneOf;
+  if (alternatives) {
+    const results = alternatives.map(sub => {
+      const subErrors: SchemaError[] = [];
+      validateAt(value, sub, root, path, subErrors);
+      return subErrors;
+    });
+    const matching = results.filter(r => r.length === 0).length;
+    if (matching === 0) errors.push(...results.reduce((best, r) => (r.length < best.length ? r : best)));
+    else if (schema.oneOf && matching > 1) fail(`matches ${matching} alternatives where exactly one is allowed`);
+  }
+};
+
+/** Every way `value` breaks `schema`, with JSONPath-style locations; empty when it conforms. */
+export const validateJson = (value: unknown, schema: JsonSchema): SchemaError[] => {
+  const errors: SchemaError[] = [];
+  validateAt(value, schema, schema, '$', errors);
+  return errors;
+};
+
+export const formatSchemaError = ({ path, message }: SchemaError) => `${path} ${message}`;
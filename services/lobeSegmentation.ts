@@ -0,0 +1,231 @@
+import {
+  CTVolume, FissureKey, LobeKey, LobeLabel, LobeSegmentation, LungLabel, LungSegmentation, Vec3
+} from "../types";
+
+export const LOBE_KEYS: LobeKey[] = ['rul', 'rml', 'rll', 'lul', 'lll'];
+
+// Display names shown wherever a lobe is labelled in the UI
+export const LOBE_NAMES: Record<LobeKey, string> = {
+  rul: 'Right Upper Lobe',
+  rml: 'Right Middle Lobe',
+  rll: 'Right Lower Lobe',
+  lul: 'Left Upper Lobe',
+  lll: 'Left Lower Lobe',
+};
+
+export const LOBE_KEY_BY_LABEL: Record<number, LobeKey> = {
+  [LobeLabel.RUL]: 'rul',
+  [LobeLabel.RML]: 'rml',
+  [LobeLabel.RLL]: 'rll',
+  [LobeLabel.LUL]: 'lul',
+  [LobeLabel.LLL]: 'lll',
+};
+
+export const LOBE_LABEL_BY_KEY: Record<LobeKey, LobeLabel> = {
+  rul: LobeLabel.RUL,
+  rml: LobeLabel.RML,
+  rll: LobeLabel.RLL,
+  lul: LobeLabel.LUL,
+  lll: LobeLabel.LLL,
+};
+
+// Geometric fissure model, in coordinates normalised to each lung's bounding box
+// (height 0 = base, 1 = apex; depth 0 = anterior, 1 = posterior).
+// The oblique fissure climbs from the anterior base to about 70% height posteriorly.
+const OBLIQUE_FISSURE_BASE = 0.1;
+const OBLIQUE_FISSURE_RISE = 0.6;
+// The horizontal fissure of the right lung sits at roughly 55% of lung height
+const HORIZONTAL_FISSURE_HEIGHT = 0.55;
+
+// Fissure search: a fissure is a thin sheet denser than the parenchyma above and below it
+const SEARCH_MM = 20;          // Craniocaudal search either side of the model surface
+const SHEET_GAP_MM = 5;        // Distance to the parenchyma the sheet is compared with
+const LATERAL_MM = 5;          // The sheet must continue this far along i and j
+const MIN_CONTRAST_HU = 50;    // Sheet HU minus mean HU of the parenchyma above and below
+const MAX_SHEET_HU = -300;     // Denser than this is vessel or solid tissue
+const SMOOTH_MM = 12;          // Median filter radius over the detected surface
+// A fissure seen in fewer lung columns than this falls back to the model
+const MIN_COVERAGE = 0.15;
+
+interface LungBox {
+  minI: number; maxI: number;
+  minJ: number; maxJ: number;
+  minK: number; maxK: number;
+}
+
+const extent = (labels: Uint8Array, dims: Vec3, label: number): LungBox | null => {
+  const [nx, ny] = dims;
+  const box = { minI: Infinity, maxI: -Infinity, minJ: Infinity, maxJ: -Infinity, minK: Infinity, maxK: -Infinity };
+  for (let p = 0; p < labels.length; p++) {
+    if (labels[p] !== label) continue;
+    const i = p % nx, j = ((p - i) / nx) % ny, k = Math.floor(p / (nx * ny));
+    if (i < box.minI) box.minI = i;
+    if (i > box.maxI) box.maxI = i;
+    if (j < box.minJ) box.minJ = j;
+    if (j > box.maxJ) box.maxJ = j;
+    if (k < box.minK) box.minK = k;
+    if (k > box.maxK) box.maxK = k;
+  }
+  return box.minK === Infinity ? null : box;
+};
+
+const median = (values: number[]) => {
+  values.sort((a, b) => a - b);
+  const mid = values.length >> 1;
+  return values.length % 2 ? values[mid] : (values[mid - 1] + values[mid]) / 2;
+};
+
+interface FissureSurface {
+  k: Float32Array;   // Fissure height (voxel k) per column i + j * nx; NaN outside the lung
+  coverage: number;  // Share of lung columns where the sheet was detected; 0 when the model was kept
+}
+
+/**
+ * Locates one fissure as a height field k(i, j) over the lung's columns. Each column
+ * is searched around the model height for the voxel that stands out most as a dense
+ * sheet: brighter than the parenchyma above and below, and staying bright along i and
+ * along j (following the model slope), which rejects vessels running through the
+ * column. Detections are median-filtered; columns with none nearby keep the model.
+ */
+const locateFissure = (
+  volume: CTVolume,
+  segmentation: LungSegmentation,
+  lung: LungLabel,
+  box: LungBox,
+  modelK: (j: number) => number,
+  slope: number,            // Model dk/dj in voxels
+  searchAbove?: Float32Array // Only accept candidates above this surface
+): FissureSurface => {
+  const [nx, ny, nz] = segmentation.dimensions;
+  const nxy = nx * ny;
+  const { labels } = segmentation;
+  const data = volume.data;
+  const [si, sj, sk] = segmentation.spacing;
+  const search = Math.max(1, Math.round(SEARCH_MM / sk));
+  const gap = Math.max(1, Math.round(SHEET_GAP_MM / sk));
+  const li = Math.max(1, Math.round(LATERAL_MM / si));
+  const lj = Math.max(1, Math.round(LATERAL_MM / sj));
+
+  const inLung = (i: number, j: number, k: number) =>
+    i >= 0 && j >= 0 && k >= 0 && i < nx && j < ny && k < nz && labels[i + j * nx + k * nxy] === lung;
+  const contrast = (i: number, j: number, k: number) => {
+    if (!inLung(i, j, k) || !inLung(i, j, k - gap) || !inLung(i, j, k + gap)) return -Infinity;
+    const p = i + j * nx + k * nxy;
+    if (data[p] > MAX_SHEET_HU) return -Infinity;
+    return data[p] - (data[p - gap * nxy] + data[p + gap * nxy]) / 2;
+  };
+
+  const surface = new Float32Array(nxy).fill(NaN);
+  const detected = new Float32Array(nxy).fill(NaN);
+  let columns = 0, found = 0;
+  for (let j = box.minJ; j <= box.maxJ; j++) {
+    const k0 = modelK(j);
+    const dk = Math.round(slope * lj);
+    for (let i = box.minI; i <= box.maxI; i++) {
+      let lungColumn = false;
+      for (let k = box.minK; k <= box.maxK && !lungColumn; k++) lungColumn = labels[i + j * nx + k * nxy] === lung;
+      if (!lungColumn) continue;
+      columns++;
+      surface[i + j * nx] = k0;
+
+      let bestK = -1, best = MIN_CONTRAST_HU;
+      const from = Math.max(box.minK, Math.round(k0) - search), to = Math.min(box.maxK, Math.round(k0) + search);
+      for (let k = from; k <= to; k++) {
+        if (searchAbove && k <= searchAbove[i + j * nx]) continue;
+        const c = contrast(i, j, k);
+        if (c <= best) continue;
+        const lateral = Math.min(
+          contrast(i - li, j, k), contrast(i + li, j, k),
+          contrast(i, j - lj, k - dk), contrast(i, j + lj, k + dk)
+        );
+        if (lateral < MIN_CONTRAST_HU / 2) continue;
+        best = c;
+        bestK = k;
+      }
+      if (bestK >= 0) {
+        detected[i + j * nx] = bestK;
+        found++;
+      }
+    }
+  }
+
+  const coverage = columns ? found / columns : 0;
+  if (coverage < MIN_COVERAGE) return { k: surface, coverage: 0 };
+
+  // Median of nearby detections, each carried along the model slope to this column
+  const ri = Math.max(1, Math.round(SMOOTH_MM / si));
+  const rj = Math.max(1, Math.round(SMOOTH_MM / sj));
+  const window: number[] = [];
+  for (let j = box.minJ; j <= box.maxJ; j++) {
+    for (let i = box.minI; i <= box.maxI; i++) {
+      if (Number.isNaN(surface[i + j * nx])) continue;
+      window.length = 0;
+      for (let b = Math.max(box.minJ, j - rj); b <= Math.min(box.maxJ, j + rj); b++) {
+        for (let a = Math.max(box.minI, i - ri); a <= Math.min(box.maxI, i + ri); a++) {
+          const k = detected[a + b * nx];
+          if (!Number.isNaN(k)) window.push(k + slope * (j - b));
+        }
+      }
+      if (window.length > 0) surface[i + j * nx] = median(window);
+    }
+  }
+  return { k: surface, coverage: Math.round(coverage * 1000) / 1000 };
+};
+
+/**
+ * Splits each lung into lobes along its fissures. The oblique fissures (and the
+ * right horizontal fissure) are located in the image where they are visible and
+ * fall back to a geometric fissure model elsewhere. Every lung voxel is assigned to
+ * exactly one lobe, so lobe volumes always add up to the lung volume.
+ */
+export const segmentLobes = (volume: CTVolume, segmentation: LungSegmentation): LobeSegmentation => {
+  const { labels, dimensions: dims } = segmentation;
+  const [nx, ny] = dims;
+  const lobes = new Uint8Array(labels.length);
+  const fissureCoverage: Record<FissureKey, number> = { rightOblique: 0, rightHorizontal: 0, leftOblique: 0 };
+
+  for (const lung of [LungLabel.RIGHT_LUNG, LungLabel.LEFT_LUNG]) {
+    const box = extent(labels, dims, lung);
+    if (!box) continue;
+    const height = Math.max(1, box.maxK - box.minK);
+    const depth = Math.max(1, box.maxJ - box.minJ);
+    const isRight = lung === LungLabel.RIGHT_LUNG;
+
+    const oblique = locateFissure(
+      volume, segmentation, lung, box,
+      j => box.minK + height * (OBLIQUE_FISSURE_BASE + OBLIQUE_FISSURE_RISE * (j - box.minJ) / depth),
+      (height * OBLIQUE_FISSURE_RISE) / depth
+    );
+    const horizontal = isRight
+      ? locateFissure(volume, segmentation, lung, box, () => box.minK + height * HORIZONTAL_FISSURE_HEIGHT, 0, oblique.k)
+      : null;
+    if (isRight) {
+      fissureCoverage.rightOblique = oblique.coverage;
+      fissureCoverage.rightHorizontal = horizontal!.coverage;
+    } else {
+      fissureCoverage.leftOblique = oblique.coverage;
+    }
+
+    for (let p = 0; p < labels.length; p++) {
+      if (labels[p] !== lung) continue;
+      const column = p % (nx * ny);
+      const k = Math.floor(p / (nx * ny));
+      const isLower = k < oblique.k[column];
+      if (isRight) {
+        lobes[p] = isLower ? LobeLabel.RLL : k >= horizontal!.k[column] ? LobeLabel.RUL : LobeLabel.RML;
+      } else {
+        lobes[p] = isLower ? LobeLabel.LLL : LobeLabel.LUL;
+      }
+    }
+  }
+
+  return {
+    dimensions: segmentation.dimensions,
+    spacing: segmentation.spacing,
+    origin: segmentation.origin,
+    direction: segmentation.direction,
+    labels: lobes,
+    method: Object.values(fissureCoverage).some(c => c > 0) ? 'fissure' : 'geometric',
+    fissureCoverage,
+  };
+};
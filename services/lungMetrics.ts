@@ -0,0 +1,194 @@
+import {
+  CTVolume, ExpiratoryAnalysis, LobeKey, LobeSegmentation, LungLabel, LungMetrics, LungSegmentation,
+  MetricKey, MetricProvenance, RegionDensity
+} from "../types";
+import { LOBE_KEYS, LOBE_KEY_BY_LABEL } from "./lobeSegmentation";
+import { REFERENCE_VENTILATION } from "./ventilation";
+import { voxelVolumeMl } from "./volumeUtils";
+
+// Standard density thresholds (HU)
+export const AIR_TRAPPING_THRESHOLD_HU = -856;
+export const EMPHYSEMA_THRESHOLD_HU = -950;
+
+const NOT_MEASURED_SINGLE_SCAN = 'Requires a paired inspiratory/expiratory scan; not measured for this upload.';
+
+class DensityAccumulator {
+  count = 0;
+  sum = 0;
+  below856 = 0;
+  below950 = 0;
+
+  add(hu: number) {
+    this.count++;
+    this.sum += hu;
+    if (hu < AIR_TRAPPING_THRESHOLD_HU) this.below856++;
+    if (hu < EMPHYSEMA_THRESHOLD_HU) this.below950++;
+  }
+
+  toRegion(voxelMl: number): RegionDensity {
+    const n = Math.max(1, this.count);
+    return {
+      volumeMl: this.count * voxelMl,
+      meanHU: this.count ? this.sum / n : 0,
+      percentBelow856: (this.below856 / n) * 100,
+      percentBelow950: (this.below950 / n) * 100,
+    };
+  }
+}
+
+const round = (v: number, digits = 1) => Math.round(v * 10 ** digits) / 10 ** digits;
+
+/** Rounds each value to an integer so the results still add up to the rounded total. */
+const roundPreservingSum = (values: number[]) => {
+  const target = Math.round(values.reduce((a, b) => a + b, 0));
+  const floors = values.map(Math.floor);
+  let remainder = target - floors.reduce((a, b) => a + b, 0);
+  const order = values.map((v, i) => ({ i, frac: v - floors[i] })).sort((a, b) => b.frac - a.frac);
+  for (const { i } of order) {
+    if (remainder <= 0) break;
+    floors[i]++;
+    remainder--;
+  }
+  return floors;
+};
+
+/** Placeholder metrics for a timepoint whose analysis has not finished yet. */
+export const createEmptyMetrics = (): LungMetrics => ({
+  totalVolume: 0,
+  expansionRatio: 0,
+  stiffnessIndex: 0,
+  airTrapping: 0,
+  lobeVolumes: { rul: 0, rml: 0, rll: 0, lul: 0, lll: 0 },
+});
+
+/** True when the metric was computed from image data (not a placeholder or mock value). */
+export const isMetricMeasured = (metrics: LungMetrics, key: MetricKey) =>
+  !metrics.provenance || metrics.provenance[key]?.measured !== false;
+
+/**
+ * Computes LungMetrics from a segmented inspiratory scan. Volumes come from voxel
+ * counts and spacing; air trapping and the lobar breakdown from the HU histogram.
+ */
+export const computeLungMetrics = (
+  volume: CTVolume,
+  segmentation: LungSegmentation,
+  lobes: LobeSegmentation
+): LungMetrics => {
+  const voxelMl = voxelVolumeMl(segmentation.spacing);
+  const right = new DensityAccumulator();
+  const left = new DensityAccumulator();
+  const perLobe = Object.fromEntries(LOBE_KEYS.map(key => [key, new DensityAccumulator()])) as Record<LobeKey, DensityAccumulator>;
+
+  for (let p = 0; p < segmentation.labels.length; p++) {
+    const label = segmentation.labels[p];
+    if (label !== LungLabel.RIGHT_LUNG && label !== LungLabel.LEFT_LUNG) continue;
+    const hu = volume.data[p];
+    (label === LungLabel.RIGHT_LUNG ? right : left).add(hu);
+    const lobeKey = LOBE_KEY_BY_LABEL[lobes.labels[p]];
+    if (lobeKey) perLobe[lobeKey].add(hu);
+  }
+
+  const rightLung = right.toRegion(voxelMl);
+  const leftLung = left.toRegion(voxelMl);
+  const lobeDensity = Object.fromEntries(LOBE_KEYS.map(key => [key, perLobe[key].toRegion(voxelMl)])) as Record<LobeKey, RegionDensity>;
+  const lungVoxels = right.count + left.count;
+  const below856 = right.below856 + left.below856;
+  const lobeVolumes = roundPreservingSum(LOBE_KEYS.map(key => lobeDensity[key].volumeMl));
+
+  const provenance: Record<MetricKey, MetricProvenance> = {
+    totalVolume: {
+      algorithm: 'lung-voxel-count/1',
+      description: 'Left + right lung mask voxels x voxel volume; central airways excluded.',
+      units: 'mL',
+      measured: true,
+    },
+    lobeVolumes: {
+      algorithm: `lobe-voxel-count/2 (${lobes.method} lobes)`,
+      description: lobes.method === 'geometric'
+        ? 'Lung mask split by a geometric fissure model; lobes sum to the total volume.'
+        : `Lung mask split along fissures detected in the image (seen in ${Math.round(lobes.fissureCoverage.rightOblique * 100)}% / ${Math.round(lobes.fissureCoverage.rightHorizontal * 100)}% / ${Math.round(lobes.fissureCoverage.leftOblique * 100)}% of right oblique / horizontal / left oblique columns, model elsewhere); lobes sum to the total volume.`,
+      units: 'mL',
+      measured: true,
+    },
+    airTrapping: {
+      algorithm: 'insp-laa856/1',
+      description: `Share of lung voxels below ${AIR_TRAPPING_THRESHOLD_HU} HU on the inspiratory scan (low-attenuation proxy without an expiratory scan).`,
+      units: '%',
+      measured: true,
+    },
+    expansionRatio: {
+      algorithm: 'not-measured',
+      description: NOT_MEASURED_SINGLE_SCAN,
+      units: 'ratio',
+      measured: false,
+    },
+    stiffnessIndex: {
+      algorithm: 'not-measured',
+      description: NOT_MEASURED_SINGLE_SCAN,
+      units: 'index 0-10',
+      measured: false,
+    },
+  };
+
+  return {
+    totalVolume: lobeVolumes.reduce((a, b) => a + b, 0),
+    expansionRatio: 0,
+    stiffnessIndex: 0,
+    airTrapping: round(lungVoxels ? (below856 / lungVoxels) * 100 : 0),
+    lobeVolumes: Object.fromEntries(LOBE_KEYS.map((key, n) => [key, lobeVolumes[n]])) as LungMetrics['lobeVolumes'],
+    provenance,
+    density: { rightLung, leftLung, lobes: lobeDensity },
+  };
+};
+
+/** Lung (left + right, airways excluded) volume of a segmentation in mL. */
+export const segmentedLungVolumeMl = (segmentation: LungSegmentation) => {
+  let count = 0;
+  for (const label of segmentation.labels) {
+    if (label === LungLabel.RIGHT_LUNG || label === LungLabel.LEFT_LUNG) count++;
+  }
+  return count * voxelVolumeMl(segmentation.spacing);
+};
+
+/**
+ * Replaces the single-scan air trapping proxy with expiratory gas trapping and
+ * fills in the expansion ratio from the paired lung volumes and the stiffness
+ * index from the registration's regional ventilation.
+ */
+export const applyExpiratoryMetrics = (metrics: LungMetrics, expiratory: ExpiratoryAnalysis): LungMetrics => {
+  const inspiratoryMl = metrics.totalVolume;
+  const expansion = inspiratoryMl > 0 ? Math.max(0, (inspiratoryMl - expiratory.lungVolumeMl) / inspiratoryMl) : 0;
+  return {
+    ...metrics,
+    airTrapping: expiratory.gasTrapping.percent.wholeLung,
+    expansionRatio: round(expansion, 2),
+    stiffnessIndex: expiratory.ventilation.stiffness.wholeLung,
+    gasTrappingLobes: expiratory.gasTrapping.percent.lobes,
+    stiffnessLobes: expiratory.ventilation.stiffness.lobes,
+    qc: {
+      checks: [...(metrics.qc?.checks.filter(c => c.scan !== 'expiratory') ?? []), ...expiratory.qc.checks],
+      blocking: false,
+    },
+    provenance: {
+      ...metrics.provenance,
+      airTrapping: {
+        algorithm: 'exp-laa856/1',
+        description: `Share of lung voxels below ${AIR_TRAPPING_THRESHOLD_HU} HU on the expiratory scan; lobes via deformable registration onto the inspiratory scan (Dice ${expiratory.registration.dice}).`,
+        units: '%',
+        measured: true,
+      },
+      expansionRatio: {
+        algorithm: 'insp-exp-volume/1',
+        description: 'Inspiratory minus expiratory lung volume, as a fraction of the inspiratory volume.',
+        units: 'ratio',
+        measured: true,
+      },
+      stiffnessIndex: {
+        algorithm: 'jacobian-compliance/1',
+        description: `10 x (1 - V / ${REFERENCE_VENTILATION}), clamped to 0-10, where V = 1 - mean Jacobian determinant of the inspiration -> expiration registration over the lung (or lobe): the share of inspiratory volume breathed out (0 = compliant, 10 = no volume change). Registration Dice ${expiratory.registration.dice}.`,
+        units: 'index 0-10',
+        measured: true,
+      },
+    },
+  };
+};
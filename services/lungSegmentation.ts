@@ -0,0 +1,277 @@
+import { CTVolume, LungLabel, LungSegmentation, Vec3 } from "../types";
+import {
+  componentsBySize, erode, fillHolesPerSlice, floodFromSliceBorders, keepLargestComponent,
+  labelComponents, propagateLabels, selectComponents
+} from "./maskUtils";
+import { voxelVolumeMl } from "./volumeUtils";
+
+// Air vs. soft tissue cut-off used to find aerated lung
+const LUNG_THRESHOLD_HU = -400;
+// Components smaller than this cannot be a lung (bowel gas, oesophagus, noise)
+const MIN_LUNG_ML = 50;
+
+// Airway region growing is tried from the most permissive threshold to the strictest
+const AIRWAY_THRESHOLDS_HU = [-900, -925, -950, -975];
+// A grown airway tree larger than this has leaked into the parenchyma
+const MAX_AIRWAY_ML = 150;
+// Trachea cross-section limits used to pick the seed in the upper slices
+const TRACHEA_MIN_AREA_MM2 = 80;
+const TRACHEA_MAX_AREA_MM2 = 800;
+const TRACHEA_MAX_MEAN_HU = -850;
+
+const MAX_SEPARATION_EROSIONS = 8;
+
+/** Sets the mask for every voxel below the HU threshold. */
+const thresholdBelow = (volume: CTVolume, threshold: number) => {
+  const mask = new Uint8Array(volume.data.length);
+  for (let p = 0; p < mask.length; p++) mask[p] = volume.data[p] < threshold ? 1 : 0;
+  return mask;
+};
+
+/**
+ * Finds the trachea in the most superior slices: a roughly central, dark,
+ * trachea-sized blob of the internal-air mask. Returns its centre voxel.
+ */
+export const findTracheaSeed = (volume: CTVolume, airMask: Uint8Array): Vec3 | null => {
+  const [nx, ny, nz] = volume.dimensions;
+  const nxy = nx * ny;
+  const pixelArea = volume.spacing[0] * volume.spacing[1];
+  const seen = new Uint8Array(nxy);
+  const queue = new Int32Array(nxy);
+  const lowestSlice = Math.floor(nz * 0.5);
+
+  for (let k = nz - 1; k >= lowestSlice; k--) {
+    const base = k * nxy;
+    seen.fill(0);
+    for (let start = 0; start < nxy; start++) {
+      if (!airMask[base + start] || seen[start]) continue;
+
+      let head = 0, tail = 0, si = 0, sj = 0, sumHU = 0;
+      queue[tail++] = start;
+      seen[start] = 1;
+      while (head < tail) {
+        const q = queue[head++];
+        const i = q % nx, j = (q - i) / nx;
+        si += i; sj += j; sumHU += volume.data[base + q];
+        const visit = (r: number) => {
+          if (airMask[base + r] && !seen[r]) { seen[r] = 1; queue[tail++] = r; }
+        };
+        if (i > 0) visit(q - 1);
+        if (i < nx - 1) visit(q + 1);
+        if (j > 0) visit(q - nx);
+        if (j < ny - 1) visit(q + nx);
+      }
+
+      const area = tail * pixelArea;
+      const ci = si / tail, cj = sj / tail;
+      const central = Math.abs(ci - nx / 2) < nx * 0.15;
+      if (area < TRACHEA_MIN_AREA_MM2 || area > TRACHEA_MAX_AREA_MM2 || !central) continue;
+      if (sumHU / tail > TRACHEA_MAX_MEAN_HU) continue;
+
+      // Use the blob pixel closest to its centroid so the seed is inside the lumen
+      let best = queue[0], bestDist = Infinity;
+      for (let n = 0; n < tail; n++) {
+        const q = queue[n];
+        const d = (q % nx - ci) ** 2 + (Math.floor(q / nx) - cj) ** 2;
+        if (d < bestDist) { bestDist = d; best = q; }
+      }
+      return [best % nx, Math.floor(best / nx), k];
+    }
+  }
+  return null;
+};
+
+/**
+ * Region grows from the seed through voxels darker than `threshold`, restricted to
+ * `domain`. Gives up (returns null) once the grown volume exceeds `maxVoxels`.
+ */
+export const growRegion = (
+  volume: CTVolume,
+  domain: Uint8Array,
+  seed: Vec3,
+  threshold: number,
+  maxVoxels: number
+): Uint8Array | null => {
+  const [nx, ny, nz] = volume.dimensions;
+  const nxy = nx * ny;
+  const start = seed[0] + seed[1] * nx + seed[2] * nxy;
+  const grown = new Uint8Array(volume.data.length);
+  if (!domain[start] || volume.data[start] >= threshold) return null;
+
+  const queue: number[] = [start];
+  grown[start] = 1;
+  for (let head = 0; head < queue.length; head++) {
+    if (queue.length > maxVoxels) return null;
+    const p = queue[head];
+    const i = p % nx, j = ((p - i) / nx) % ny, k = (p - i - j * nx) / nxy;
+    const visit = (q: number) => {
+      if (!grown[q] && domain[q] && volume.data[q] < threshold) { grown[q] = 1; queue.push(q); }
+    };
+    if (i > 0) visit(p - 1);
+    if (i < nx - 1) visit(p + 1);
+    if (j > 0) visit(p - nx);
+    if (j < ny - 1) visit(p + nx);
+    if (k > 0) visit(p - nxy);
+    if (k < nz - 1) visit(p + nxy);
+  }
+  return grown;
+};
+
+/**
+ * Extracts the trachea and main bronchi with the most permissive threshold that
+ * does not leak into the lungs.
+ */
+const extractAirways = (volume: CTVolume, domain: Uint8Array, seed: Vec3) => {
+  const maxVoxels = Math.floor(MAX_AIRWAY_ML / voxelVolumeMl(volume.spacing));
+  for (const threshold of AIRWAY_THRESHOLDS_HU) {
+    const grown = growRegion(volume, domain, seed, threshold, maxVoxels);
+    if (grown) return { mask: grown, threshold };
+  }
+  return null;
+};
+
+/** Splits a single connected lung mask into two by eroding until it falls apart. */
+const splitByErosion = (mask: Uint8Array, dims: Vec3, minVoxels: number) => {
+  let eroded = mask;
+  for (let iter = 0; iter < MAX_SEPARATION_EROSIONS; iter++) {
+    eroded = erode(eroded, dims);
+    const labeling = labelComponents(eroded, dims);
+    const [a, b] = componentsBySize(labeling);
+    if (a && b && b.size >= minVoxels) {
+      const seeds = new Uint8Array(mask.length);
+      for (let p = 0; p < mask.length; p++) {
+        if (labeling.labels[p] === a.id) seeds[p] = 1;
+        else if (labeling.labels[p] === b.id) seeds[p] = 2;
+      }
+      return propagateLabels(seeds, mask, dims);
+    }
+  }
+  return null;
+};
+
+/** Last resort: cut each slice at the column with the least lung tissue near the middle. */
+const splitAtMidline = (mask: Uint8Array, dims: Vec3) => {
+  const [nx, ny, nz] = dims;
+  const out = new Uint8Array(mask.length);
+  let minI = nx, maxI = -1;
+  for (let p = 0; p < mask.length; p++) {
+    if (!mask[p]) continue;
+    const i = p % nx;
+    if (i < minI) minI = i;
+    if (i > maxI) maxI = i;
+  }
+  const centre = (minI + maxI) / 2;
+  const halfWindow = Math.max(1, Math.floor((maxI - minI) * 0.2));
+  const columnCounts = new Int32Array(nx);
+
+  for (let k = 0; k < nz; k++) {
+    columnCounts.fill(0);
+    const base = k * nx * ny;
+    for (let q = 0; q < nx * ny; q++) if (mask[base + q]) columnCounts[q % nx]++;
+    let cut = Math.round(centre), best = Infinity;
+    for (let i = Math.max(0, Math.round(centre) - halfWindow); i <= Math.min(nx - 1, Math.round(centre) + halfWindow); i++) {
+      if (columnCounts[i] < best) { best = columnCounts[i]; cut = i; }
+    }
+    for (let q = 0; q < nx * ny; q++) {
+      if (mask[base + q]) out[base + q] = q % nx < cut ? 1 : 2;
+    }
+  }
+  return out;
+};
+
+/**
+ * Deterministic, CPU-only lung segmentation:
+ * 1. threshold aerated tissue, 2. drop air connected to the outside of the body,
+ * 3. keep the large internal air components, 4. grow and remove the trachea and
+ * main bronchi, 5. separate left from right lung, 6. fill vessel holes per slice.
+ */
+export const segmentLungs = (volume: CTVolume): LungSegmentation => {
+  const dims = volume.dimensions;
+  const voxelMl = voxelVolumeMl(volume.spacing);
+  const minLungVoxels = Math.ceil(MIN_LUNG_ML / voxelMl);
+
+  // 1-2. Air inside the body
+  const air = thresholdBelow(volume, LUNG_THRESHOLD_HU);
+  const outside = floodFromSliceBorders(air, dims);
+  for (let p = 0; p < air.length; p++) if (outside[p]) air[p] = 0;
+
+  // 3. Large internal air components (lungs, usually joined to each other through the airways)
+  const candidates = labelComponents(air, dims);
+  const large = componentsBySize(candidates).filter(c => c.size >= minLungVoxels);
+  if (large.length === 0) {
+    throw new Error('No aerated lung tissue found; check that the scan is a chest CT in Hounsfield units');
+  }
+  const thorax = selectComponents(candidates, large.slice(0, 2).map(c => c.id));
+
+  // 4. Airways
+  const tracheaSeed = findTracheaSeed(volume, thorax);
+  const airways = tracheaSeed ? extractAirways(volume, thorax, tracheaSeed) : null;
+  const lungs = new Uint8Array(thorax);
+  if (airways) {
+    for (let p = 0; p < lungs.length; p++) if (airways.mask[p]) lungs[p] = 0;
+  }
+
+  // 5. Left / right separation
+  const lungComponents = labelComponents(lungs, dims);
+  const [first, second] = componentsBySize(lungComponents);
+  let sides: Uint8Array; // 1 / 2 per lung, arbitrary order
+  let lungSeparation: LungSegmentation['lungSeparation'];
+  if (first && second && second.size >= minLungVoxels) {
+    sides = new Uint8Array(lungs.length);
+    for (let p = 0; p < lungs.length; p++) {
+      const id = lungComponents.labels[p];
+      sides[p] = id === first.id ? 1 : id === second.id ? 2 : 0;
+    }
+    lungSeparation = 'components';
+  } else {
+    const joined = selectComponents(lungComponents, first ? [first.id] : []);
+    const eroded = splitByErosion(joined, dims, minLungVoxels);
+    sides = eroded ?? splitAtMidline(joined, dims);
+    lungSeparation = eroded ? 'erosion' : 'midline';
+  }
+
+  // i runs towards patient left, so the side with the smaller mean i is the right lung
+  const [nx] = dims;
+  const sum = [0, 0, 0], count = [0, 0, 0];
+  for (let p = 0; p < sides.length; p++) {
+    if (sides[p]) { sum[sides[p]] += p % nx; count[sides[p]]++; }
+  }
+  const sideOneIsRight = count[2] === 0 || sum[1] / count[1] <= sum[2] / count[2];
+
+  const labels = new Uint8Array(lungs.length);
+  for (let p = 0; p < labels.length; p++) {
+    if (sides[p] === 1) labels[p] = sideOneIsRight ? LungLabel.RIGHT_LUNG : LungLabel.LEFT_LUNG;
+    else if (sides[p] === 2) labels[p] = sideOneIsRight ? LungLabel.LEFT_LUNG : LungLabel.RIGHT_LUNG;
+    else if (airways?.mask[p]) labels[p] = LungLabel.AIRWAY;
+  }
+
+  // 6. Clean up each lung: drop detached fragments, then fill vessel holes
+  for (const label of [LungLabel.RIGHT_LUNG, LungLabel.LEFT_LUNG]) {
+    const mask = new Uint8Array(labels.length);
+    for (let p = 0; p < labels.length; p++) mask[p] = labels[p] === label ? 1 : 0;
+    keepLargestComponent(mask, dims);
+    for (let p = 0; p < labels.length; p++) {
+      if (labels[p] === label && !mask[p]) labels[p] = LungLabel.BACKGROUND;
+    }
+    fillHolesPerSlice(labels, label, dims, value => value !== LungLabel.BACKGROUND);
+  }
+
+  const voxelCounts = { rightLung: 0, leftLung: 0, airway: 0 };
+  for (let p = 0; p < labels.length; p++) {
+    if (labels[p] === LungLabel.RIGHT_LUNG) voxelCounts.rightLung++;
+    else if (labels[p] === LungLabel.LEFT_LUNG) voxelCounts.leftLung++;
+    else if (labels[p] === LungLabel.AIRWAY) voxelCounts.airway++;
+  }
+
+  return {
+    dimensions: [...volume.dimensions] as Vec3,
+    spacing: [...volume.spacing] as Vec3,
+    origin: [...volume.origin] as Vec3,
+    direction: [...volume.direction],
+    labels,
+    tracheaSeed,
+    airwayThreshold: airways?.threshold ?? null,
+    lungSeparation,
+    voxelCounts,
+  };
+};
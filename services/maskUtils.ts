@@ -0,0 +1,162 @@
+import { Vec3 } from "../types";
+
+// Binary masks are Uint8Arrays laid out like CTVolume.data (i fastest, then j, then k)
+
+export interface ComponentLabeling {
+  labels: Int32Array; // 0 = not in mask, otherwise 1-based component id
+  sizes: number[];    // sizes[id] = voxel count (sizes[0] unused)
+}
+
+/** 6-connected component labelling of a binary mask. */
+export const labelComponents = (mask: Uint8Array, dims: Vec3): ComponentLabeling => {
+  const [nx, ny, nz] = dims;
+  const nxy = nx * ny;
+  const labels = new Int32Array(mask.length);
+  const sizes = [0];
+  const queue = new Int32Array(mask.length);
+
+  for (let seed = 0; seed < mask.length; seed++) {
+    if (!mask[seed] || labels[seed]) continue;
+    const id = sizes.length;
+    let head = 0, tail = 0;
+    queue[tail++] = seed;
+    labels[seed] = id;
+    while (head < tail) {
+      const p = queue[head++];
+      const i = p % nx, j = ((p - i) / nx) % ny, k = (p - i - j * nx) / nxy;
+      if (i > 0 && mask[p - 1] && !labels[p - 1]) { labels[p - 1] = id; queue[tail++] = p - 1; }
+      if (i < nx - 1 && mask[p + 1] && !labels[p + 1]) { labels[p + 1] = id; queue[tail++] = p + 1; }
+      if (j > 0 && mask[p - nx] && !labels[p - nx]) { labels[p - nx] = id; queue[tail++] = p - nx; }
+      if (j < ny - 1 && mask[p + nx] && !labels[p + nx]) { labels[p + nx] = id; queue[tail++] = p + nx; }
+      if (k > 0 && mask[p - nxy] && !labels[p - nxy]) { labels[p - nxy] = id; queue[tail++] = p - nxy; }
+      if (k < nz - 1 && mask[p + nxy] && !labels[p + nxy]) { labels[p + nxy] = id; queue[tail++] = p + nxy; }
+    }
+    sizes.push(tail);
+  }
+  return { labels, sizes };
+};
+
+/** Component ids ordered from largest to smallest. */
+export const componentsBySize = (labeling: ComponentLabeling) =>
+  labeling.sizes.map((size, id) => ({ id, size })).slice(1).sort((a, b) => b.size - a.size);
+
+/** Returns a mask holding only the given component ids. */
+export const selectComponents = (labeling: ComponentLabeling, ids: number[]) => {
+  const keep = new Uint8Array(labeling.sizes.length);
+  ids.forEach(id => { keep[id] = 1; });
+  const out = new Uint8Array(labeling.labels.length);
+  for (let p = 0; p < out.length; p++) out[p] = keep[labeling.labels[p]];
+  return out;
+};
+
+/** Keeps only the largest connected component of a mask (in place). */
+export const keepLargestComponent = (mask: Uint8Array, dims: Vec3) => {
+  const labeling = labelComponents(mask, dims);
+  const [largest] = componentsBySize(labeling);
+  if (!largest) return mask;
+  for (let p = 0; p < mask.length; p++) mask[p] = labeling.labels[p] === largest.id ? 1 : 0;
+  return mask;
+};
+
+/**
+ * Per-slice 2D flood fill from the slice border through pixels where `passable`
+ * is set. Returns a mask of everything reachable from the border.
+ */
+export const floodFromSliceBorders = (passable: Uint8Array, dims: Vec3) => {
+  const [nx, ny, nz] = dims;
+  const nxy = nx * ny;
+  const reached = new Uint8Array(passable.length);
+  const queue = new Int32Array(nxy);
+
+  for (let k = 0; k < nz; k++) {
+    const base = k * nxy;
+    let head = 0, tail = 0;
+    const push = (q: number) => {
+      if (passable[base + q] && !reached[base + q]) { reached[base + q] = 1; queue[tail++] = q; }
+    };
+    for (let i = 0; i < nx; i++) { push(i); push((ny - 1) * nx + i); }
+    for (let j = 0; j < ny; j++) { push(j * nx); push(j * nx + nx - 1); }
+    while (head < tail) {
+      const q = queue[head++];
+      const i = q % nx, j = (q - i) / nx;
+      if (i > 0) push(q - 1);
+      if (i < nx - 1) push(q + 1);
+      if (j > 0) push(q - nx);
+      if (j < ny - 1) push(q + nx);
+    }
+  }
+  return reached;
+};
+
+/**
+ * Fills enclosed holes of `label` slice by slice: pixels that cannot reach the slice
+ * border without crossing `label` are assigned to it, unless `protect` marks them.
+ */
+export const fillHolesPerSlice = (labels: Uint8Array, label: number, dims: Vec3, protect?: (value: number) => boolean) => {
+  const notLabel = new Uint8Array(labels.length);
+  for (let p = 0; p < labels.length; p++) notLabel[p] = labels[p] === label ? 0 : 1;
+  const outside = floodFromSliceBorders(notLabel, dims);
+  let filled = 0;
+  for (let p = 0; p < labels.length; p++) {
+    if (notLabel[p] && !outside[p] && !(protect && protect(labels[p]))) {
+      labels[p] = label;
+      filled++;
+    }
+  }
+  return filled;
+};
+
+/** One step of 6-connected binary erosion. */
+export const erode = (mask: Uint8Array, dims: Vec3) => {
+  const [nx, ny, nz] = dims;
+  const nxy = nx * ny;
+  const out = new Uint8Array(mask.length);
+  for (let k = 1; k < nz - 1; k++) {
+    for (let j = 1; j < ny - 1; j++) {
+      let p = k * nxy + j * nx + 1;
+      for (let i = 1; i < nx - 1; i++, p++) {
+        out[p] = mask[p] && mask[p - 1] && mask[p + 1] && mask[p - nx] && mask[p + nx] && mask[p - nxy] && mask[p + nxy] ? 1 : 0;
+      }
+    }
+  }
+  return out;
+};
+
+/**
+ * Grows labelled seeds through `domain` in breadth-first order, so every domain
+ * voxel takes the label of the geodesically closest seed. `seeds` is modified in place.
+ */
+export const propagateLabels = (seeds: Uint8Array, domain: Uint8Array, dims: Vec3) => {
+  const [nx, ny, nz] = dims;
+  const nxy = nx * ny;
+  const queue = new Int32Array(seeds.length);
+  let head = 0, tail = 0;
+  for (let p = 0; p < seeds.length; p++) if (seeds[p]) queue[tail++] = p;
+  while (head < tail) {
+    const p = queue[head++];
+    const label = seeds[p];
+    const i = p % nx, j = ((p - i) / nx) % ny, k = (p - i - j * nx) / nxy;
+    const visit = (q: number) => {
+      if (domain[q] && !seeds[q]) { seeds[q] = label; queue[tail++] = q; }
+    };
+    if (i > 0) visit(p - 1);
+    if (i < nx - 1) visit(p + 1);
+    if (j > 0) visit(p - nx);
+    if (j < ny - 1) visit(p + nx);
+    if (k > 0) visit(p - nxy);
+    if (k < nz - 1) visit(p + nxy);
+  }
+  return seeds;
+};
+
+/** Mean voxel index (i, j, k) of every voxel where `predicate` holds. */
+export const centroidWhere = (length: number, dims: Vec3, predicate: (p: number) => boolean): Vec3 | null => {
+  const [nx, ny] = dims;
+  let si = 0, sj = 0, sk = 0, n = 0;
+  for (let p = 0; p < length; p++) {
+    if (!predicate(p)) continue;
+    const i = p % nx, j = ((p - i) / nx) % ny, k = Math.floor(p / (nx * ny));
+    si += i; sj += j; sk += k; n++;
+  }
+  return n > 0 ? [si / n, sj / n, sk / n] : null;
+};
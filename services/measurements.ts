@@ -0,0 +1,75 @@
+import { LungAnalysisResult, LungLabel, Measurement, MeasurementKind, Vec3 } from "../types";
+import { patientToVoxel, voxelToPatient, voxelVolumeMl } from "./volumeUtils";
+
+// Points picked to complete each kind of measurement
+export const MEASUREMENT_POINTS: Record<MeasurementKind, number> = { distance: 2, angle: 3, sphere: 2 };
+
+const LABEL_PREFIX: Record<MeasurementKind, string> = { distance: 'D', angle: 'A', sphere: 'R' };
+
+const round = (v: number, digits = 1) => Math.round(v * 10 ** digits) / 10 ** digits;
+
+export const distanceMm = (a: Vec3, b: Vec3) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+/** Angle at `vertex` between the rays to `a` and `c`, in degrees. */
+export const angleDegrees = (a: Vec3, vertex: Vec3, c: Vec3) => {
+  const u = a.map((v, i) => v - vertex[i]);
+  const w = c.map((v, i) => v - vertex[i]);
+  const lengths = Math.hypot(...u) * Math.hypot(...w);
+  if (lengths === 0) return 0;
+  const cos = (u[0] * w[0] + u[1] * w[1] + u[2] * w[2]) / lengths;
+  return (Math.acos(Math.max(-1, Math.min(1, cos))) * 180) / Math.PI;
+};
+
+/**
+ * Lung enclosed by a sphere on the analysis grid: the volume of right/left lung
+ * voxels whose centres lie inside it and their mean attenuation (null when the
+ * sphere holds no lung).
+ */
+export const measureSphere = (analysis: LungAnalysisResult, center: Vec3, radiusMm: number) => {
+  const { analysisVolume: volume, segmentation } = analysis;
+  const [nx, ny, nz] = volume.dimensions;
+  const c = patientToVoxel(volume, center);
+  const reach = volume.spacing.map(s => Math.ceil(radiusMm / s));
+  const lo = c.map((v, a) => Math.max(0, Math.floor(v) - reach[a]));
+  const hi = c.map((v, a) => Math.min(volume.dimensions[a] - 1, Math.ceil(v) + reach[a]));
+  let count = 0, sumHU = 0;
+  for (let k = lo[2]; k <= hi[2] && k < nz; k++) {
+    for (let j = lo[1]; j <= hi[1] && j < ny; j++) {
+      for (let i = lo[0]; i <= hi[0] && i < nx; i++) {
+        const v = i + j * nx + k * nx * ny;
+        const label = segmentation.labels[v];
+        if (label !== LungLabel.RIGHT_LUNG && label !== LungLabel.LEFT_LUNG) continue;
+        if (distanceMm(voxelToPatient(volume, i, j, k), center) > radiusMm) continue;
+        count++;
+        sumHU += volume.data[v];
+      }
+    }
+  }
+  return { volumeMl: count * voxelVolumeMl(volume.spacing), meanHU: count ? sumHU / count : null };
+};
+
+/** Measurement from its picked points, labelled after the highest existing one of its kind. */
+export const createMeasurement = (
+  kind: MeasurementKind,
+  points: Vec3[],
+  analysis: LungAnalysisResult,
+  existing: Measurement[]
+): Measurement => {
+  const prefix = LABEL_PREFIX[kind];
+  const number = 1 + Math.max(0, ...existing
+    .filter(m => m.kind === kind)
+    .map(m => parseInt(m.label.slice(prefix.length), 10) || 0));
+  const base = { id: `m-${Date.now()}`, kind, label: `${prefix}${number}`, points, createdAt: new Date().toISOString() };
+
+  if (kind === 'distance') return { ...base, value: round(distanceMm(points[0], points[1])) };
+  if (kind === 'angle') return { ...base, value: round(angleDegrees(points[0], points[1], points[2])) };
+  const { volumeMl, meanHU } = measureSphere(analysis, points[0], distanceMm(points[0], points[1]));
+  return { ...base, value: round(volumeMl), ...(meanHU !== null && { meanHU: Math.round(meanHU) }) };
+};
+
+/** Short display form, e.g. "42.3 mm", "117.5°", "12.4 mL · -846 HU". */
+export const formatMeasurement = (m: Measurement) => {
+  if (m.kind === 'distance') return `${m.value.toFixed(1)} mm`;
+  if (m.kind === 'angle') return `${m.value.toFixed(1)}°`;
+  return `${m.value.toFixed(1)} mL${m.meanHU !== undefined ? ` · ${m.meanHU} HU` : ''}`;
+};
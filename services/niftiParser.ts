@@ -0,0 +1,220 @@
+import { CTVolume, Vec3 } from "../types";
+import { clampToInt16, reorientToLPS } from "./volumeUtils";
+
+const NIFTI1_HEADER_SIZE = 348;
+const NIFTI2_HEADER_SIZE = 540;
+
+// NIfTI datatype codes we can read
+const DATATYPES: Record<number, { bytes: number; read: (view: DataView, offset: number, le: boolean) => number }> = {
+  2: { bytes: 1, read: (v, o) => v.getUint8(o) },
+  4: { bytes: 2, read: (v, o, le) => v.getInt16(o, le) },
+  8: { bytes: 4, read: (v, o, le) => v.getInt32(o, le) },
+  16: { bytes: 4, read: (v, o, le) => v.getFloat32(o, le) },
+  64: { bytes: 8, read: (v, o, le) => v.getFloat64(o, le) },
+  256: { bytes: 1, read: (v, o) => v.getInt8(o) },
+  512: { bytes: 2, read: (v, o, le) => v.getUint16(o, le) },
+  768: { bytes: 4, read: (v, o, le) => v.getUint32(o, le) },
+};
+
+// xyzt_units spatial codes -> factor to millimetres
+const SPATIAL_UNIT_TO_MM: Record<number, number> = { 0: 1, 1: 1000, 2: 1, 3: 0.001 };
+
+interface NiftiHeader {
+  version: 1 | 2;
+  littleEndian: boolean;
+  dims: number[]; // dim[0..7]
+  datatype: number;
+  pixdim: number[]; // pixdim[0..7]
+  voxOffset: number;
+  sclSlope: number;
+  sclInter: number;
+  description: string;
+  qformCode: number;
+  sformCode: number;
+  quatern: Vec3;
+  qoffset: Vec3;
+  srow: [number[], number[], number[]];
+  spatialUnits: number;
+}
+
+const isGzip = (bytes: Uint8Array) => bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+const gunzip = async (buffer: ArrayBuffer): Promise<ArrayBuffer> => {
+  const stream = new Blob([buffer]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).arrayBuffer();
+};
+
+const readString = (bytes: Uint8Array, offset: number, length: number) => {
+  const raw = new TextDecoder('latin1').decode(bytes.subarray(offset, offset + length));
+  const end = raw.indexOf('\0');
+  return (end === -1 ? raw : raw.slice(0, end)).trim();
+};
+
+const readHeader = (buffer: ArrayBuffer): NiftiHeader => {
+  if (buffer.byteLength < NIFTI1_HEADER_SIZE) throw new Error('file is too small to be a NIfTI image');
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  let littleEndian = true;
+  let size = view.getInt32(0, true);
+  if (size !== NIFTI1_HEADER_SIZE && size !== NIFTI2_HEADER_SIZE) {
+    littleEndian = false;
+    size = view.getInt32(0, false);
+  }
+  const le = littleEndian;
+
+  if (size === NIFTI1_HEADER_SIZE) {
+    const magic = readString(bytes, 344, 4);
+    if (magic === 'ni1') throw new Error('split .hdr/.img NIfTI pairs are not supported; convert to a single .nii file');
+    if (magic !== 'n+1') throw new Error(`unrecognised NIfTI-1 magic "${magic}"`);
+    const f32 = (o: number) => view.getFloat32(o, le);
+    return {
+      version: 1,
+      littleEndian,
+      dims: Array.from({ length: 8 }, (_, i) => view.getInt16(40 + i * 2, le)),
+      datatype: view.getInt16(70, le),
+      pixdim: Array.from({ length: 8 }, (_, i) => f32(76 + i * 4)),
+      voxOffset: f32(108),
+      sclSlope: f32(112),
+      sclInter: f32(116),
+      description: readString(bytes, 148, 80),
+      qformCode: view.getInt16(252, le),
+      sformCode: view.getInt16(254, le),
+      quatern: [f32(256), f32(260), f32(264)],
+      qoffset: [f32(268), f32(272), f32(276)],
+      srow: [0, 1, 2].map(r => [0, 1, 2, 3].map(c => f32(280 + r * 16 + c * 4))) as [number[], number[], number[]],
+      spatialUnits: view.getUint8(123) & 0x07,
+    };
+  }
+
+  if (size === NIFTI2_HEADER_SIZE) {
+    if (buffer.byteLength < NIFTI2_HEADER_SIZE) throw new Error('NIfTI-2 header is truncated');
+    const magic = readString(bytes, 4, 4);
+    if (magic === 'ni2') throw new Error('split .hdr/.img NIfTI pairs are not supported; convert to a single .nii file');
+    if (magic !== 'n+2') throw new Error(`unrecognised NIfTI-2 magic "${magic}"`);
+    const f64 = (o: number) => view.getFloat64(o, le);
+    const i64 = (o: number) => Number(view.getBigInt64(o, le));
+    return {
+      version: 2,
+      littleEndian,
+      dims: Array.from({ length: 8 }, (_, i) => i64(16 + i * 8)),
+      datatype: view.getInt16(12, le),
+      pixdim: Array.from({ length: 8 }, (_, i) => f64(104 + i * 8)),
+      voxOffset: i64(168),
+      sclSlope: f64(176),
+      sclInter: f64(184),
+      description: readString(bytes, 240, 80),
+      qformCode: view.getInt32(344, le),
+      sformCode: view.getInt32(348, le),
+      quatern: [f64(352), f64(360), f64(368)],
+      qoffset: [f64(376), f64(384), f64(392)],
+      srow: [0, 1, 2].map(r => [0, 1, 2, 3].map(c => f64(400 + r * 32 + c * 8))) as [number[], number[], number[]],
+      spatialUnits: view.getInt32(500, le) & 0x07,
+    };
+  }
+
+  throw new Error('not a NIfTI-1 or NIfTI-2 file (unexpected header size)');
+};
+
+/**
+ * Voxel -> RAS affine as a 3x4 matrix, following the NIfTI rules:
+ * sform when set, then qform, then plain pixdim scaling.
+ */
+const getAffine = (h: NiftiHeader): number[][] => {
+  const [, dx, dy, dz] = h.pixdim.map(Math.abs);
+
+  if (h.sformCode > 0) return h.srow.map(r => [...r]);
+
+  if (h.qformCode > 0) {
+    const [b, c, d] = h.quatern;
+    const a = Math.sqrt(Math.max(0, 1 - (b * b + c * c + d * d)));
+    const qfac = h.pixdim[0] < 0 ? -1 : 1;
+    const R = [
+      [a * a + b * b - c * c - d * d, 2 * (b * c - a * d), 2 * (b * d + a * c)],
+      [2 * (b * c + a * d), a * a + c * c - b * b - d * d, 2 * (c * d - a * b)],
+      [2 * (b * d - a * c), 2 * (c * d + a * b), a * a + d * d - c * c - b * b],
+    ];
+    return R.map((row, r) => [row[0] * dx, row[1] * dy, row[2] * dz * qfac, h.qoffset[r]]);
+  }
+
+  // Method 1 (analyze-style): no orientation information at all
+  return [
+    [dx, 0, 0, 0],
+    [0, dy, 0, 0],
+    [0, 0, dz, 0],
+  ];
+};
+
+/**
+ * Parses a single-file NIfTI-1 or NIfTI-2 volume (optionally gzip-compressed)
+ * into the same canonical Hounsfield-unit volume produced for DICOM series.
+ */
+export const parseNifti = async (input: ArrayBuffer, fileName: string): Promise<CTVolume> => {
+  try {
+    const buffer = isGzip(new Uint8Array(input)) ? await gunzip(input) : input;
+    const h = readHeader(buffer);
+
+    const nDims = h.dims[0];
+    const [nx, ny, nz] = [h.dims[1], h.dims[2], nDims >= 3 ? h.dims[3] : 1];
+    if (nDims < 3 || nx < 1 || ny < 1 || nz < 2) throw new Error('image is not a 3D volume');
+    if (nDims > 3 && h.dims.slice(4, nDims + 1).some(d => d > 1)) {
+      throw new Error('4D NIfTI images are not supported; extract a single volume first');
+    }
+
+    const type = DATATYPES[h.datatype];
+    if (!type) throw new Error(`NIfTI datatype ${h.datatype} is not supported`);
+
+    const count = nx * ny * nz;
+    const voxOffset = Math.max(h.voxOffset, h.version === 1 ? NIFTI1_HEADER_SIZE + 4 : NIFTI2_HEADER_SIZE + 4);
+    if (buffer.byteLength < voxOffset + count * type.bytes) {
+      throw new Error(`image data is truncated: expected ${count * type.bytes} bytes after offset ${voxOffset}`);
+    }
+
+    // A scl_slope of 0 means "no scaling" per the spec
+    const hasScaling = h.sclSlope !== 0 && Number.isFinite(h.sclSlope);
+    const slope = hasScaling ? h.sclSlope : 1;
+    const inter = hasScaling && Number.isFinite(h.sclInter) ? h.sclInter : 0;
+
+    const view = new DataView(buffer);
+    const data = new Int16Array(count);
+    for (let n = 0, o = voxOffset; n < count; n++, o += type.bytes) {
+      data[n] = clampToInt16(type.read(view, o, h.littleEndian) * slope + inter);
+    }
+
+    // RAS -> LPS: negate the first two rows of the affine
+    const unit = SPATIAL_UNIT_TO_MM[h.spatialUnits] ?? 1;
+    const affine = getAffine(h).map((row, r) => row.map(v => (r < 2 ? -v : v) * unit));
+    const spacing = [0, 1, 2].map(c => Math.hypot(affine[0][c], affine[1][c], affine[2][c]) || 1) as Vec3;
+    const direction: number[] = [];
+    for (let c = 0; c < 3; c++) {
+      direction.push(affine[0][c] / spacing[c], affine[1][c] / spacing[c], affine[2][c] / spacing[c]);
+    }
+
+    const volume: CTVolume = {
+      id: `nifti-${fileName}`,
+      dimensions: [nx, ny, nz],
+      spacing,
+      origin: [affine[0][3], affine[1][3], affine[2][3]],
+      direction,
+      data,
+      metadata: {
+        source: 'nifti',
+        description: h.description || fileName.replace(/\.nii(\.gz)?$/i, ''),
+        sliceThickness: null,
+      },
+    };
+
+    return reorientToLPS(volume);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`${fileName}: ${message}`);
+  }
+};
+
+export const isNiftiFileName = (name: string) => /\.nii(\.gz)?$/i.test(name);
+
+/** Reads a browser File and parses it as NIfTI. */
+export const parseNiftiFile = async (file: File): Promise<CTVolume> => {
+  const buffer = await file.arrayBuffer();
+  return parseNifti(buffer, file.name);
+};
@@ -0,0 +1,298 @@
+import { CTVolume, LungLabel, LungSegmentation, MetricKey, QCCheck, QCReport, QCSeverity } from "../types";
+import { floodFromSliceBorders } from "./maskUtils";
+
+// Slice thickness (mm): densitometry drifts with thick slices, fissures blur out
+const THICKNESS_WARN_MM = 2.5;
+const THICKNESS_FAIL_MM = 5;
+// Grid spacing (mm) along the slice normal and in plane
+const SLICE_SPACING_WARN_MM = 2.5;
+const SLICE_SPACING_FAIL_MM = 10;
+const PIXEL_SPACING_WARN_MM = 1;
+const PIXEL_SPACING_FAIL_MM = 2;
+// Lung cross-section on the first / last slice, as % of the largest cross-section
+const TRUNCATION_WARN_PCT = 5;
+const TRUNCATION_FAIL_PCT = 25;
+// Interpolated slices as % of all slices
+const MISSING_FAIL_PCT = 10;
+// Contrast: share (%) of mediastinal soft tissue enhanced into this HU range
+const ENHANCED_MIN_HU = 150;
+const ENHANCED_MAX_HU = 600;
+const CONTRAST_WARN_PCT = 10;
+// Motion: a slice whose lung outline disagrees with both neighbours over this share
+// of its lung area scores 100
+const MOTION_FULL_SCALE = 0.15;
+const MOTION_WARN_SCORE = 40;
+const MOTION_FAIL_SCORE = 80;
+// Slices whose neighbours have less lung than this share of the largest slice are ignored
+const MOTION_MIN_AREA = 0.2;
+// Air (outside the body, or the trachea) should read -1000 HU; deviation (HU) tolerated before warning / failing
+const AIR_WARN_HU = 60;
+const AIR_FAIL_HU = 150;
+// Air vs. tissue cut-off for flooding the air around the patient from the slice borders
+const EXTERNAL_AIR_MAX_HU = -400;
+// Values below this are padding outside the reconstructed field of view (-2000, -3024), not air
+const PADDING_MAX_HU = -1500;
+const MIN_EXTERNAL_AIR_VOXELS = 500;
+const MIN_AIRWAY_VOXELS = 50;
+
+const VOLUME_METRICS: MetricKey[] = ['totalVolume', 'lobeVolumes'];
+// Everything read off the expiratory scan
+const EXPIRATORY_METRICS: MetricKey[] = ['airTrapping', 'expansionRatio', 'stiffnessIndex'];
+
+const round = (v: number, digits = 1) => Math.round(v * 10 ** digits) / 10 ** digits;
+const isLung = (label: number) => label === LungLabel.RIGHT_LUNG || label === LungLabel.LEFT_LUNG;
+
+const grade = (value: number, warn: number, fail: number): QCSeverity =>
+  value > fail ? 'fail' : value > warn ? 'warning' : 'pass';
+
+const worst = (...severities: QCSeverity[]): QCSeverity =>
+  severities.includes('fail') ? 'fail' : severities.includes('warning') ? 'warning' : 'pass';
+
+const percentile = (values: number[], q: number) => {
+  if (values.length === 0) return 0;
+  const sorted = values.slice().sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+};
+
+// HU range of the histogram used for masked percentiles; padding lies below it and is skipped
+const HISTOGRAM_MIN_HU = PADDING_MAX_HU;
+const HISTOGRAM_MAX_HU = 3000;
+
+/**
+ * Percentile of the HU values under a mask via a 1 HU histogram, without sorting
+ * them. Padding values are left out; returns null when nothing else is masked.
+ */
+const maskedPercentile = (data: Int16Array, mask: Uint8Array, q: number) => {
+  const counts = new Uint32Array(HISTOGRAM_MAX_HU - HISTOGRAM_MIN_HU + 1);
+  let total = 0;
+  for (let p = 0; p < data.length; p++) {
+    if (!mask[p] || data[p] < HISTOGRAM_MIN_HU) continue;
+    counts[Math.min(HISTOGRAM_MAX_HU, data[p]) - HISTOGRAM_MIN_HU]++;
+    total++;
+  }
+  if (total === 0) return { value: null, count: 0 };
+  const target = q * total;
+  let seen = 0;
+  for (let b = 0; b < counts.length; b++) {
+    seen += counts[b];
+    if (seen > target) return { value: b + HISTOGRAM_MIN_HU, count: total };
+  }
+  return { value: HISTOGRAM_MAX_HU, count: total };
+};
+
+/** Thrown by the pipeline when a scan fails a blocking quality check. */
+export class QualityGateError extends Error {
+  constructor(readonly report: QCReport) {
+    super(`Scan failed quality control: ${report.checks.filter(c => c.severity === 'fail').map(c => c.detail).join(' ')}`);
+    this.name = 'QualityGateError';
+  }
+}
+
+/**
+ * Checks a scan before any metric is computed from it: acquisition geometry from
+ * the header and series assembly, then lung coverage, contrast, motion and HU
+ * calibration from the image and its lung segmentation (on the analysis grid).
+ * Any failed check makes the report blocking.
+ */
+export const assessImageQuality = (
+  volume: CTVolume,
+  analysisVolume: CTVolume,
+  segmentation: LungSegmentation,
+  scan: QCCheck['scan'] = 'inspiratory'
+): QCReport => {
+  const { labels, dimensions: [nx, ny, nz] } = segmentation;
+  const nxy = nx * ny;
+  const data = analysisVolume.data;
+  const checks: QCCheck[] = [];
+  const add = (check: Omit<QCCheck, 'scan' | 'affects'>, affects: MetricKey[]) =>
+    checks.push({ ...check, scan, affects: scan === 'expiratory' ? EXPIRATORY_METRICS : affects });
+
+  // --- Acquisition geometry ---
+  const thickness = volume.metadata.sliceThickness ?? volume.spacing[2];
+  const thicknessSeverity = grade(thickness, THICKNESS_WARN_MM, THICKNESS_FAIL_MM);
+  add({
+    key: 'sliceThickness',
+    label: 'Slice thickness',
+    severity: thicknessSeverity,
+    measured: round(thickness, 2),
+    units: 'mm',
+    detail: thicknessSeverity === 'pass'
+      ? `${round(thickness, 2)} mm slices${volume.metadata.sliceThickness === null ? ' (from slice spacing; thickness not recorded)' : ''}.`
+      : `${round(thickness, 2)} mm slices are thicker than ${thicknessSeverity === 'fail' ? THICKNESS_FAIL_MM : THICKNESS_WARN_MM} mm; densities and fissures are blurred.`,
+  }, ['airTrapping', 'lobeVolumes']);
+
+  const [si, sj, sk] = volume.spacing;
+  const pixel = Math.max(si, sj);
+  const assembly = volume.metadata.assembly;
+  const spacingIssues = [
+    sk > SLICE_SPACING_WARN_MM && `slice spacing ${round(sk, 2)} mm exceeds ${sk > SLICE_SPACING_FAIL_MM ? SLICE_SPACING_FAIL_MM : SLICE_SPACING_WARN_MM} mm`,
+    pixel > PIXEL_SPACING_WARN_MM && `pixel spacing ${round(pixel, 2)} mm exceeds ${pixel > PIXEL_SPACING_FAIL_MM ? PIXEL_SPACING_FAIL_MM : PIXEL_SPACING_WARN_MM} mm`,
+    assembly?.unevenSpacing && `uneven slice spacing (${round(assembly.spacingRange[0], 2)}-${round(assembly.spacingRange[1], 2)} mm) was resampled`,
+    sk > thickness * 1.05 && `gaps between ${round(thickness, 2)} mm slices`,
+  ].filter((s): s is string => !!s);
+  add({
+    key: 'sliceSpacing',
+    label: 'Slice & pixel spacing',
+    severity: worst(
+      grade(sk, SLICE_SPACING_WARN_MM, SLICE_SPACING_FAIL_MM),
+      grade(pixel, PIXEL_SPACING_WARN_MM, PIXEL_SPACING_FAIL_MM),
+      spacingIssues.length > 0 ? 'warning' : 'pass'
+    ),
+    measured: round(sk, 2),
+    units: 'mm',
+    detail: spacingIssues.length > 0
+      ? `${spacingIssues.join('; ')}.`.replace(/^./, c => c.toUpperCase())
+      : `${round(si, 2)} x ${round(sj, 2)} x ${round(sk, 2)} mm voxels.`,
+  }, VOLUME_METRICS);
+
+  if (assembly) {
+    const missingPct = (assembly.missingSlices / Math.max(1, volume.dimensions[2])) * 100;
+    add({
+      key: 'missingSlices',
+      label: 'Missing slices',
+      severity: assembly.missingSlices === 0 ? 'pass' : missingPct > MISSING_FAIL_PCT ? 'fail' : 'warning',
+      measured: assembly.missingSlices,
+      units: 'slices',
+      detail: assembly.missingSlices === 0
+        ? `All ${assembly.acquiredSlices} slices present.`
+        : `${assembly.missingSlices} slice(s) (${round(missingPct)}%) missing from the series and filled by interpolation.`,
+    }, [...VOLUME_METRICS, 'airTrapping']);
+  } else {
+    add({
+      key: 'missingSlices',
+      label: 'Missing slices',
+      severity: 'pass',
+      measured: null,
+      units: 'slices',
+      detail: 'Volume file carries no per-slice positions to check.',
+    }, VOLUME_METRICS);
+  }
+
+  // --- Lung coverage and motion, from the lung cross-section per slice ---
+  const area = new Float64Array(nz);
+  const box = { minJ: ny, maxJ: -1, minK: nz, maxK: -1 };
+  const rightMaxI = new Int32Array(nz).fill(-1);
+  const leftMinI = new Int32Array(nz).fill(nx);
+  for (let p = 0; p < labels.length; p++) {
+    const label = labels[p];
+    if (!isLung(label)) continue;
+    const i = p % nx, j = ((p - i) / nx) % ny, k = Math.floor(p / nxy);
+    area[k]++;
+    if (label === LungLabel.RIGHT_LUNG && i > rightMaxI[k]) rightMaxI[k] = i;
+    if (label === LungLabel.LEFT_LUNG && i < leftMinI[k]) leftMinI[k] = i;
+    if (j < box.minJ) box.minJ = j;
+    if (j > box.maxJ) box.maxJ = j;
+    if (k < box.minK) box.minK = k;
+    if (k > box.maxK) box.maxK = k;
+  }
+  const maxArea = Math.max(...area);
+
+  const apexPct = maxArea > 0 ? (area[nz - 1] / maxArea) * 100 : 100;
+  const basePct = maxArea > 0 ? (area[0] / maxArea) * 100 : 100;
+  const truncation = Math.max(apexPct, basePct);
+  const truncationSeverity = grade(truncation, TRUNCATION_WARN_PCT, TRUNCATION_FAIL_PCT);
+  const cutEnds = [apexPct > TRUNCATION_WARN_PCT && 'apex', basePct > TRUNCATION_WARN_PCT && 'base'].filter(Boolean).join(' and ');
+  add({
+    key: 'coverage',
+    label: 'Lung coverage',
+    severity: truncationSeverity,
+    measured: round(truncation),
+    units: '% of largest cross-section on an end slice',
+    detail: truncationSeverity === 'pass'
+      ? 'Both lungs are covered from apex to base.'
+      : `Lung ${cutEnds} cut off by the scan range (${round(truncation)}% of the largest lung cross-section on the end slice).`,
+  }, [...VOLUME_METRICS, 'airTrapping', 'expansionRatio', 'stiffnessIndex']);
+
+  // Motion staggers the lungs between slices: where both neighbours agree on lung or
+  // not-lung, a slice taken mid-movement disagrees with them along its outline
+  const jumps: number[] = [];
+  for (let k = 1; k < nz - 1; k++) {
+    if (Math.min(area[k - 1], area[k + 1]) < maxArea * MOTION_MIN_AREA) continue;
+    let mismatched = 0;
+    for (let p = k * nxy; p < (k + 1) * nxy; p++) {
+      const below = isLung(labels[p - nxy]);
+      if (below === isLung(labels[p + nxy]) && below !== isLung(labels[p])) mismatched++;
+    }
+    jumps.push(mismatched / Math.max(1, area[k]));
+  }
+  const motionScore = Math.round(100 * Math.min(1, percentile(jumps, 0.95) / MOTION_FULL_SCALE));
+  const motionSeverity = motionScore >= MOTION_FAIL_SCORE ? 'fail' : motionScore >= MOTION_WARN_SCORE ? 'warning' : 'pass';
+  add({
+    key: 'motion',
+    label: 'Motion artifacts',
+    severity: motionSeverity,
+    measured: motionScore,
+    units: 'score 0-100',
+    detail: motionSeverity === 'pass'
+      ? `Lung outline is continuous between slices (motion score ${motionScore}).`
+      : `Lung outline jumps between neighbouring slices, consistent with ${motionSeverity === 'fail' ? 'severe ' : ''}breathing or cardiac motion (motion score ${motionScore}).`,
+  }, [...VOLUME_METRICS, 'airTrapping', 'expansionRatio', 'stiffnessIndex']);
+
+  // --- Contrast: enhanced blood in the mediastinum between the lungs ---
+  const agent = volume.metadata.acquisition?.contrastBolusAgent ?? '';
+  let softTissue = 0, enhanced = 0;
+  if (box.maxK >= 0) {
+    const height = box.maxK - box.minK, depth = box.maxJ - box.minJ;
+    for (let k = box.minK + Math.round(height * 0.25); k <= box.minK + Math.round(height * 0.75); k++) {
+      if (rightMaxI[k] < 0 || leftMinI[k] >= nx) continue;
+      for (let j = box.minJ + Math.round(depth * 0.15); j <= box.minJ + Math.round(depth * 0.6); j++) {
+        for (let i = rightMaxI[k] + 1; i < leftMinI[k]; i++) {
+          const hu = data[i + j * nx + k * nxy];
+          if (hu < -100 || hu > ENHANCED_MAX_HU) continue;
+          softTissue++;
+          if (hu >= ENHANCED_MIN_HU) enhanced++;
+        }
+      }
+    }
+  }
+  const enhancedPct = softTissue > 0 ? (enhanced / softTissue) * 100 : 0;
+  const contrast = agent !== '' || enhancedPct > CONTRAST_WARN_PCT;
+  add({
+    key: 'contrast',
+    label: 'Contrast',
+    severity: contrast ? 'warning' : 'pass',
+    measured: round(enhancedPct),
+    units: '% of mediastinal soft tissue above 150 HU',
+    detail: contrast
+      ? `Contrast-enhanced scan (${agent !== '' ? `agent "${agent}" recorded; ` : ''}${round(enhancedPct)}% of mediastinal soft tissue above ${ENHANCED_MIN_HU} HU); lung densities read slightly high.`
+      : 'No contrast enhancement detected.',
+  }, ['airTrapping']);
+
+  // --- HU calibration: the air around the patient, else air in the trachea ---
+  // External air is found by connectivity rather than by HU, so an offset scan still
+  // shows its offset; the airway voxels were grown under fixed HU thresholds and
+  // read near -1000 HU whatever the calibration, so they are only the fallback.
+  const outside = floodFromSliceBorders(Uint8Array.from(data, hu => (hu < EXTERNAL_AIR_MAX_HU ? 1 : 0)), segmentation.dimensions);
+  const external = maskedPercentile(data, outside, 0.5);
+  const useExternal = external.value !== null && external.count >= MIN_EXTERNAL_AIR_VOXELS;
+  const airway: number[] = [];
+  if (!useExternal) for (let p = 0; p < labels.length; p++) if (labels[p] === LungLabel.AIRWAY) airway.push(data[p]);
+  const tracheal = !useExternal && airway.length >= MIN_AIRWAY_VOXELS;
+  // Partial volume with the tracheal wall only raises air values, so read the low end
+  const air = useExternal ? external.value : tracheal ? percentile(airway, 0.1) : null;
+  const airSource = useExternal ? 'Air outside the body' : 'Tracheal air';
+  if (air === null) {
+    add({
+      key: 'huCalibration',
+      label: 'HU calibration',
+      severity: 'warning',
+      measured: null,
+      units: 'HU',
+      detail: 'No air outside the body or in the trachea to check the HU calibration against.',
+    }, ['airTrapping']);
+  } else {
+    const airSeverity = grade(Math.abs(air + 1000), AIR_WARN_HU, AIR_FAIL_HU);
+    add({
+      key: 'huCalibration',
+      label: 'HU calibration',
+      severity: airSeverity,
+      measured: Math.round(air),
+      units: `HU (${airSource.toLowerCase()})`,
+      detail: airSeverity === 'pass'
+        ? `${airSource} reads ${Math.round(air)} HU.`
+        : `${airSource} reads ${Math.round(air)} HU instead of -1000 HU; density thresholds may not apply.`,
+    }, ['airTrapping']);
+  }
+
+  return { checks, blocking: checks.some(c => c.severity === 'fail') };
+};
@@ -0,0 +1,437 @@
+import {
+  CTVolume, DeformableRegistration, DisplacementField, LungLabel, LungSegmentation, RegistrationStage,
+  ScalarField, SurfaceMesh, Vec3
+} from "../types";
+import { interpolateGrid, patientToVoxel, sampleScalarField, sampleVolume, voxelToPatient } from "./volumeUtils";
+
+// Row-major 3x4 affine [R | t] acting on LPS mm
+export type AffineTransform = number[];
+
+export const IDENTITY_TRANSFORM: AffineTransform = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0];
+
+export const applyTransform = (m: AffineTransform, p: Vec3): Vec3 => [
+  m[0] * p[0] + m[1] * p[1] + m[2] * p[2] + m[3],
+  m[4] * p[0] + m[5] * p[1] + m[6] * p[2] + m[7],
+  m[8] * p[0] + m[9] * p[1] + m[10] * p[2] + m[11],
+];
+
+/** Inverse of an affine transform; throws when the linear part is singular. */
+export const invertTransform = (m: AffineTransform): AffineTransform => {
+  const [a, b, c, , d, e, f, , g, h, i] = m;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  if (Math.abs(det) < 1e-12) throw new Error("Registration transform is singular.");
+  const r = [
+    (e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det,
+    (f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det,
+    (d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det,
+  ];
+  const t = [m[3], m[7], m[11]];
+  return [
+    r[0], r[1], r[2], -(r[0] * t[0] + r[1] * t[1] + r[2] * t[2]),
+    r[3], r[4], r[5], -(r[3] * t[0] + r[4] * t[1] + r[5] * t[2]),
+    r[6], r[7], r[8], -(r[6] * t[0] + r[7] * t[1] + r[8] * t[2]),
+  ];
+};
+
+const isLung = (label: number) => label === LungLabel.RIGHT_LUNG || label === LungLabel.LEFT_LUNG;
+
+/** Centroid and per-axis standard deviation (LPS mm) of the lung mask. */
+const lungMoments = (segmentation: LungSegmentation) => {
+  const [nx, ny] = segmentation.dimensions;
+  const sum = [0, 0, 0], sumSq = [0, 0, 0];
+  let n = 0;
+  segmentation.labels.forEach((label, p) => {
+    if (!isLung(label)) return;
+    const i = p % nx, j = ((p - i) / nx) % ny, k = (p - i - j * nx) / (nx * ny);
+    const x = voxelToPatient(segmentation, i, j, k);
+    for (let a = 0; a < 3; a++) { sum[a] += x[a]; sumSq[a] += x[a] * x[a]; }
+    n++;
+  });
+  if (n === 0) return null;
+  const mean = sum.map(s => s / n) as Vec3;
+  const std = sumSq.map((s, a) => Math.sqrt(Math.max(0, s / n - mean[a] * mean[a]))) as Vec3;
+  return { mean, std, count: n };
+};
+
+/** Dice overlap of the fixed lung mask with the moving lung mask pulled through `fixedToMoving`, counted on the fixed grid. */
+export const lungDice = (fixed: LungSegmentation, moving: LungSegmentation, fixedToMoving: (p: Vec3) => Vec3) => {
+  const [nx, ny] = fixed.dimensions;
+  const [mx, my, mz] = moving.dimensions;
+  let fixedCount = 0, movingCount = 0, both = 0;
+  fixed.labels.forEach((label, p) => {
+    const i = p % nx, j = ((p - i) / nx) % ny, k = (p - i - j * nx) / (nx * ny);
+    const v = patientToVoxel(moving, fixedToMoving(voxelToPatient(fixed, i, j, k))).map(Math.round);
+    const inMoving = v[0] >= 0 && v[1] >= 0 && v[2] >= 0 && v[0] < mx && v[1] < my && v[2] < mz
+      && isLung(moving.labels[v[0] + v[1] * mx + v[2] * mx * my]);
+    const inFixed = isLung(label);
+    if (inFixed) fixedCount++;
+    if (inMoving) movingCount++;
+    if (inFixed && inMoving) both++;
+  });
+  return fixedCount + movingCount > 0 ? (2 * both) / (fixedCount + movingCount) : 0;
+};
+
+// --- Rigid -> affine -> demons registration of two CT scans ---
+
+// Intensities are clamped to lungs + soft tissue so bone and contrast do not dominate
+const HU_FLOOR = -1000;
+const HU_CEIL = 200;
+// Region compared: the fixed lungs' bounding box grown by this margin (mm)
+const REGION_MARGIN_MM = 10;
+// Points sampled for the rigid and affine cost
+const SAMPLE_POINTS = 15000;
+// Coordinate descent: sweeps per stage and initial / final step per parameter kind
+const MAX_SWEEPS = 40;
+const TRANSLATION_STEP_MM = [4, 0.25];
+const ROTATION_STEP_RAD = [0.04, 0.002];
+const SCALE_STEP = [0.04, 0.002];       // Log scale
+const SHEAR_STEP = [0.04, 0.002];
+// Demons grid spacing (mm) and iteration count
+const DEMONS_SPACING_MM = 4;
+const DEMONS_ITERATIONS = 40;
+
+export interface RegistrationInput {
+  volume: CTVolume;
+  segmentation: LungSegmentation;
+}
+
+const clampHU = (v: number) => (v < HU_FLOOR ? HU_FLOOR : v > HU_CEIL ? HU_CEIL : v);
+
+/** LPS box (mm) around the lung voxels of a segmentation, grown by `margin`. */
+const lungRegion = (segmentation: LungSegmentation, margin: number) => {
+  const [nx, ny] = segmentation.dimensions;
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  segmentation.labels.forEach((label, p) => {
+    if (!isLung(label)) return;
+    const i = p % nx, j = ((p - i) / nx) % ny, k = (p - i - j * nx) / (nx * ny);
+    const x = voxelToPatient(segmentation, i, j, k);
+    for (let a = 0; a < 3; a++) {
+      if (x[a] < min[a]) min[a] = x[a];
+      if (x[a] > max[a]) max[a] = x[a];
+    }
+  });
+  if (min[0] === Infinity) return null;
+  return { min: min.map(v => v - margin) as Vec3, max: max.map(v => v + margin) as Vec3 };
+};
+
+/** Regular LPS-aligned grid covering a box at the given spacing. */
+const gridOver = (box: { min: Vec3; max: Vec3 }, spacing: number) => ({
+  dimensions: [0, 1, 2].map(a => Math.max(2, Math.floor((box.max[a] - box.min[a]) / spacing) + 1)) as Vec3,
+  spacing: [spacing, spacing, spacing] as Vec3,
+  origin: box.min,
+  direction: [1, 0, 0, 0, 1, 0, 0, 0, 1],
+});
+
+/**
+ * Rigid / affine parameters about a centre c:
+ * x -> R(rx, ry, rz) * diag(exp(s)) * shear(h) * (x - c) + c + t.
+ * Layout: [tx, ty, tz, rx, ry, rz, sx, sy, sz, hxy, hxz, hyz].
+ */
+const paramsToTransform = (q: number[], c: Vec3): AffineTransform => {
+  const [tx, ty, tz, rx, ry, rz, sx, sy, sz, hxy, hxz, hyz] = q;
+  const [cx, sx1] = [Math.cos(rx), Math.sin(rx)];
+  const [cy, sy1] = [Math.cos(ry), Math.sin(ry)];
+  const [cz, sz1] = [Math.cos(rz), Math.sin(rz)];
+  // R = Rz * Ry * Rx
+  const R = [
+    cz * cy, cz * sy1 * sx1 - sz1 * cx, cz * sy1 * cx + sz1 * sx1,
+    sz1 * cy, sz1 * sy1 * sx1 + cz * cx, sz1 * sy1 * cx - cz * sx1,
+    -sy1, cy * sx1, cy * cx,
+  ];
+  const S = [Math.exp(sx), Math.exp(sy), Math.exp(sz)];
+  const H = [1, hxy, hxz, 0, 1, hyz, 0, 0, 1];
+  // L = R * S * H
+  const SH = [0, 1, 2, 3, 4, 5, 6, 7, 8].map(n => S[Math.floor(n / 3)] * H[n]);
+  const L = [0, 1, 2, 3, 4, 5, 6, 7, 8].map(n => {
+    const r = Math.floor(n / 3), col = n % 3;
+    return R[r * 3] * SH[col] + R[r * 3 + 1] * SH[3 + col] + R[r * 3 + 2] * SH[6 + col];
+  });
+  const t = [0, 1, 2].map(r => c[r] + [tx, ty, tz][r] - (L[r * 3] * c[0] + L[r * 3 + 1] * c[1] + L[r * 3 + 2] * c[2]));
+  return [L[0], L[1], L[2], t[0], L[3], L[4], L[5], t[1], L[6], L[7], L[8], t[2]];
+};
+
+/** Greedy coordinate descent: try +/- step on each active parameter, halve steps when stuck. */
+const coordinateDescent = (
+  start: number[],
+  active: number[],
+  steps: number[],
+  minSteps: number[],
+  cost: (q: number[]) => number
+) => {
+  let params = start.slice();
+  let best = cost(params);
+  const step = steps.slice();
+  for (let sweep = 0; sweep < MAX_SWEEPS; sweep++) {
+    let improved = false;
+    for (const a of active) {
+      for (const sign of [1, -1]) {
+        const trial = params.slice();
+        trial[a] += sign * step[a];
+        const c = cost(trial);
+        if (c < best) {
+          best = c;
+          params = trial;
+          improved = true;
+          break;
+        }
+      }
+    }
+    if (improved) continue;
+    for (const a of active) step[a] /= 2;
+    if (active.every(a => step[a] < minSteps[a])) break;
+  }
+  return params;
+};
+
+/** Separable [1 4 6 4 1] / 16 smoothing (sigma ~ 1 voxel) of a grid, in place. */
+const smoothGrid = (values: Float32Array, dims: Vec3) => {
+  const [nx, ny] = dims;
+  const strides = [1, nx, nx * ny];
+  const scratch = new Float32Array(values.length);
+  for (let a = 0; a < 3; a++) {
+    const n = dims[a], stride = strides[a];
+    scratch.set(values);
+    for (let p = 0; p < values.length; p++) {
+      const coord = a === 0 ? p % nx : a === 1 ? Math.floor(p / nx) % ny : Math.floor(p / (nx * ny));
+      let sum = 0, weight = 0;
+      for (let o = -2; o <= 2; o++) {
+        const c = coord + o;
+        if (c < 0 || c >= n) continue;
+        const w = o === 0 ? 6 : Math.abs(o) === 1 ? 4 : 1;
+        sum += w * scratch[p + o * stride];
+        weight += w;
+      }
+      values[p] = sum / weight;
+    }
+  }
+};
+
+/** Displacement (mm) of a field at a patient LPS position; null beyond the grid. */
+export const sampleDisplacement = (field: DisplacementField, p: Vec3): Vec3 | null => {
+  const [i, j, k] = patientToVoxel(field, p);
+  const n = field.dimensions[0] * field.dimensions[1] * field.dimensions[2];
+  const out: Vec3 = [0, 0, 0];
+  for (let a = 0; a < 3; a++) {
+    const v = interpolateGrid(field.vectors.subarray(a * n, (a + 1) * n), field.dimensions, i, j, k, NaN);
+    if (Number.isNaN(v)) return null;
+    out[a] = v;
+  }
+  return out;
+};
+
+/** Moving-scan position of a fixed-scan position; the affine stage alone outside the demons grid. */
+export const mapFixedToMoving = (registration: DeformableRegistration, p: Vec3): Vec3 => {
+  const d = sampleDisplacement(registration.displacement, p);
+  return d ? [p[0] + d[0], p[1] + d[1], p[2] + d[2]] : applyTransform(registration.affine, p);
+};
+
+/**
+ * Fixed-scan position of a moving-scan position: inverts the mapping by fixed-point
+ * iteration (p = q - displacement(p)) from the inverse affine, which is also the
+ * answer outside the demons grid.
+ */
+export const mapMovingToFixed = (registration: DeformableRegistration, q: Vec3, iterations = 30): Vec3 => {
+  let p = applyTransform(invertTransform(registration.affine), q);
+  for (let n = 0; n < iterations; n++) {
+    const d = sampleDisplacement(registration.displacement, p);
+    if (!d) break;
+    const next: Vec3 = [q[0] - d[0], q[1] - d[1], q[2] - d[2]];
+    const step = Math.hypot(next[0] - p[0], next[1] - p[1], next[2] - p[2]);
+    p = next;
+    if (step < 0.01) break;
+  }
+  return p;
+};
+
+/**
+ * Registers a moving scan onto a fixed one in three stages, each starting from the
+ * last: a rigid and then an affine transform fitted by coordinate descent on the
+ * mean squared HU difference over points around the fixed lungs, then Thirion's
+ * demons on a coarse grid with Gaussian regularisation of the displacement.
+ * `onStage` is awaited before each stage so callers can report progress.
+ */
+export const registerScans = async (
+  fixed: RegistrationInput,
+  moving: RegistrationInput,
+  onStage?: (stage: RegistrationStage) => Promise<void> | void
+): Promise<DeformableRegistration> => {
+  const region = lungRegion(fixed.segmentation, REGION_MARGIN_MM);
+  const f = lungMoments(fixed.segmentation);
+  const m = lungMoments(moving.segmentation);
+  if (!region || !f || !m) throw new Error("Both scans need a lung segmentation before they can be registered.");
+
+  // Cost sample: a regular subset of fixed voxels inside the region
+  const [nx, ny, nz] = fixed.volume.dimensions;
+  const lo = patientToVoxel(fixed.volume, region.min).map(v => Math.max(0, Math.floor(v)));
+  const hi = patientToVoxel(fixed.volume, region.max).map((v, a) => Math.min(fixed.volume.dimensions[a] - 1, Math.ceil(v)));
+  const regionVoxels = (hi[0] - lo[0] + 1) * (hi[1] - lo[1] + 1) * (hi[2] - lo[2] + 1);
+  const stride = Math.max(1, Math.round(Math.cbrt(regionVoxels / SAMPLE_POINTS)));
+  const points: Vec3[] = [];
+  const fixedHU: number[] = [];
+  const inLung: boolean[] = [];
+  for (let k = lo[2]; k <= hi[2] && k < nz; k += stride) {
+    for (let j = lo[1]; j <= hi[1] && j < ny; j += stride) {
+      for (let i = lo[0]; i <= hi[0] && i < nx; i += stride) {
+        const p = i + j * nx + k * nx * ny;
+        points.push(voxelToPatient(fixed.volume, i, j, k));
+        fixedHU.push(clampHU(fixed.volume.data[p]));
+        inLung.push(isLung(fixed.segmentation.labels[p]));
+      }
+    }
+  }
+
+  const meanSquared = (map: (p: Vec3) => Vec3) => {
+    let sum = 0;
+    for (let n = 0; n < points.length; n++) {
+      const d = clampHU(sampleVolume(moving.volume, map(points[n]))) - fixedHU[n];
+      sum += d * d;
+    }
+    return sum / points.length;
+  };
+  const lungError = (map: (p: Vec3) => Vec3) => {
+    let sum = 0, count = 0;
+    for (let n = 0; n < points.length; n++) {
+      if (!inLung[n]) continue;
+      sum += Math.abs(clampHU(sampleVolume(moving.volume, map(points[n]))) - fixedHU[n]);
+      count++;
+    }
+    return Math.round((count ? sum / count : 0) * 10) / 10;
+  };
+
+  const stepsFor = (which: 0 | 1) => [
+    ...Array(3).fill(TRANSLATION_STEP_MM[which]),
+    ...Array(3).fill(ROTATION_STEP_RAD[which]),
+    ...Array(3).fill(SCALE_STEP[which]),
+    ...Array(3).fill(SHEAR_STEP[which]),
+  ];
+  const cost = (q: number[]) => {
+    const t = paramsToTransform(q, f.mean);
+    return meanSquared(p => applyTransform(t, p));
+  };
+
+  // Rigid, starting from aligned lung centroids
+  await onStage?.('rigid');
+  const initial = [m.mean[0] - f.mean[0], m.mean[1] - f.mean[1], m.mean[2] - f.mean[2], 0, 0, 0, 0, 0, 0, 0, 0, 0];
+  const rigidParams = coordinateDescent(initial, [0, 1, 2, 3, 4, 5], stepsFor(0), stepsFor(1), cost);
+  const rigid = paramsToTransform(rigidParams, f.mean);
+
+  // Affine, starting from the rigid fit or from it scaled by the lung masks' spread
+  // ratio, whichever fits better; the latter covers the large shrinkage on expiration
+  await onStage?.('affine');
+  const scaledParams = rigidParams.slice();
+  for (let a = 0; a < 3; a++) scaledParams[6 + a] = f.std[a] > 0 && m.std[a] > 0 ? Math.log(m.std[a] / f.std[a]) : 0;
+  const affineStart = cost(scaledParams) < cost(rigidParams) ? scaledParams : rigidParams;
+  const affineParams = coordinateDescent(affineStart,[0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11], stepsFor(0), stepsFor(1), cost);
+  const affine = paramsToTransform(affineParams, f.mean);
+
+  // Demons on a coarse grid: u is applied before the affine, T(x) = A(x + u(x))
+  await onStage?.('demons');
+  const grid = gridOver(region, DEMONS_SPACING_MM);
+  const [gx, gy, gz] = grid.dimensions;
+  const n = gx * gy * gz;
+  const h = DEMONS_SPACING_MM;
+  const gridPoint = (v: number): Vec3 => {
+    const i = v % gx, j = Math.floor(v / gx) % gy, k = Math.floor(v / (gx * gy));
+    return [grid.origin[0] + i * h, grid.origin[1] + j * h, grid.origin[2] + k * h];
+  };
+  const fGrid = new Float32Array(n);
+  for (let v = 0; v < n; v++) fGrid[v] = clampHU(sampleVolume(fixed.volume, gridPoint(v)));
+  const grad = new Float32Array(3 * n);
+  const strides = [1, gx, gx * gy];
+  for (let v = 0; v < n; v++) {
+    const c = [v % gx, Math.floor(v / gx) % gy, Math.floor(v / (gx * gy))];
+    for (let a = 0; a < 3; a++) {
+      const back = c[a] > 0 ? v - strides[a] : v;
+      const ahead = c[a] < grid.dimensions[a] - 1 ? v + strides[a] : v;
+      const span = (ahead === v || back === v ? 1 : 2) * h;
+      grad[a * n + v] = (fGrid[ahead] - fGrid[back]) / span;
+    }
+  }
+
+  const u = new Float32Array(3 * n);
+  const ux = u.subarray(0, n), uy = u.subarray(n, 2 * n), uz = u.subarray(2 * n);
+  for (let iter = 0; iter < DEMONS_ITERATIONS; iter++) {
+    for (let v = 0; v < n; v++) {
+      const x = gridPoint(v);
+      const diff = clampHU(sampleVolume(moving.volume, applyTransform(affine, [x[0] + ux[v], x[1] + uy[v], x[2] + uz[v]]))) - fGrid[v];
+      const g0 = grad[v], g1 = grad[n + v], g2 = grad[2 * n + v];
+      const denom = g0 * g0 + g1 * g1 + g2 * g2 + (diff * diff) / (h * h);
+      if (denom < 1e-6) continue;
+      const s = diff / denom;
+      ux[v] -= s * g0;
+      uy[v] -= s * g1;
+      uz[v] -= s * g2;
+    }
+    smoothGrid(ux, grid.dimensions);
+    smoothGrid(uy, grid.dimensions);
+    smoothGrid(uz, grid.dimensions);
+  }
+
+  // Total displacement and the Jacobian determinant of T = A (I + grad u)
+  const vectors = new Float32Array(3 * n);
+  const values = new Float32Array(n);
+  const A = affine;
+  const detA = A[0] * (A[5] * A[10] - A[6] * A[9]) - A[1] * (A[4] * A[10] - A[6] * A[8]) + A[2] * (A[4] * A[9] - A[5] * A[8]);
+  for (let v = 0; v < n; v++) {
+    const x = gridPoint(v);
+    const y = applyTransform(affine, [x[0] + ux[v], x[1] + uy[v], x[2] + uz[v]]);
+    vectors[v] = y[0] - x[0];
+    vectors[n + v] = y[1] - x[1];
+    vectors[2 * n + v] = y[2] - x[2];
+
+    const c = [v % gx, Math.floor(v / gx) % gy, Math.floor(v / (gx * gy))];
+    const J = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+    for (let a = 0; a < 3; a++) {
+      const back = c[a] > 0 ? v - strides[a] : v;
+      const ahead = c[a] < grid.dimensions[a] - 1 ? v + strides[a] : v;
+      const span = (ahead === v || back === v ? 1 : 2) * h;
+      J[a] += (ux[ahead] - ux[back]) / span;
+      J[3 + a] += (uy[ahead] - uy[back]) / span;
+      J[6 + a] += (uz[ahead] - uz[back]) / span;
+    }
+    const detU = J[0] * (J[4] * J[8] - J[5] * J[7]) - J[1] * (J[3] * J[8] - J[5] * J[6]) + J[2] * (J[3] * J[7] - J[4] * J[6]);
+    values[v] = detA * detU;
+  }
+
+  const displacement: DisplacementField = { ...grid, vectors };
+  const jacobian: ScalarField = { ...grid, values };
+  const result: DeformableRegistration = {
+    method: `rigid + affine (coordinate descent, MSE of HU clamped ${HU_FLOOR}..${HU_CEIL}) + demons (${DEMONS_SPACING_MM} mm grid, ${DEMONS_ITERATIONS} iterations)`,
+    rigid,
+    affine,
+    displacement,
+    jacobian,
+    stageErrorHU: { rigid: 0, affine: 0, demons: 0 },
+    dice: 0,
+  };
+  result.stageErrorHU = {
+    rigid: lungError(p => applyTransform(rigid, p)),
+    affine: lungError(p => applyTransform(affine, p)),
+    demons: lungError(p => mapFixedToMoving(result, p)),
+  };
+  result.dice = Math.round(lungDice(fixed.segmentation, moving.segmentation, p => mapFixedToMoving(result, p)) * 1000) / 1000;
+  return result;
+};
+
+/**
+ * Local volume change of the fixed scan relative to the moving scan at every vertex
+ * of a fixed-scan surface (fraction, e.g. -0.1 = 10% smaller than in the moving
+ * scan), sampled half a grid cell inside the surface; 0 where the field is undefined.
+ */
+export const volumeChangeAtVertices = (registration: DeformableRegistration, mesh: SurfaceMesh) => {
+  const { jacobian } = registration;
+  const inset = Math.min(...jacobian.spacing) / 2;
+  const { positions, normals } = mesh;
+  const out = new Float32Array(positions.length / 3);
+  for (let v = 0; v < out.length; v++) {
+    const p = v * 3;
+    const det = sampleScalarField(jacobian, [
+      positions[p] - normals[p] * inset,
+      positions[p + 1] - normals[p + 1] * inset,
+      positions[p + 2] - normals[p + 2] * inset,
+    ]);
+    out[v] = det > 0 ? 1 / det - 1 : 0;
+  }
+  return out;
+};
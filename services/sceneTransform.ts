@@ -0,0 +1,63 @@
+import { LungSurfaceMeshes, SurfaceMesh, Vec3 } from "../types";
+
+// Fixed scale so that smaller lungs look smaller: an adult lung (~250 mm tall)
+// comes out about as tall as the procedural placeholder model
+export const SCENE_UNITS_PER_MM = 1 / 30;
+
+/**
+ * Maps patient LPS millimetres to the 3D scene: x = patient Left, y = Superior,
+ * z = Anterior (towards the default camera), centred on `center`.
+ */
+export interface SceneTransform {
+  center: Vec3; // LPS mm placed at the scene origin
+  scale: number; // Scene units per mm
+}
+
+export const createSceneTransform = (center: Vec3): SceneTransform => ({ center, scale: SCENE_UNITS_PER_MM });
+
+/** Scene transform centred on the bounding box of both lung meshes; null without meshes. */
+export const sceneTransformForMeshes = (meshes: LungSurfaceMeshes): SceneTransform | null => {
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  for (const mesh of [meshes.rightLung, meshes.leftLung]) {
+    if (!mesh) continue;
+    const { positions } = mesh;
+    for (let p = 0; p < positions.length; p += 3) {
+      for (let a = 0; a < 3; a++) {
+        if (positions[p + a] < min[a]) min[a] = positions[p + a];
+        if (positions[p + a] > max[a]) max[a] = positions[p + a];
+      }
+    }
+  }
+  if (min[0] === Infinity) return null;
+  return createSceneTransform([(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2]);
+};
+
+export const patientToScene = (t: SceneTransform, p: Vec3): Vec3 => [
+  (p[0] - t.center[0]) * t.scale,
+  (p[2] - t.center[2]) * t.scale,
+  -(p[1] - t.center[1]) * t.scale,
+];
+
+export const sceneToPatient = (t: SceneTransform, s: Vec3): Vec3 => [
+  t.center[0] + s[0] / t.scale,
+  t.center[1] - s[2] / t.scale,
+  t.center[2] + s[1] / t.scale,
+];
+
+/** Rotates a patient-space direction (e.g. a normal) into scene axes; no translation or scaling. */
+export const directionToScene = (d: Vec3): Vec3 => [d[0], d[2], -d[1]];
+
+/**
+ * Mesh vertex positions and normals in scene coordinates. The LPS -> scene mapping is
+ * a proper rotation, so triangle winding (and therefore front faces) is preserved.
+ */
+export const meshToScene = (t: SceneTransform, mesh: SurfaceMesh) => {
+  const positions = new Float32Array(mesh.positions.length);
+  const normals = new Float32Array(mesh.normals.length);
+  for (let p = 0; p < positions.length; p += 3) {
+    positions.set(patientToScene(t, [mesh.positions[p], mesh.positions[p + 1], mesh.positions[p + 2]]), p);
+    normals.set(directionToScene([mesh.normals[p], mesh.normals[p + 1], mesh.normals[p + 2]]), p);
+  }
+  return { positions, normals, indices: mesh.indices };
+};
@@ -0,0 +1,281 @@
+import { SurfaceMesh, Vec3, VolumeGrid } from "../types";
+import { voxelToPatient } from "./volumeUtils";
+
+export interface SurfaceMeshOptions {
+  smoothingIterations?: number; // Taubin smoothing passes (0 disables)
+  targetTriangles?: number;     // Triangle budget after decimation
+}
+
+const DEFAULT_SMOOTHING_ITERATIONS = 12;
+const DEFAULT_TARGET_TRIANGLES = 40000;
+
+// Taubin shrink / inflate factors; |MU| > LAMBDA keeps the volume from shrinking
+const TAUBIN_LAMBDA = 0.5;
+const TAUBIN_MU = -0.53;
+
+// Vertex-clustering decimation grows its cell size by this factor until the budget is met
+const CLUSTER_GROWTH = 1.2;
+const MAX_CLUSTER_PASSES = 12;
+
+// The 12 edges of a surface-nets cell, as pairs of corner indices (corner bits: x = 1, y = 2, z = 4)
+const CELL_EDGES = [
+  [0, 1], [2, 3], [4, 5], [6, 7],
+  [0, 2], [1, 3], [4, 6], [5, 7],
+  [0, 4], [1, 5], [2, 6], [3, 7],
+];
+
+interface RawMesh {
+  positions: Float32Array; // Voxel-index space until converted
+  indices: Uint32Array;
+}
+
+const maskBounds = (mask: Uint8Array, dims: Vec3) => {
+  const [nx, ny] = dims;
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  for (let p = 0; p < mask.length; p++) {
+    if (!mask[p]) continue;
+    const i = p % nx, j = ((p - i) / nx) % ny, k = Math.floor(p / (nx * ny));
+    if (i < min[0]) min[0] = i;
+    if (j < min[1]) min[1] = j;
+    if (k < min[2]) min[2] = k;
+    if (i > max[0]) max[0] = i;
+    if (j > max[1]) max[1] = j;
+    if (k > max[2]) max[2] = k;
+  }
+  return min[0] === Infinity ? null : { min, max };
+};
+
+/**
+ * Surface nets on a binary mask: one vertex per boundary cell, placed at the mean of
+ * the cell's edge crossings, and one quad per mask face. Coordinates are voxel indices.
+ */
+const surfaceNets = (mask: Uint8Array, dims: Vec3): RawMesh | null => {
+  const bounds = maskBounds(mask, dims);
+  if (!bounds) return null;
+  const [nx, ny, nz] = dims;
+  const { min, max } = bounds;
+
+  // Cell (ci, cj, ck) has corner voxels (ci - 1 .. ci, cj - 1 .. cj, ck - 1 .. ck); cells
+  // cover the mask bounds plus one voxel on each side so the surface is closed
+  const i0 = min[0], j0 = min[1], k0 = min[2];
+  const cx = max[0] - i0 + 2, cy = max[1] - j0 + 2, cz = max[2] - k0 + 2;
+  const inside = (i: number, j: number, k: number) =>
+    i >= 0 && j >= 0 && k >= 0 && i < nx && j < ny && k < nz && mask[i + j * nx + k * nx * ny] ? 1 : 0;
+
+  const vertexOf = new Int32Array(cx * cy * cz).fill(-1);
+  const positions: number[] = [];
+  const corners = new Uint8Array(8);
+
+  for (let ck = 0; ck < cz; ck++) {
+    for (let cj = 0; cj < cy; cj++) {
+      for (let ci = 0; ci < cx; ci++) {
+        const vi = i0 + ci - 1, vj = j0 + cj - 1, vk = k0 + ck - 1;
+        let count = 0;
+        for (let c = 0; c < 8; c++) {
+          corners[c] = inside(vi + (c & 1), vj + ((c >> 1) & 1), vk + ((c >> 2) & 1));
+          count += corners[c];
+        }
+        if (count === 0 || count === 8) continue;
+
+        let sx = 0, sy = 0, sz = 0, crossings = 0;
+        for (const [a, b] of CELL_EDGES) {
+          if (corners[a] === corners[b]) continue;
+          sx += ((a & 1) + (b & 1)) / 2;
+          sy += (((a >> 1) & 1) + ((b >> 1) & 1)) / 2;
+          sz += (((a >> 2) & 1) + ((b >> 2) & 1)) / 2;
+          crossings++;
+        }
+        vertexOf[ci + cj * cx + ck * cx * cy] = positions.length / 3;
+        positions.push(vi + sx / crossings, vj + sy / crossings, vk + sz / crossings);
+      }
+    }
+  }
+
+  const indices: number[] = [];
+  const cell = (ci: number, cj: number, ck: number) => vertexOf[ci + cj * cx + ck * cx * cy];
+  const quad = (a: number, b: number, c: number, d: number, flip: boolean) => {
+    if (flip) indices.push(a, d, c, a, c, b);
+    else indices.push(a, b, c, a, c, d);
+  };
+
+  // Every mask face lies between voxel (v, w, u) and its +axis neighbour and is shared
+  // by the four cells around that edge. Quads wind so their normal points from the
+  // inside voxel to the outside one.
+  for (let u = k0 - 1; u <= max[2]; u++) {
+    for (let w = j0 - 1; w <= max[1]; w++) {
+      for (let v = i0 - 1; v <= max[0]; v++) {
+        const here = inside(v, w, u);
+        const ci = v - i0 + 1, cj = w - j0 + 1, ck = u - k0 + 1;
+        if (w >= j0 && u >= k0 && here !== inside(v + 1, w, u)) {
+          quad(cell(ci, cj - 1, ck - 1), cell(ci, cj, ck - 1), cell(ci, cj, ck), cell(ci, cj - 1, ck), !here);
+        }
+        if (v >= i0 && u >= k0 && here !== inside(v, w + 1, u)) {
+          quad(cell(ci - 1, cj, ck - 1), cell(ci - 1, cj, ck), cell(ci, cj, ck), cell(ci, cj, ck - 1), !here);
+        }
+        if (v >= i0 && w >= j0 && here !== inside(v, w, u + 1)) {
+          quad(cell(ci - 1, cj - 1, ck), cell(ci, cj - 1, ck), cell(ci, cj, ck), cell(ci - 1, cj, ck), !here);
+        }
+      }
+    }
+  }
+  return { positions: new Float32Array(positions), indices: new Uint32Array(indices) };
+};
+
+/** Vertex neighbourhoods in compressed (offsets + flat list) form. */
+const vertexNeighbours = (vertexCount: number, indices: Uint32Array) => {
+  const degree = new Uint32Array(vertexCount + 1);
+  for (let t = 0; t < indices.length; t += 3) {
+    degree[indices[t]] += 2;
+    degree[indices[t + 1]] += 2;
+    degree[indices[t + 2]] += 2;
+  }
+  const offsets = new Uint32Array(vertexCount + 1);
+  for (let v = 0; v < vertexCount; v++) offsets[v + 1] = offsets[v] + degree[v];
+  const fill = offsets.slice(0, vertexCount);
+  const neighbours = new Uint32Array(offsets[vertexCount]);
+  for (let t = 0; t < indices.length; t += 3) {
+    for (let e = 0; e < 3; e++) {
+      const a = indices[t + e], b = indices[t + (e + 1) % 3];
+      neighbours[fill[a]++] = b;
+      neighbours[fill[b]++] = a;
+    }
+  }
+  return { offsets, neighbours };
+};
+
+/** Taubin lambda/mu smoothing: removes voxel staircase artefacts without shrinking the surface. */
+const smoothMesh = (mesh: RawMesh, iterations: number) => {
+  const { positions } = mesh;
+  const vertexCount = positions.length / 3;
+  const { offsets, neighbours } = vertexNeighbours(vertexCount, mesh.indices);
+  const next = new Float32Array(positions.length);
+
+  const pass = (factor: number) => {
+    for (let v = 0; v < vertexCount; v++) {
+      const start = offsets[v], end = offsets[v + 1];
+      if (start === end) {
+        next.set(positions.subarray(v * 3, v * 3 + 3), v * 3);
+        continue;
+      }
+      let mx = 0, my = 0, mz = 0;
+      for (let n = start; n < end; n++) {
+        const q = neighbours[n] * 3;
+        mx += positions[q]; my += positions[q + 1]; mz += positions[q + 2];
+      }
+      const count = end - start;
+      const p = v * 3;
+      next[p] = positions[p] + factor * (mx / count - positions[p]);
+      next[p + 1] = positions[p + 1] + factor * (my / count - positions[p + 1]);
+      next[p + 2] = positions[p + 2] + factor * (mz / count - positions[p + 2]);
+    }
+    positions.set(next);
+  };
+
+  for (let it = 0; it < iterations; it++) {
+    pass(TAUBIN_LAMBDA);
+    pass(TAUBIN_MU);
+  }
+};
+
+/** Merges all vertices that fall in the same grid cell and drops collapsed triangles. */
+const clusterVertices = (mesh: RawMesh, cellSize: number): RawMesh => {
+  const { positions, indices } = mesh;
+  const vertexCount = positions.length / 3;
+  let minX = Infinity, minY = Infinity, minZ = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (let p = 0; p < positions.length; p += 3) {
+    minX = Math.min(minX, positions[p]); maxX = Math.max(maxX, positions[p]);
+    minY = Math.min(minY, positions[p + 1]); maxY = Math.max(maxY, positions[p + 1]);
+    minZ = Math.min(minZ, positions[p + 2]);
+  }
+  const gx = Math.floor((maxX - minX) / cellSize) + 1;
+  const gy = Math.floor((maxY - minY) / cellSize) + 1;
+
+  const clusterOf = new Map<number, number>();
+  const remap = new Uint32Array(vertexCount);
+  const sums: number[] = [];
+  const counts: number[] = [];
+  for (let v = 0; v < vertexCount; v++) {
+    const p = v * 3;
+    const key = Math.floor((positions[p] - minX) / cellSize)
+      + gx * (Math.floor((positions[p + 1] - minY) / cellSize)
+      + gy * Math.floor((positions[p + 2] - minZ) / cellSize));
+    let id = clusterOf.get(key);
+    if (id === undefined) {
+      id = counts.length;
+      clusterOf.set(key, id);
+      sums.push(0, 0, 0);
+      counts.push(0);
+    }
+    remap[v] = id;
+    sums[id * 3] += positions[p];
+    sums[id * 3 + 1] += positions[p + 1];
+    sums[id * 3 + 2] += positions[p + 2];
+    counts[id]++;
+  }
+
+  const out = new Float32Array(counts.length * 3);
+  for (let id = 0; id < counts.length; id++) {
+    out[id * 3] = sums[id * 3] / counts[id];
+    out[id * 3 + 1] = sums[id * 3 + 1] / counts[id];
+    out[id * 3 + 2] = sums[id * 3 + 2] / counts[id];
+  }
+  const kept: number[] = [];
+  for (let t = 0; t < indices.length; t += 3) {
+    const a = remap[indices[t]], b = remap[indices[t + 1]], c = remap[indices[t + 2]];
+    if (a !== b && b !== c && a !== c) kept.push(a, b, c);
+  }
+  return { positions: out, indices: new Uint32Array(kept) };
+};
+
+/** Vertex-clustering decimation with a growing cell size until the triangle budget is met. */
+const decimateMesh = (mesh: RawMesh, targetTriangles: number): RawMesh => {
+  const triangles = mesh.indices.length / 3;
+  if (triangles <= targetTriangles) return mesh;
+  // Surface nets vertices are about one voxel apart; merging an s x s patch keeps ~1/s^2 of the triangles
+  let cellSize = Math.sqrt(triangles / targetTriangles);
+  let result = mesh;
+  for (let pass = 0; pass < MAX_CLUSTER_PASSES; pass++) {
+    result = clusterVertices(mesh, cellSize);
+    if (result.indices.length / 3 <= targetTriangles) break;
+    cellSize *= CLUSTER_GROWTH;
+  }
+  return result;
+};
+
+/** Area-weighted vertex normals. */
+const computeNormals = (positions: Float32Array, indices: Uint32Array) => {
+  const normals = new Float32Array(positions.length);
+  for (let t = 0; t < indices.length; t += 3) {
+    const a = indices[t] * 3, b = indices[t + 1] * 3, c = indices[t + 2] * 3;
+    const ux = positions[b] - positions[a], uy = positions[b + 1] - positions[a + 1], uz = positions[b + 2] - positions[a + 2];
+    const vx = positions[c] - positions[a], vy = positions[c + 1] - positions[a + 1], vz = positions[c + 2] - positions[a + 2];
+    const nx = uy * vz - uz * vy, ny = uz * vx - ux * vz, nz = ux * vy - uy * vx;
+    for (const p of [a, b, c]) {
+      normals[p] += nx; normals[p + 1] += ny; normals[p + 2] += nz;
+    }
+  }
+  for (let p = 0; p < normals.length; p += 3) {
+    const len = Math.hypot(normals[p], normals[p + 1], normals[p + 2]) || 1;
+    normals[p] /= len; normals[p + 1] /= len; normals[p + 2] /= len;
+  }
+  return normals;
+};
+
+/**
+ * Builds a smoothed, decimated triangle surface of a binary mask in patient LPS mm.
+ * Smoothing and decimation happen in voxel-index space so their strength does not
+ * depend on the voxel spacing; returns null for an empty mask.
+ */
+export const buildSurfaceMesh = (mask: Uint8Array, grid: VolumeGrid, options: SurfaceMeshOptions = {}): SurfaceMesh | null => {
+  const raw = surfaceNets(mask, grid.dimensions);
+  if (!raw || raw.indices.length === 0) return null;
+  smoothMesh(raw, options.smoothingIterations ?? DEFAULT_SMOOTHING_ITERATIONS);
+  const { positions: voxelPositions, indices } = decimateMesh(raw, options.targetTriangles ?? DEFAULT_TARGET_TRIANGLES);
+
+  const positions = new Float32Array(voxelPositions.length);
+  for (let p = 0; p < positions.length; p += 3) {
+    positions.set(voxelToPatient(grid, voxelPositions[p], voxelPositions[p + 1], voxelPositions[p + 2]), p);
+  }
+  return { positions, normals: computeNormals(positions, indices), indices };
+};
@@ -0,0 +1,103 @@
+import {
+  DeformableRegistration, LobeKey, LobeSegmentation, LungLabel, LungSegmentation, SurfaceMesh, VentilationAnalysis
+} from "../types";
+import { LOBE_KEYS, LOBE_KEY_BY_LABEL } from "./lobeSegmentation";
+import { patientToVoxel, sampleScalarField, voxelToPatient } from "./volumeUtils";
+
+// Share of its inspiratory volume that compliant lung gives up between full
+// inspiration and expiration; expelling this much or more scores stiffness 0
+export const REFERENCE_VENTILATION = 0.5;
+export const MAX_STIFFNESS = 10;
+
+// Vertices look this far inside the surface (mm, in steps) for the lobe they belong to
+const VERTEX_INSET_MM = 8;
+const VERTEX_INSET_STEPS = 4;
+
+const round = (v: number, digits = 1) => Math.round(v * 10 ** digits) / 10 ** digits;
+const isLung = (label: number) => label === LungLabel.RIGHT_LUNG || label === LungLabel.LEFT_LUNG;
+
+/**
+ * Jacobian compliance score: 0 when a region expels at least the reference share of
+ * its inspiratory volume on expiration, rising linearly to 10 when it does not
+ * change volume at all.
+ */
+export const stiffnessFromVentilation = (ventilation: number) =>
+  round(MAX_STIFFNESS * Math.min(1, Math.max(0, 1 - ventilation / REFERENCE_VENTILATION)));
+
+/**
+ * Regional ventilation from an inspiratory -> expiratory registration. The
+ * Jacobian determinant J is the expiratory volume of each piece of inspiratory
+ * lung, so 1 - J is the share of it that was breathed out; averaging J over the
+ * inspiratory lung and lobe voxels gives the whole-lung and lobar values, which
+ * are then scored with `stiffnessFromVentilation`.
+ */
+export const analyzeVentilation = (
+  inspSegmentation: LungSegmentation,
+  inspLobes: LobeSegmentation,
+  registration: DeformableRegistration // Fixed = inspiratory, moving = expiratory
+): VentilationAnalysis => {
+  const [nx, ny] = inspSegmentation.dimensions;
+  const lobeSum = Object.fromEntries(LOBE_KEYS.map(key => [key, 0])) as Record<LobeKey, number>;
+  const lobeCount = Object.fromEntries(LOBE_KEYS.map(key => [key, 0])) as Record<LobeKey, number>;
+  let sum = 0, count = 0;
+
+  inspSegmentation.labels.forEach((label, p) => {
+    if (!isLung(label)) return;
+    const i = p % nx, j = ((p - i) / nx) % ny, k = (p - i - j * nx) / (nx * ny);
+    const det = sampleScalarField(registration.jacobian, voxelToPatient(inspSegmentation, i, j, k));
+    if (!(det > 0)) return;
+    sum += det;
+    count++;
+    const lobe = LOBE_KEY_BY_LABEL[inspLobes.labels[p]];
+    if (!lobe) return;
+    lobeSum[lobe] += det;
+    lobeCount[lobe]++;
+  });
+
+  const wholeLung = count ? 1 - sum / count : 0;
+  const lobes = Object.fromEntries(LOBE_KEYS.map(key => [key, lobeCount[key] ? 1 - lobeSum[key] / lobeCount[key] : wholeLung])) as Record<LobeKey, number>;
+  return {
+    referenceFraction: REFERENCE_VENTILATION,
+    ventilation: {
+      wholeLung: round(wholeLung, 3),
+      lobes: Object.fromEntries(LOBE_KEYS.map(key => [key, round(lobes[key], 3)])) as Record<LobeKey, number>,
+    },
+    stiffness: {
+      wholeLung: stiffnessFromVentilation(wholeLung),
+      lobes: Object.fromEntries(LOBE_KEYS.map(key => [key, stiffnessFromVentilation(lobes[key])])) as Record<LobeKey, number>,
+    },
+  };
+};
+
+/**
+ * Stiffness (0-1) of the lobe under each vertex of an inspiratory lung surface,
+ * found by stepping inward along the vertex normal; vertices with no lobe within
+ * reach take the whole-lung value.
+ */
+export const stiffnessAtVertices = (
+  lobes: LobeSegmentation,
+  lobeStiffness: Record<LobeKey, number>,
+  wholeLung: number,
+  mesh: SurfaceMesh
+) => {
+  const [nx, ny, nz] = lobes.dimensions;
+  const { positions, normals } = mesh;
+  const out = new Float32Array(positions.length / 3).fill(wholeLung / MAX_STIFFNESS);
+  for (let v = 0; v < out.length; v++) {
+    const p = v * 3;
+    for (let s = 1; s <= VERTEX_INSET_STEPS; s++) {
+      const d = (VERTEX_INSET_MM * s) / VERTEX_INSET_STEPS;
+      const [i, j, k] = patientToVoxel(lobes, [
+        positions[p] - normals[p] * d,
+        positions[p + 1] - normals[p + 1] * d,
+        positions[p + 2] - normals[p + 2] * d,
+      ]).map(Math.round);
+      if (i < 0 || j < 0 || k < 0 || i >= nx || j >= ny || k >= nz) continue;
+      const lobe = LOBE_KEY_BY_LABEL[lobes.labels[i + j * nx + k * nx * ny]];
+      if (!lobe) continue;
+      out[v] = lobeStiffness[lobe] / MAX_STIFFNESS;
+      break;
+    }
+  }
+  return out;
+};
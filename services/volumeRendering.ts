@@ -0,0 +1,103 @@
+import { CTVolume, TransferFunction, TransferFunctionPoint, TransferFunctionPreset } from "../types";
+import { EMPHYSEMA_THRESHOLD_HU } from "./lungMetrics";
+
+// Attenuation window packed into the 8-bit volume texture (~8 HU per step); the
+// transfer table spans the same window so one texture read indexes the other
+export const VOLUME_HU_RANGE: [number, number] = [-1024, 1000];
+export const TRANSFER_TABLE_SIZE = 256;
+
+const point = (hu: number, color: TransferFunctionPoint['color'], opacity: number): TransferFunctionPoint => ({ hu, color, opacity });
+
+export const TRANSFER_FUNCTION_PRESETS: Record<TransferFunctionPreset, { label: string; transferFunction: TransferFunction }> = {
+  // Aerated lung as a pink haze with vessels and walls standing out in red
+  parenchyma: {
+    label: 'Parenchyma',
+    transferFunction: {
+      preset: 'parenchyma',
+      points: [
+        point(-1024, [60, 50, 70], 0),
+        point(-960, [120, 90, 110], 0),
+        point(-850, [230, 160, 170], 0.08),
+        point(-600, [240, 150, 150], 0.2),
+        point(-200, [220, 80, 80], 0.6),
+        point(100, [200, 40, 40], 0.9),
+        point(1000, [255, 250, 240], 0.95),
+      ],
+      airway: { color: [190, 230, 255], opacity: 0.15 },
+    },
+  },
+  // Airway lumen opaque, everything else a faint context
+  airways: {
+    label: 'Airways',
+    transferFunction: {
+      preset: 'airways',
+      points: [
+        point(-1024, [150, 150, 170], 0),
+        point(-900, [150, 150, 170], 0),
+        point(-700, [160, 160, 180], 0.02),
+        point(-200, [170, 120, 120], 0.1),
+        point(100, [180, 90, 90], 0.2),
+        point(1000, [220, 220, 220], 0.3),
+      ],
+      airway: { color: [103, 232, 249], opacity: 0.9 },
+    },
+  },
+  // Low-attenuation lung below the LAA threshold in orange against a grey lung
+  emphysema: {
+    label: 'Emphysema',
+    transferFunction: {
+      preset: 'emphysema',
+      points: [
+        point(-1024, [255, 120, 0], 0.6),
+        point(EMPHYSEMA_THRESHOLD_HU, [255, 140, 20], 0.6),
+        point(EMPHYSEMA_THRESHOLD_HU + 10, [120, 120, 140], 0.01),
+        point(-600, [140, 140, 160], 0.03),
+        point(100, [160, 100, 100], 0.1),
+        point(1000, [200, 200, 200], 0.1),
+      ],
+      airway: { color: [200, 200, 220], opacity: 0.05 },
+    },
+  },
+};
+
+/** Deep copy of a preset, safe to edit. */
+export const transferFunctionFromPreset = (preset: TransferFunctionPreset): TransferFunction => {
+  const { points, airway } = TRANSFER_FUNCTION_PRESETS[preset].transferFunction;
+  return {
+    preset,
+    points: points.map(p => ({ ...p, color: [...p.color] as TransferFunctionPoint['color'] })),
+    airway: { ...airway, color: [...airway.color] as TransferFunctionPoint['color'] },
+  };
+};
+
+/** Position (0-1) of an attenuation within VOLUME_HU_RANGE. */
+export const huToUnit = (hu: number) =>
+  Math.max(0, Math.min(1, (hu - VOLUME_HU_RANGE[0]) / (VOLUME_HU_RANGE[1] - VOLUME_HU_RANGE[0])));
+
+/**
+ * RGBA lookup table over VOLUME_HU_RANGE, interpolating linearly between the
+ * points and holding the end values beyond them.
+ */
+export const transferFunctionTable = (tf: TransferFunction): Uint8Array => {
+  const table = new Uint8Array(TRANSFER_TABLE_SIZE * 4);
+  const points = [...tf.points].sort((a, b) => a.hu - b.hu);
+  if (points.length === 0) return table;
+  let next = 0;
+  for (let n = 0; n < TRANSFER_TABLE_SIZE; n++) {
+    const hu = VOLUME_HU_RANGE[0] + (n / (TRANSFER_TABLE_SIZE - 1)) * (VOLUME_HU_RANGE[1] - VOLUME_HU_RANGE[0]);
+    while (next < points.length && points[next].hu < hu) next++;
+    const a = points[Math.max(0, next - 1)];
+    const b = points[Math.min(points.length - 1, next)];
+    const t = b.hu > a.hu ? Math.max(0, Math.min(1, (hu - a.hu) / (b.hu - a.hu))) : 0;
+    for (let c = 0; c < 3; c++) table[n * 4 + c] = Math.round(a.color[c] + (b.color[c] - a.color[c]) * t);
+    table[n * 4 + 3] = Math.round((a.opacity + (b.opacity - a.opacity) * t) * 255);
+  }
+  return table;
+};
+
+/** Volume attenuations packed into bytes over VOLUME_HU_RANGE, for a 3D texture. */
+export const quantizeVolume = (volume: CTVolume): Uint8Array => {
+  const out = new Uint8Array(volume.data.length);
+  for (let v = 0; v < out.length; v++) out[v] = Math.round(huToUnit(volume.data[v]) * 255);
+  return out;
+};
@@ -0,0 +1,197 @@
+import { BlockScoreMap, CTVolume, ScalarField, Vec3, VolumeGrid } from "../types";
+
+export const clampToInt16 = (v: number) =>
+  v < -32768 ? -32768 : v > 32767 ? 32767 : Math.round(v);
+
+export const voxelCount = (dimensions: Vec3) => dimensions[0] * dimensions[1] * dimensions[2];
+
+/** Volume of a single voxel in millilitres. */
+export const voxelVolumeMl = (spacing: Vec3) => (spacing[0] * spacing[1] * spacing[2]) / 1000;
+
+const axis = (direction: number[], a: number): Vec3 => [direction[a * 3], direction[a * 3 + 1], direction[a * 3 + 2]];
+
+/** Patient LPS position (mm) of the centre of voxel (i, j, k). */
+export const voxelToPatient = (volume: Pick<CTVolume, 'origin' | 'spacing' | 'direction'>, i: number, j: number, k: number): Vec3 => {
+  const { origin, spacing, direction } = volume;
+  const si = i * spacing[0], sj = j * spacing[1], sk = k * spacing[2];
+  return [
+    origin[0] + direction[0] * si + direction[3] * sj + direction[6] * sk,
+    origin[1] + direction[1] * si + direction[4] * sj + direction[7] * sk,
+    origin[2] + direction[2] * si + direction[5] * sj + direction[8] * sk,
+  ];
+};
+
+/** Continuous voxel coordinates of a patient LPS position. Assumes an orthonormal direction matrix. */
+export const patientToVoxel = (volume: Pick<CTVolume, 'origin' | 'spacing' | 'direction'>, p: Vec3): Vec3 => {
+  const { origin, spacing, direction } = volume;
+  const d: Vec3 = [p[0] - origin[0], p[1] - origin[1], p[2] - origin[2]];
+  return [0, 1, 2].map(a => {
+    const ax = axis(direction, a);
+    return (d[0] * ax[0] + d[1] * ax[1] + d[2] * ax[2]) / spacing[a];
+  }) as Vec3;
+};
+
+/** Geometry of a coarse grid of roughly `blockMm` blocks laid over `grid`, without scores. */
+export const createBlockGrid = (grid: VolumeGrid, blockMm: number): Omit<BlockScoreMap, 'scores'> => {
+  const blockVoxels = grid.spacing.map(s => Math.max(1, Math.round(blockMm / s))) as Vec3;
+  return {
+    dimensions: [0, 1, 2].map(a => Math.ceil(grid.dimensions[a] / blockVoxels[a])) as Vec3,
+    spacing: grid.spacing.map((s, a) => s * blockVoxels[a]) as Vec3,
+    origin: voxelToPatient(grid, (blockVoxels[0] - 1) / 2, (blockVoxels[1] - 1) / 2, (blockVoxels[2] - 1) / 2),
+    direction: grid.direction,
+    blockVoxels,
+  };
+};
+
+/** Trilinear interpolation of a block map over scored blocks only; -1 where nothing is scored. */
+export const sampleBlockScore = (map: BlockScoreMap, p: Vec3) => {
+  const [bx, by, bz] = map.dimensions;
+  const c = patientToVoxel(map, p);
+  const base = c.map(Math.floor);
+  let sum = 0, weight = 0;
+  for (let corner = 0; corner < 8; corner++) {
+    const i = base[0] + (corner & 1), j = base[1] + ((corner >> 1) & 1), k = base[2] + ((corner >> 2) & 1);
+    if (i < 0 || j < 0 || k < 0 || i >= bx || j >= by || k >= bz) continue;
+    const score = map.scores[i + j * bx + k * bx * by];
+    if (score < 0) continue;
+    const w = (1 - Math.abs(c[0] - i)) * (1 - Math.abs(c[1] - j)) * (1 - Math.abs(c[2] - k));
+    sum += score * w;
+    weight += w;
+  }
+  return weight > 0 ? sum / weight : -1;
+};
+
+/**
+ * Trilinear interpolation of grid values at continuous voxel coordinates; `outside`
+ * beyond the grid. Grids need at least two voxels along each axis.
+ */
+export const interpolateGrid = (
+  values: ArrayLike<number>,
+  dims: Vec3,
+  i: number, j: number, k: number,
+  outside: number
+) => {
+  const [nx, ny, nz] = dims;
+  if (!(i >= 0 && j >= 0 && k >= 0 && i <= nx - 1 && j <= ny - 1 && k <= nz - 1)) return outside;
+  const i0 = Math.min(Math.floor(i), nx - 2), j0 = Math.min(Math.floor(j), ny - 2), k0 = Math.min(Math.floor(k), nz - 2);
+  const fi = i - i0, fj = j - j0, fk = k - k0;
+  const nxy = nx * ny;
+  const p = i0 + j0 * nx + k0 * nxy;
+  const c00 = values[p] + (values[p + 1] - values[p]) * fi;
+  const c10 = values[p + nx] + (values[p + nx + 1] - values[p + nx]) * fi;
+  const c01 = values[p + nxy] + (values[p + nxy + 1] - values[p + nxy]) * fi;
+  const c11 = values[p + nxy + nx] + (values[p + nxy + nx + 1] - values[p + nxy + nx]) * fi;
+  const c0 = c00 + (c10 - c00) * fj;
+  const c1 = c01 + (c11 - c01) * fj;
+  return c0 + (c1 - c0) * fk;
+};
+
+/** HU of a volume at a patient LPS position (trilinear); `outside` beyond the field of view. */
+export const sampleVolume = (volume: CTVolume, p: Vec3, outside = -1000) => {
+  const [i, j, k] = patientToVoxel(volume, p);
+  return interpolateGrid(volume.data, volume.dimensions, i, j, k, outside);
+};
+
+/** Value of a scalar field at a patient LPS position (trilinear); NaN beyond the grid. */
+export const sampleScalarField = (field: ScalarField, p: Vec3) => {
+  const [i, j, k] = patientToVoxel(field, p);
+  return interpolateGrid(field.values, field.dimensions, i, j, k, NaN);
+};
+
+/**
+ * Permutes and flips voxel axes so the volume is stored in canonical LPS order
+ * (i -> Left, j -> Posterior, k -> Superior). Oblique acquisitions are snapped to
+ * the closest patient axes; the residual rotation is kept in `direction`.
+ */
+export const reorientToLPS = (volume: CTVolume): CTVolume => {
+  const axes = [0, 1, 2].map(a => axis(volume.direction, a));
+
+  // Greedily assign each voxel axis to its dominant patient axis
+  const candidates: { voxelAxis: number; patientAxis: number; weight: number }[] = [];
+  axes.forEach((v, voxelAxis) => v.forEach((c, patientAxis) => candidates.push({ voxelAxis, patientAxis, weight: Math.abs(c) })));
+  candidates.sort((a, b) => b.weight - a.weight);
+
+  const sourceForTarget = [-1, -1, -1];
+  const usedSource = [false, false, false];
+  for (const c of candidates) {
+    if (sourceForTarget[c.patientAxis] !== -1 || usedSource[c.voxelAxis]) continue;
+    sourceForTarget[c.patientAxis] = c.voxelAxis;
+    usedSource[c.voxelAxis] = true;
+  }
+  const flip = sourceForTarget.map((src, target) => axes[src][target] < 0);
+
+  const isIdentity = sourceForTarget.every((src, target) => src === target) && !flip.some(Boolean);
+  if (isIdentity) return volume;
+
+  const srcDims = volume.dimensions;
+  const dims = sourceForTarget.map(src => srcDims[src]) as Vec3;
+  const spacing = sourceForTarget.map(src => volume.spacing[src]) as Vec3;
+  const direction: number[] = [];
+  sourceForTarget.forEach((src, target) => {
+    const s = flip[target] ? -1 : 1;
+    direction.push(axes[src][0] * s, axes[src][1] * s, axes[src][2] * s);
+  });
+
+  // New origin is the old voxel that maps to new index (0, 0, 0)
+  const originIndex = [0, 0, 0];
+  sourceForTarget.forEach((src, target) => {
+    originIndex[src] = flip[target] ? srcDims[src] - 1 : 0;
+  });
+  const origin = voxelToPatient(volume, originIndex[0], originIndex[1], originIndex[2]);
+
+  // Strides in the source array for each target axis
+  const srcStrides = [1, srcDims[0], srcDims[0] * srcDims[1]];
+  const stride = sourceForTarget.map((src, target) => (flip[target] ? -1 : 1) * srcStrides[src]);
+  const start = originIndex[0] * srcStrides[0] + originIndex[1] * srcStrides[1] + originIndex[2] * srcStrides[2];
+
+  const data = new Int16Array(volume.data.length);
+  let o = 0;
+  for (let k = 0; k < dims[2]; k++) {
+    for (let j = 0; j < dims[1]; j++) {
+      let src = start + k * stride[2] + j * stride[1];
+      for (let i = 0; i < dims[0]; i++, src += stride[0]) {
+        data[o++] = volume.data[src];
+      }
+    }
+  }
+
+  return { ...volume, dimensions: dims, spacing, origin, direction, data };
+};
+
+// Analysis runs on a subsampled grid: no finer than this in-plane...
+const ANALYSIS_MAX_IN_PLANE = 256;
+// ...and no thinner than this between slices (mm)
+const ANALYSIS_MIN_SLICE_SPACING = 1.25;
+
+/**
+ * Nearest-neighbour subsampling by integer strides. Unlike averaging, this keeps
+ * the Hounsfield-unit histogram unbiased, which density metrics depend on.
+ */
+export const subsampleVolume = (volume: CTVolume, strides: Vec3): CTVolume => {
+  if (strides.every(s => s === 1)) return volume;
+  const [nx, ny] = volume.dimensions;
+  const dims = volume.dimensions.map((n, a) => Math.ceil(n / strides[a])) as Vec3;
+  const data = new Int16Array(voxelCount(dims));
+  let o = 0;
+  for (let k = 0; k < dims[2]; k++) {
+    for (let j = 0; j < dims[1]; j++) {
+      const row = k * strides[2] * nx * ny + j * strides[1] * nx;
+      for (let i = 0; i < dims[0]; i++) data[o++] = volume.data[row + i * strides[0]];
+    }
+  }
+  return {
+    ...volume,
+    id: `${volume.id}:analysis`,
+    dimensions: dims,
+    spacing: volume.spacing.map((s, a) => s * strides[a]) as Vec3,
+    data,
+  };
+};
+
+/** Subsampled copy of a volume sized for the CPU analysis stages. */
+export const createAnalysisVolume = (volume: CTVolume): CTVolume => {
+  const [nx, ny] = volume.dimensions;
+  const inPlane = Math.max(1, Math.ceil(Math.max(nx, ny) / ANALYSIS_MAX_IN_PLANE));
+  const through = Math.max(1, Math.floor(ANALYSIS_MIN_SLICE_SPACING / volume.spacing[2]));
+  return subsampleVolume(volume, [inPlane, inPlane, through]);
+};
@@ -0,0 +1,177 @@
+/**
+ * Minimal ZIP reading and writing for case bundles: one disk, no ZIP64, no
+ * encryption; entries are deflated with the browser's CompressionStream when it
+ * is available and stored otherwise. Reading accepts stored and deflated entries
+ * written by any tool and checks each entry's CRC-32.
+ */
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+/** Thrown for archives this reader cannot take apart; the message names the problem. */
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const STORED = 0;
+const DEFLATED = 8;
+const MAX_ZIP_BYTES = 0xffffffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let n = 0; n < data.length; n++) crc = CRC_TABLE[(crc ^ data[n]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pipe = async (data: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(stream)).arrayBuffer());
+
+const deflate = async (data: Uint8Array) => {
+  if (typeof CompressionStream === 'undefined') return null;
+  try {
+    return await pipe(data, new CompressionStream('deflate-raw'));
+  } catch {
+    return null; // No deflate-raw support: store instead
+  }
+};
+
+// MS-DOS date and time fields of a ZIP header
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/** ZIP archive of the entries, in their order. */
+export const createZip = async (entries: ZipEntry[], modified = new Date()): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const crc = crc32(entry.data);
+    const deflated = await deflate(entry.data);
+    const useDeflate = deflated !== null && deflated.length < entry.data.length;
+    const body = useDeflate ? deflated : entry.data;
+    const method = useDeflate ? DEFLATED : STORED;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_HEADER, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, method, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, body.length, true);
+    local.setUint32(22, entry.data.length, true);
+    local.setUint16(26, name.length, true);
+    parts.push(new Uint8Array(local.buffer), name, body);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, CENTRAL_HEADER, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, UTF8_FLAG, true);
+    header.setUint16(10, method, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, body.length, true);
+    header.setUint32(24, entry.data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+    central.push(new Uint8Array(header.buffer), name);
+
+    offset += 30 + name.length + body.length;
+    if (offset > MAX_ZIP_BYTES) throw new ZipFormatError('Archive exceeds 4 GB; leave out volumes or meshes.');
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};
+
+/** Entries of a ZIP archive by path; directories are skipped. */
+export const readZip = async (buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // End of central directory record: last 22 bytes plus up to 64 kB of comment
+  let end = -1;
+  for (let p = buffer.byteLength - 22; p >= Math.max(0, buffer.byteLength - 22 - 0xffff); p--) {
+    if (view.getUint32(p, true) === END_OF_CENTRAL_DIRECTORY) { end = p; break; }
+  }
+  if (end < 0) throw new ZipFormatError('Not a ZIP archive (no end of central directory record).');
+  const count = view.getUint16(end + 10, true);
+  let p = view.getUint32(end + 16, true);
+  if (count === 0xffff || p === 0xffffffff) throw new ZipFormatError('ZIP64 archives are not supported.');
+
+  const entries = new Map<string, Uint8Array>();
+  for (let n = 0; n < count; n++) {
+    if (p + 46 > buffer.byteLength || view.getUint32(p, true) !== CENTRAL_HEADER) {
+      throw new ZipFormatError(`Central directory entry ${n + 1} of ${count} is corrupt.`);
+    }
+    const flags = view.getUint16(p + 8, true);
+    const method = view.getUint16(p + 10, true);
+    const crc = view.getUint32(p + 16, true);
+    const compressedSize = view.getUint32(p + 20, true);
+    const size = view.getUint32(p + 24, true);
+    const nameLength = view.getUint16(p + 28, true);
+    const extraLength = view.getUint16(p + 30, true);
+    const commentLength = view.getUint16(p + 32, true);
+    const localOffset = view.getUint32(p + 42, true);
+    const path = decoder.decode(bytes.subarray(p + 46, p + 46 + nameLength));
+    p += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+    if (flags & 1) throw new ZipFormatError(`${path}: encrypted entries are not supported.`);
+    if (localOffset + 30 > buffer.byteLength || view.getUint32(localOffset, true) !== LOCAL_HEADER) {
+      throw new ZipFormatError(`${path}: local header is missing or corrupt.`);
+    }
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    if (start + compressedSize > buffer.byteLength) throw new ZipFormatError(`${path}: archive is truncated.`);
+    const body = bytes.subarray(start, start + compressedSize);
+
+    let data: Uint8Array;
+    if (method === STORED) data = body;
+    else if (method === DEFLATED) {
+      try {
+        data = await pipe(body, new DecompressionStream('deflate-raw'));
+      } catch {
+        throw new ZipFormatError(`${path}: compressed data is corrupt.`);
+      }
+    } else throw new ZipFormatError(`${path}: compression method ${method} is not supported.`);
+
+    if (data.length !== size || crc32(data) !== crc) throw new ZipFormatError(`${path}: checksum mismatch; the archive is damaged.`);
+    entries.set(path, data);
+  }
+  return entries;
+};
@@ -0,0 +1,175 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import { CTVolume, LungSurfaceMeshes, PatientCase } from '../types';
+import { CaseBundleError, CASE_BUNDLE_VERSION, exportCaseBundle, readCaseBundle, storeImportedCase } from '../services/caseBundle';
+import { loadAiAnalysis, loadMeshes, loadVolume, saveAiAnalysis, saveCase, saveMeshes, saveVolume } from '../services/caseStore';
+import { createZip, readZip } from '../services/zipArchive';
+import { MOCK_PATIENT } from '../constants';
+
+// caseStore asks navigator.storage for quota; Node has no storage manager
+vi.stubGlobal('navigator', {});
+
+const volumeOf = (n: number, hu: (p: number) => number): CTVolume => ({
+  id: 'scan',
+  dimensions: [n, n, n],
+  spacing: [1, 1, 1],
+  origin: [0, 0, 0],
+  direction: [1, 0, 0, 0, 1, 0, 0, 0, 1],
+  data: Int16Array.from({ length: n ** 3 }, (_, p) => hu(p)),
+  metadata: { source: 'nifti', description: 'scan', sliceThickness: 1 },
+});
+
+const triangle = { positions: new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]), normals: new Float32Array(9), indices: new Uint32Array([0, 1, 2]) };
+const meshes: LungSurfaceMeshes = { rightLung: triangle, leftLung: null, lobes: { rul: triangle, rml: null, rll: null, lul: null, lll: null } };
+
+// Each test stores its own copy of the mock case, so they do not share records
+let cases = 0;
+const storedCase = async (): Promise<PatientCase> => {
+  const [first, ...rest] = MOCK_PATIENT.timeline;
+  const patientCase = {
+    ...MOCK_PATIENT,
+    id: `PT-TEST-${++cases}`,
+    timeline: [{ ...first, annotations: [{ id: 'a1', position: [1, 2, 3] as [number, number, number], text: 'Check', author: 'Dr. Lee', createdAt: '2024-01-01T00:00:00.000Z' }] }, ...rest],
+  };
+  await saveAiAnalysis(patientCase.id, first.id, 'Stored summary');
+  await saveMeshes(patientCase.id, first.id, meshes);
+  await saveVolume(patientCase.id, first.id, 'inspiratory', volumeOf(8, p => p - 1000));
+  return patientCase;
+};
+
+const rezip = async (bundle: Blob, edit: (entries: Map<string, Uint8Array>) => void) => {
+  const entries = await readZip(await bundle.arrayBuffer());
+  edit(entries);
+  return createZip([...entries].map(([path, data]) => ({ path, data })));
+};
+
+const json = (value: unknown) => new TextEncoder().encode(JSON.stringify(value));
+
+describe('case bundles', () => {
+  it('round-trip a case with its annotations, summaries, meshes and volumes', async () => {
+    const patientCase = await storedCase();
+    const tpId = patientCase.timeline[0].id;
+
+    const [imported] = await readCaseBundle(await exportCaseBundle([patientCase], { meshes: true, volumes: true }));
+
+    expect(imported.patientCase).toEqual(patientCase);
+    expect(imported.analyses).toEqual({ [tpId]: 'Stored summary' });
+    expect(imported.meshes).toEqual([{ timePointId: tpId, meshes }]);
+    expect(imported.volumes).toHaveLength(1);
+    expect(imported.volumes[0]).toMatchObject({ timePointId: tpId, role: 'inspiratory', volume: { dimensions: [8, 8, 8] } });
+    expect(Array.from(imported.volumes[0].volume.data)).toEqual(Array.from(volumeOf(8, p => p - 1000).data));
+  });
+
+  it('leave meshes and volumes out unless asked for', async () => {
+    const patientCase = await storedCase();
+
+    const [imported] = await readCaseBundle(await exportCaseBundle([patientCase], { meshes: false, volumes: false }));
+
+    expect(imported.meshes).toEqual([]);
+    expect(imported.volumes).toEqual([]);
+    expect(Object.keys(imported.analyses)).toEqual([patientCase.timeline[0].id]);
+  });
+
+  it('store an imported case on a device that does not have it', async () => {
+    const source = await storedCase();
+    const [imported] = await readCaseBundle(await exportCaseBundle([source], { meshes: true, volumes: true }));
+    const copy = { ...imported, patientCase: { ...imported.patientCase, id: `${source.id}-copy` } };
+    const tpId = source.timeline[0].id;
+
+    await storeImportedCase(copy, 'merge');
+
+    expect(await loadAiAnalysis(copy.patientCase.id, tpId)).toBe('Stored summary');
+    expect(await loadMeshes(copy.patientCase.id, tpId)).toEqual(meshes);
+    expect((await loadVolume(copy.patientCase.id, tpId, 'inspiratory'))?.dimensions).toEqual([8, 8, 8]);
+  });
+
+  it('keep local data on merge and never replace a volume with a coarser one', async () => {
+    const patientCase = await storedCase();
+    const tpId = patientCase.timeline[0].id;
+    const incoming = {
+      patientCase,
+      analyses: { [tpId]: 'Bundled summary' },
+      meshes: [{ timePointId: tpId, meshes: { ...meshes, lobes: { ...meshes.lobes, rul: null } } }],
+      volumes: [{ timePointId: tpId, role: 'inspiratory' as const, volume: volumeOf(4, () => 0) }],
+    };
+
+    await storeImportedCase(incoming, 'merge');
+    expect(await loadAiAnalysis(patientCase.id, tpId)).toBe('Stored summary');
+    expect((await loadMeshes(patientCase.id, tpId))?.lobes.rul).not.toBeNull();
+
+    await storeImportedCase(incoming, 'replace');
+    expect(await loadAiAnalysis(patientCase.id, tpId)).toBe('Bundled summary');
+    expect((await loadMeshes(patientCase.id, tpId))?.lobes.rul).toBeNull();
+    expect((await loadVolume(patientCase.id, tpId, 'inspiratory'))?.dimensions).toEqual([8, 8, 8]);
+  });
+
+  it('drop the stored data of local timepoints a replacing bundle does not have', async () => {
+    const patientCase = await storedCase();
+    await saveCase(patientCase);
+    const [dropped, ...rest] = patientCase.timeline;
+    await saveAiAnalysis(patientCase.id, rest[0].id, 'Kept summary');
+
+    await storeImportedCase({ patientCase: { ...patientCase, timeline: rest }, analyses: {}, meshes: [], volumes: [] }, 'replace');
+
+    expect(await loadAiAnalysis(patientCase.id, dropped.id)).toBeNull();
+    expect(await loadMeshes(patientCase.id, dropped.id)).toBeNull();
+    expect(await loadVolume(patientCase.id, dropped.id, 'inspiratory')).toBeNull();
+    expect(await loadAiAnalysis(patientCase.id, rest[0].id)).toBe('Kept summary');
+  });
+
+  it('report every problem in a damaged bundle', async () => {
+    const patientCase = await storedCase();
+    const bundle = await exportCaseBundle([patientCase], { meshes: false, volumes: false });
+    const damaged = await rezip(bundle, entries => {
+      const path = [...entries.keys()].find(p => p.endsWith('timeline.json'))!;
+      const timeline = JSON.parse(new TextDecoder().decode(entries.get(path)));
+      timeline[0].date = '2024/01/01';
+      timeline[1].metrics.totalVolume = 'large';
+      entries.set(path, json(timeline));
+    });
+
+    const error = await readCaseBundle(damaged).catch(err => err);
+    expect(error).toBeInstanceOf(CaseBundleError);
+    expect((error as CaseBundleError).problems).toHaveLength(2);
+    expect((error as CaseBundleError).problems.every(p => p.includes('timeline.json'))).toBe(true);
+  });
+
+  it('refuse meshes with missing arrays, wrong types or out-of-range indices', async () => {
+    const bundle = await exportCaseBundle([await storedCase()], { meshes: true, volumes: false });
+    const damaged = await rezip(bundle, entries => {
+      const manifest = JSON.parse(new TextDecoder().decode(entries.get('manifest.json')));
+      const parts: { name: string; type: string }[] = manifest.cases[0].meshes[0].parts;
+      manifest.cases[0].meshes[0].parts = parts
+        .filter(part => part.name !== 'lobes.rul.normals')
+        .map(part => (part.name === 'rightLung.indices' ? { ...part, type: 'Float32Array' } : part));
+      entries.set('manifest.json', json(manifest));
+    });
+
+    const error = await readCaseBundle(damaged).catch(err => err);
+    expect(error).toBeInstanceOf(CaseBundleError);
+    expect((error as CaseBundleError).problems).toEqual([
+      expect.stringMatching(/rightLung\.indices must be Uint32Array, not Float32Array$/),
+      expect.stringMatching(/mesh lobes\.rul has no normals array$/),
+    ]);
+
+    // The rul triangle's last index points one past its three vertices
+    const outOfRange = await rezip(bundle, entries => {
+      const manifest = JSON.parse(new TextDecoder().decode(entries.get('manifest.json')));
+      const { path, parts } = manifest.cases[0].meshes[0] as { path: string; parts: { name: string; offset: number }[] };
+      const data = entries.get(path)!;
+      new DataView(data.buffer, data.byteOffset).setUint32(parts.find(part => part.name === 'lobes.rul.indices')!.offset + 8, 3, true);
+    });
+    await expect(readCaseBundle(outOfRange)).rejects.toThrow(/lobes\.rul\.indices refers to vertex 3 at position 2, but the mesh has 3 vertices/);
+  });
+
+  it('refuse bundles from a newer format or that are not bundles', async () => {
+    const bundle = await exportCaseBundle([await storedCase()], { meshes: false, volumes: false });
+    const newer = await rezip(bundle, entries => {
+      const manifest = JSON.parse(new TextDecoder().decode(entries.get('manifest.json')));
+      entries.set('manifest.json', json({ ...manifest, formatVersion: CASE_BUNDLE_VERSION + 1 }));
+    });
+
+    await expect(readCaseBundle(newer)).rejects.toThrow(/newer than this app reads/);
+    await expect(readCaseBundle(new Blob([new Uint8Array(100)]))).rejects.toBeInstanceOf(CaseBundleError);
+  });
+});
@@ -0,0 +1,78 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import { CTVolume, PatientCase } from '../types';
+import {
+  evictTimePointData, listStoredBinaries, loadAiAnalysis, loadCases, loadVolume, saveAiAnalysis, saveCase, saveVolume
+} from '../services/caseStore';
+import { MOCK_PATIENT } from '../constants';
+
+// caseStore asks navigator.storage for quota; Node has no storage manager
+vi.stubGlobal('navigator', {});
+
+// Each test works on its own case, so they do not share records
+let cases = 0;
+const newCase = (): PatientCase => ({ ...MOCK_PATIENT, id: `PT-STORE-${++cases}` });
+
+const volumeOf = (hu: number): CTVolume => ({
+  id: 'scan',
+  dimensions: [4, 4, 4],
+  spacing: [1, 1, 1],
+  origin: [0, 0, 0],
+  direction: [1, 0, 0, 0, 1, 0, 0, 0, 1],
+  data: new Int16Array(64).fill(hu),
+  metadata: { source: 'nifti', description: 'scan', sliceThickness: 1 },
+});
+
+describe('AI summaries', () => {
+  it('are stored per timepoint and replaced when regenerated', async () => {
+    const { id, timeline: [first, second] } = newCase();
+
+    expect(await loadAiAnalysis(id, first.id)).toBeNull();
+
+    await saveAiAnalysis(id, first.id, 'First summary');
+    await saveAiAnalysis(id, first.id, 'Regenerated summary');
+
+    expect(await loadAiAnalysis(id, first.id)).toBe('Regenerated summary');
+    expect(await loadAiAnalysis(id, second.id)).toBeNull();
+  });
+
+  it('are kept apart for cases whose timepoints share an ID', async () => {
+    const a = newCase(), b = newCase();
+    const tpId = a.timeline[0].id;
+
+    await saveAiAnalysis(a.id, tpId, 'Summary of A');
+    await saveAiAnalysis(b.id, tpId, 'Summary of B');
+
+    expect(await loadAiAnalysis(a.id, tpId)).toBe('Summary of A');
+    expect(await loadAiAnalysis(b.id, tpId)).toBe('Summary of B');
+  });
+
+  it('go when their timepoint is removed from the case', async () => {
+    const patientCase = newCase();
+    const [first, ...rest] = patientCase.timeline;
+    await saveCase(patientCase);
+    await saveAiAnalysis(patientCase.id, first.id, 'Summary');
+
+    await saveCase({ ...patientCase, timeline: rest });
+
+    expect(await loadAiAnalysis(patientCase.id, first.id)).toBeNull();
+    expect((await loadCases()).find(c => c.id === patientCase.id)?.timeline.map(tp => tp.id)).toEqual(rest.map(tp => tp.id));
+  });
+});
+
+describe('scan data', () => {
+  it('is keyed by case, so evicting one case never touches another', async () => {
+    const a = newCase(), b = newCase();
+    const tpId = a.timeline[0].id;
+    await saveVolume(a.id, tpId, 'inspiratory', volumeOf(-800));
+    await saveVolume(b.id, tpId, 'inspiratory', volumeOf(-900));
+
+    const keys = (await listStoredBinaries()).filter(binary => [a.id, b.id].includes(binary.caseId)).map(binary => binary.key);
+    expect(keys).toEqual([`${a.id}/${tpId}/volume/inspiratory`, `${b.id}/${tpId}/volume/inspiratory`]);
+
+    await evictTimePointData(a.id, tpId);
+
+    expect(await loadVolume(a.id, tpId, 'inspiratory')).toBeNull();
+    expect((await loadVolume(b.id, tpId, 'inspiratory'))?.data[0]).toBe(-900);
+  });
+});
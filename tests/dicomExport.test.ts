@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { runLungAnalysis } from '../services/analysisPipeline';
+import { DicomExportError, exportDicomObjects } from '../services/dicomExport';
+import { DicomKeyword, TAG_OF } from '../services/dicomWriter';
+import { LOBE_LABEL_BY_KEY } from '../services/lobeSegmentation';
+import { voxelToPatient, voxelVolumeMl } from '../services/volumeUtils';
+import { makePhantom } from './phantom';
+
+// --- A reader for what the writer emits: explicit VR little endian, defined lengths ---
+
+type Dataset = Map<number, Uint8Array | Dataset[]>;
+
+const LONG_LENGTH_VRS = new Set(['OB', 'OD', 'OF', 'OL', 'OW', 'SQ', 'UC', 'UN', 'UR', 'UT']);
+const ITEM = 0xfffee000;
+
+const readDataset = (bytes: Uint8Array, start: number, end: number): Dataset => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tagAt = (offset: number) => view.getUint16(offset, true) * 0x10000 + view.getUint16(offset + 2, true);
+  const dataset: Dataset = new Map();
+  let offset = start;
+  while (offset < end) {
+    const tag = tagAt(offset);
+    const vr = String.fromCharCode(bytes[offset + 4], bytes[offset + 5]);
+    const long = LONG_LENGTH_VRS.has(vr);
+    const length = long ? view.getUint32(offset + 8, true) : view.getUint16(offset + 6, true);
+    offset += long ? 12 : 8;
+    if (vr === 'SQ') {
+      const items: Dataset[] = [];
+      for (let item = offset; item < offset + length;) {
+        expect(tagAt(item)).toBe(ITEM);
+        const itemLength = view.getUint32(item + 4, true);
+        items.push(readDataset(bytes, item + 8, item + 8 + itemLength));
+        item += 8 + itemLength;
+      }
+      dataset.set(tag, items);
+    } else {
+      dataset.set(tag, bytes.subarray(offset, offset + length));
+    }
+    offset += length;
+  }
+  return dataset;
+};
+
+const readFile = (bytes: Uint8Array) => {
+  expect(new TextDecoder().decode(bytes.subarray(128, 132))).toBe('DICM');
+  return readDataset(bytes, 132, bytes.length);
+};
+
+const raw = (dataset: Dataset, keyword: DicomKeyword) => dataset.get(TAG_OF[keyword]) as Uint8Array;
+const str = (dataset: Dataset, keyword: DicomKeyword) => new TextDecoder().decode(raw(dataset, keyword)).replace(/[\0 ]+$/, '');
+const us = (dataset: Dataset, keyword: DicomKeyword) => new DataView(raw(dataset, keyword).buffer, raw(dataset, keyword).byteOffset).getUint16(0, true);
+const seq = (dataset: Dataset, keyword: DicomKeyword) => (dataset.get(TAG_OF[keyword]) ?? []) as Dataset[];
+
+// --- The phantom as a DICOM series ---
+
+const volume = makePhantom({ emphysema: true });
+const nz = volume.dimensions[2];
+volume.metadata = {
+  ...volume.metadata,
+  source: 'dicom',
+  patient: { patientId: 'P1', patientName: 'Doe^Jane', birthDate: '19600214', sex: 'F' },
+  study: {
+    studyInstanceUID: '1.2.3.4', studyDate: '20240101', studyDescription: 'CT chest', accessionNumber: 'A1',
+    seriesInstanceUID: '1.2.3.4.5', seriesNumber: 2, seriesDescription: 'Lung', modality: 'CT', frameOfReferenceUID: '1.2.3.4.6',
+  },
+  sourceInstances: Array.from({ length: nz }, (_, k) => ({
+    sopClassUID: '1.2.840.10008.5.1.4.1.1.2',
+    sopInstanceUID: `1.2.3.4.7.${k + 1}`,
+    position: voxelToPatient(volume, 0, 0, k),
+  })),
+};
+const result = await runLungAnalysis(volume);
+const exported = exportDicomObjects(result);
+const seg = readFile(exported.segmentation);
+const sr = readFile(exported.report);
+
+describe('exportDicomObjects', () => {
+  it('writes a binary SEG into the source study', () => {
+    const [nx, ny] = result.segmentation.dimensions;
+
+    expect(str(seg, 'SOPClassUID')).toBe('1.2.840.10008.5.1.4.1.1.66.4');
+    expect(str(seg, 'StudyInstanceUID')).toBe('1.2.3.4');
+    expect(str(seg, 'FrameOfReferenceUID')).toBe('1.2.3.4.6');
+    expect(str(seg, 'PatientName')).toBe('Doe^Jane');
+    expect([us(seg, 'Rows'), us(seg, 'Columns'), us(seg, 'BitsAllocated')]).toEqual([ny, nx, 1]);
+    expect(Number(str(seg, 'NumberOfFrames'))).toBe(seq(seg, 'PerFrameFunctionalGroupsSequence').length);
+  });
+
+  it('packs exactly the segmented voxels of every segment into the frames', () => {
+    const { segmentation, lobes } = result;
+    const [nx, ny] = segmentation.dimensions;
+    const nxy = nx * ny;
+    const pixels = raw(seg, 'PixelData');
+    const labels = seq(seg, 'SegmentSequence').map(segment => str(segment, 'SegmentLabel'));
+    const counted = new Map<string, number>();
+    seq(seg, 'PerFrameFunctionalGroupsSequence').forEach((frame, f) => {
+      const segment = us(seq(frame, 'SegmentIdentificationSequence')[0], 'ReferencedSegmentNumber');
+      let bits = 0;
+      for (let bit = f * nxy; bit < (f + 1) * nxy; bit++) bits += (pixels[bit >> 3] >> (bit & 7)) & 1;
+      counted.set(labels[segment - 1], (counted.get(labels[segment - 1]) ?? 0) + bits);
+    });
+    const lobeVoxels = (label: number) => lobes.labels.reduce((sum, v) => sum + (v === label ? 1 : 0), 0);
+
+    expect(labels).toEqual(expect.arrayContaining(['Right lung', 'Left lung', 'Bulla 1']));
+    expect(counted.get('Right lung')).toBe(segmentation.voxelCounts.rightLung);
+    expect(counted.get('Left lung')).toBe(segmentation.voxelCounts.leftLung);
+    expect(counted.get('Upper lobe of left lung')).toBe(lobeVoxels(LOBE_LABEL_BY_KEY.lul));
+    // Bullae are searched for only on the slices their bounding box spans
+    expect(counted.get('Bulla 1')! * voxelVolumeMl(segmentation.spacing)).toBeCloseTo(result.emphysema.bullae[0].volumeMl, 1);
+  });
+
+  it('references the source image lying on each frame', () => {
+    const frames = seq(seg, 'PerFrameFunctionalGroupsSequence');
+    const referenced = frames.filter(frame => seq(frame, 'DerivationImageSequence').length > 0);
+
+    expect(referenced.length).toBeGreaterThan(0);
+    for (const frame of referenced) {
+      const indices = raw(seq(frame, 'FrameContentSequence')[0], 'DimensionIndexValues');
+      const k = new DataView(indices.buffer, indices.byteOffset).getUint32(4, true) - 1;
+      const [source] = seq(seq(frame, 'DerivationImageSequence')[0], 'SourceImageSequence');
+      expect(str(source, 'ReferencedSOPInstanceUID')).toBe(`1.2.3.4.7.${k + 1}`);
+    }
+  });
+
+  it('writes an SR that references the SEG and reports the lung volume', () => {
+    const segUID = str(seg, 'SOPInstanceUID');
+    const [evidence] = seq(sr, 'CurrentRequestedProcedureEvidenceSequence');
+    const referencedUIDs = seq(evidence, 'ReferencedSeriesSequence')
+      .flatMap(series => seq(series, 'ReferencedSOPSequence'))
+      .map(instance => str(instance, 'ReferencedSOPInstanceUID'));
+    const measurements = seq(sr, 'ContentSequence').find(item => str(seq(item, 'ConceptNameCodeSequence')[0], 'CodeValue') === '126010')!;
+    const wholeLung = seq(measurements, 'ContentSequence').find(group =>
+      seq(group, 'ContentSequence').some(item => str(item, 'ValueType') === 'TEXT' && str(item, 'TextValue') === 'Whole lung'))!;
+    const [volumeItem] = seq(wholeLung, 'ContentSequence').filter(item => str(item, 'ValueType') === 'NUM');
+
+    expect(str(sr, 'SOPClassUID')).toBe('1.2.840.10008.5.1.4.1.1.88.33');
+    expect(referencedUIDs).toContain(segUID);
+    expect(Number(str(seq(volumeItem, 'MeasuredValueSequence')[0], 'NumericValue'))).toBe(result.metrics.totalVolume);
+  });
+
+  it('needs a scan that was loaded from DICOM', () => {
+    const nifti = { ...result, volume: { ...result.volume, metadata: { ...result.volume.metadata, source: 'nifti' as const } } };
+
+    expect(() => exportDicomObjects(nifti)).toThrow(DicomExportError);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { getSliceHounsfieldUnits, parseDicom } from '../services/dicomParser';
+import { buildVolumeFromSeries, groupDicomSeries } from '../services/dicomSeries';
+
+const IMPLICIT_VR_LITTLE_ENDIAN = '1.2.840.10008.1.2';
+const EXPLICIT_VR_LITTLE_ENDIAN = '1.2.840.10008.1.2.1';
+const JPEG_BASELINE = '1.2.840.10008.1.2.4.50';
+
+const LONG_LENGTH_VRS = ['OB', 'OW', 'SQ', 'UN', 'UT'];
+const UNDEFINED_LENGTH = 0xffffffff;
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) { out.set(part, offset); offset += part.length; }
+  return out;
+};
+
+const text = (s: string) => new TextEncoder().encode(s.length % 2 ? `${s} ` : s);
+const uint16 = (v: number) => new Uint8Array(new Uint16Array([v]).buffer);
+
+const element = (group: number, elem: number, vr: string, value: Uint8Array, explicit: boolean, length = value.length) => {
+  const long = LONG_LENGTH_VRS.includes(vr);
+  const head = new Uint8Array(explicit && long ? 12 : 8);
+  const view = new DataView(head.buffer);
+  view.setUint16(0, group, true);
+  view.setUint16(2, elem, true);
+  if (!explicit) view.setUint32(4, length, true);
+  else {
+    head[4] = vr.charCodeAt(0);
+    head[5] = vr.charCodeAt(1);
+    if (long) view.setUint32(8, length, true);
+    else view.setUint16(6, length, true);
+  }
+  return concat([head, value]);
+};
+
+// Item and delimitation tags carry no VR in any syntax
+const delimiter = (elem: number, length = 0) => {
+  const out = new Uint8Array(8);
+  const view = new DataView(out.buffer);
+  view.setUint16(0, 0xfffe, true);
+  view.setUint16(2, elem, true);
+  view.setUint32(4, length, true);
+  return out;
+};
+
+interface SliceOptions {
+  transferSyntax?: string;
+  position: [number, number, number];
+  seriesUID?: string;
+  rows?: number;
+  columns?: number;
+  value?: (n: number) => number;
+  sequence?: boolean; // Adds an undefined-length sequence the parser has to skip
+}
+
+/** Minimal single-frame CT image as a Part 10 file. */
+const makeSlice = ({
+  transferSyntax = EXPLICIT_VR_LITTLE_ENDIAN, position, seriesUID = '1.2.9', rows = 4, columns = 4, value = n => n * 10, sequence = false,
+}: SliceOptions) => {
+  const explicit = transferSyntax !== IMPLICIT_VR_LITTLE_ENDIAN;
+  const pixels = Int16Array.from({ length: rows * columns }, (_, n) => value(n));
+  const referenced = concat([
+    element(0x0008, 0x1140, 'SQ', new Uint8Array(0), explicit, UNDEFINED_LENGTH),
+    delimiter(0xe000, UNDEFINED_LENGTH),
+    element(0x0008, 0x1150, 'UI', text('1.2.3'), explicit),
+    delimiter(0xe00d),
+    delimiter(0xe0dd),
+  ]);
+  const dataset = concat([
+    element(0x0008, 0x0016, 'UI', text('1.2.840.10008.5.1.4.1.1.2'), explicit),
+    element(0x0008, 0x0018, 'UI', text(`1.2.3.${position[2]}`), explicit),
+    element(0x0008, 0x0060, 'CS', text('CT'), explicit),
+    ...(sequence ? [referenced] : []),
+    element(0x0010, 0x0010, 'PN', text('Doe^Jane'), explicit),
+    element(0x0018, 0x0050, 'DS', text('1.25'), explicit),
+    element(0x0020, 0x000e, 'UI', text(seriesUID), explicit),
+    element(0x0020, 0x0032, 'DS', text(position.join('\\')), explicit),
+    element(0x0020, 0x0037, 'DS', text('1\\0\\0\\0\\1\\0'), explicit),
+    element(0x0028, 0x0002, 'US', uint16(1), explicit),
+    element(0x0028, 0x0004, 'CS', text('MONOCHROME2'), explicit),
+    element(0x0028, 0x0010, 'US', uint16(rows), explicit),
+    element(0x0028, 0x0011, 'US', uint16(columns), explicit),
+    element(0x0028, 0x0030, 'DS', text('0.7\\0.8'), explicit),
+    element(0x0028, 0x0100, 'US', uint16(16), explicit),
+    element(0x0028, 0x0101, 'US', uint16(16), explicit),
+    element(0x0028, 0x0103, 'US', uint16(1), explicit),
+    element(0x0028, 0x1052, 'DS', text('-1024'), explicit),
+    element(0x0028, 0x1053, 'DS', text('1'), explicit),
+    element(0x7fe0, 0x0010, 'OW', new Uint8Array(pixels.buffer), explicit),
+  ]);
+  const preamble = new Uint8Array(132);
+  preamble.set(new TextEncoder().encode('DICM'), 128);
+  const meta = element(0x0002, 0x0010, 'UI', text(transferSyntax), true);
+  return concat([preamble, meta, dataset]).buffer;
+};
+
+describe('parseDicom', () => {
+  it.each([
+    ['implicit', IMPLICIT_VR_LITTLE_ENDIAN],
+    ['explicit', EXPLICIT_VR_LITTLE_ENDIAN],
+  ])('reads the header and pixels of an %s VR little endian image', (_, transferSyntax) => {
+    const slice = parseDicom(makeSlice({ transferSyntax, position: [-100, -100, 6], sequence: true }), 'a.dcm');
+
+    expect(slice.transferSyntaxUID).toBe(transferSyntax);
+    expect(slice.patient.patientName).toBe('Doe Jane');
+    expect([slice.rows, slice.columns]).toEqual([4, 4]);
+    expect(slice.pixelSpacing).toEqual([0.7, 0.8]);
+    expect(slice.sliceThickness).toBe(1.25);
+    expect(slice.imagePositionPatient).toEqual([-100, -100, 6]);
+    expect(Array.from(getSliceHounsfieldUnits(slice).slice(0, 3))).toEqual([-1024, -1014, -1004]);
+  });
+
+  it('rejects compressed transfer syntaxes', () => {
+    expect(() => parseDicom(makeSlice({ transferSyntax: JPEG_BASELINE, position: [0, 0, 0] }), 'b.dcm')).toThrow(/^b\.dcm: /);
+  });
+
+  it('rejects files that are not DICOM', () => {
+    expect(() => parseDicom(new ArrayBuffer(500), 'c.png')).toThrow(/^c\.png: /);
+  });
+});
+
+describe('buildVolumeFromSeries', () => {
+  const slicesAt = (zs: number[], seriesUID?: string) =>
+    zs.map(z => parseDicom(makeSlice({ position: [-100, -100, z], seriesUID, value: () => z }), `${z}.dcm`));
+
+  it('groups slices by series, largest first', () => {
+    const groups = groupDicomSeries([...slicesAt([0, 2], '1.2.8'), ...slicesAt([0, 2, 4])]);
+
+    expect(groups.map(g => [g.seriesInstanceUID, g.slices.length])).toEqual([['1.2.9', 3], ['1.2.8', 2]]);
+  });
+
+  it('sorts slices along the normal into an LPS volume', () => {
+    const [series] = groupDicomSeries(slicesAt([4, 0, 2]));
+    const volume = buildVolumeFromSeries(series);
+
+    expect(volume.dimensions).toEqual([4, 4, 3]);
+    expect(volume.spacing).toEqual([0.8, 0.7, 2]);
+    expect(volume.origin).toEqual([-100, -100, 0]);
+    expect([0, 1, 2].map(k => volume.data[k * 16])).toEqual([-1024, -1022, -1020]);
+  });
+
+  it('interpolates a missing slice and reports it', () => {
+    const [series] = groupDicomSeries(slicesAt([0, 2, 6, 8]));
+    const volume = buildVolumeFromSeries(series);
+
+    expect(volume.dimensions[2]).toBe(5);
+    expect(volume.data[2 * 16]).toBe(-1024 + 4);
+    expect(volume.metadata.assembly?.missingSlices).toBe(1);
+  });
+
+  it('needs at least two slices', () => {
+    const [series] = groupDicomSeries(slicesAt([0]));
+
+    expect(() => buildVolumeFromSeries(series)).toThrow(/at least 2 slices/);
+  });
+});
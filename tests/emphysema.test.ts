@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { CTVolume } from '../types';
+import { analyzeEmphysema, findBullaClusters, MIN_BULLA_ML } from '../services/emphysema';
+import { segmentLobes } from '../services/lobeSegmentation';
+import { computeLungMetrics } from '../services/lungMetrics';
+import { segmentLungs } from '../services/lungSegmentation';
+import { createAnalysisVolume, voxelToPatient } from '../services/volumeUtils';
+import { makePhantom, PHANTOM_BULLA_CENTRE, PHANTOM_DIMENSIONS } from './phantom';
+
+const analyze = (volume: CTVolume) => {
+  const analysisVolume = createAnalysisVolume(volume);
+  const segmentation = segmentLungs(analysisVolume);
+  const lobes = segmentLobes(analysisVolume, segmentation);
+  return {
+    ...analyzeEmphysema(analysisVolume, segmentation, lobes, computeLungMetrics(analysisVolume, segmentation, lobes)),
+    clusters: findBullaClusters(analysisVolume, segmentation),
+  };
+};
+
+describe('analyzeEmphysema', () => {
+  it('finds the bulla in the left upper lobe only', () => {
+    const { laa, bullae } = analyze(makePhantom({ emphysema: true }));
+
+    expect(laa.rightLung).toBe(0);
+    expect(laa.leftLung).toBeGreaterThan(0);
+    expect(laa.lobes.lul).toBeGreaterThan(laa.leftLung);
+    expect(bullae).toHaveLength(1);
+
+    const [bulla] = bullae;
+    expect(bulla).toMatchObject({ id: 'bulla-1', kind: 'bulla', lung: 'left', lobe: 'lul', meanHU: -990 });
+    // A 6-voxel radius sphere of 2 x 2 x 2.5 mm voxels
+    expect(bulla.volumeMl).toBeCloseTo((4 / 3) * Math.PI * 6 ** 3 * 0.01, 0);
+  });
+
+  it('places the bulla in patient coordinates with a box around its voxels', () => {
+    const volume = makePhantom({ emphysema: true });
+    const [bulla] = analyze(volume).bullae;
+    const centre = voxelToPatient(volume, ...PHANTOM_BULLA_CENTRE);
+
+    bulla.centroid.forEach((c, a) => expect(c).toBeCloseTo(centre[a], 1));
+    // 11 voxels across on every axis, each box side grown by half a voxel
+    expect(bulla.boundingBox.min.map((v, a) => centre[a] - v)).toEqual([11, 11, 13.75]);
+    expect(bulla.boundingBox.max.map((v, a) => v - centre[a])).toEqual([11, 11, 13.75]);
+    expect(bulla.maxExtentMm).toBe(27.5);
+  });
+
+  it('counts small low-attenuation clusters as LAA without calling them bullae', () => {
+    const volume = makePhantom();
+    const [nx, ny] = PHANTOM_DIMENSIONS;
+    let low = 0;
+    // A 2-voxel radius cluster in the right lung, well under MIN_BULLA_ML
+    for (let k = 53; k <= 57; k++) {
+      for (let j = 68; j <= 72; j++) {
+        for (let i = 48; i <= 52; i++) {
+          if ((i - 50) ** 2 + (j - 70) ** 2 + (k - 55) ** 2 > 4) continue;
+          volume.data[i + j * nx + k * nx * ny] = -990;
+          low++;
+        }
+      }
+    }
+    const { clusters, bullae, minBullaVolumeMl } = analyze(volume);
+
+    expect(minBullaVolumeMl).toBe(MIN_BULLA_ML);
+    expect(clusters.lowVoxels).toBe(low);
+    expect(clusters.bullaIds).toEqual([]);
+    expect(bullae).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { FhirDiagnosticReport, FhirObservation, FhirPatient, buildFhirBundle, fhirFileName, validateFhirBundle } from '../services/fhirExport';
+import { runLungAnalysis } from '../services/analysisPipeline';
+import { formatSchemaError } from '../services/jsonSchema';
+import { MOCK_PATIENT } from '../constants';
+import { makePhantom } from './phantom';
+
+const { metrics } = await runLungAnalysis(makePhantom({ emphysema: true }));
+const timePoint = { ...MOCK_PATIENT.timeline[0], metrics, analysisStatus: 'completed' as const };
+const dicomPatient = { patientId: 'P1', patientName: 'Doe^Jane', birthDate: '19600214', sex: 'F' };
+
+const observationsCoded = (bundle: ReturnType<typeof buildFhirBundle>, code: string) => bundle.entry
+  .map(entry => entry.resource)
+  .filter((resource): resource is FhirObservation => resource.resourceType === 'Observation' && resource.code.coding?.[0].code === code);
+
+describe('buildFhirBundle', () => {
+  it('conforms to the FHIR R4 schema after a JSON round trip', () => {
+    const bundle = buildFhirBundle({ patientCase: MOCK_PATIENT, timePoint, summary: null, dicomPatient });
+    const parsed = JSON.parse(JSON.stringify(bundle));
+
+    expect(validateFhirBundle(parsed).map(formatSchemaError)).toEqual([]);
+    expect(parsed).toEqual(bundle);
+  });
+
+  it('carries the measured values in UCUM and marks unmeasured metrics absent', () => {
+    const bundle = buildFhirBundle({ patientCase: MOCK_PATIENT, timePoint, summary: null });
+    const [total] = observationsCoded(bundle, 'total-lung-volume');
+    const [expansion] = observationsCoded(bundle, 'expansion-ratio');
+
+    expect(total.valueQuantity).toEqual({ value: metrics.totalVolume, unit: 'mL', system: 'http://unitsofmeasure.org', code: 'mL' });
+    expect(total.status).toBe('final');
+    // Expansion needs a paired expiratory scan
+    expect(expansion.valueQuantity).toBeUndefined();
+    expect(expansion.dataAbsentReason?.coding?.[0].code).toBe('not-performed');
+    expect(observationsCoded(bundle, 'lobe-volume').map(o => o.valueQuantity?.value)).toEqual(Object.values(metrics.lobeVolumes));
+    expect(observationsCoded(bundle, 'qc-huCalibration')[0].valueQuantity?.value).toBe(-1000);
+  });
+
+  it('links every observation from the report and identifies the patient by case', () => {
+    const bundle = buildFhirBundle({ patientCase: MOCK_PATIENT, timePoint, summary: null, dicomPatient });
+    const patient = bundle.entry[0].resource as FhirPatient;
+    const report = bundle.entry[bundle.entry.length - 1].resource as FhirDiagnosticReport;
+    const observationUrls = bundle.entry.filter(entry => entry.resource.resourceType === 'Observation').map(entry => entry.fullUrl);
+
+    expect(patient).toMatchObject({ name: [{ text: 'Doe Jane' }], gender: 'female', birthDate: '1960-02-14' });
+    expect(bundle.entry[0].request.ifNoneExist).toBe(`identifier=urn:lungscape:case|${MOCK_PATIENT.id}`);
+    expect(report.result.map(r => r.reference)).toEqual(observationUrls);
+    expect(report.conclusion).toBeUndefined();
+    expect(report.presentedForm).toBeUndefined();
+  });
+
+  it('encodes a generated summary as UTF-8', () => {
+    const summary = 'Emphysema in the left upper lobe — 1 bulla ✓';
+    const bundle = buildFhirBundle({ patientCase: MOCK_PATIENT, timePoint, summary });
+    const report = bundle.entry[bundle.entry.length - 1].resource as FhirDiagnosticReport;
+
+    expect(report.conclusion).toBe(summary);
+    expect(Buffer.from(report.presentedForm![0].data, 'base64').toString('utf8')).toBe(summary);
+  });
+});
+
+describe('validateFhirBundle', () => {
+  it('reports where a bundle breaks the schema', () => {
+    const bundle = JSON.parse(JSON.stringify(buildFhirBundle({ patientCase: MOCK_PATIENT, timePoint, summary: null })));
+    bundle.entry[1].resource.valueQuantity.value = '12';
+    bundle.entry[2].resource.status = 'done';
+
+    const errors = validateFhirBundle(bundle).map(formatSchemaError);
+    expect(errors.some(e => e.includes('entry[1].resource.valueQuantity.value'))).toBe(true);
+    expect(errors.some(e => e.includes('entry[2].resource.status'))).toBe(true);
+  });
+});
+
+describe('fhirFileName', () => {
+  it('names the file after the case and timepoint date', () => {
+    expect(fhirFileName({ ...MOCK_PATIENT, id: 'PT/1' }, timePoint)).toBe(`PT_1-${timePoint.date}-fhir.json`);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { CTVolume, LobeLabel, LungLabel } from '../types';
+import { segmentLobes } from '../services/lobeSegmentation';
+import { segmentLungs } from '../services/lungSegmentation';
+import { createAnalysisVolume } from '../services/volumeUtils';
+import { makePhantom, PHANTOM_DIMENSIONS, phantomFissureK } from './phantom';
+
+const segment = (volume: CTVolume) => {
+  const analysisVolume = createAnalysisVolume(volume);
+  const segmentation = segmentLungs(analysisVolume);
+  return { segmentation, lobes: segmentLobes(analysisVolume, segmentation) };
+};
+
+/** Lobe labels up one column of voxels, from the lung base to the apex. */
+const column = (labels: Uint8Array, i: number, j: number) => {
+  const [nx, ny, nz] = PHANTOM_DIMENSIONS;
+  return Array.from({ length: nz }, (_, k) => labels[i + j * nx + k * nx * ny]);
+};
+
+const RIGHT_LOBES: number[] = [LobeLabel.RUL, LobeLabel.RML, LobeLabel.RLL];
+const LEFT_LOBES: number[] = [LobeLabel.LUL, LobeLabel.LLL];
+
+// Shared by the tests below; the fissure test segments its own phantom
+const { segmentation, lobes } = segment(makePhantom());
+
+describe('segmentLobes', () => {
+  it('assigns every lung voxel to one lobe of its own lung', () => {
+    const counts = new Map<number, number>();
+    let misplaced = 0;
+    segmentation.labels.forEach((label, p) => {
+      const lobe = lobes.labels[p];
+      const allowed = label === LungLabel.RIGHT_LUNG ? RIGHT_LOBES : label === LungLabel.LEFT_LUNG ? LEFT_LOBES : [0];
+      if (!allowed.includes(lobe)) misplaced++;
+      counts.set(lobe, (counts.get(lobe) ?? 0) + 1);
+    });
+
+    expect(misplaced).toBe(0);
+    for (const lobe of [...RIGHT_LOBES, ...LEFT_LOBES]) expect(counts.get(lobe)).toBeGreaterThan(0);
+  });
+
+  it('falls back to the fissure model on a scan with no visible fissures', () => {
+    expect(lobes.method).toBe('geometric');
+    expect(lobes.fissureCoverage).toEqual({ rightOblique: 0, rightHorizontal: 0, leftOblique: 0 });
+  });
+
+  it('stacks the lobes from base to apex', () => {
+    // Anterior right lung: lower lobe at the base, then middle, then upper
+    const right = column(lobes.labels, 50, 60).filter(Boolean);
+    expect([...new Set(right)]).toEqual([LobeLabel.RLL, LobeLabel.RML, LobeLabel.RUL]);
+    const left = column(lobes.labels, 110, 80).filter(Boolean);
+    expect([...new Set(left)]).toEqual([LobeLabel.LLL, LobeLabel.LUL]);
+  });
+
+  it('follows a fissure visible in the image', () => {
+    const { lobes: withFissure } = segment(makePhantom({ fissure: true }));
+    const left = column(withFissure.labels, 110, 80);
+    const upperFrom = left.indexOf(LobeLabel.LUL);
+
+    expect(withFissure.method).toBe('fissure');
+    expect(withFissure.fissureCoverage.leftOblique).toBeGreaterThan(0.15);
+    expect(withFissure.fissureCoverage.rightOblique).toBe(0);
+    // The model alone would put the fissure about 5 slices higher in this column
+    expect(Math.abs(upperFrom - phantomFissureK(80))).toBeLessThanOrEqual(1);
+    expect(Math.abs(column(lobes.labels, 110, 80).indexOf(LobeLabel.LUL) - phantomFissureK(80))).toBeGreaterThan(3);
+  });
+});
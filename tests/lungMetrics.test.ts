@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { LOBE_KEYS } from '../services/lobeSegmentation';
+import { runLungAnalysis } from '../services/analysisPipeline';
+import { isMetricMeasured } from '../services/lungMetrics';
+import { makePhantom, phantomLungMl } from './phantom';
+
+// The whole pipeline on the phantom, shared by the tests below
+const { metrics } = await runLungAnalysis(makePhantom());
+
+describe('computeLungMetrics', () => {
+  it('measures the total lung volume from the segmentation', () => {
+    expect(isMetricMeasured(metrics, 'totalVolume')).toBe(true);
+    expect(Math.abs(metrics.totalVolume - 2 * phantomLungMl()) / (2 * phantomLungMl())).toBeLessThan(0.03);
+  });
+
+  it('splits the volume into five lobes that add up to the total', () => {
+    const lobes = LOBE_KEYS.map(key => metrics.lobeVolumes[key]);
+
+    expect(lobes.every(ml => ml > 0)).toBe(true);
+    expect(lobes.reduce((sum, ml) => sum + ml, 0)).toBe(metrics.totalVolume);
+    expect(metrics.lobeVolumes.rul + metrics.lobeVolumes.rml + metrics.lobeVolumes.rll)
+      .toBeCloseTo(metrics.lobeVolumes.lul + metrics.lobeVolumes.lll, -2);
+  });
+
+  it('reads the share of lung below -856 HU off the histogram', () => {
+    // Lung is -850 HU with uniform noise of +-30 HU, so 24 of every 60 HU lie below -856
+    expect(metrics.airTrapping).toBeGreaterThan(38);
+    expect(metrics.airTrapping).toBeLessThan(42);
+    // The vessel filled into the right lung raises its mean by a few HU
+    expect(metrics.density?.rightLung.meanHU).toBeCloseTo(-850, -1);
+  });
+
+  it('records provenance and passes quality control', () => {
+    expect(metrics.provenance?.lobeVolumes?.measured).toBe(true);
+    expect(metrics.qc?.blocking).toBe(false);
+  });
+});
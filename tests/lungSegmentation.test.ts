@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { LungLabel } from '../types';
+import { segmentLungs } from '../services/lungSegmentation';
+import { voxelVolumeMl } from '../services/volumeUtils';
+import { makePhantom, phantomLungMl, PHANTOM_DIMENSIONS } from './phantom';
+
+const meanI = (labels: Uint8Array, label: LungLabel) => {
+  const [nx] = PHANTOM_DIMENSIONS;
+  let sum = 0, count = 0;
+  for (let p = 0; p < labels.length; p++) {
+    if (labels[p] === label) { sum += p % nx; count++; }
+  }
+  return sum / count;
+};
+
+// Segmenting the phantom takes a second or two, so the tests share one run
+const segmentation = segmentLungs(makePhantom());
+
+describe('segmentLungs', () => {
+  it('separates the phantom lungs as components and measures their volume', () => {
+    const ml = voxelVolumeMl(segmentation.spacing);
+
+    expect(segmentation.lungSeparation).toBe('components');
+    expect(segmentation.voxelCounts.rightLung * ml).toBeCloseTo(phantomLungMl(), -1);
+    expect(segmentation.voxelCounts.leftLung * ml).toBeCloseTo(phantomLungMl(), -1);
+    // Canonical LPS: i runs towards patient left, so the right lung has the smaller i
+    expect(meanI(segmentation.labels, LungLabel.RIGHT_LUNG)).toBeLessThan(meanI(segmentation.labels, LungLabel.LEFT_LUNG));
+  });
+
+  it('grows the trachea and main bronchi from the top slice and keeps them out of the lungs', () => {
+    expect(segmentation.tracheaSeed).toEqual([80, 70, PHANTOM_DIMENSIONS[2] - 1]);
+    expect(segmentation.airwayThreshold).not.toBeNull();
+    expect(segmentation.voxelCounts.airway).toBeGreaterThan(1000);
+    const [nx, ny] = PHANTOM_DIMENSIONS;
+    expect(segmentation.labels[80 + 70 * nx + 100 * nx * ny]).toBe(LungLabel.AIRWAY);
+  });
+
+  it('fills the vessel running through the right lung', () => {
+    const [nx, ny] = PHANTOM_DIMENSIONS;
+
+    expect(segmentation.labels[50 + 85 * nx + 55 * nx * ny]).toBe(LungLabel.RIGHT_LUNG);
+  });
+
+  it('splits touching lungs at the midline', () => {
+    const touching = segmentLungs(makePhantom({ gap: 21 }));
+    const { rightLung, leftLung } = touching.voxelCounts;
+
+    expect(touching.lungSeparation).toBe('midline');
+    expect(rightLung).toBeGreaterThan(0);
+    expect(Math.abs(rightLung - leftLung) / leftLung).toBeLessThan(0.02);
+  });
+
+  it('is deterministic', () => {
+    const again = segmentLungs(makePhantom());
+
+    expect(again.voxelCounts).toEqual(segmentation.voxelCounts);
+    expect(Buffer.from(again.labels).equals(Buffer.from(segmentation.labels))).toBe(true);
+  });
+
+  it('rejects a volume with no aerated lung', () => {
+    const volume = makePhantom();
+    volume.data.fill(40);
+
+    expect(() => segmentLungs(volume)).toThrow(/No aerated lung tissue/);
+  });
+});
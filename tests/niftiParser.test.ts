@@ -0,0 +1,103 @@
+import { gzipSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { isNiftiFileName, parseNifti } from '../services/niftiParser';
+
+const DIMS = [2, 3, 4];
+const COUNT = DIMS[0] * DIMS[1] * DIMS[2];
+const INT16 = 4;
+
+interface NiftiOptions {
+  version: 1 | 2;
+  dims?: number[]; // dim[0..7]
+  srow?: number[][]; // Sets an sform in place of the identity qform
+}
+
+/** Little endian int16 image holding 0, 1, 2... with scl_inter -1024 and RAS offset (10, 20, 30). */
+const makeNifti = ({ version, dims = [3, ...DIMS, 1, 1, 1, 1], srow }: NiftiOptions) => {
+  const headerSize = version === 1 ? 348 : 540;
+  const voxOffset = headerSize + 4;
+  const buffer = new ArrayBuffer(voxOffset + COUNT * 2);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const pixdim = [1, 0.5, 0.5, 2, 0, 0, 0, 0];
+  view.setInt32(0, headerSize, true);
+
+  if (version === 1) {
+    dims.forEach((d, n) => view.setInt16(40 + n * 2, d, true));
+    view.setInt16(70, INT16, true);
+    view.setInt16(72, 16, true);
+    pixdim.forEach((d, n) => view.setFloat32(76 + n * 4, d, true));
+    view.setFloat32(108, voxOffset, true);
+    view.setFloat32(112, 1, true);
+    view.setFloat32(116, -1024, true);
+    view.setInt16(252, 1, true); // qform_code: identity quaternion
+    [10, 20, 30].forEach((d, n) => view.setFloat32(268 + n * 4, d, true));
+    bytes[123] = 2; // xyzt_units: mm
+    bytes.set(new TextEncoder().encode('n+1\0'), 344);
+  } else {
+    bytes.set(new TextEncoder().encode('n+2\0\r\n\x1a\n'), 4);
+    view.setInt16(12, INT16, true);
+    dims.forEach((d, n) => view.setBigInt64(16 + n * 8, BigInt(d), true));
+    pixdim.forEach((d, n) => view.setFloat64(104 + n * 8, d, true));
+    view.setBigInt64(168, BigInt(voxOffset), true);
+    view.setFloat64(176, 1, true);
+    view.setFloat64(184, -1024, true);
+    view.setInt32(344, 1, true); // qform_code
+    [10, 20, 30].forEach((d, n) => view.setFloat64(376 + n * 8, d, true));
+    if (srow) {
+      view.setInt32(348, 2, true); // sform_code
+      srow.forEach((row, r) => row.forEach((v, c) => view.setFloat64(400 + r * 32 + c * 8, v, true)));
+    }
+    view.setInt32(500, 2, true);
+  }
+  for (let n = 0; n < COUNT; n++) view.setInt16(voxOffset + n * 2, n, true);
+  return buffer;
+};
+
+const gzip = (buffer: ArrayBuffer) => {
+  const zipped = gzipSync(new Uint8Array(buffer));
+  return zipped.buffer.slice(zipped.byteOffset, zipped.byteOffset + zipped.byteLength);
+};
+
+describe('parseNifti', () => {
+  it.each([
+    ['NIfTI-1', false],
+    ['gzipped NIfTI-1', true],
+  ])('reorients a %s qform image from RAS into canonical LPS', async (_, zipped) => {
+    const buffer = makeNifti({ version: 1 });
+    const volume = await parseNifti(zipped ? gzip(buffer) : buffer, zipped ? 'scan.nii.gz' : 'scan.nii');
+
+    expect(volume.dimensions).toEqual(DIMS);
+    expect(volume.spacing).toEqual([0.5, 0.5, 2]);
+    expect(volume.direction.map(v => v + 0)).toEqual([1, 0, 0, 0, 1, 0, 0, 0, 1]); // + 0 folds -0 into 0
+    // RAS i and j run towards patient right and anterior, so both axes flip:
+    // canonical voxel (0, 0, 0) is stored voxel (1, 2, 0)
+    expect(volume.origin).toEqual([-10.5, -21, 30]);
+    expect(volume.data[0]).toBe(1 + 2 * DIMS[0] - 1024);
+    expect(volume.metadata.description).toBe('scan');
+  });
+
+  it('prefers the sform of a NIfTI-2 image', async () => {
+    const srow = [[-0.5, 0, 0, 5], [0, 0.5, 0, 6], [0, 0, 2, 7]];
+    const volume = await parseNifti(gzip(makeNifti({ version: 2, srow })), 'scan.nii.gz');
+
+    // i already runs towards patient left; only j flips
+    expect(volume.origin).toEqual([-5, -7, 7]);
+    expect(volume.data[0]).toBe(2 * DIMS[0] - 1024);
+    expect(volume.spacing).toEqual([0.5, 0.5, 2]);
+  });
+
+  it('rejects 4D images', async () => {
+    await expect(parseNifti(makeNifti({ version: 1, dims: [4, ...DIMS, 2, 1, 1, 1] }), 'fmri.nii')).rejects.toThrow(/4D NIfTI/);
+  });
+
+  it('rejects files that are not NIfTI', async () => {
+    await expect(parseNifti(new ArrayBuffer(400), 'bad.nii')).rejects.toThrow(/^bad\.nii: /);
+  });
+});
+
+describe('isNiftiFileName', () => {
+  it('accepts .nii and .nii.gz in any case', () => {
+    expect(['a.nii', 'b.NII.GZ', 'c.nii.gz.bak', 'd.dcm'].map(isNiftiFileName)).toEqual([true, true, false, false]);
+  });
+});
@@ -0,0 +1,82 @@
+import { CTVolume, Vec3 } from "../types";
+
+export interface PhantomOptions {
+  gap?: number;        // Voxels from the midline to each lung centre; lungs touch below ~22
+  emphysema?: boolean; // Adds a -990 HU bulla to the upper left lung
+  airOffset?: number;  // Added to every voxel, as a mis-calibrated scanner would
+  fissure?: boolean;   // Adds a -700 HU oblique fissure sheet through the left lung
+}
+
+// Grid of the phantom: 2 x 2 x 2.5 mm voxels in canonical LPS order
+export const PHANTOM_DIMENSIONS: Vec3 = [160, 160, 120];
+export const PHANTOM_SPACING: Vec3 = [2, 2, 2.5];
+// Semi-axes (voxels) of each ellipsoidal lung
+export const PHANTOM_LUNG_RADII: Vec3 = [22, 35, 45];
+export const PHANTOM_LUNG_HU = -850;
+export const PHANTOM_BULLA_CENTRE: Vec3 = [110, 75, 80];
+
+/** Height (voxel k) of the left oblique fissure sheet at row j: rising towards the back, as in a real lung. */
+export const phantomFissureK = (j: number) => 24 + 0.5 * (j - 46);
+
+/** Analytic volume (mL) of one phantom lung. */
+export const phantomLungMl = () => {
+  const [a, b, c] = PHANTOM_LUNG_RADII;
+  const [si, sj, sk] = PHANTOM_SPACING;
+  return ((4 / 3) * Math.PI * a * si * b * sj * c * sk) / 1000;
+};
+
+/**
+ * Synthetic chest CT: an elliptical soft-tissue body in air holding two ellipsoidal
+ * lungs (right at smaller i), a trachea entering from the top slice, the main bronchi
+ * and a vessel through the right lung. Lung noise comes from a seeded generator, so
+ * every call returns the same volume.
+ */
+export const makePhantom = ({ gap = 30, emphysema = false, airOffset = 0, fissure = false }: PhantomOptions = {}): CTVolume => {
+  const [nx, ny, nz] = PHANTOM_DIMENSIONS;
+  const [rx, ry, rz] = PHANTOM_LUNG_RADII;
+  const data = new Int16Array(nx * ny * nz);
+  let seed = 12345;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return seed / 0x7fffffff;
+  };
+  const lungCentres: Vec3[] = [[80 - gap, 80, 55], [80 + gap, 80, 55]];
+
+  for (let k = 0; k < nz; k++) {
+    for (let j = 0; j < ny; j++) {
+      for (let i = 0; i < nx; i++) {
+        let hu = ((i - 80) / 70) ** 2 + ((j - 80) / 55) ** 2 < 1 ? 40 : -1000;
+        for (const [ci, cj, ck] of lungCentres) {
+          if (((i - ci) / rx) ** 2 + ((j - cj) / ry) ** 2 + ((k - ck) / rz) ** 2 < 1) {
+            hu = PHANTOM_LUNG_HU + Math.round((random() - 0.5) * 60);
+            if (fissure && ci > 80 && Math.abs(k - phantomFissureK(j)) <= 1) hu = -700;
+          }
+        }
+        if (k >= 72 && (i - 80) ** 2 + (j - 70) ** 2 < 25) hu = -1000;
+        // Main bronchi run from the carina (k = 72) towards each lung centre
+        const t = (72 - k) / 10;
+        if (t >= 0 && t <= 1) {
+          for (const side of [-1, 1]) {
+            if ((i - (80 + side * gap * t * 0.8)) ** 2 + (j - (70 + 10 * t)) ** 2 < 9) hu = -1000;
+          }
+        }
+        if ((i - (80 - gap)) ** 2 + (j - 85) ** 2 < 4 && k > 30 && k < 80) hu = 40;
+        if (emphysema) {
+          const [bi, bj, bk] = PHANTOM_BULLA_CENTRE;
+          if ((i - bi) ** 2 + (j - bj) ** 2 + (k - bk) ** 2 < 36) hu = -990;
+        }
+        data[i + j * nx + k * nx * ny] = hu + airOffset;
+      }
+    }
+  }
+
+  return {
+    id: 'phantom',
+    dimensions: [nx, ny, nz],
+    spacing: [...PHANTOM_SPACING],
+    origin: [-160, -160, -150],
+    direction: [1, 0, 0, 0, 1, 0, 0, 0, 1],
+    data,
+    metadata: { source: 'nifti', description: 'Synthetic phantom', sliceThickness: PHANTOM_SPACING[2] },
+  };
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { CTVolume, QCCheckKey } from '../types';
+import { runLungAnalysis } from '../services/analysisPipeline';
+import { segmentLungs } from '../services/lungSegmentation';
+import { assessImageQuality, QualityGateError } from '../services/qualityControl';
+import { createAnalysisVolume } from '../services/volumeUtils';
+import { makePhantom, PHANTOM_DIMENSIONS } from './phantom';
+
+const assess = (volume: CTVolume) => {
+  const analysisVolume = createAnalysisVolume(volume);
+  return assessImageQuality(volume, analysisVolume, segmentLungs(analysisVolume));
+};
+
+const check = (volume: CTVolume, key: QCCheckKey) => assess(volume).checks.find(c => c.key === key)!;
+
+describe('assessImageQuality', () => {
+  it('passes the phantom apart from its coarse pixels', () => {
+    const report = assess(makePhantom());
+
+    expect(report.blocking).toBe(false);
+    // 2 mm pixels are coarser than the 1 mm a densitometry protocol asks for
+    expect(report.checks.filter(c => c.severity !== 'pass').map(c => c.key)).toEqual(['sliceSpacing']);
+  });
+
+  it('reads the HU calibration off the air outside the body', () => {
+    const calibration = check(makePhantom({ airOffset: 100 }), 'huCalibration');
+
+    expect(calibration.severity).toBe('warning');
+    expect(calibration.measured).toBe(-900);
+    expect(calibration.units).toMatch(/outside the body/);
+  });
+
+  it('fails a scan whose air is far from -1000 HU', () => {
+    expect(check(makePhantom({ airOffset: 200 }), 'huCalibration').severity).toBe('fail');
+  });
+
+  it('ignores padding outside a circular field of view', () => {
+    const volume = makePhantom();
+    const [nx, ny, nz] = PHANTOM_DIMENSIONS;
+    for (let k = 0; k < nz; k++) {
+      for (let j = 0; j < ny; j++) {
+        for (let i = 0; i < nx; i++) {
+          if ((i - 80) ** 2 + (j - 80) ** 2 > 78 ** 2) volume.data[i + j * nx + k * nx * ny] = -3024;
+        }
+      }
+    }
+    const calibration = check(volume, 'huCalibration');
+
+    expect(calibration.severity).toBe('pass');
+    expect(calibration.measured).toBe(-1000);
+  });
+
+  it('flags lungs cut off by the scan range', () => {
+    const volume = makePhantom();
+    const [nx, ny, nz] = PHANTOM_DIMENSIONS;
+    const cut = 30;
+    const truncated = { ...volume, dimensions: [nx, ny, nz - cut] as CTVolume['dimensions'], data: volume.data.slice(0, nx * ny * (nz - cut)) };
+
+    expect(check(truncated, 'coverage').severity).toBe('fail');
+  });
+
+  it('stops the pipeline before any metric is measured', async () => {
+    await expect(runLungAnalysis(makePhantom({ airOffset: 200 }))).rejects.toBeInstanceOf(QualityGateError);
+  });
+});
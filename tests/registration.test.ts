@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { CTVolume, LungLabel, Vec3 } from '../types';
+import {
+  applyTransform, invertTransform, mapFixedToMoving, mapMovingToFixed, registerScans, RegistrationInput, volumeChangeAtVertices
+} from '../services/registration';
+import { segmentLungs } from '../services/lungSegmentation';
+import { buildSurfaceMesh } from '../services/surfaceMesh';
+import { createAnalysisVolume, voxelToPatient } from '../services/volumeUtils';
+import { makePhantom } from './phantom';
+
+const input = (volume: CTVolume): RegistrationInput => {
+  const analysisVolume = createAnalysisVolume(volume);
+  return { volume: analysisVolume, segmentation: segmentLungs(analysisVolume) };
+};
+
+const distance = (a: Vec3, b: Vec3) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+// The same phantom moved 6 mm left, 4 mm anterior and 5 mm up in the moving scan,
+// registered once for the tests below
+const shift: Vec3 = [6, -4, 5];
+const fixed = input(makePhantom());
+const movedVolume = makePhantom();
+movedVolume.origin = movedVolume.origin.map((v, a) => v + shift[a]) as Vec3;
+const stages: string[] = [];
+const registration = await registerScans(fixed, input(movedVolume), stage => { stages.push(stage); });
+
+describe('affine transforms', () => {
+  it('invert back to the identity', () => {
+    const m = [1.1, 0.2, 0, 5, -0.1, 0.9, 0.05, -3, 0, 0.1, 1.2, 7];
+    const p: Vec3 = [12, -40, 33];
+
+    applyTransform(invertTransform(m), applyTransform(m, p)).forEach((v, a) => expect(v).toBeCloseTo(p[a], 9));
+  });
+
+  it('refuse to invert a singular transform', () => {
+    expect(() => invertTransform([1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0])).toThrow(/singular/);
+  });
+});
+
+describe('registerScans', () => {
+  it('runs the rigid, affine and demons stages in order', () => {
+    expect(stages).toEqual(['rigid', 'affine', 'demons']);
+  });
+
+  it('recovers a shift of the whole scan', () => {
+    const centre = voxelToPatient(fixed.volume, 110, 80, 55);
+    const expected = centre.map((v, a) => v + shift[a]) as Vec3;
+
+    expect(distance(applyTransform(registration.rigid, centre), expected)).toBeLessThan(1);
+    expect(distance(mapFixedToMoving(registration, centre), expected)).toBeLessThan(1);
+    expect(registration.dice).toBeGreaterThan(0.95);
+    expect(registration.stageErrorHU.rigid).toBeLessThan(1);
+  });
+
+  it('maps moving positions back onto the fixed scan', () => {
+    const p = voxelToPatient(fixed.volume, 50, 70, 40);
+
+    expect(distance(mapMovingToFixed(registration, mapFixedToMoving(registration, p)), p)).toBeLessThan(0.1);
+  });
+
+  it('finds no volume change when the lungs only move', () => {
+    const mask = fixed.segmentation.labels.map(v => (v === LungLabel.LEFT_LUNG ? 1 : 0));
+    const change = volumeChangeAtVertices(registration, buildSurfaceMesh(mask, fixed.segmentation)!);
+    const meanChange = change.reduce((sum, v) => sum + Math.abs(v), 0) / change.length;
+
+    expect(meanChange).toBeLessThan(0.05);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { DeformableRegistration, LungLabel, VolumeGrid } from '../types';
+import { segmentLobes } from '../services/lobeSegmentation';
+import { segmentLungs } from '../services/lungSegmentation';
+import { IDENTITY_TRANSFORM } from '../services/registration';
+import { buildSurfaceMesh } from '../services/surfaceMesh';
+import { analyzeVentilation, MAX_STIFFNESS, REFERENCE_VENTILATION, stiffnessAtVertices, stiffnessFromVentilation } from '../services/ventilation';
+import { createAnalysisVolume } from '../services/volumeUtils';
+import { makePhantom, PHANTOM_DIMENSIONS, PHANTOM_SPACING } from './phantom';
+
+const analysisVolume = createAnalysisVolume(makePhantom());
+const segmentation = segmentLungs(analysisVolume);
+const lobes = segmentLobes(analysisVolume, segmentation);
+
+/**
+ * A registration whose Jacobian runs linearly from `base` at the bottom slice of
+ * the phantom to `apex` at the top, on a 2 x 2 x 2 grid spanning the whole scan.
+ */
+const registrationWithJacobian = (base: number, apex: number): DeformableRegistration => {
+  const grid: VolumeGrid = {
+    dimensions: [2, 2, 2],
+    spacing: PHANTOM_DIMENSIONS.map((n, a) => (n - 1) * PHANTOM_SPACING[a]) as VolumeGrid['spacing'],
+    origin: segmentation.origin,
+    direction: segmentation.direction,
+  };
+  return {
+    method: 'test',
+    rigid: IDENTITY_TRANSFORM,
+    affine: IDENTITY_TRANSFORM,
+    displacement: { ...grid, vectors: new Float32Array(3 * 8) },
+    jacobian: { ...grid, values: new Float32Array([base, base, base, base, apex, apex, apex, apex]) },
+    stageErrorHU: { rigid: 0, affine: 0, demons: 0 },
+    dice: 1,
+  };
+};
+
+describe('stiffnessFromVentilation', () => {
+  it('scores 0 at the reference ventilation and 10 with no volume change', () => {
+    expect(stiffnessFromVentilation(REFERENCE_VENTILATION)).toBe(0);
+    expect(stiffnessFromVentilation(0.8)).toBe(0);
+    expect(stiffnessFromVentilation(REFERENCE_VENTILATION / 2)).toBe(5);
+    expect(stiffnessFromVentilation(0)).toBe(MAX_STIFFNESS);
+    expect(stiffnessFromVentilation(-0.1)).toBe(MAX_STIFFNESS);
+  });
+});
+
+describe('analyzeVentilation', () => {
+  it('reads ventilation as one minus the mean Jacobian', () => {
+    const { ventilation, stiffness } = analyzeVentilation(segmentation, lobes, registrationWithJacobian(0.75, 0.75));
+
+    expect(ventilation.wholeLung).toBe(0.25);
+    expect(Object.values(ventilation.lobes)).toEqual([0.25, 0.25, 0.25, 0.25, 0.25]);
+    expect(stiffness.wholeLung).toBe(5);
+  });
+
+  it('scores lower lobes that empty more as less stiff', () => {
+    const { ventilation, stiffness } = analyzeVentilation(segmentation, lobes, registrationWithJacobian(0.5, 1));
+
+    expect(ventilation.lobes.rll).toBeGreaterThan(ventilation.lobes.rul);
+    expect(stiffness.lobes.rll).toBeLessThan(stiffness.lobes.rml);
+    expect(stiffness.lobes.rml).toBeLessThan(stiffness.lobes.rul);
+    expect(stiffness.lobes.lll).toBeLessThan(stiffness.lobes.lul);
+  });
+});
+
+describe('stiffnessAtVertices', () => {
+  it('colours each vertex by the lobe under it', () => {
+    const mask = segmentation.labels.map(v => (v === LungLabel.LEFT_LUNG ? 1 : 0));
+    const mesh = buildSurfaceMesh(mask, segmentation)!;
+    const values = Array.from(stiffnessAtVertices(lobes, { rul: 1, rml: 2, rll: 3, lul: 4, lll: 6 }, 5, mesh), v => Math.round(v * 10) / 10);
+
+    expect(new Set(values)).toEqual(new Set([0.4, 0.5, 0.6]));
+    // Only the few vertices with no lobe within reach take the whole-lung value
+    expect(values.filter(v => v === 0.5).length).toBeLessThan(values.length * 0.05);
+    // The topmost vertex sits on the upper lobe
+    let top = 0;
+    for (let v = 1; v < values.length; v++) if (mesh.positions[v * 3 + 2] > mesh.positions[top * 3 + 2]) top = v;
+    expect(values[top]).toBe(0.4);
+  });
+});
@@ -20,10 +20,33 @@ export interface VisualizationLayers {
   pleura: boolean;        // Outer membrane
   airflow: boolean;       // Particle flow animation
   fibrosisMap: boolean;   // Heatmap overlay
+  volumeChange: boolean;  // Regional volume change since baseline
   motion: boolean;        // Breathing expansion
+  slicePlanes: boolean;   // CT slices on movable orthogonal planes
   pathology?: boolean;     // Detected features (e.g. arrows/highlights)
 }
 
+// How the 3D view draws the lungs: segmented surface meshes or the ray-marched CT volume
+export type RenderMode = 'surface' | 'volume';
+
+export type TransferFunctionPreset = 'parenchyma' | 'airways' | 'emphysema';
+
+export interface TransferFunctionPoint {
+  hu: number;
+  color: Vec3;      // RGB 0-255
+  opacity: number;  // 0-1, accumulated over 1 cm of tissue
+}
+
+/**
+ * Colour and opacity of lung voxels by attenuation (linear between points) for
+ * volume rendering; airway lumen voxels are drawn with their own colour instead.
+ */
+export interface TransferFunction {
+  preset: TransferFunctionPreset; // Preset the points started from
+  points: TransferFunctionPoint[]; // Sorted by HU
+  airway: { color: Vec3; opacity: number };
+}
+
 export interface LungMetrics {
   totalVolume: number; // in mL
   expansionRatio: number; // 0.0 to 1.0 (during inspiration)
@@ -36,6 +59,58 @@ export interface LungMetrics {
     lul: number; // Left Upper Lobe
     lll: number; // Left Lower Lobe
   };
+  provenance?: Partial<Record<MetricKey, MetricProvenance>>; // Absent for legacy / mock data
+  density?: LungDensityBreakdown;
+  gasTrappingLobes?: Record<LobeKey, number>; // % below -856 HU on expiration; paired scans only
+  stiffnessLobes?: Record<LobeKey, number>;   // Stiffness index per lobe; paired scans only
+  qc?: QCReport; // Image quality checks of the scans the metrics came from
+}
+
+export type MetricKey = 'totalVolume' | 'expansionRatio' | 'stiffnessIndex' | 'airTrapping' | 'lobeVolumes';
+
+export type LobeKey = keyof LungMetrics['lobeVolumes'];
+
+// Where a metric value came from, shown in the doctor view
+export interface MetricProvenance {
+  algorithm: string;    // Stable identifier with version, e.g. "lung-voxel-count/1"
+  description: string;  // One-line explanation of the method
+  units: string;
+  measured: boolean;    // false when the value is a placeholder because required input is missing
+}
+
+export type QCSeverity = 'pass' | 'warning' | 'fail';
+
+export type QCCheckKey =
+  | 'sliceThickness' | 'sliceSpacing' | 'coverage' | 'missingSlices' | 'contrast' | 'motion' | 'huCalibration';
+
+// One image quality check of one scan
+export interface QCCheck {
+  key: QCCheckKey;
+  scan: 'inspiratory' | 'expiratory';
+  label: string;
+  severity: QCSeverity;
+  measured: number | null; // null when the input needed for the check is missing
+  units: string;
+  detail: string;          // What was found, in one line
+  affects: MetricKey[];    // Metrics the check bears on; warnings are shown beside them
+}
+
+export interface QCReport {
+  checks: QCCheck[];
+  blocking: boolean; // A check failed, so no metrics are produced from the scan
+}
+
+export interface RegionDensity {
+  volumeMl: number;
+  meanHU: number;
+  percentBelow856: number; // % of voxels below -856 HU
+  percentBelow950: number; // % of voxels below -950 HU
+}
+
+export interface LungDensityBreakdown {
+  rightLung: RegionDensity;
+  leftLung: RegionDensity;
+  lobes: Record<LobeKey, RegionDensity>;
 }
 
 export interface TimePoint {
@@ -45,6 +120,49 @@ export interface TimePoint {
   metrics: LungMetrics;
   scanImage: string; // Placeholder URL
   analysisStatus: 'pending' | 'processing' | 'completed';
+  series?: {
+    inspiratory: ScanSeriesRef;
+    expiratory?: ScanSeriesRef; // Present once a paired expiratory scan has been analysed
+  };
+  measurements?: Measurement[]; // Made in the 3D view on this timepoint's scan
+  annotations?: Annotation[];   // Clinician pins on this timepoint's scan, including ones carried from others
+}
+
+/** Free-text note pinned to the lung surface, in patient LPS millimetres. */
+export interface Annotation {
+  id: string;
+  position: Vec3;
+  text: string;
+  author: string;
+  createdAt: string; // ISO timestamp
+  // Set on copies mapped through a registration from a pin on another timepoint
+  carriedFrom?: {
+    timePointId: string;
+    timePointLabel: string;
+    annotationId: string;
+  };
+}
+
+export type MeasurementKind = 'distance' | 'angle' | 'sphere';
+
+/**
+ * A measurement placed on the 3D model, in patient LPS millimetres. Distances have
+ * two points, angles three (vertex in the middle), sphere ROIs a centre and a rim point.
+ */
+export interface Measurement {
+  id: string;
+  kind: MeasurementKind;
+  label: string;     // e.g. "D1", "A2", "R1"
+  points: Vec3[];
+  value: number;     // mm, degrees, or mL of lung enclosed by the sphere
+  meanHU?: number;   // Sphere ROIs: mean attenuation of the enclosed lung
+  createdAt: string; // ISO timestamp
+}
+
+// Identifies the scan a timepoint's measurements came from
+export interface ScanSeriesRef {
+  description: string;
+  seriesInstanceUID?: string; // DICOM uploads only
 }
 
 export interface PatientCase {
@@ -56,6 +174,316 @@ export interface PatientCase {
   similarCases: string[]; // IDs of similar cases
 }
 
+export type Vec3 = [number, number, number];
+
+export interface DicomPatientInfo {
+  patientId: string;
+  patientName: string;
+  birthDate: string; // DICOM DA, e.g. "19600214"
+  sex: string;
+}
+
+export interface DicomStudyInfo {
+  studyInstanceUID: string;
+  studyDate: string;
+  studyDescription: string;
+  accessionNumber: string;
+  seriesInstanceUID: string;
+  seriesNumber: number | null;
+  seriesDescription: string;
+  modality: string;
+  frameOfReferenceUID: string;
+}
+
+export interface DicomAcquisitionInfo {
+  kvp: number | null;
+  convolutionKernel: string;
+  contrastBolusAgent: string; // Empty when no contrast was recorded
+}
+
+// One decoded single-frame DICOM Part 10 image
+export interface DicomSlice {
+  fileName: string;
+  transferSyntaxUID: string;
+  sopClassUID: string;
+  sopInstanceUID: string;
+  instanceNumber: number | null;
+  patient: DicomPatientInfo;
+  study: DicomStudyInfo;
+  acquisition: DicomAcquisitionInfo;
+  rows: number;
+  columns: number;
+  bitsAllocated: number;
+  bitsStored: number;
+  pixelRepresentation: number; // 0 = unsigned, 1 = two's complement
+  photometricInterpretation: string;
+  pixelSpacing: [number, number] | null; // [row spacing, column spacing] in mm
+  sliceThickness: number | null; // mm
+  spacingBetweenSlices: number | null; // mm
+  imagePositionPatient: Vec3 | null; // mm, LPS patient coordinates
+  imageOrientationPatient: [number, number, number, number, number, number] | null;
+  rescaleSlope: number;
+  rescaleIntercept: number;
+  pixelData: Int8Array | Uint8Array | Int16Array | Uint16Array; // Stored values, row-major
+}
+
+export interface DicomSeriesGroup {
+  seriesInstanceUID: string;
+  seriesNumber: number | null;
+  description: string;
+  modality: string;
+  patient: DicomPatientInfo;
+  study: DicomStudyInfo;
+  slices: DicomSlice[];
+}
+
+export interface SeriesAssemblyReport {
+  acquiredSlices: number;   // Files that contributed pixel data
+  duplicateSlices: number;  // Slices dropped because another file had the same position
+  missingSlices: number;    // Output slices filled by interpolation across gaps
+  missingSliceIndices: number[]; // k indices (before reorientation) that were interpolated
+  nominalSpacing: number;   // Median distance between neighbouring slices, mm
+  spacingRange: [number, number];
+  unevenSpacing: boolean;   // Neighbour distances vary by more than the tolerance
+  warnings: string[];
+}
+
+export interface SourceInstanceReference {
+  sopClassUID: string;
+  sopInstanceUID: string;
+  position: Vec3 | null;
+}
+
+export interface VolumeMetadata {
+  source: 'dicom' | 'nifti';
+  description: string;
+  patient?: DicomPatientInfo;
+  study?: DicomStudyInfo;
+  acquisition?: DicomAcquisitionInfo;
+  sliceThickness: number | null; // mm
+  sourceInstances?: SourceInstanceReference[]; // DICOM images in acquisition order
+  assembly?: SeriesAssemblyReport;
+}
+
+// Geometry shared by volumes and the label maps derived from them
+export interface VolumeGrid {
+  dimensions: Vec3;      // [nx, ny, nz] voxels
+  spacing: Vec3;         // mm along i, j, k
+  origin: Vec3;          // LPS position (mm) of the centre of voxel (0, 0, 0)
+  direction: number[];   // 3x3, [iAxis, jAxis, kAxis] unit vectors in LPS, 9 values
+}
+
+/**
+ * A CT volume resampled onto a regular grid in Hounsfield units.
+ * Volumes are stored in canonical LPS order: i runs towards patient Left,
+ * j towards Posterior and k towards Superior. Voxel (i, j, k) lives at
+ * data[i + j * nx + k * nx * ny].
+ */
+export interface CTVolume extends VolumeGrid {
+  id: string;
+  data: Int16Array;      // Hounsfield units
+  metadata: VolumeMetadata;
+}
+
+// Voxel labels written by the lung segmentation stage
+export enum LungLabel {
+  BACKGROUND = 0,
+  RIGHT_LUNG = 1,
+  LEFT_LUNG = 2,
+  AIRWAY = 3,
+}
+
+// Voxel labels of the lobe partition; 0 is outside both lungs
+export enum LobeLabel {
+  NONE = 0,
+  RUL = 1,
+  RML = 2,
+  RLL = 3,
+  LUL = 4,
+  LLL = 5,
+}
+
+export type FissureKey = 'rightOblique' | 'rightHorizontal' | 'leftOblique';
+
+export interface LobeSegmentation extends VolumeGrid {
+  labels: Uint8Array; // LobeLabel per voxel
+  method: 'fissure' | 'geometric'; // 'fissure' when at least one fissure was found in the image
+  // Share of lung columns (i, j) where each fissure was seen; 0 where the model was used
+  fissureCoverage: Record<FissureKey, number>;
+}
+
+export interface LungSegmentation extends VolumeGrid {
+  labels: Uint8Array;    // LungLabel per voxel, same layout as CTVolume.data
+  tracheaSeed: Vec3 | null; // Voxel index the airway region growing started from
+  airwayThreshold: number | null; // HU threshold accepted by the airway leak check
+  lungSeparation: 'components' | 'erosion' | 'midline';
+  voxelCounts: {
+    rightLung: number;
+    leftLung: number;
+    airway: number;
+  };
+}
+
+export interface BoundingBox {
+  min: Vec3; // LPS mm
+  max: Vec3;
+}
+
+// A localised abnormality detected in the scan
+export interface LungFinding {
+  id: string;            // Stable within one analysis, e.g. "bulla-1"
+  kind: 'bulla';
+  centroid: Vec3;        // LPS mm
+  volumeMl: number;
+  boundingBox: BoundingBox;
+  maxExtentMm: number;   // Longest side of the bounding box
+  meanHU: number;
+  lung: 'right' | 'left';
+  lobe: LobeKey | null;
+}
+
+export interface EmphysemaAnalysis {
+  thresholdHU: number;   // -950
+  laa: {                 // Low-attenuation area, % of voxels below the threshold
+    wholeLung: number;
+    rightLung: number;
+    leftLung: number;
+    lobes: Record<LobeKey, number>;
+  };
+  minBullaVolumeMl: number;
+  bullae: LungFinding[]; // Largest first
+}
+
+// Block-wise regional score on a coarse grid; geometry refers to block centres
+export interface BlockScoreMap extends VolumeGrid {
+  blockVoxels: Vec3;     // Analysis voxels per block along i, j, k
+  scores: Float32Array;  // 0-1 per block, -1 where the block holds too little lung
+}
+
+export interface FibrosisAnalysis {
+  method: string;        // Short description of how the score is computed
+  attenuationRangeHU: [number, number];
+  haaPercent: {          // High-attenuation area, % of lung voxels inside the range
+    wholeLung: number;
+    lobes: Record<LobeKey, number>;
+  };
+  meanScore: number;     // 0-100, lung-volume weighted
+  map: BlockScoreMap;
+}
+
+// One airway segment between bifurcations; generation 0 is the trachea
+export interface AirwayBranch {
+  id: number;
+  parentId: number | null;
+  generation: number;
+  centerline: Vec3[];   // LPS mm, starting at the parent's bifurcation point
+  diameterMm: number;   // Mean lumen diameter from branch volume / length
+  lengthMm: number;
+  lobe: LobeKey | null; // Lobe supplied by the branch; null when it feeds several lobes
+}
+
+export interface AirwayTree {
+  branches: AirwayBranch[]; // Parents always come before their children
+  maxGeneration: number;
+}
+
+// Indexed triangle mesh in patient LPS millimetres
+export interface SurfaceMesh {
+  positions: Float32Array; // xyz per vertex
+  normals: Float32Array;   // Unit outward normals, xyz per vertex
+  indices: Uint32Array;    // Counter-clockwise when seen from outside
+}
+
+export interface LungSurfaceMeshes {
+  rightLung: SurfaceMesh | null;
+  leftLung: SurfaceMesh | null;
+  lobes: Record<LobeKey, SurfaceMesh | null>;
+}
+
+// Everything the CPU analysis pipeline derives from one uploaded scan
+// Scalar value per voxel of a grid
+export interface ScalarField extends VolumeGrid {
+  values: Float32Array;
+}
+
+// Vector per voxel of a grid, component-planar: vectors[axis * n + v] is the LPS displacement in mm
+// along axis for voxel v of n
+export interface DisplacementField extends VolumeGrid {
+  vectors: Float32Array;
+}
+
+export type RegistrationStage = 'rigid' | 'affine' | 'demons';
+
+// Dense mapping of a fixed scan onto a moving one: rigid, then affine, then demons
+export interface DeformableRegistration {
+  method: string;
+  rigid: number[];   // Row-major 3x4, fixed LPS mm -> moving LPS mm
+  affine: number[];  // Row-major 3x4, fixed LPS mm -> moving LPS mm (includes the rigid stage)
+  // Fixed position + displacement = corresponding moving position, all stages combined
+  displacement: DisplacementField;
+  // Determinant of the mapping's Jacobian: moving volume per unit of fixed volume
+  jacobian: ScalarField;
+  // Mean absolute HU difference over the fixed lungs after each stage
+  stageErrorHU: Record<RegistrationStage, number>;
+  dice: number;      // Lung mask overlap after the full mapping, 0-1
+}
+
+// An earlier scan of the same patient registered onto the current one
+export interface LongitudinalComparison {
+  baseline: LungAnalysisResult;
+  registration: DeformableRegistration; // Fixed = current scan, moving = baseline scan
+}
+
+export interface GasTrappingAnalysis {
+  thresholdHU: number; // -856 on expiration
+  percent: {
+    wholeLung: number;
+    lobes: Record<LobeKey, number>;
+  };
+  // Trapped share per block (0-1), on the inspiratory grid
+  map: BlockScoreMap;
+}
+
+// Regional ventilation read off the inspiratory -> expiratory Jacobian
+export interface VentilationAnalysis {
+  referenceFraction: number; // Volume fraction expelled by compliant lung (stiffness 0)
+  // Fraction of inspiratory volume expelled on expiration, 1 - mean Jacobian
+  ventilation: {
+    wholeLung: number;
+    lobes: Record<LobeKey, number>;
+  };
+  // Jacobian compliance score, 0 (compliant) to 10 (no volume change)
+  stiffness: {
+    wholeLung: number;
+    lobes: Record<LobeKey, number>;
+  };
+}
+
+export interface ExpiratoryAnalysis {
+  volume: CTVolume;
+  analysisVolume: CTVolume;
+  segmentation: LungSegmentation;
+  qc: QCReport;
+  registration: DeformableRegistration; // Fixed = inspiratory scan, moving = expiratory scan
+  gasTrapping: GasTrappingAnalysis;
+  ventilation: VentilationAnalysis;
+  lungVolumeMl: number;
+}
+
+export interface LungAnalysisResult {
+  volume: CTVolume;          // Full-resolution source volume
+  analysisVolume: CTVolume;  // Subsampled grid the analysis stages ran on
+  segmentation: LungSegmentation;
+  lobes: LobeSegmentation;
+  metrics: LungMetrics;
+  meshes: LungSurfaceMeshes;
+  airwayTree: AirwayTree;
+  emphysema: EmphysemaAnalysis;
+  fibrosis: FibrosisAnalysis;
+  expiratory?: ExpiratoryAnalysis;
+  longitudinal?: LongitudinalComparison;
+}
+
 export interface AnalysisResponse {
   summary: string;
   trends: string;
@@ -1,7 +1,25 @@
+/// <reference types="vitest/config" />
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Lists the build's output files in dist/sw.js, so the service worker caches the
+// hashed bundles on install and the app opens offline before they were ever fetched.
+// The list changes with every build, which also makes browsers install the new worker.
+const SW_ASSETS_PLACEHOLDER = 'const BUILD_ASSETS = [];';
+const precacheBuildAssets = (): Plugin => ({
+    name: 'lungscape:precache-build-assets',
+    apply: 'build',
+    writeBundle(options, bundle) {
+        const file = path.join(options.dir!, 'sw.js');
+        const source = fs.readFileSync(file, 'utf8');
+        if (!source.includes(SW_ASSETS_PLACEHOLDER)) throw new Error(`sw.js has no "${SW_ASSETS_PLACEHOLDER}" line to fill in`);
+        const assets = Object.keys(bundle).filter(name => !name.endsWith('.map')).map(name => `/${name}`);
+        fs.writeFileSync(file, source.replace(SW_ASSETS_PLACEHOLDER, `const BUILD_ASSETS = ${JSON.stringify(assets)};`));
+    },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +27,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), precacheBuildAssets()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
@@ -18,6 +36,11 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        include: ['tests/**/*.test.ts'],
+        // Most tests segment a full-size phantom, which takes seconds on one core
+        testTimeout: 30_000,
       }
     };
 });